@@ -39,6 +39,14 @@ const runtimeStack = new RuntimeStack(app, `RuntimeStack-${environment}`, {
   cognitoUserPoolId: authStack.userPool.userPoolId,
   cognitoClientId: authStack.userPoolClient.userPoolClientId,
   appName,
+  mcpServers: process.env.MCP_SERVERS,
+  usageQuotas: process.env.USAGE_QUOTAS,
+  rateLimits: process.env.RATE_LIMITS,
+  connectionLimitPolicy: process.env.CONNECTION_LIMIT_POLICY,
+  embeddingProvider: process.env.EMBEDDING_PROVIDER,
+  indexRolloutStage: process.env.INDEX_ROLLOUT_STAGE
+    ? Number(process.env.INDEX_ROLLOUT_STAGE)
+    : undefined,
 });
 
 // Dependencies
@@ -1,13 +1,20 @@
 import * as apigateway from 'aws-cdk-lib/aws-apigateway';
+import * as cognito from 'aws-cdk-lib/aws-cognito';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
 import { Construct } from 'constructs';
 
 export interface RestApiProps {
   environment: string;
   appName: string;
+  cognitoUserPoolId?: string; // Enables the Cognito authorizer for protected routes
+  adminUsageFunction?: lambda.IFunction;
+  sessionsFunction?: lambda.IFunction;
+  knowledgeFunction?: lambda.IFunction;
 }
 
 export class RestApi extends Construct {
   public readonly restApi: apigateway.RestApi;
+  public readonly authorizer?: apigateway.CognitoUserPoolsAuthorizer;
 
   constructor(scope: Construct, id: string, props: RestApiProps) {
     super(scope, id);
@@ -43,5 +50,83 @@ export class RestApi extends Construct {
     this.restApi.root
       .addResource('health')
       .addMethod('GET', healthMockIntegration);
+
+    if (props.cognitoUserPoolId) {
+      const userPool = cognito.UserPool.fromUserPoolId(
+        this,
+        'UserPool',
+        props.cognitoUserPoolId
+      );
+      this.authorizer = new apigateway.CognitoUserPoolsAuthorizer(
+        this,
+        'CognitoAuthorizer',
+        {
+          cognitoUserPools: [userPool],
+          authorizerName: `${props.appName}-authorizer-${props.environment}`,
+        }
+      );
+    }
+
+    // Conversation history of the signed-in user
+    if (props.sessionsFunction && this.authorizer) {
+      const sessionsIntegration = new apigateway.LambdaIntegration(
+        props.sessionsFunction
+      );
+      const methodOptions: apigateway.MethodOptions = {
+        authorizer: this.authorizer,
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+      };
+
+      const sessions = this.restApi.root.addResource('sessions');
+      sessions.addMethod('GET', sessionsIntegration, methodOptions);
+
+      const session = sessions.addResource('{sessionId}');
+      session.addMethod('PATCH', sessionsIntegration, methodOptions);
+      session.addMethod('DELETE', sessionsIntegration, methodOptions);
+      const messages = session.addResource('messages');
+      messages.addMethod('GET', sessionsIntegration, methodOptions);
+      messages
+        .addResource('{messageId}')
+        .addResource('replies')
+        .addMethod('GET', sessionsIntegration, methodOptions);
+      session
+        .addResource('summary')
+        .addMethod('GET', sessionsIntegration, methodOptions);
+    }
+
+    // Usage report - the handler restricts it to the admin group
+    if (props.adminUsageFunction && this.authorizer) {
+      this.restApi.root
+        .addResource('admin')
+        .addResource('usage')
+        .addMethod(
+          'GET',
+          new apigateway.LambdaIntegration(props.adminUsageFunction),
+          {
+            authorizer: this.authorizer,
+            authorizationType: apigateway.AuthorizationType.COGNITO,
+          }
+        );
+    }
+
+    // Knowledge base documents - the handler restricts them to the admin group
+    if (props.knowledgeFunction && this.authorizer) {
+      const knowledgeIntegration = new apigateway.LambdaIntegration(
+        props.knowledgeFunction
+      );
+      const methodOptions: apigateway.MethodOptions = {
+        authorizer: this.authorizer,
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+      };
+
+      const documents = this.restApi.root
+        .addResource('knowledge')
+        .addResource('documents');
+      documents.addMethod('GET', knowledgeIntegration, methodOptions);
+      documents.addMethod('POST', knowledgeIntegration, methodOptions);
+      documents
+        .addResource('{documentId}')
+        .addMethod('DELETE', knowledgeIntegration, methodOptions);
+    }
   }
 }
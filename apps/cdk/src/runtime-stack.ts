@@ -1,5 +1,10 @@
 import * as path from 'path';
 
+import {
+  DEFAULT_MODEL,
+  MODEL_CATALOG,
+  ModelDefinition,
+} from '@awslambdahackathon/types/models';
 import * as cdk from 'aws-cdk-lib';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import { Construct } from 'constructs';
@@ -12,12 +17,21 @@ interface RuntimeStackProps extends cdk.StackProps {
   appName: string;
   cognitoUserPoolId: string;
   cognitoClientId: string;
+  mcpServers?: string; // JSON array of MCP server configs for the conversation Lambda
+  usageQuotas?: string; // JSON object of token quotas keyed by Cognito group
+  rateLimits?: string; // JSON object of messages per minute keyed by Cognito group
+  connectionLimitPolicy?: string; // 'reject' or 'evict_oldest' once a user has MAX_CONNECTIONS_PER_USER
+  embeddingProvider?: string; // 'bedrock' or 'local' embeddings for the knowledge base
+  indexRolloutStage?: number; // Highest GSI rollout stage to deploy; all stages when unset
 }
 
 export class RuntimeStack extends cdk.Stack {
   public readonly websocketConnectionFunction: cdk.aws_lambda.IFunction;
   public readonly websocketConversationFunction: cdk.aws_lambda.IFunction;
   public readonly llmServiceFunction: cdk.aws_lambda.IFunction;
+  public readonly adminUsageFunction: cdk.aws_lambda.IFunction;
+  public readonly sessionsFunction: cdk.aws_lambda.IFunction;
+  public readonly knowledgeFunction: cdk.aws_lambda.IFunction;
   public readonly websocketApi: cdk.aws_apigatewayv2.WebSocketApi;
   public readonly restApi: cdk.aws_apigateway.RestApi;
   public readonly cloudWatchAlarms: CloudWatchAlarms;
@@ -28,6 +42,11 @@ export class RuntimeStack extends cdk.Stack {
     // Use default app name if not provided
     const appName = props.appName || 'MyAwesomeApp';
 
+    // DynamoDB adds only one GSI per table in each update, so indexes added to
+    // existing tables are numbered by stage and deployed one stage at a time
+    // when upgrading (see docs/CDK.md). New stacks create every stage at once.
+    const indexRolloutStage = props.indexRolloutStage ?? Infinity;
+
     // WebSocket Connections table
     const websocketConnectionsTable = new DatabaseTable(
       this,
@@ -44,6 +63,54 @@ export class RuntimeStack extends cdk.Stack {
       }
     );
 
+    if (indexRolloutStage >= 1) {
+      // Add Global Secondary Index for per-user connection lookups
+      websocketConnectionsTable.table.addGlobalSecondaryIndex({
+        indexName: 'userId-index',
+        partitionKey: {
+          name: 'userId',
+          type: dynamodb.AttributeType.STRING,
+        },
+        sortKey: {
+          name: 'connectedAt',
+          type: dynamodb.AttributeType.STRING,
+        },
+        projectionType: dynamodb.ProjectionType.ALL,
+      });
+    }
+
+    if (indexRolloutStage >= 2) {
+      // Add Global Secondary Index for the connections of a chat session
+      websocketConnectionsTable.table.addGlobalSecondaryIndex({
+        indexName: 'sessionId-index',
+        partitionKey: {
+          name: 'sessionId',
+          type: dynamodb.AttributeType.STRING,
+        },
+        sortKey: {
+          name: 'connectedAt',
+          type: dynamodb.AttributeType.STRING,
+        },
+        projectionType: dynamodb.ProjectionType.ALL,
+      });
+    }
+
+    if (indexRolloutStage >= 3) {
+      // Add Global Secondary Index for status queries, ordered by last activity
+      websocketConnectionsTable.table.addGlobalSecondaryIndex({
+        indexName: 'status-lastActivityAt-index',
+        partitionKey: {
+          name: 'status',
+          type: dynamodb.AttributeType.STRING,
+        },
+        sortKey: {
+          name: 'lastActivityAt',
+          type: dynamodb.AttributeType.STRING,
+        },
+        projectionType: dynamodb.ProjectionType.ALL,
+      });
+    }
+
     // WebSocket Sessions table (separate table for user sessions)
     const websocketSessionsTable = new DatabaseTable(
       this,
@@ -112,6 +179,119 @@ export class RuntimeStack extends cdk.Stack {
       projectionType: dynamodb.ProjectionType.ALL,
     });
 
+    if (indexRolloutStage >= 1) {
+      // Add Global Secondary Index for direct lookups by message id
+      websocketMessagesTable.table.addGlobalSecondaryIndex({
+        indexName: 'messageId-index',
+        partitionKey: {
+          name: 'messageId',
+          type: dynamodb.AttributeType.STRING,
+        },
+        projectionType: dynamodb.ProjectionType.ALL,
+      });
+    }
+
+    if (indexRolloutStage >= 2) {
+      // Add Global Secondary Index for per-type queries in chronological order
+      websocketMessagesTable.table.addGlobalSecondaryIndex({
+        indexName: 'type-index',
+        partitionKey: {
+          name: 'type',
+          type: dynamodb.AttributeType.STRING,
+        },
+        sortKey: {
+          name: 'timestamp',
+          type: dynamodb.AttributeType.STRING,
+        },
+        projectionType: dynamodb.ProjectionType.ALL,
+      });
+    }
+
+    if (indexRolloutStage >= 3) {
+      // Add Global Secondary Index for the replies to a message (threads)
+      websocketMessagesTable.table.addGlobalSecondaryIndex({
+        indexName: 'replyToMessageId-index',
+        partitionKey: {
+          name: 'replyToMessageId',
+          type: dynamodb.AttributeType.STRING,
+        },
+        sortKey: {
+          name: 'timestamp',
+          type: dynamodb.AttributeType.STRING,
+        },
+        projectionType: dynamodb.ProjectionType.ALL,
+      });
+    }
+
+    // Usage ledger - per-user day and session counters
+    const usageTable = new DatabaseTable(this, 'UsageTable', {
+      environment: props.environment,
+      appName: appName,
+      tableName: `${appName}-usage-${props.environment}`,
+      partitionKey: {
+        name: 'pk',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'sk',
+        type: dynamodb.AttributeType.STRING,
+      },
+      timeToLiveAttribute: 'ttl',
+    });
+
+    // Add Global Secondary Index for daily usage reports across users
+    usageTable.table.addGlobalSecondaryIndex({
+      indexName: 'date-index',
+      partitionKey: {
+        name: 'date',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'userId',
+        type: dynamodb.AttributeType.STRING,
+      },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // Message rate limit counters - one short-lived item per user and window
+    const rateLimitTable = new DatabaseTable(this, 'RateLimitTable', {
+      environment: props.environment,
+      appName: appName,
+      tableName: `${appName}-rate-limits-${props.environment}`,
+      partitionKey: {
+        name: 'pk',
+        type: dynamodb.AttributeType.STRING,
+      },
+      timeToLiveAttribute: 'ttl',
+    });
+
+    // Requests to stop a generation - polled by the invocation generating it
+    const cancellationTable = new DatabaseTable(this, 'CancellationTable', {
+      environment: props.environment,
+      appName: appName,
+      tableName: `${appName}-cancellations-${props.environment}`,
+      partitionKey: {
+        name: 'pk',
+        type: dynamodb.AttributeType.STRING,
+      },
+      timeToLiveAttribute: 'ttl',
+    });
+
+    // Knowledge base - document items and their chunks with embeddings
+    const knowledgeTable = new DatabaseTable(this, 'KnowledgeTable', {
+      environment: props.environment,
+      appName: appName,
+      tableName: `${appName}-knowledge-${props.environment}`,
+      partitionKey: {
+        name: 'pk',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'sk',
+        type: dynamodb.AttributeType.STRING,
+      },
+    });
+
     // Create LLM Service Lambda function first (needed for function name reference)
     const llmServiceLambda = new NodeLambda(this, 'LLMServiceFunction', {
       environment: props.environment,
@@ -131,7 +311,7 @@ export class RuntimeStack extends cdk.Stack {
         WEBSOCKET_MESSAGES_TABLE: websocketMessagesTable.table.tableName,
         // Bedrock specific environment variables
         BEDROCK_REGION: props.env?.region || 'us-east-2',
-        DEFAULT_LLM_MODEL: 'nova-micro',
+        DEFAULT_LLM_MODEL: DEFAULT_MODEL,
       },
     });
     this.llmServiceFunction = llmServiceLambda.function;
@@ -145,8 +325,15 @@ export class RuntimeStack extends cdk.Stack {
       WEBSOCKET_CONNECTIONS_TABLE: websocketConnectionsTable.table.tableName,
       WEBSOCKET_SESSIONS_TABLE: websocketSessionsTable.table.tableName,
       WEBSOCKET_MESSAGES_TABLE: websocketMessagesTable.table.tableName,
+      USAGE_TABLE: usageTable.table.tableName,
+      RATE_LIMIT_TABLE: rateLimitTable.table.tableName,
+      CANCELLATION_TABLE: cancellationTable.table.tableName,
+      KNOWLEDGE_TABLE: knowledgeTable.table.tableName,
       // LLM Service
       LLM_FUNCTION_NAME: this.llmServiceFunction.functionName,
+      ...(props.embeddingProvider && {
+        EMBEDDING_PROVIDER: props.embeddingProvider,
+      }),
     };
 
     // WebSocket Connection Lambda function
@@ -180,11 +367,66 @@ export class RuntimeStack extends cdk.Stack {
         ),
         description: 'WebSocket message handler with Post-Connection Auth',
         memorySize: 1024,
-        environmentVariables: commonEnvVars,
+        timeout: cdk.Duration.minutes(2), // Streams LLM responses to the client
+        environmentVariables: {
+          ...commonEnvVars,
+          ...(props.mcpServers && { MCP_SERVERS: props.mcpServers }),
+          ...(props.usageQuotas && { USAGE_QUOTAS: props.usageQuotas }),
+          ...(props.rateLimits && { RATE_LIMITS: props.rateLimits }),
+          ...(props.connectionLimitPolicy && {
+            CONNECTION_LIMIT_POLICY: props.connectionLimitPolicy,
+          }),
+        },
       }
     );
     this.websocketConversationFunction = websocketConversationLambda.function;
 
+    // Admin usage report Lambda function
+    const adminUsageLambda = new NodeLambda(this, 'AdminUsageFunction', {
+      environment: props.environment,
+      appName: appName,
+      entry: path.join(
+        __dirname,
+        '../../../apps/runtime/src/infrastructure/adapters/inbound/api-gateway/rest/usage.ts'
+      ),
+      description: 'Admin token usage report',
+      memorySize: 512,
+      environmentVariables: {
+        ...commonEnvVars,
+        ...(props.usageQuotas && { USAGE_QUOTAS: props.usageQuotas }),
+      },
+    });
+    this.adminUsageFunction = adminUsageLambda.function;
+
+    // Conversation history REST Lambda function
+    const sessionsLambda = new NodeLambda(this, 'SessionsFunction', {
+      environment: props.environment,
+      appName: appName,
+      entry: path.join(
+        __dirname,
+        '../../../apps/runtime/src/infrastructure/adapters/inbound/api-gateway/rest/sessions.ts'
+      ),
+      description: 'Conversation sessions and message history',
+      memorySize: 512,
+      environmentVariables: commonEnvVars,
+    });
+    this.sessionsFunction = sessionsLambda.function;
+
+    // Knowledge base admin REST Lambda function
+    const knowledgeLambda = new NodeLambda(this, 'KnowledgeFunction', {
+      environment: props.environment,
+      appName: appName,
+      entry: path.join(
+        __dirname,
+        '../../../apps/runtime/src/infrastructure/adapters/inbound/api-gateway/rest/knowledge.ts'
+      ),
+      description: 'Knowledge base document ingestion',
+      memorySize: 1024,
+      timeout: cdk.Duration.minutes(2), // Embeds every chunk of a document
+      environmentVariables: commonEnvVars,
+    });
+    this.knowledgeFunction = knowledgeLambda.function;
+
     // Grant DynamoDB permissions to WebSocket functions for all three tables
     websocketConnectionsTable.table.grantReadWriteData(
       this.websocketConnectionFunction
@@ -204,6 +446,16 @@ export class RuntimeStack extends cdk.Stack {
     websocketMessagesTable.table.grantReadWriteData(
       this.websocketConversationFunction
     );
+    websocketSessionsTable.table.grantReadWriteData(this.sessionsFunction);
+    websocketMessagesTable.table.grantReadWriteData(this.sessionsFunction);
+    usageTable.table.grantReadWriteData(this.websocketConversationFunction);
+    usageTable.table.grantReadData(this.adminUsageFunction);
+    rateLimitTable.table.grantReadWriteData(this.websocketConversationFunction);
+    cancellationTable.table.grantReadWriteData(
+      this.websocketConversationFunction
+    );
+    knowledgeTable.table.grantReadWriteData(this.knowledgeFunction);
+    knowledgeTable.table.grantReadData(this.websocketConversationFunction);
 
     // Grant explicit permissions for DynamoDB Query operations on GSI indexes
     const dynamoDBQueryPolicy = new cdk.aws_iam.PolicyStatement({
@@ -220,15 +472,19 @@ export class RuntimeStack extends cdk.Stack {
         websocketConnectionsTable.table.tableArn,
         websocketSessionsTable.table.tableArn,
         websocketMessagesTable.table.tableArn,
+        usageTable.table.tableArn,
         `${websocketConnectionsTable.table.tableArn}/index/*`,
         `${websocketSessionsTable.table.tableArn}/index/*`,
         `${websocketMessagesTable.table.tableArn}/index/*`,
+        `${usageTable.table.tableArn}/index/*`,
       ],
     });
 
     this.websocketConnectionFunction.addToRolePolicy(dynamoDBQueryPolicy);
     this.websocketConversationFunction.addToRolePolicy(dynamoDBQueryPolicy);
     this.llmServiceFunction.addToRolePolicy(dynamoDBQueryPolicy);
+    this.adminUsageFunction.addToRolePolicy(dynamoDBQueryPolicy);
+    this.sessionsFunction.addToRolePolicy(dynamoDBQueryPolicy);
 
     // Grant CloudWatch permissions to all Lambda functions for custom metrics
     const cloudWatchPolicy = new cdk.aws_iam.PolicyStatement({
@@ -240,33 +496,45 @@ export class RuntimeStack extends cdk.Stack {
     this.websocketConnectionFunction.addToRolePolicy(cloudWatchPolicy);
     this.websocketConversationFunction.addToRolePolicy(cloudWatchPolicy);
     this.llmServiceFunction.addToRolePolicy(cloudWatchPolicy);
+    this.adminUsageFunction.addToRolePolicy(cloudWatchPolicy);
+    this.sessionsFunction.addToRolePolicy(cloudWatchPolicy);
+    this.knowledgeFunction.addToRolePolicy(cloudWatchPolicy);
 
-    // Grant Bedrock access to LLM function for Nova models via inference profiles
+    // Grant Bedrock access to every model in the shared catalog
     const bedrockPolicy = new cdk.aws_iam.PolicyStatement({
       effect: cdk.aws_iam.Effect.ALLOW,
       actions: ['bedrock:InvokeModel', 'bedrock:InvokeModelWithResponseStream'],
+      resources: Object.values(MODEL_CATALOG).flatMap(
+        (model: ModelDefinition) =>
+          model.inferenceProfile
+            ? [
+                // Cross-region, system-defined profile - no account ID needed
+                `arn:aws:bedrock:*:*:inference-profile/${model.inferenceProfile.id}`,
+                // The model itself in every region the profile can route to
+                ...model.inferenceProfile.regions.map(
+                  region =>
+                    `arn:aws:bedrock:${region}::foundation-model/${model.bedrockModelId}`
+                ),
+              ]
+            : [
+                `arn:aws:bedrock:${this.region}::foundation-model/${model.bedrockModelId}`,
+              ]
+      ),
+    });
+    this.llmServiceFunction.addToRolePolicy(bedrockPolicy);
+    // Conversation function streams responses from Bedrock directly
+    this.websocketConversationFunction.addToRolePolicy(bedrockPolicy);
+
+    // Documents are embedded on upload and questions before retrieval
+    const embeddingPolicy = new cdk.aws_iam.PolicyStatement({
+      effect: cdk.aws_iam.Effect.ALLOW,
+      actions: ['bedrock:InvokeModel'],
       resources: [
-        // Nova inference profiles (cross-region, system-defined - no account ID needed)
-        `arn:aws:bedrock:*:*:inference-profile/us.amazon.nova-micro-v1:0`,
-        `arn:aws:bedrock:*:*:inference-profile/us.amazon.nova-lite-v1:0`,
-        `arn:aws:bedrock:*:*:inference-profile/us.amazon.nova-pro-v1:0`,
-        // Nova foundation models in all regions where inference profiles can route
-        `arn:aws:bedrock:us-east-1::foundation-model/amazon.nova-micro-v1:0`,
-        `arn:aws:bedrock:us-east-2::foundation-model/amazon.nova-micro-v1:0`,
-        `arn:aws:bedrock:us-west-2::foundation-model/amazon.nova-micro-v1:0`,
-        `arn:aws:bedrock:us-east-1::foundation-model/amazon.nova-lite-v1:0`,
-        `arn:aws:bedrock:us-east-2::foundation-model/amazon.nova-lite-v1:0`,
-        `arn:aws:bedrock:us-west-2::foundation-model/amazon.nova-lite-v1:0`,
-        `arn:aws:bedrock:us-east-1::foundation-model/amazon.nova-pro-v1:0`,
-        `arn:aws:bedrock:us-east-2::foundation-model/amazon.nova-pro-v1:0`,
-        `arn:aws:bedrock:us-west-2::foundation-model/amazon.nova-pro-v1:0`,
-        // Claude models (fallback support - current region only)
-        `arn:aws:bedrock:${this.region}::foundation-model/anthropic.claude-3-haiku-20240307-v1:0`,
-        `arn:aws:bedrock:${this.region}::foundation-model/anthropic.claude-3-sonnet-20240229-v1:0`,
-        `arn:aws:bedrock:${this.region}::foundation-model/anthropic.claude-3-opus-20240229-v1:0`,
+        `arn:aws:bedrock:${this.region}::foundation-model/amazon.titan-embed-text-v2:0`,
       ],
     });
-    this.llmServiceFunction.addToRolePolicy(bedrockPolicy);
+    this.knowledgeFunction.addToRolePolicy(embeddingPolicy);
+    this.websocketConversationFunction.addToRolePolicy(embeddingPolicy);
 
     // Grant Lambda invoke permissions for WebSocket functions to call LLM service
     const lambdaInvokePolicy = new cdk.aws_iam.PolicyStatement({
@@ -280,6 +548,10 @@ export class RuntimeStack extends cdk.Stack {
     const restApi = new RestApi(this, 'RestApi', {
       environment: props.environment,
       appName,
+      cognitoUserPoolId: props.cognitoUserPoolId,
+      adminUsageFunction: this.adminUsageFunction,
+      sessionsFunction: this.sessionsFunction,
+      knowledgeFunction: this.knowledgeFunction,
     });
     this.restApi = restApi.restApi;
     new cdk.CfnOutput(this, 'ApiUrl', {
@@ -305,6 +577,19 @@ export class RuntimeStack extends cdk.Stack {
     (
       this.websocketConversationFunction as cdk.aws_lambda.Function
     ).addEnvironment('WEBSOCKET_ENDPOINT', websocketApi.websocketStage.url);
+    // The shared container validates the WebSocket configuration on start
+    (this.adminUsageFunction as cdk.aws_lambda.Function).addEnvironment(
+      'WEBSOCKET_ENDPOINT',
+      websocketApi.websocketStage.url
+    );
+    (this.sessionsFunction as cdk.aws_lambda.Function).addEnvironment(
+      'WEBSOCKET_ENDPOINT',
+      websocketApi.websocketStage.url
+    );
+    (this.knowledgeFunction as cdk.aws_lambda.Function).addEnvironment(
+      'WEBSOCKET_ENDPOINT',
+      websocketApi.websocketStage.url
+    );
 
     new cdk.CfnOutput(this, 'WebSocketUrl', {
       value: websocketApi.websocketStage.url,
@@ -324,6 +609,7 @@ export class RuntimeStack extends cdk.Stack {
         this.websocketConnectionFunction,
         this.websocketConversationFunction,
         this.llmServiceFunction,
+        this.adminUsageFunction,
       ],
     });
 
@@ -1,4 +1,8 @@
-import { MessageStatus, MessageType } from '@domain/entities/message';
+import {
+  MessageRole,
+  MessageStatus,
+  MessageType,
+} from '@domain/entities/message';
 
 /**
  * DTO for Message entity
@@ -16,6 +20,9 @@ export interface MessageDto {
   /** Message type */
   type: MessageType;
 
+  /** Author role of the message */
+  role: MessageRole;
+
   /** Message status */
   status: MessageStatus;
 
@@ -45,6 +52,9 @@ export interface CreateMessageDto {
   /** Message type (defaults to 'text') */
   type?: MessageType;
 
+  /** Author role (defaults to 'user') */
+  role?: MessageRole;
+
   /** Message status (defaults to 'sent') */
   status?: MessageStatus;
 
@@ -17,7 +17,10 @@ export interface ChatMessageDto {
   /** Message type */
   type: 'text' | 'system' | 'notification';
 
-  /** User ID who sent the message */
+  /** Author role of the message */
+  role: 'user' | 'assistant' | 'system' | 'tool';
+
+  /** User ID who owns the conversation */
   userId: string;
 
   /** Username who sent the message */
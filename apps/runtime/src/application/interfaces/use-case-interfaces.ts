@@ -1,3 +1,11 @@
+import { Message } from '@domain/entities';
+import {
+  MessageChunkHandler,
+  ToolCallHandler,
+  ToolResultHandler,
+} from '@domain/services/chat-service';
+import { LLMModel } from '@domain/services/llm-service';
+
 // Store Connection Use Case
 export interface StoreConnectionUseCase {
   execute(command: {
@@ -38,11 +46,42 @@ export interface SendChatMessageUseCase {
     userId: string;
     sessionId: string;
     connectionId: string;
+    model?: LLMModel;
+    requestId?: string;
+    parentMessageId?: string;
+    editMessageId?: string;
+    replyToMessageId?: string;
+    onChunk?: MessageChunkHandler;
+    onToolCall?: ToolCallHandler;
+    onToolResult?: ToolResultHandler;
+  }): Promise<{
+    success: boolean;
+    error?: string;
+    errorCode?: string;
+    errorDetails?: Record<string, unknown>;
+    message?: Message;
+  }>;
+}
+
+// Regenerate Response Use Case
+export interface RegenerateResponseUseCase {
+  execute(command: {
+    messageId: string;
+    userId: string;
+    sessionId: string;
+    connectionId: string;
+    model?: LLMModel;
+    requestId?: string;
+    onChunk?: MessageChunkHandler;
+    onToolCall?: ToolCallHandler;
+    onToolResult?: ToolResultHandler;
   }): Promise<{
     success: boolean;
     error?: string;
     errorCode?: string;
-    message?: { getContent(): string; getSessionId(): { getValue(): string } };
+    errorDetails?: Record<string, unknown>;
+    message?: Message;
+    prompt?: Message;
   }>;
 }
 
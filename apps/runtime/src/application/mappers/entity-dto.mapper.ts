@@ -76,6 +76,9 @@ export class MessageEntityMapper {
       sessionId: message.getSessionId().getValue(),
       timestamp: message.getCreatedAt().toISOString(),
       type: this.mapMessageType(message.getType()),
+      role: message.getRole(),
+      status: message.getStatus(),
+      replyToMessageId: message.getReplyToMessageId()?.getValue(),
       metadata: message.getMetadata(),
     };
   }
@@ -90,13 +93,18 @@ export class MessageEntityMapper {
  */
 export class SessionEntityMapper {
   static toDto(session: Session): SessionDto {
+    // The summary can be long; clients fetch it on its own when asked
+    const metadata = session.getMetadata();
+    delete metadata.summary;
+
     return {
       id: session.getId().getValue(),
       userId: session.getUserId().getValue(),
       createdAt: session.getCreatedAt().toISOString(),
+      lastActivityAt: session.getLastActivityAt().toISOString(),
       expiresAt: session.getExpiresAt().toISOString(),
       isActive: session.isActive(),
-      metadata: session.getMetadata(),
+      metadata,
     };
   }
 
@@ -1,4 +1,4 @@
-import { Message, MessageType } from '@domain/entities/message';
+import { Message, MessageRole, MessageType } from '@domain/entities/message';
 import { SessionId } from '@domain/value-objects/session-id';
 import { UserId } from '@domain/value-objects/user-id';
 
@@ -23,6 +23,7 @@ export class MessageMapper implements BidirectionalMapper<Message, MessageDto> {
       userId: dto.userId,
       content: dto.content,
       type: dto.type,
+      role: dto.role,
       status: dto.status,
       createdAt: new Date(dto.createdAt),
       sessionId: crypto.randomUUID(), // Default session ID - should be provided in real usage
@@ -39,6 +40,7 @@ export class MessageMapper implements BidirectionalMapper<Message, MessageDto> {
       userId: entity.getUserId().getValue(),
       content: entity.getContent(),
       type: entity.getType(),
+      role: entity.getRole(),
       status: entity.getStatus(),
       createdAt: entity.getCreatedAt().toISOString(),
       updatedAt: entity.getCreatedAt().toISOString(), // Message doesn't have updatedAt, using createdAt
@@ -68,6 +70,10 @@ export class MessageMapper implements BidirectionalMapper<Message, MessageDto> {
     const userId = UserId.create(dto.userId);
     const sessionId = SessionId.generate(); // Generate a new session ID
 
+    if (dto.role === MessageRole.ASSISTANT) {
+      return Message.createAssistantMessage(dto.content, userId, sessionId);
+    }
+
     switch (messageType) {
       case MessageType.TEXT:
         return Message.createTextMessage(dto.content, userId, sessionId);
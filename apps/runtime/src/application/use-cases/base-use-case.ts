@@ -6,6 +6,7 @@ export interface BaseResult {
   success: boolean;
   error?: string;
   errorCode?: string;
+  errorDetails?: Record<string, unknown>;
 }
 
 export abstract class BaseUseCase<
@@ -31,6 +32,7 @@ export abstract class BaseUseCase<
         success: false,
         error: error.message,
         errorCode: error.code,
+        errorDetails: error.details,
       } as TResult;
     }
     if (error instanceof Error) {
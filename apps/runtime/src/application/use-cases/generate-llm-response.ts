@@ -1,5 +1,5 @@
-import { Logger } from '@awslambdahackathon/types';
-import { LLMRequest, LLMService } from '@domain/services/llm-service';
+import { DEFAULT_MODEL, Logger } from '@awslambdahackathon/types';
+import { LLMModel, LLMRequest, LLMService } from '@domain/services/llm-service';
 import { PerformanceMonitoringService } from '@domain/services/performance-monitoring-service';
 
 import { BaseUseCase } from './base-use-case';
@@ -18,6 +18,7 @@ export interface GenerateLLMResponseResult {
     outputTokens: number;
     totalTokens: number;
   };
+  model?: LLMModel;
 }
 
 export class GenerateLLMResponseUseCase extends BaseUseCase<
@@ -88,7 +89,8 @@ export class GenerateLLMResponseUseCase extends BaseUseCase<
         duration,
       });
 
-      // Log performance metrics
+      // Log performance metrics against the model that actually answered
+      const model = llmResponse.model || command.request.model || DEFAULT_MODEL;
       this.performanceMonitoringService.recordBusinessMetric(
         'llm_response_generation_duration',
         duration,
@@ -97,10 +99,10 @@ export class GenerateLLMResponseUseCase extends BaseUseCase<
           messageId: command.request.messageId,
           userId: command.request.userId,
           sessionId: command.request.sessionId,
-          model: command.request.model || 'claude-3-haiku',
+          model,
         },
         [
-          { Name: 'Model', Value: command.request.model || 'claude-3-haiku' },
+          { Name: 'Model', Value: model },
           {
             Name: 'MessageLength',
             Value: command.request.message.length.toString(),
@@ -124,6 +126,7 @@ export class GenerateLLMResponseUseCase extends BaseUseCase<
         success: true,
         response: llmResponse.response,
         usage: llmResponse.usage,
+        model: llmResponse.model,
       };
     } catch (error) {
       const duration = Date.now() - startTime;
@@ -1,3 +1,8 @@
+import {
+  DEFAULT_MODEL,
+  getModelDefinition,
+  isSupportedModel,
+} from '@awslambdahackathon/types';
 import { LLMRequest } from '@domain/services/llm-service';
 
 import { BaseUseCase } from './base-use-case';
@@ -95,21 +100,20 @@ export class ProcessLLMRequestUseCase extends BaseUseCase<
     }
 
     // Validate model if provided
-    if (
-      request.model &&
-      !['claude-3-haiku', 'claude-3-sonnet', 'claude-3-opus'].includes(
-        request.model
-      )
-    ) {
+    if (request.model && !isSupportedModel(request.model)) {
       return { success: false, error: 'invalid model specified' };
     }
 
-    // Validate maxTokens if provided
+    // Validate maxTokens against the model's output limit
+    const { maxTokens } = getModelDefinition(request.model || DEFAULT_MODEL);
     if (
       request.maxTokens &&
-      (request.maxTokens < 1 || request.maxTokens > 4096)
+      (request.maxTokens < 1 || request.maxTokens > maxTokens)
     ) {
-      return { success: false, error: 'maxTokens must be between 1 and 4096' };
+      return {
+        success: false,
+        error: `maxTokens must be between 1 and ${maxTokens}`,
+      };
     }
 
     // Validate temperature if provided
@@ -129,8 +133,10 @@ export class ProcessLLMRequestUseCase extends BaseUseCase<
       userId: request.userId,
       sessionId: request.sessionId,
       message: request.message.trim(),
-      context: request.context?.trim(),
-      model: request.model || 'claude-3-haiku',
+      history: request.history,
+      continuation: request.continuation,
+      tools: request.tools,
+      model: request.model || DEFAULT_MODEL,
       maxTokens: request.maxTokens || 1000,
       temperature: request.temperature || 0.7,
     };
@@ -0,0 +1,92 @@
+import { BaseResult, BaseUseCase } from '@application/use-cases/base-use-case';
+import { Logger } from '@awslambdahackathon/types';
+import { Message } from '@domain/entities/message';
+import {
+  ChatService,
+  MessageChunkHandler,
+  ToolCallHandler,
+  ToolResultHandler,
+} from '@domain/services/chat-service';
+import { LLMModel } from '@domain/services/llm-service';
+import { PerformanceMonitoringService } from '@domain/services/performance-monitoring-service';
+import { SessionId, UserId } from '@domain/value-objects';
+
+interface RegenerateResponseCommand {
+  messageId: string;
+  userId: string;
+  sessionId: string;
+  connectionId: string;
+  model?: LLMModel;
+  requestId?: string;
+  onChunk?: MessageChunkHandler;
+  onToolCall?: ToolCallHandler;
+  onToolResult?: ToolResultHandler;
+}
+
+interface RegenerateResponseResult extends BaseResult {
+  message?: Message;
+  prompt?: Message;
+}
+
+export interface RegenerateResponseUseCase {
+  execute(
+    command: RegenerateResponseCommand
+  ): Promise<RegenerateResponseResult>;
+}
+
+export class RegenerateResponseUseCaseImpl
+  extends BaseUseCase<RegenerateResponseCommand, RegenerateResponseResult>
+  implements RegenerateResponseUseCase
+{
+  constructor(
+    private readonly chatService: ChatService,
+    logger: Logger,
+    performanceMonitor: PerformanceMonitoringService
+  ) {
+    super(logger, performanceMonitor);
+  }
+
+  async execute(
+    command: RegenerateResponseCommand
+  ): Promise<RegenerateResponseResult> {
+    try {
+      this.logger.info('Regenerating response', {
+        messageId: command.messageId,
+        userId: command.userId,
+        sessionId: command.sessionId,
+        connectionId: command.connectionId,
+      });
+
+      const result = await this.chatService.regenerateResponse({
+        messageId: command.messageId,
+        userId: UserId.create(command.userId),
+        sessionId: SessionId.create(command.sessionId),
+        model: command.model,
+        requestId: command.requestId,
+        onChunk: command.onChunk,
+        onToolCall: command.onToolCall,
+        onToolResult: command.onToolResult,
+      });
+
+      this.logger.info('Response regenerated successfully', {
+        replacedMessageId: command.messageId,
+        outputMessageId: result.outputMessage.getId().getValue(),
+        userId: command.userId,
+        sessionId: command.sessionId,
+      });
+
+      return {
+        success: true,
+        message: result.outputMessage,
+        prompt: result.inputMessage,
+      };
+    } catch (error) {
+      return this.handleError(error, {
+        messageId: command.messageId,
+        userId: command.userId,
+        sessionId: command.sessionId,
+        connectionId: command.connectionId,
+      });
+    }
+  }
+}
@@ -2,7 +2,13 @@ import { BaseResult, BaseUseCase } from '@application/use-cases/base-use-case';
 import { Logger } from '@awslambdahackathon/types';
 import { Message } from '@domain/entities/message';
 import { MessageValidationException } from '@domain/errors/domain-errors';
-import { ChatService } from '@domain/services/chat-service';
+import {
+  ChatService,
+  MessageChunkHandler,
+  ToolCallHandler,
+  ToolResultHandler,
+} from '@domain/services/chat-service';
+import { LLMModel } from '@domain/services/llm-service';
 import { PerformanceMonitoringService } from '@domain/services/performance-monitoring-service';
 import { SessionId, UserId } from '@domain/value-objects';
 
@@ -11,6 +17,14 @@ interface SendChatMessageCommand {
   userId: string;
   sessionId: string;
   connectionId: string;
+  model?: LLMModel;
+  requestId?: string;
+  parentMessageId?: string;
+  editMessageId?: string;
+  replyToMessageId?: string;
+  onChunk?: MessageChunkHandler;
+  onToolCall?: ToolCallHandler;
+  onToolResult?: ToolResultHandler;
 }
 
 interface SendChatMessageResult extends BaseResult {
@@ -70,6 +84,14 @@ export class SendChatMessageUseCaseImpl
         content: command.content,
         userId,
         sessionId,
+        model: command.model,
+        requestId: command.requestId,
+        parentMessageId: command.parentMessageId,
+        editMessageId: command.editMessageId,
+        replyToMessageId: command.replyToMessageId,
+        onChunk: command.onChunk,
+        onToolCall: command.onToolCall,
+        onToolResult: command.onToolResult,
       });
 
       this.logger.info('Chat message processed successfully', {
@@ -11,6 +11,8 @@ export const WEBSOCKET_CONSTANTS = {
   ACTIONS: {
     AUTHENTICATE: 'authenticate',
     SEND_MESSAGE: 'sendMessage',
+    REGENERATE: 'regenerate',
+    EDIT_MESSAGE: 'edit_message',
   },
 
   // Event types
@@ -92,6 +94,8 @@ export const METRIC_CONSTANTS = {
     PING: 'ping',
     AUTHENTICATION_SUCCESS: 'authentication_success',
     AUTHENTICATION_FAILURE: 'authentication_failure',
+    RATE_LIMITED: 'rate_limited',
+    CONNECTION_GONE: 'connection_gone',
   },
 
   DIMENSIONS: {
@@ -134,6 +138,140 @@ export const MESSAGE_CONFIG = {
   ID_PREFIX: {
     MESSAGE: 'msg_',
   },
+  CANCELLED_EMPTY_RESPONSE: 'Stopped before a response was generated.',
+} as const;
+
+// Message Delivery Configuration
+export const DELIVERY_CONFIG = {
+  BATCH_SIZE: 10, // Connections posted to concurrently when fanning out
+} as const;
+
+// Conversation History Configuration
+export const CONVERSATION_CONFIG = {
+  CHARS_PER_TOKEN: 4, // Rough estimate used to trim history to a token budget
+} as const;
+
+// Conversation Summary Configuration
+export const SUMMARY_CONFIG = {
+  MODEL: 'nova-micro', // Cheapest catalog model, as for titles
+  MAX_TOKENS: 600,
+  // Share of the history budget left to recent turns after summarizing, so
+  // the next turns fit without summarizing again each time
+  RECENT_BUDGET_RATIO: 0.5,
+  SYSTEM_PROMPT:
+    'Summarize the conversation below so it can be continued without it. ' +
+    'Keep facts, decisions, names, numbers and open questions; drop ' +
+    'greetings and repetition. When an earlier summary is given, merge it ' +
+    'with the later turns. Reply with the summary only.',
+  // Sent as the system prompt of the chat, followed by the summary
+  CONTEXT_PROMPT:
+    'The earlier part of this conversation is summarized below; the ' +
+    'messages that follow continue from it.',
+} as const;
+
+// Knowledge Base Configuration
+export const KNOWLEDGE_CONFIG = {
+  EMBEDDING_PROVIDER: 'bedrock', // 'local' embeds by hashing words, offline
+  EMBEDDING_MODEL_ID: 'amazon.titan-embed-text-v2:0',
+  EMBEDDING_DIMENSIONS: 512, // Titan v2 supports 256, 512 or 1024
+  EMBEDDING_CONCURRENCY: 5, // Titan embeds one text per request
+  CHUNK_SIZE: 1200, // Characters per chunk
+  CHUNK_OVERLAP: 200, // Characters repeated at the start of the next chunk
+  MAX_DOCUMENT_BYTES: 4 * 1024 * 1024, // Stays under the Lambda payload limit
+  TOP_K: 4, // Passages given to the model per message
+  MIN_SCORE: 0.3, // Passages less similar to the question are left out
+  INDEX_REFRESH_INTERVAL: 5 * 60 * 1000, // Reload chunks stored by other Lambdas
+  // Sent as the system prompt of the chat, followed by numbered passages
+  CONTEXT_PROMPT:
+    'Answer from the passages of internal documents below when they are ' +
+    'relevant, and cite them by number, like [1]. Say so when they do not ' +
+    'answer the question.',
+} as const;
+
+// Citation Configuration - sources shown as footnotes of an answer
+export const CITATION_CONFIG = {
+  SNIPPET_LENGTH: 300, // Characters of a passage or tool output shown
+  MARKER_PATTERN: /\[(\d+)\]/g, // [n] refers to the citation numbered n
+} as const;
+
+// Conversation Session Configuration
+export const SESSION_CONFIG = {
+  CONVERSATION_KIND: 'conversation', // metadata.kind of sessions created by chat
+  CONVERSATION_DURATION_MINUTES: 24 * 60, // Matches the message TTL
+  MAX_TITLE_LENGTH: 100,
+  REPLAY_LIMIT: 50, // Most messages replayed to a resuming client
+  TITLE_MODEL: 'nova-micro', // Cheapest catalog model; titles need no reasoning
+  TITLE_MAX_TOKENS: 24,
+  TITLE_EXCERPT_LENGTH: 500, // Characters of each turn shown to the title model
+  TITLE_SYSTEM_PROMPT:
+    'Write a short title of at most six words for the conversation below. ' +
+    'Reply with the title only, without quotes or punctuation at the end.',
+} as const;
+
+// Thread Configuration
+export const THREAD_CONFIG = {
+  // Sent as the system prompt, followed by the answer the thread is about
+  FOCUS_SYSTEM_PROMPT:
+    'The user is asking a follow-up question about one of your earlier ' +
+    'answers, quoted below. Focus your reply on that answer.',
+} as const;
+
+// Usage Quota Configuration (per Cognito group; an omitted limit is unlimited)
+export const USAGE_CONFIG = {
+  GROUP_QUOTAS: {
+    admin: {},
+    moderator: { dailyTokens: 500000 },
+    user: { dailyTokens: 200000, dailyCost: 1 }, // Cost in USD
+    guest: { dailyTokens: 20000, sessionTokens: 10000 },
+    banned: { dailyTokens: 0 },
+  },
+  DEFAULT_QUOTA: { dailyTokens: 100000 }, // Users without a known group
+  LEDGER_TTL_DAYS: 400,
+  REPORT_DEFAULT_DAYS: 30, // Range of an admin usage report without dates
+} as const;
+
+// Rate Limit Configuration (messages per window and Cognito group; other
+// groups use MAX_REQUESTS_PER_MINUTE)
+export const RATE_LIMIT_CONFIG = {
+  WINDOW_SECONDS: 60,
+  GROUP_LIMITS: {
+    admin: 300,
+    moderator: 200,
+    guest: 20,
+    banned: 0,
+  },
+} as const;
+
+// Generation Cancellation Configuration
+export const CANCELLATION_CONFIG = {
+  POLL_INTERVAL_MS: 1000, // How often a running generation checks for a stop request
+  TTL_SECONDS: 900, // Longer than the conversation Lambda can run
+} as const;
+
+// Model Fallback Configuration
+export const LLM_FALLBACK_CONFIG = {
+  CHAIN: ['nova-micro', 'nova-lite', 'claude-3-haiku'], // Tried in order after the requested model
+  FAILURE_THRESHOLD: 3,
+  RECOVERY_TIMEOUT: 30000, // 30 seconds
+  EXPECTED_RESPONSE_TIME: 60000, // LLM calls are slow; only errors should open the circuit
+  MINIMUM_REQUEST_COUNT: 3,
+} as const;
+
+// Tool Use Configuration
+export const TOOL_CONFIG = {
+  MAX_ITERATIONS: 5, // Model calls allowed per answer; the last one must answer in text
+  FINAL_ANSWER_INSTRUCTION:
+    'You have used all available tool calls. Answer now with the information gathered so far, without calling any more tools.',
+  MAX_RESULT_LENGTH: 4000, // Characters of tool output sent back to the model
+} as const;
+
+// Model Context Protocol Configuration
+export const MCP_CONFIG = {
+  PROTOCOL_VERSION: '2025-03-26',
+  CLIENT_NAME: 'awslambdahackathon-runtime',
+  CLIENT_VERSION: '0.0.0',
+  REQUEST_TIMEOUT: 15000, // 15 seconds
+  TOOL_NAME_SEPARATOR: '__', // Registered tool names are <server>__<tool>
 } as const;
 
 // Performance Configuration
@@ -2,6 +2,7 @@ import {
   AuthenticateUserUseCase,
   CheckAuthenticatedConnectionUseCase,
   HandlePingMessageUseCase,
+  RegenerateResponseUseCase,
   RemoveAuthenticatedConnectionUseCase,
   RemoveConnectionUseCase,
   SendChatMessageUseCase,
@@ -11,6 +12,7 @@ import {
 import { AuthenticateUserUseCase as AuthenticateUserUseCaseImpl } from '@application/use-cases/authenticate-user';
 import { CheckAuthenticatedConnectionUseCaseImpl } from '@application/use-cases/check-authenticated-connection';
 import { HandlePingMessageUseCaseImpl } from '@application/use-cases/handle-ping-message';
+import { RegenerateResponseUseCaseImpl } from '@application/use-cases/regenerate-response';
 import { RemoveAuthenticatedConnectionUseCaseImpl } from '@application/use-cases/remove-authenticated-connection';
 import { RemoveConnectionUseCaseImpl } from '@application/use-cases/remove-connection';
 import { SendChatMessageUseCaseImpl } from '@application/use-cases/send-chat-message';
@@ -18,45 +20,112 @@ import { StoreConnectionUseCaseImpl } from '@application/use-cases/store-connect
 import { CloudWatchClient } from '@aws-sdk/client-cloudwatch';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { DEFAULT_MODEL, isSupportedModel } from '@awslambdahackathon/types';
 // AWS Lambda Powertools unified service
 import { loggerAdapter } from '@awslambdahackathon/utils/lambda';
 // WebSocket Lambda configuration
+import { CancellationRepository } from '@domain/repositories/cancellation';
 import { ConnectionRepository } from '@domain/repositories/connection';
+import { KnowledgeRepository } from '@domain/repositories/knowledge';
 import { MessageRepository } from '@domain/repositories/message';
+import { RateLimitRepository } from '@domain/repositories/rate-limit';
 import { SessionRepository } from '@domain/repositories/session';
+import { UsageRepository } from '@domain/repositories/usage';
 import { UserRepository } from '@domain/repositories/user';
+import { VectorIndex } from '@domain/repositories/vector-index';
 import { AuthenticationService } from '@domain/services/authentication-service';
+import { CancellationService as CancellationServiceInterface } from '@domain/services/cancellation-service';
 import { ChatService as ChatServiceInterface } from '@domain/services/chat-service';
 import { CircuitBreakerService } from '@domain/services/circuit-breaker-service';
 import { CommunicationService } from '@domain/services/communication-service';
+import { ConnectionService as ConnectionServiceInterface } from '@domain/services/connection-service';
+import { ConversationContextService as ConversationContextServiceInterface } from '@domain/services/conversation-context-service';
+import { EmbeddingService } from '@domain/services/embedding-service';
 import { ErrorHandlingService } from '@domain/services/error-handling-service';
-import { LLMService } from '@domain/services/llm-service';
+import { KnowledgeBaseService as KnowledgeBaseServiceInterface } from '@domain/services/knowledge-base-service';
+import { LLMService, StreamingLLMService } from '@domain/services/llm-service';
+import { McpService as McpServiceInterface } from '@domain/services/mcp-service';
+import { MessageDeliveryService } from '@domain/services/message-delivery-service';
 import { MetricsService } from '@domain/services/metrics-service';
 import { PerformanceMonitoringService } from '@domain/services/performance-monitoring-service';
-import { BedrockConfig } from '@infrastructure/adapters/outbound/bedrock';
+import { RateLimitService as RateLimitServiceInterface } from '@domain/services/rate-limit-service';
+import { SessionService as SessionServiceInterface } from '@domain/services/session-service';
+import { ToolRegistry } from '@domain/services/tool-registry';
+import { UsageService as UsageServiceInterface } from '@domain/services/usage-service';
+import {
+  BedrockConfig,
+  BedrockEmbeddingAdapter,
+  BedrockLLMAdapter,
+} from '@infrastructure/adapters/outbound/bedrock';
 import { AwsCloudWatchMetricsAdapter } from '@infrastructure/adapters/outbound/cloudwatch/cloudwatch-metrics-adapter';
+import { DynamoDBCancellationRepository } from '@infrastructure/adapters/outbound/dynamodb/dynamodb-cancellation';
 import { DynamoDBConnectionRepository } from '@infrastructure/adapters/outbound/dynamodb/dynamodb-connection';
+import { DynamoDBKnowledgeRepository } from '@infrastructure/adapters/outbound/dynamodb/dynamodb-knowledge';
 import { DynamoDBMessageRepository } from '@infrastructure/adapters/outbound/dynamodb/dynamodb-message';
+import { DynamoDBRateLimitRepository } from '@infrastructure/adapters/outbound/dynamodb/dynamodb-rate-limit';
 import { DynamoDBSessionRepository } from '@infrastructure/adapters/outbound/dynamodb/dynamodb-session';
+import { DynamoDBUsageRepository } from '@infrastructure/adapters/outbound/dynamodb/dynamodb-usage';
 import { DynamoDBUserRepository } from '@infrastructure/adapters/outbound/dynamodb/dynamodb-user';
 import { type LambdaInvokerConfig } from '@infrastructure/adapters/outbound/lambda';
 import { LambdaLLMService } from '@infrastructure/adapters/outbound/lambda/lambda-llm-service';
+import {
+  InMemoryVectorIndex,
+  LocalEmbeddingAdapter,
+} from '@infrastructure/adapters/outbound/local';
 import { AwsApiGatewayWebSocketAdapter } from '@infrastructure/adapters/outbound/websocket/aws-api-gateway-adapter';
+import { WebSocketMessageDeliveryAdapter } from '@infrastructure/adapters/outbound/websocket/websocket-message-delivery-adapter';
+import { ConnectionLimitConfig } from '@infrastructure/config/connection-limit-config';
+import { ConversationContextConfig } from '@infrastructure/config/conversation-config';
 import { DynamoDBConfig } from '@infrastructure/config/database-config';
+import {
+  KnowledgeBaseConfig,
+  parseEmbeddingProvider,
+} from '@infrastructure/config/knowledge-config';
+import { McpConfig, parseMcpServers } from '@infrastructure/config/mcp-config';
+import { ModelFallbackConfig } from '@infrastructure/config/model-fallback-config';
 import { CloudWatchConfig } from '@infrastructure/config/monitoring-config';
+import {
+  parseGroupRateLimits,
+  RateLimitConfig,
+} from '@infrastructure/config/rate-limit-config';
+import {
+  parseGroupQuotas,
+  UsageQuotaConfig,
+} from '@infrastructure/config/usage-quota-config';
 import {
   WebSocketConfig,
   WebSocketEvent,
 } from '@infrastructure/config/websocket-config';
 import { ApplicationErrorHandlingService } from '@infrastructure/services/app-error-handling-service';
 import { AuthenticationService as AuthenticationServiceImpl } from '@infrastructure/services/authentication-service';
+import { CancellationService } from '@infrastructure/services/cancellation-service';
 import { ChatService } from '@infrastructure/services/chat-service';
 import { CircuitBreakerService as CircuitBreakerServiceImpl } from '@infrastructure/services/circuit-breaker-service';
 import { ConnectionService } from '@infrastructure/services/connection-service';
+import { ConversationContextService } from '@infrastructure/services/conversation-context-service';
+import { KnowledgeBaseService } from '@infrastructure/services/knowledge-base-service';
+import { McpService } from '@infrastructure/services/mcp-service';
 import { CloudWatchMetricsService } from '@infrastructure/services/metrics-service';
+import { ModelFallbackLLMService } from '@infrastructure/services/model-fallback-llm-service';
 import { CloudWatchPerformanceMonitoringService } from '@infrastructure/services/performance-monitoring-service';
+import { RateLimitService } from '@infrastructure/services/rate-limit-service';
+import { SessionService } from '@infrastructure/services/session-service';
+import { ToolRegistryService } from '@infrastructure/services/tool-registry-service';
+import { UsageService } from '@infrastructure/services/usage-service';
+import { WebSocketMessageService } from '@infrastructure/services/websocket-message-service';
 
-import { validateWebSocketRequiredEnvironmentVariables } from './websocket-lambda-config';
+import {
+  KNOWLEDGE_CONFIG,
+  LLM_FALLBACK_CONFIG,
+  MCP_CONFIG,
+  RATE_LIMIT_CONFIG,
+  USAGE_CONFIG,
+} from './constants';
+import {
+  getWebSocketConversationConfig,
+  getWebSocketRateLimitConfig,
+  validateWebSocketRequiredEnvironmentVariables,
+} from './websocket-lambda-config';
 
 export type Constructor<T = unknown> = new (...args: unknown[]) => T;
 export type Token<T = unknown> = Constructor<T> | string;
@@ -86,6 +155,10 @@ class DependencyContainer implements Container {
     connectionsDB: DynamoDBConfig;
     sessionsDB: DynamoDBConfig;
     messagesDB: DynamoDBConfig;
+    usageDB: DynamoDBConfig;
+    rateLimitDB: DynamoDBConfig;
+    cancellationDB: DynamoDBConfig;
+    knowledgeDB: DynamoDBConfig;
     webSocket: WebSocketConfig;
     cloudWatch: CloudWatchConfig;
   };
@@ -108,6 +181,22 @@ class DependencyContainer implements Container {
         tableName: process.env.WEBSOCKET_MESSAGES_TABLE!,
         region: process.env.AWS_REGION!,
       },
+      usageDB: {
+        tableName: process.env.USAGE_TABLE!,
+        region: process.env.AWS_REGION!,
+      },
+      rateLimitDB: {
+        tableName: process.env.RATE_LIMIT_TABLE!,
+        region: process.env.AWS_REGION!,
+      },
+      cancellationDB: {
+        tableName: process.env.CANCELLATION_TABLE!,
+        region: process.env.AWS_REGION!,
+      },
+      knowledgeDB: {
+        tableName: process.env.KNOWLEDGE_TABLE!,
+        region: process.env.AWS_REGION!,
+      },
       webSocket: {
         endpoint: process.env.WEBSOCKET_ENDPOINT!,
       },
@@ -183,6 +272,10 @@ class DependencyContainer implements Container {
     return this.resolve('SendChatMessageUseCase');
   }
 
+  getRegenerateResponseUseCase(): RegenerateResponseUseCase {
+    return this.resolve('RegenerateResponseUseCase');
+  }
+
   getHandlePingMessageUseCase(): HandlePingMessageUseCase {
     return this.resolve('HandlePingMessageUseCase');
   }
@@ -212,11 +305,45 @@ class DependencyContainer implements Container {
     return this.resolve('CircuitBreakerService');
   }
 
+  getWebSocketMessageService(): WebSocketMessageService {
+    return this.resolve('WebSocketMessageService');
+  }
+
+  getUsageService(): UsageServiceInterface {
+    return this.resolve('UsageService');
+  }
+
+  getRateLimitService(): RateLimitServiceInterface {
+    return this.resolve('RateLimitService');
+  }
+
+  getCancellationService(): CancellationServiceInterface {
+    return this.resolve('CancellationService');
+  }
+
+  getConnectionService(): ConnectionServiceInterface {
+    return this.resolve('ConnectionService');
+  }
+
+  getSessionService(): SessionServiceInterface {
+    return this.resolve('SessionService');
+  }
+
+  getKnowledgeBaseService(): KnowledgeBaseServiceInterface {
+    return this.resolve('KnowledgeBaseService');
+  }
+
   createCommunicationService(event: WebSocketEvent): CommunicationService {
     // Create a new instance for each WebSocket event
     return new AwsApiGatewayWebSocketAdapter(event);
   }
 
+  createMessageDeliveryService(event: WebSocketEvent): MessageDeliveryService {
+    return new WebSocketMessageDeliveryAdapter(
+      this.createCommunicationService(event)
+    );
+  }
+
   private resolveDependencies(dependencies: Token<unknown>[]): unknown[] {
     return dependencies.map(token => this.resolve(token));
   }
@@ -226,13 +353,17 @@ class DependencyContainer implements Container {
     this.instances.set('ConnectionsDBConfig', this.configs.connectionsDB);
     this.instances.set('SessionsDBConfig', this.configs.sessionsDB);
     this.instances.set('MessagesDBConfig', this.configs.messagesDB);
+    this.instances.set('UsageDBConfig', this.configs.usageDB);
+    this.instances.set('RateLimitDBConfig', this.configs.rateLimitDB);
+    this.instances.set('CancellationDBConfig', this.configs.cancellationDB);
+    this.instances.set('KnowledgeDBConfig', this.configs.knowledgeDB);
     this.instances.set('WebSocketConfig', this.configs.webSocket);
     this.instances.set('CloudWatchConfig', this.configs.cloudWatch);
 
     // Register Bedrock configuration
     const bedrockConfig: BedrockConfig = {
       region: process.env.AWS_REGION || 'us-east-2',
-      defaultModel: 'nova-micro',
+      defaultModel: DEFAULT_MODEL,
       timeout: 30000,
       maxRetries: 3,
     };
@@ -247,6 +378,85 @@ class DependencyContainer implements Container {
     };
     this.instances.set('LambdaInvokerConfig', lambdaInvokerConfig);
 
+    // Register conversation history configuration
+    const webSocketConversation = getWebSocketConversationConfig();
+    const conversationContextConfig: ConversationContextConfig = {
+      maxHistoryMessages: webSocketConversation.maxHistoryMessages,
+      historyTokenBudgets: { ...webSocketConversation.historyTokenBudgets },
+    };
+    this.instances.set('ConversationContextConfig', conversationContextConfig);
+
+    // Register knowledge base configuration (EMBEDDING_PROVIDER=local embeds offline)
+    const knowledgeBaseConfig: KnowledgeBaseConfig = {
+      embeddingProvider: parseEmbeddingProvider(
+        process.env.EMBEDDING_PROVIDER,
+        KNOWLEDGE_CONFIG.EMBEDDING_PROVIDER
+      ),
+      embeddingModelId: KNOWLEDGE_CONFIG.EMBEDDING_MODEL_ID,
+      embeddingDimensions: KNOWLEDGE_CONFIG.EMBEDDING_DIMENSIONS,
+      embeddingConcurrency: KNOWLEDGE_CONFIG.EMBEDDING_CONCURRENCY,
+      chunkSize: KNOWLEDGE_CONFIG.CHUNK_SIZE,
+      chunkOverlap: KNOWLEDGE_CONFIG.CHUNK_OVERLAP,
+      maxDocumentBytes: KNOWLEDGE_CONFIG.MAX_DOCUMENT_BYTES,
+      topK: KNOWLEDGE_CONFIG.TOP_K,
+      minScore: KNOWLEDGE_CONFIG.MIN_SCORE,
+      indexRefreshInterval: KNOWLEDGE_CONFIG.INDEX_REFRESH_INTERVAL,
+    };
+    this.instances.set('KnowledgeBaseConfig', knowledgeBaseConfig);
+
+    // Register model fallback chain (comma-separated override in LLM_FALLBACK_CHAIN)
+    const modelFallbackConfig: ModelFallbackConfig = {
+      chain: process.env.LLM_FALLBACK_CHAIN
+        ? process.env.LLM_FALLBACK_CHAIN.split(',')
+            .map(model => model.trim())
+            .filter(isSupportedModel)
+        : [...LLM_FALLBACK_CONFIG.CHAIN],
+      circuitBreaker: {
+        failureThreshold: LLM_FALLBACK_CONFIG.FAILURE_THRESHOLD,
+        recoveryTimeout: LLM_FALLBACK_CONFIG.RECOVERY_TIMEOUT,
+        expectedResponseTime: LLM_FALLBACK_CONFIG.EXPECTED_RESPONSE_TIME,
+        minimumRequestCount: LLM_FALLBACK_CONFIG.MINIMUM_REQUEST_COUNT,
+      },
+    };
+    this.instances.set('ModelFallbackConfig', modelFallbackConfig);
+
+    // Register MCP server configuration (JSON array in MCP_SERVERS)
+    const mcpConfig: McpConfig = {
+      servers: parseMcpServers(process.env.MCP_SERVERS),
+      requestTimeout: MCP_CONFIG.REQUEST_TIMEOUT,
+    };
+    this.instances.set('McpConfig', mcpConfig);
+
+    // Register usage quotas (JSON object keyed by group in USAGE_QUOTAS)
+    const usageQuotaConfig: UsageQuotaConfig = {
+      groupQuotas: {
+        ...USAGE_CONFIG.GROUP_QUOTAS,
+        ...parseGroupQuotas(process.env.USAGE_QUOTAS),
+      },
+      defaultQuota: { ...USAGE_CONFIG.DEFAULT_QUOTA },
+    };
+    this.instances.set('UsageQuotaConfig', usageQuotaConfig);
+
+    // Register message rate limits (JSON object keyed by group in RATE_LIMITS)
+    const webSocketRateLimit = getWebSocketRateLimitConfig();
+    const rateLimitConfig: RateLimitConfig = {
+      enabled: webSocketRateLimit.enabled,
+      windowSeconds: RATE_LIMIT_CONFIG.WINDOW_SECONDS,
+      groupLimits: {
+        ...RATE_LIMIT_CONFIG.GROUP_LIMITS,
+        ...parseGroupRateLimits(process.env.RATE_LIMITS),
+      },
+      defaultLimit: webSocketRateLimit.maxRequestsPerMinute,
+    };
+    this.instances.set('RateLimitConfig', rateLimitConfig);
+
+    // Register the per-user connection limit and what happens when it is hit
+    const connectionLimitConfig: ConnectionLimitConfig = {
+      maxConnectionsPerUser: webSocketRateLimit.maxConnectionsPerUser,
+      policy: webSocketRateLimit.connectionLimitPolicy,
+    };
+    this.instances.set('ConnectionLimitConfig', connectionLimitConfig);
+
     // Register AWS clients as singletons
     const dynamoDBClient = new DynamoDBClient({
       region: this.configs.connectionsDB.region, // Use region from connections config
@@ -297,6 +507,42 @@ class DependencyContainer implements Container {
       }
     );
 
+    this.register<UsageRepository>(
+      'UsageRepository',
+      DynamoDBUsageRepository as Constructor<UsageRepository>,
+      {
+        singleton: true,
+        dependencies: ['DynamoDBDocumentClient', 'UsageDBConfig'],
+      }
+    );
+
+    this.register<RateLimitRepository>(
+      'RateLimitRepository',
+      DynamoDBRateLimitRepository as Constructor<RateLimitRepository>,
+      {
+        singleton: true,
+        dependencies: ['DynamoDBDocumentClient', 'RateLimitDBConfig'],
+      }
+    );
+
+    this.register<CancellationRepository>(
+      'CancellationRepository',
+      DynamoDBCancellationRepository as Constructor<CancellationRepository>,
+      {
+        singleton: true,
+        dependencies: ['DynamoDBDocumentClient', 'CancellationDBConfig'],
+      }
+    );
+
+    this.register<KnowledgeRepository>(
+      'KnowledgeRepository',
+      DynamoDBKnowledgeRepository as Constructor<KnowledgeRepository>,
+      {
+        singleton: true,
+        dependencies: ['DynamoDBDocumentClient', 'KnowledgeDBConfig'],
+      }
+    );
+
     // Register mappers as singletons
     // Note: DynamoDBUserMapper removed as we now use session-based UserRepository
 
@@ -349,6 +595,117 @@ class DependencyContainer implements Container {
       }
     );
 
+    this.register<ConversationContextServiceInterface>(
+      'ConversationContextService',
+      ConversationContextService as Constructor<ConversationContextServiceInterface>,
+      {
+        singleton: true,
+        dependencies: [],
+      }
+    );
+
+    this.register<ToolRegistry>(
+      'ToolRegistry',
+      ToolRegistryService as Constructor<ToolRegistry>,
+      {
+        singleton: true,
+        dependencies: [],
+      }
+    );
+
+    this.register<StreamingLLMService>(
+      'ModelFallbackLLMService',
+      ModelFallbackLLMService as Constructor<StreamingLLMService>,
+      {
+        singleton: true,
+        dependencies: [],
+      }
+    );
+
+    this.register<McpServiceInterface>(
+      'McpService',
+      McpService as Constructor<McpServiceInterface>,
+      {
+        singleton: true,
+        dependencies: [],
+      }
+    );
+
+    this.register<UsageServiceInterface>(
+      'UsageService',
+      UsageService as Constructor<UsageServiceInterface>,
+      {
+        singleton: true,
+        dependencies: [],
+      }
+    );
+
+    this.register<RateLimitServiceInterface>(
+      'RateLimitService',
+      RateLimitService as Constructor<RateLimitServiceInterface>,
+      {
+        singleton: true,
+        dependencies: [],
+      }
+    );
+
+    this.register<CancellationServiceInterface>(
+      'CancellationService',
+      CancellationService as Constructor<CancellationServiceInterface>,
+      {
+        singleton: true,
+        dependencies: [],
+      }
+    );
+
+    this.register<SessionServiceInterface>(
+      'SessionService',
+      SessionService as Constructor<SessionServiceInterface>,
+      {
+        singleton: true,
+        dependencies: [],
+      }
+    );
+
+    // Each Lambda container keeps its own copy of the index in memory
+    this.register<VectorIndex>(
+      'VectorIndex',
+      InMemoryVectorIndex as Constructor<VectorIndex>,
+      {
+        singleton: true,
+        dependencies: [],
+      }
+    );
+
+    if (knowledgeBaseConfig.embeddingProvider === 'local') {
+      this.register<EmbeddingService>(
+        'EmbeddingService',
+        LocalEmbeddingAdapter as Constructor<EmbeddingService>,
+        {
+          singleton: true,
+          dependencies: ['KnowledgeBaseConfig'],
+        }
+      );
+    } else {
+      this.register<EmbeddingService>(
+        'EmbeddingService',
+        BedrockEmbeddingAdapter as Constructor<EmbeddingService>,
+        {
+          singleton: true,
+          dependencies: ['BedrockConfig', 'KnowledgeBaseConfig'],
+        }
+      );
+    }
+
+    this.register<KnowledgeBaseServiceInterface>(
+      'KnowledgeBaseService',
+      KnowledgeBaseService as Constructor<KnowledgeBaseServiceInterface>,
+      {
+        singleton: true,
+        dependencies: [],
+      }
+    );
+
     this.register<ChatServiceInterface>(
       'ChatService',
       ChatService as Constructor<ChatServiceInterface>,
@@ -429,6 +786,15 @@ class DependencyContainer implements Container {
       }
     );
 
+    this.register<RegenerateResponseUseCase>(
+      'RegenerateResponseUseCase',
+      RegenerateResponseUseCaseImpl as Constructor<RegenerateResponseUseCase>,
+      {
+        singleton: false,
+        dependencies: ['ChatService', 'Logger', 'PerformanceMonitoringService'],
+      }
+    );
+
     this.register<HandlePingMessageUseCase>(
       'HandlePingMessageUseCase',
       HandlePingMessageUseCaseImpl as Constructor<HandlePingMessageUseCase>,
@@ -472,6 +838,25 @@ class DependencyContainer implements Container {
         dependencies: ['LambdaInvokerConfig'],
       }
     );
+
+    // Streaming bypasses the LLM Lambda and calls Bedrock directly
+    this.register<StreamingLLMService>(
+      'StreamingLLMService',
+      BedrockLLMAdapter as Constructor<StreamingLLMService>,
+      {
+        singleton: true,
+        dependencies: ['BedrockConfig'],
+      }
+    );
+
+    this.register<WebSocketMessageService>(
+      'WebSocketMessageService',
+      WebSocketMessageService as Constructor<WebSocketMessageService>,
+      {
+        singleton: true,
+        dependencies: [],
+      }
+    );
   }
 }
 
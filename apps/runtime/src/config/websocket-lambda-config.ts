@@ -1,4 +1,5 @@
 import { logger } from '@awslambdahackathon/utils/lambda';
+import { LLMModel } from '@domain/services/llm-service';
 import { z } from 'zod';
 
 import {
@@ -15,6 +16,10 @@ const WebSocketLambdaEnvironmentVarsSchema =
     WEBSOCKET_CONNECTIONS_TABLE: z.string().min(1),
     WEBSOCKET_SESSIONS_TABLE: z.string().min(1),
     WEBSOCKET_MESSAGES_TABLE: z.string().min(1),
+    USAGE_TABLE: z.string().min(1),
+    RATE_LIMIT_TABLE: z.string().min(1),
+    CANCELLATION_TABLE: z.string().min(1),
+    KNOWLEDGE_TABLE: z.string().min(1),
 
     // WebSocket configuration
     WEBSOCKET_ENDPOINT: z.string().url(),
@@ -42,6 +47,39 @@ const WebSocketLambdaEnvironmentVarsSchema =
       .string()
       .transform(val => parseInt(val, 10))
       .default('3'),
+    CONNECTION_LIMIT_POLICY: z
+      .enum(['reject', 'evict_oldest'])
+      .default('evict_oldest'),
+
+    // Conversation history configuration (token budgets per model)
+    MAX_HISTORY_MESSAGES: z
+      .string()
+      .transform(val => parseInt(val, 10))
+      .default('50'),
+    HISTORY_TOKEN_BUDGET_NOVA_MICRO: z
+      .string()
+      .transform(val => parseInt(val, 10))
+      .default('4000'),
+    HISTORY_TOKEN_BUDGET_NOVA_LITE: z
+      .string()
+      .transform(val => parseInt(val, 10))
+      .default('8000'),
+    HISTORY_TOKEN_BUDGET_NOVA_PRO: z
+      .string()
+      .transform(val => parseInt(val, 10))
+      .default('8000'),
+    HISTORY_TOKEN_BUDGET_CLAUDE_3_HAIKU: z
+      .string()
+      .transform(val => parseInt(val, 10))
+      .default('8000'),
+    HISTORY_TOKEN_BUDGET_CLAUDE_3_SONNET: z
+      .string()
+      .transform(val => parseInt(val, 10))
+      .default('8000'),
+    HISTORY_TOKEN_BUDGET_CLAUDE_3_OPUS: z
+      .string()
+      .transform(val => parseInt(val, 10))
+      .default('8000'),
 
     // Additional logging configuration
     ENABLE_STRUCTURED_LOGGING: z
@@ -60,6 +98,10 @@ export interface WebSocketLambdaConfig extends BaseLambdaConfig {
     connectionsTable: string;
     sessionsTable: string;
     messagesTable: string;
+    usageTable: string;
+    rateLimitTable: string;
+    cancellationTable: string;
+    knowledgeTable: string;
     region: string;
   };
   websocket: {
@@ -76,6 +118,11 @@ export interface WebSocketLambdaConfig extends BaseLambdaConfig {
     enabled: boolean;
     maxRequestsPerMinute: number;
     maxConnectionsPerUser: number;
+    connectionLimitPolicy: 'reject' | 'evict_oldest';
+  };
+  conversation: {
+    maxHistoryMessages: number;
+    historyTokenBudgets: Record<LLMModel, number>;
   };
   logging: BaseLambdaConfig['logging'] & {
     enableStructuredLogging: boolean;
@@ -109,6 +156,10 @@ export const createWebSocketLambdaConfig = (): WebSocketLambdaConfig => {
       connectionsTable: env.WEBSOCKET_CONNECTIONS_TABLE,
       sessionsTable: env.WEBSOCKET_SESSIONS_TABLE,
       messagesTable: env.WEBSOCKET_MESSAGES_TABLE,
+      usageTable: env.USAGE_TABLE,
+      rateLimitTable: env.RATE_LIMIT_TABLE,
+      cancellationTable: env.CANCELLATION_TABLE,
+      knowledgeTable: env.KNOWLEDGE_TABLE,
       region: env.AWS_REGION,
     },
     websocket: {
@@ -125,6 +176,18 @@ export const createWebSocketLambdaConfig = (): WebSocketLambdaConfig => {
       enabled: env.RATE_LIMIT_ENABLED,
       maxRequestsPerMinute: env.MAX_REQUESTS_PER_MINUTE,
       maxConnectionsPerUser: env.MAX_CONNECTIONS_PER_USER,
+      connectionLimitPolicy: env.CONNECTION_LIMIT_POLICY,
+    },
+    conversation: {
+      maxHistoryMessages: env.MAX_HISTORY_MESSAGES,
+      historyTokenBudgets: {
+        'nova-micro': env.HISTORY_TOKEN_BUDGET_NOVA_MICRO,
+        'nova-lite': env.HISTORY_TOKEN_BUDGET_NOVA_LITE,
+        'nova-pro': env.HISTORY_TOKEN_BUDGET_NOVA_PRO,
+        'claude-3-haiku': env.HISTORY_TOKEN_BUDGET_CLAUDE_3_HAIKU,
+        'claude-3-sonnet': env.HISTORY_TOKEN_BUDGET_CLAUDE_3_SONNET,
+        'claude-3-opus': env.HISTORY_TOKEN_BUDGET_CLAUDE_3_OPUS,
+      },
     },
     logging: {
       ...baseConfig.logging,
@@ -144,6 +207,10 @@ export const validateWebSocketRequiredEnvironmentVariables = (): void => {
     'WEBSOCKET_CONNECTIONS_TABLE',
     'WEBSOCKET_SESSIONS_TABLE',
     'WEBSOCKET_MESSAGES_TABLE',
+    'USAGE_TABLE',
+    'RATE_LIMIT_TABLE',
+    'CANCELLATION_TABLE',
+    'KNOWLEDGE_TABLE',
     'WEBSOCKET_ENDPOINT',
     'COGNITO_USER_POOL_ID',
     'COGNITO_CLIENT_ID',
@@ -170,3 +237,5 @@ export const getWebSocketConfig = () => WEBSOCKET_LAMBDA_CONFIG.websocket;
 export const getWebSocketAuthConfig = () => WEBSOCKET_LAMBDA_CONFIG.auth;
 export const getWebSocketRateLimitConfig = () =>
   WEBSOCKET_LAMBDA_CONFIG.rateLimit;
+export const getWebSocketConversationConfig = () =>
+  WEBSOCKET_LAMBDA_CONFIG.conversation;
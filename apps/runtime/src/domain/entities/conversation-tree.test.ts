@@ -0,0 +1,108 @@
+import { ConversationTree } from '@domain/entities/conversation-tree';
+import { Message, MessageRole, MessageType } from '@domain/entities/message';
+import { MessageId } from '@domain/value-objects';
+import { describe, expect, it } from 'vitest';
+
+const at = (minute: number) => new Date(Date.UTC(2024, 0, 1, 12, minute));
+
+const message = (
+  id: string,
+  minute: number,
+  options: {
+    role?: MessageRole;
+    type?: MessageType;
+    replyTo?: string;
+    metadata?: Record<string, unknown>;
+  } = {}
+) =>
+  Message.fromData({
+    id,
+    content: `content of ${id}`,
+    type: options.type ?? MessageType.TEXT,
+    userId: 'user-1',
+    sessionId: 'session-1',
+    createdAt: at(minute),
+    metadata: options.metadata,
+    replyToMessageId: options.replyTo,
+    role: options.role ?? MessageRole.USER,
+  });
+
+const ids = (messages: Message[]) =>
+  messages.map(item => item.getId().getValue());
+
+describe('ConversationTree', () => {
+  it('chains messages without parent links in creation order', () => {
+    const tree = ConversationTree.fromMessages([
+      message('a2', 2, { role: MessageRole.ASSISTANT }),
+      message('u1', 1),
+      message('u3', 3),
+    ]);
+
+    expect(ids(tree.getBranch(MessageId.create('u3')))).toEqual([
+      'u1',
+      'a2',
+      'u3',
+    ]);
+    expect(tree.getLatest()?.getId().getValue()).toBe('u3');
+    expect(tree.getParentId(MessageId.create('u1'))).toBeUndefined();
+  });
+
+  it('keeps a regenerated response as a sibling of the original', () => {
+    const tree = ConversationTree.fromMessages([
+      message('u1', 1),
+      message('a1', 2, { role: MessageRole.ASSISTANT }),
+      message('a2', 3, { role: MessageRole.ASSISTANT, replyTo: 'u1' }),
+    ]);
+
+    expect(ids(tree.getBranch(MessageId.create('a2')))).toEqual(['u1', 'a2']);
+    expect(ids(tree.getVersions(MessageId.create('a1')))).toEqual(['a1', 'a2']);
+  });
+
+  it('gives an edit of a legacy message the parent of the original', () => {
+    const tree = ConversationTree.fromMessages([
+      message('u1', 1),
+      message('a1', 2, { role: MessageRole.ASSISTANT }),
+      message('u2', 3),
+      message('u2-edit', 4, { metadata: { editedFrom: 'u2' } }),
+    ]);
+
+    expect(tree.getParentId(MessageId.create('u2-edit'))?.getValue()).toBe(
+      'a1'
+    );
+    expect(ids(tree.getVersions(MessageId.create('u2')))).toEqual([
+      'u2',
+      'u2-edit',
+    ]);
+  });
+
+  it('keeps thread follow-ups out of the branches', () => {
+    const tree = ConversationTree.fromMessages([
+      message('u1', 1),
+      message('a1', 2, { role: MessageRole.ASSISTANT }),
+      message('t1', 3, { replyTo: 'a1', metadata: { threadId: 'a1' } }),
+      message('t2', 4, {
+        role: MessageRole.ASSISTANT,
+        replyTo: 't1',
+        metadata: { threadId: 'a1' },
+      }),
+    ]);
+
+    expect(ids(tree.getThread(MessageId.create('a1')))).toEqual(['t1', 't2']);
+    expect(tree.get(MessageId.create('t1'))).toBeUndefined();
+    expect(tree.getLatest()?.getId().getValue()).toBe('a1');
+  });
+
+  it('ignores system and tool messages', () => {
+    const tree = ConversationTree.fromMessages([
+      message('s1', 0, { role: MessageRole.SYSTEM, type: MessageType.SYSTEM }),
+      message('u1', 1),
+      message('c1', 2, {
+        role: MessageRole.ASSISTANT,
+        type: MessageType.TOOL_CALL,
+      }),
+    ]);
+
+    expect(ids(tree.getBranch(MessageId.create('u1')))).toEqual(['u1']);
+    expect(tree.getVersions(MessageId.create('s1'))).toEqual([]);
+  });
+});
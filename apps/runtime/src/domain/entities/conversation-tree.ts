@@ -0,0 +1,124 @@
+import { Message, MessageType } from '@domain/entities/message';
+import { MessageId } from '@domain/value-objects';
+
+/**
+ * The user and assistant text messages of a conversation as a tree. Each
+ * message follows its parent (replyToMessageId); an edited prompt or a
+ * regenerated response is a sibling of the version it replaces.
+ *
+ * Messages stored before branching have no parent link and follow the
+ * message before them. An edit of such a message (metadata.editedFrom)
+ * shares the parent of the original.
+ *
+ * Follow-ups asked about an answer (metadata.threadId) form its thread and
+ * stay outside the branches.
+ */
+export class ConversationTree {
+  private readonly messages: Message[];
+  private readonly byId = new Map<string, Message>();
+  private readonly parents = new Map<string, string | undefined>();
+  private readonly threads = new Map<string, Message[]>();
+
+  private constructor(messages: Message[]) {
+    const conversation = messages
+      .filter(
+        message =>
+          message.getType() === MessageType.TEXT &&
+          (message.isFromUser() || message.isFromAssistant())
+      )
+      .sort((a, b) => a.getCreatedAt().getTime() - b.getCreatedAt().getTime());
+
+    this.messages = [];
+    conversation.forEach(message => {
+      const threadId = message.getMetadata().threadId;
+      if (typeof threadId === 'string') {
+        this.threads.set(threadId, [
+          ...(this.threads.get(threadId) || []),
+          message,
+        ]);
+      } else {
+        this.messages.push(message);
+      }
+    });
+
+    this.messages.forEach((message, index) => {
+      const id = message.getId().getValue();
+      this.byId.set(id, message);
+      this.parents.set(id, this.resolveParent(message, index));
+    });
+  }
+
+  static fromMessages(messages: Message[]): ConversationTree {
+    return new ConversationTree(messages);
+  }
+
+  get(messageId: MessageId): Message | undefined {
+    return this.byId.get(messageId.getValue());
+  }
+
+  getParentId(messageId: MessageId): MessageId | undefined {
+    const parentId = this.parents.get(messageId.getValue());
+    return parentId ? MessageId.create(parentId) : undefined;
+  }
+
+  /**
+   * The most recently created message; new messages continue its branch
+   * unless the client selected another one
+   */
+  getLatest(): Message | undefined {
+    return this.messages[this.messages.length - 1];
+  }
+
+  /**
+   * Messages from the root of the conversation down to the given one
+   */
+  getBranch(leafId: MessageId): Message[] {
+    const branch: Message[] = [];
+    let current: string | undefined = leafId.getValue();
+
+    while (current) {
+      const message = this.byId.get(current);
+      if (!message) {
+        break;
+      }
+      branch.unshift(message);
+      current = this.parents.get(current);
+    }
+
+    return branch;
+  }
+
+  /**
+   * Follow-ups asked about an answer and their responses, oldest first
+   */
+  getThread(messageId: MessageId): Message[] {
+    return this.threads.get(messageId.getValue()) || [];
+  }
+
+  /**
+   * Versions of a message: the messages sharing its parent, oldest first
+   */
+  getVersions(messageId: MessageId): Message[] {
+    if (!this.byId.has(messageId.getValue())) {
+      return [];
+    }
+    const parentId = this.parents.get(messageId.getValue());
+    return this.messages.filter(
+      message => this.parents.get(message.getId().getValue()) === parentId
+    );
+  }
+
+  private resolveParent(message: Message, index: number): string | undefined {
+    const replyTo = message.getReplyToMessageId();
+    if (replyTo) {
+      return replyTo.getValue();
+    }
+
+    const editedFrom = message.getMetadata().editedFrom;
+    if (typeof editedFrom === 'string' && this.parents.has(editedFrom)) {
+      return this.parents.get(editedFrom);
+    }
+
+    return index > 0 ? this.messages[index - 1].getId().getValue() : undefined;
+  }
+}
@@ -1,4 +1,5 @@
 export { Connection, ConnectionStatus } from './connection';
-export { Message, MessageStatus, MessageType } from './message';
+export { ConversationTree } from './conversation-tree';
+export { Message, MessageRole, MessageStatus, MessageType } from './message';
 export { Session, SessionStatus } from './session';
 export { User } from './user';
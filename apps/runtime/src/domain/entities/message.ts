@@ -8,6 +8,8 @@ export enum MessageType {
   TEXT = 'text',
   SYSTEM = 'system',
   ADMIN = 'admin',
+  TOOL_CALL = 'tool_call',
+  TOOL_RESULT = 'tool_result',
 }
 
 export enum MessageStatus {
@@ -18,6 +20,13 @@ export enum MessageStatus {
   PENDING = 'pending',
 }
 
+export enum MessageRole {
+  USER = 'user',
+  ASSISTANT = 'assistant',
+  SYSTEM = 'system',
+  TOOL = 'tool',
+}
+
 export class Message {
   constructor(
     private readonly id: MessageId,
@@ -28,7 +37,8 @@ export class Message {
     private readonly status: MessageStatus = MessageStatus.SENT,
     private readonly createdAt: Date = new Date(),
     private readonly metadata: Record<string, unknown> = {},
-    private readonly replyToMessageId?: MessageId
+    private readonly replyToMessageId?: MessageId,
+    private readonly role: MessageRole = MessageRole.USER
   ) {
     this.validate();
   }
@@ -69,6 +79,18 @@ export class Message {
     return this.replyToMessageId;
   }
 
+  getRole(): MessageRole {
+    return this.role;
+  }
+
+  isFromUser(): boolean {
+    return this.role === MessageRole.USER;
+  }
+
+  isFromAssistant(): boolean {
+    return this.role === MessageRole.ASSISTANT;
+  }
+
   isTextMessage(): boolean {
     return this.type === MessageType.TEXT;
   }
@@ -122,7 +144,8 @@ export class Message {
       MessageStatus.DELIVERED,
       this.createdAt,
       this.metadata,
-      this.replyToMessageId
+      this.replyToMessageId,
+      this.role
     );
   }
 
@@ -136,7 +159,23 @@ export class Message {
       MessageStatus.READ,
       this.createdAt,
       this.metadata,
-      this.replyToMessageId
+      this.replyToMessageId,
+      this.role
+    );
+  }
+
+  markAsPending(): Message {
+    return new Message(
+      this.id,
+      this.content,
+      this.type,
+      this.userId,
+      this.sessionId,
+      MessageStatus.PENDING,
+      this.createdAt,
+      this.metadata,
+      this.replyToMessageId,
+      this.role
     );
   }
 
@@ -150,7 +189,8 @@ export class Message {
       MessageStatus.FAILED,
       this.createdAt,
       this.metadata,
-      this.replyToMessageId
+      this.replyToMessageId,
+      this.role
     );
   }
 
@@ -165,7 +205,8 @@ export class Message {
       this.status,
       this.createdAt,
       newMetadata,
-      this.replyToMessageId
+      this.replyToMessageId,
+      this.role
     );
   }
 
@@ -181,7 +222,8 @@ export class Message {
       this.status,
       this.createdAt,
       newMetadata,
-      this.replyToMessageId
+      this.replyToMessageId,
+      this.role
     );
   }
 
@@ -195,7 +237,8 @@ export class Message {
       MessageStatus.SENT,
       new Date(),
       {},
-      this.id
+      this.id,
+      MessageRole.USER
     );
   }
 
@@ -209,6 +252,7 @@ export class Message {
       createdAt: this.createdAt,
       metadata: this.metadata,
       replyToMessageId: this.replyToMessageId?.getValue(),
+      role: this.role,
     };
 
     MessageValidator.validateAndThrow(messageData);
@@ -238,7 +282,31 @@ export class Message {
       content,
       MessageType.SYSTEM,
       userId,
-      sessionId
+      sessionId,
+      MessageStatus.SENT,
+      new Date(),
+      {},
+      undefined,
+      MessageRole.SYSTEM
+    );
+  }
+
+  static createAssistantMessage(
+    content: string,
+    userId: UserId,
+    sessionId: SessionId
+  ): Message {
+    return new Message(
+      MessageId.generate(),
+      content,
+      MessageType.TEXT,
+      userId,
+      sessionId,
+      MessageStatus.SENT,
+      new Date(),
+      {},
+      undefined,
+      MessageRole.ASSISTANT
     );
   }
 
@@ -266,6 +334,7 @@ export class Message {
     createdAt?: Date;
     metadata?: Record<string, unknown>;
     replyToMessageId?: string;
+    role?: MessageRole;
   }): Message {
     return new Message(
       MessageId.create(data.id),
@@ -278,7 +347,8 @@ export class Message {
       data.metadata || {},
       data.replyToMessageId
         ? MessageId.create(data.replyToMessageId)
-        : undefined
+        : undefined,
+      data.role || MessageRole.USER
     );
   }
 }
@@ -1,4 +1,4 @@
-import { DomainError } from '@awslambdahackathon/types';
+import { DomainError, QuotaExceeded } from '@awslambdahackathon/types';
 
 // Re-export base types for convenience
 export { DomainError, ErrorCode } from '@awslambdahackathon/types';
@@ -262,6 +262,16 @@ export class ConnectionLimitExceededException extends DomainError {
   }
 }
 
+export class ConnectionGoneException extends DomainError {
+  constructor(connectionId: string, details?: Record<string, unknown>) {
+    super(`Connection is gone: ${connectionId}`, 'CONNECTION_GONE', {
+      connectionId,
+      ...details,
+    });
+    this.name = 'ConnectionGoneException';
+  }
+}
+
 export class MessageRateLimitExceededException extends DomainError {
   constructor(
     userId: string,
@@ -277,6 +287,29 @@ export class MessageRateLimitExceededException extends DomainError {
   }
 }
 
+export class QuotaExceededException extends DomainError {
+  constructor(
+    userId: string,
+    quota: QuotaExceeded['quota'],
+    limit: number,
+    used: number,
+    details?: Record<string, unknown>
+  ) {
+    super(
+      `Usage quota ${quota} exceeded for user ${userId}`,
+      'QUOTA_EXCEEDED',
+      {
+        userId,
+        quota,
+        limit,
+        used,
+        ...details,
+      }
+    );
+    this.name = 'QuotaExceededException';
+  }
+}
+
 export class InvalidTokenException extends DomainError {
   constructor(reason: string, details?: Record<string, unknown>) {
     super(`Invalid token: ${reason}`, 'INVALID_TOKEN', {
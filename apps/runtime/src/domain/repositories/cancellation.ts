@@ -0,0 +1,14 @@
+import { UserId } from '@domain/value-objects';
+
+export interface CancellationRepository {
+  /**
+   * Record that the user asked to stop the generation started by requestId.
+   * The record is removed by the table TTL after expiresAt (epoch seconds).
+   */
+  save(requestId: string, userId: UserId, expiresAt: number): Promise<void>;
+
+  /**
+   * Whether the user asked to stop the generation started by requestId
+   */
+  exists(requestId: string, userId: UserId): Promise<boolean>;
+}
@@ -11,6 +11,7 @@ export interface ConnectionRepository {
   findById(id: ConnectionId): Promise<Connection | null>;
   findByUserId(userId: UserId): Promise<Connection[]>;
   findBySessionId(sessionId: SessionId): Promise<Connection[]>;
+  findByStatus(status: ConnectionStatus): Promise<Connection[]>;
   save(connection: Connection): Promise<void>;
   delete(id: ConnectionId): Promise<void>;
   findExpiredConnections(): Promise<Connection[]>;
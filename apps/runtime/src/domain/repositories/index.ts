@@ -2,3 +2,8 @@ export { ConnectionRepository } from './connection';
 export { MessageRepository } from './message';
 export { SessionRepository } from './session';
 export { UserRepository } from './user';
+export { UsageRepository } from './usage';
+export { RateLimitRepository } from './rate-limit';
+export { CancellationRepository } from './cancellation';
+export { KnowledgeRepository } from './knowledge';
+export { VectorIndex } from './vector-index';
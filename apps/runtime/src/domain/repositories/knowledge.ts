@@ -0,0 +1,51 @@
+export type KnowledgeContentType = 'text' | 'markdown' | 'pdf';
+
+/**
+ * A document of the knowledge base, without its content
+ */
+export interface KnowledgeDocument {
+  id: string;
+  title: string;
+  contentType: KnowledgeContentType;
+  uploadedBy: string;
+  chunkCount: number;
+  createdAt: Date;
+}
+
+/**
+ * A passage of a document with its embedding
+ */
+export interface KnowledgeChunk {
+  id: string; // <documentId>#<index>
+  documentId: string;
+  index: number;
+  content: string;
+  embedding: number[];
+}
+
+export interface KnowledgeRepository {
+  /**
+   * Store a document together with all its chunks
+   */
+  saveDocument(
+    document: KnowledgeDocument,
+    chunks: KnowledgeChunk[]
+  ): Promise<void>;
+
+  findDocument(documentId: string): Promise<KnowledgeDocument | null>;
+
+  /**
+   * All documents, most recent first
+   */
+  findDocuments(): Promise<KnowledgeDocument[]>;
+
+  /**
+   * Chunks of every document, to build a search index from
+   */
+  findAllChunks(): Promise<KnowledgeChunk[]>;
+
+  /**
+   * Delete a document and its chunks
+   */
+  deleteDocument(documentId: string): Promise<void>;
+}
@@ -1,13 +1,36 @@
 import { Message, MessageType } from '@domain/entities';
 import { MessageId, SessionId, UserId } from '@domain/value-objects';
 
+import {
+  CursorPageDto,
+  CursorPaginationDto,
+} from '@/shared/dto/base/pagination.dto';
+
 export interface MessageRepository {
   findById(id: MessageId): Promise<Message | null>;
   findBySession(sessionId: SessionId): Promise<Message[]>;
+  // Forward pages run oldest first, backward pages newest first
+  findPageBySession(
+    sessionId: SessionId,
+    pagination: CursorPaginationDto
+  ): Promise<CursorPageDto<Message>>;
+  // Messages created after the given one (all when null), oldest first
+  findAfter(
+    sessionId: SessionId,
+    after: Message | null,
+    limit: number
+  ): Promise<Message[]>;
+  // Responses stored because they could not be delivered, oldest first
+  findPendingBySession(sessionId: SessionId): Promise<Message[]>;
+  // Messages whose replyToMessageId is the given one, oldest first
+  findReplies(messageId: MessageId): Promise<Message[]>;
   findByUser(userId: UserId): Promise<Message[]>;
   findByType(type: MessageType): Promise<Message[]>;
   save(message: Message): Promise<void>;
+  // Stores the status of an already saved message
+  updateStatus(message: Message): Promise<void>;
   delete(id: MessageId): Promise<void>;
+  deleteBySession(sessionId: SessionId): Promise<void>;
   exists(id: MessageId): Promise<boolean>;
   findRecentMessages(userId: UserId, limit: number): Promise<Message[]>;
   findMessagesByDateRange(
@@ -0,0 +1,20 @@
+import { UserId } from '@domain/value-objects';
+
+export interface RateLimitRepository {
+  /**
+   * Number of requests counted for the user in the window starting at
+   * windowStart (epoch seconds)
+   */
+  getCount(userId: UserId, windowStart: number): Promise<number>;
+
+  /**
+   * Atomically count one request in the window unless it already holds
+   * maxCount requests. Resolves false when the request was not counted.
+   */
+  increment(
+    userId: UserId,
+    windowStart: number,
+    maxCount: number,
+    expiresAt: number
+  ): Promise<boolean>;
+}
@@ -1,6 +1,11 @@
 import { Session, SessionStatus } from '@domain/entities';
 import { SessionId, UserId } from '@domain/value-objects';
 
+import {
+  CursorPageDto,
+  CursorPaginationDto,
+} from '@/shared/dto/base/pagination.dto';
+
 export interface SessionRepository {
   findById(id: SessionId): Promise<Session | null>;
   findByUserId(userId: UserId): Promise<Session[]>;
@@ -14,4 +19,10 @@ export interface SessionRepository {
   findActiveSessionByUser(userId: UserId): Promise<Session | null>;
   countByStatus(status: SessionStatus): Promise<number>;
   countByUser(userId: UserId): Promise<number>;
+  // Chat conversations of the user, most recent first
+  findConversationsByUser(
+    userId: UserId,
+    pagination: CursorPaginationDto
+  ): Promise<CursorPageDto<Session>>;
+  countConversationsByUser(userId: UserId): Promise<number>;
 }
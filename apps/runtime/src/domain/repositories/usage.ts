@@ -0,0 +1,46 @@
+import { LLMModel } from '@domain/services/llm-service';
+import { SessionId, UserId } from '@domain/value-objects';
+
+/**
+ * Token usage of a single model call
+ */
+export interface UsageEntry {
+  userId: UserId;
+  sessionId: SessionId;
+  model: LLMModel;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCost: number; // USD
+  timestamp: Date;
+}
+
+/**
+ * Usage accumulated for a user over one day or one session
+ */
+export interface UsageTotals {
+  userId: string;
+  scope: 'day' | 'session';
+  key: string; // YYYY-MM-DD for days, the session id for sessions
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  estimatedCost: number;
+  requestCount: number;
+  updatedAt: string;
+}
+
+export interface UsageRepository {
+  record(entry: UsageEntry): Promise<void>;
+  getDailyUsage(userId: UserId, date: string): Promise<UsageTotals | null>;
+  getSessionUsage(
+    userId: UserId,
+    sessionId: SessionId
+  ): Promise<UsageTotals | null>;
+  findDailyUsageByUser(
+    userId: UserId,
+    fromDate: string,
+    toDate: string
+  ): Promise<UsageTotals[]>;
+  findDailyUsageByDate(date: string): Promise<UsageTotals[]>;
+  findSessionUsageByUser(userId: UserId): Promise<UsageTotals[]>;
+}
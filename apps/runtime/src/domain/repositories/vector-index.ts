@@ -0,0 +1,36 @@
+/**
+ * A vector with the data needed to use it once found
+ */
+export interface VectorRecord {
+  id: string;
+  vector: number[];
+  metadata: Record<string, string | number>;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number; // Cosine similarity to the query, 1 for the same direction
+  metadata: Record<string, string | number>;
+}
+
+export interface VectorIndex {
+  /**
+   * Add records, replacing those with the same id
+   */
+  upsert(records: VectorRecord[]): Promise<void>;
+
+  /**
+   * The records closest to the vector, best first
+   */
+  query(vector: number[], topK: number): Promise<VectorMatch[]>;
+
+  /**
+   * Remove records by id
+   */
+  delete(ids: string[]): Promise<void>;
+
+  /**
+   * Number of records in the index
+   */
+  size(): Promise<number>;
+}
@@ -0,0 +1,18 @@
+import { UserId } from '@domain/value-objects';
+
+export interface GenerationWatch {
+  signal: AbortSignal; // Aborted once the user asks to stop
+  stop(): void; // Call when the generation ends
+}
+
+export interface CancellationService {
+  /**
+   * Ask the invocation generating the response to requestId to stop
+   */
+  requestCancel(userId: UserId, requestId: string): Promise<void>;
+
+  /**
+   * Watch for a request to stop the generation started by requestId
+   */
+  watch(userId: UserId, requestId: string): GenerationWatch;
+}
@@ -1,10 +1,59 @@
 import { Message } from '@domain/entities';
+import { LLMModel } from '@domain/services/llm-service';
 import { SessionId, UserId } from '@domain/value-objects';
 
+export interface MessageChunk {
+  messageId: string;
+  sessionId: string;
+  content: string;
+  index: number;
+}
+
+export type MessageChunkHandler = (chunk: MessageChunk) => Promise<void>;
+
+export interface ToolCallEvent {
+  messageId: string;
+  sessionId: string;
+  toolCallId: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface ToolResultEvent {
+  messageId: string;
+  sessionId: string;
+  toolCallId: string;
+  name: string;
+  content: string;
+  isError: boolean;
+}
+
+export type ToolCallHandler = (event: ToolCallEvent) => Promise<void>;
+export type ToolResultHandler = (event: ToolResultEvent) => Promise<void>;
+
 export interface ProcessMessageCommand {
   content: string;
   userId: UserId;
   sessionId: SessionId;
+  model?: LLMModel; // Defaults to the catalog's default model
+  requestId?: string; // Lets the user stop the generation with a cancel frame
+  parentMessageId?: string; // Message this one follows; the latest by default
+  editMessageId?: string; // User message this one is a new version of
+  replyToMessageId?: string; // Earlier answer this one follows up on, in its thread
+  onChunk?: MessageChunkHandler;
+  onToolCall?: ToolCallHandler;
+  onToolResult?: ToolResultHandler;
+}
+
+export interface RegenerateResponseCommand {
+  messageId: string; // Assistant response to generate another version of
+  userId: UserId;
+  sessionId: SessionId;
+  model?: LLMModel;
+  requestId?: string;
+  onChunk?: MessageChunkHandler;
+  onToolCall?: ToolCallHandler;
+  onToolResult?: ToolResultHandler;
 }
 
 export interface ProcessMessageResult {
@@ -20,6 +69,13 @@ export interface MessageValidationResult {
 
 export interface ChatService {
   processMessage(command: ProcessMessageCommand): Promise<ProcessMessageResult>;
+  /**
+   * Answer the prompt of a response again; the new response is a sibling of
+   * the old one and the result's input message is the prompt
+   */
+  regenerateResponse(
+    command: RegenerateResponseCommand
+  ): Promise<ProcessMessageResult>;
   validateMessage(message: Message): Promise<MessageValidationResult>;
   canUserSendMessage(userId: UserId): Promise<boolean>;
 }
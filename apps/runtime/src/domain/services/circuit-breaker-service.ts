@@ -1,4 +1,5 @@
 import { CircuitBreakerConfig } from '@infrastructure/config/monitoring-config';
+import { CircuitBreakerStats } from '@infrastructure/services/circuit-breaker-service';
 
 export interface CircuitBreakerService {
   execute<T>(
@@ -15,6 +16,9 @@ export interface CircuitBreakerService {
   ): unknown;
   getAllStats(): Record<string, unknown>;
   resetAll(): void;
-  getCircuitBreakerStats(serviceName: string, operation: string): unknown;
+  getCircuitBreakerStats(
+    serviceName: string,
+    operation: string
+  ): CircuitBreakerStats | null;
   setDefaultConfig(config: CircuitBreakerConfig): void;
 }
@@ -16,6 +16,21 @@ export interface ConnectionService {
   getConnection(connectionId: ConnectionId): Promise<Connection | null>;
   updateConnectionActivity(connectionId: ConnectionId): Promise<void>;
   findConnectionsByUser(userId: UserId): Promise<Connection[]>;
+  /**
+   * Make room for a newly authenticated connection of the user. Throws
+   * ConnectionLimitExceededException when the limit policy rejects it;
+   * otherwise resolves the older connections that were evicted.
+   */
+  enforceConnectionLimit(
+    userId: UserId,
+    connectionId: ConnectionId
+  ): Promise<Connection[]>;
+  /**
+   * Forget a connection API Gateway reported as gone (HTTP 410) and record
+   * when its user was last seen. Resolves the removed connection, or null
+   * when it was already gone from the table.
+   */
+  removeGoneConnection(connectionId: ConnectionId): Promise<Connection | null>;
   cleanupExpiredConnections(): Promise<void>;
   countActiveConnections(): Promise<number>;
 }
@@ -0,0 +1,60 @@
+import { ConversationTree } from '@domain/entities';
+import { LLMConversationTurn, LLMModel } from '@domain/services/llm-service';
+import { MessageId, SessionId, UserId } from '@domain/value-objects';
+
+export interface BuildHistoryCommand {
+  sessionId: SessionId;
+  // Owner of the session; summarizing older turns is charged to them
+  userId: UserId;
+  model: LLMModel;
+  pendingMessage?: string;
+  // Message the pending one follows; a first message has no history
+  parentMessageId?: MessageId;
+  // Answer the pending message follows up on; the branch ending at it and
+  // the thread so far are the history
+  threadMessageId?: MessageId;
+  // Conversation already loaded by the caller, to avoid reading it again
+  conversation?: ConversationTree;
+}
+
+/**
+ * Rolling summary of the older turns of a long conversation, kept in the
+ * session metadata. It covers the branch up to throughMessageId and only
+ * stands in for those turns on branches that contain that message.
+ */
+export interface ConversationSummary {
+  content: string;
+  throughMessageId: string;
+  messageCount: number; // Messages the summary stands in for
+  updatedAt: string;
+}
+
+export interface ConversationHistory {
+  turns: LLMConversationTurn[];
+  // Summary of the turns before the first one, when they were summarized
+  summary?: string;
+}
+
+export interface ConversationContextService {
+  /**
+   * Load the messages of a session as a tree of branches
+   */
+  loadConversation(sessionId: SessionId): Promise<ConversationTree>;
+
+  /**
+   * Build the prior conversation turns for a session from the branch ending at
+   * the parent message, trimmed to the model's token budget. When the branch
+   * no longer fits, its older turns are folded into the session summary.
+   */
+  buildHistory(command: BuildHistoryCommand): Promise<ConversationHistory>;
+
+  /**
+   * The stored summary of a session, or null when it was never summarized
+   */
+  getSummary(sessionId: SessionId): Promise<ConversationSummary | null>;
+
+  /**
+   * Estimate the number of tokens in a piece of text
+   */
+  estimateTokens(text: string): number;
+}
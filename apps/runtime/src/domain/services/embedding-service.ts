@@ -0,0 +1,7 @@
+export interface EmbeddingService {
+  /**
+   * Embed texts as vectors, in the order given. All vectors of one service
+   * have the same length and can be compared by cosine similarity.
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
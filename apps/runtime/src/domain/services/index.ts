@@ -1,9 +1,17 @@
 // Core domain services
 export * from './authentication-service';
+export * from './cancellation-service';
 export * from './chat-service';
 export * from './connection-service';
+export * from './embedding-service';
+export * from './knowledge-base-service';
+export * from './mcp-service';
 export * from './metrics-service';
 export * from './performance-monitoring-service';
+export * from './rate-limit-service';
+export * from './session-service';
+export * from './tool-registry';
+export * from './usage-service';
 
 // Communication and messaging services
 export * from './communication-service';
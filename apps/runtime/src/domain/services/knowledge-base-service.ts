@@ -0,0 +1,45 @@
+import {
+  KnowledgeContentType,
+  KnowledgeDocument,
+} from '@domain/repositories/knowledge';
+import { UserId } from '@domain/value-objects';
+
+export interface IngestDocumentCommand {
+  title: string;
+  contentType: KnowledgeContentType;
+  content: Buffer; // UTF-8 text, or the bytes of a PDF
+  uploadedBy: UserId;
+}
+
+/**
+ * A passage found for a question, with the document it comes from
+ */
+export interface RetrievedPassage {
+  documentId: string;
+  title: string;
+  chunkIndex: number;
+  content: string;
+  score: number;
+}
+
+export interface KnowledgeBaseService {
+  /**
+   * Extract the text of a document, split it into chunks and index them.
+   * Throws ValidationError when the document has no usable text.
+   */
+  ingestDocument(command: IngestDocumentCommand): Promise<KnowledgeDocument>;
+
+  listDocuments(): Promise<KnowledgeDocument[]>;
+
+  /**
+   * Remove a document and its chunks. Throws EntityNotFoundError when it does
+   * not exist.
+   */
+  deleteDocument(documentId: string): Promise<void>;
+
+  /**
+   * Passages most relevant to the question, best first; empty when the
+   * knowledge base is empty or could not be searched
+   */
+  retrieve(question: string): Promise<RetrievedPassage[]>;
+}
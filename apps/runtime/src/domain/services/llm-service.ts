@@ -1,4 +1,6 @@
+import { LLMModel } from '@awslambdahackathon/types';
 import { Message } from '@domain/entities';
+import { ToolDefinition } from '@domain/services/tool-registry';
 import { SessionId, UserId } from '@domain/value-objects';
 
 export interface InvokeLLMCommand {
@@ -12,18 +14,42 @@ export interface InvokeLLMResult {
   response: string;
 }
 
+export type LLMConversationRole = 'user' | 'assistant';
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface LLMToolResult {
+  toolCallId: string;
+  content: string;
+  isError?: boolean;
+}
+
+export interface LLMConversationTurn {
+  role: LLMConversationRole;
+  content: string;
+  toolCalls?: LLMToolCall[]; // Assistant turns requesting tools
+  toolResults?: LLMToolResult[]; // User turns answering tool requests
+}
+
 export interface LLMRequest {
   messageId: string;
   userId: string;
   sessionId: string;
   message: string;
-  context?: string;
+  history?: LLMConversationTurn[];
+  continuation?: LLMConversationTurn[]; // Tool exchanges after the current message
+  tools?: ToolDefinition[];
   model?: LLMModel;
   maxTokens?: number;
   temperature?: number;
   topP?: number;
   topK?: number;
   systemPrompt?: string;
+  abortSignal?: AbortSignal; // Stops the model call when the user cancels
 }
 
 export interface LLMResponse {
@@ -32,6 +58,11 @@ export interface LLMResponse {
   response?: string;
   error?: string;
   usage?: LLMUsage;
+  toolCalls?: LLMToolCall[];
+  stopReason?: string;
+  model?: LLMModel; // Model that produced the response
+  cancelled?: boolean; // Stopped through abortSignal; response holds the partial text
+  retryable?: boolean; // Failed transiently (throttling, timeout, server error)
 }
 
 export interface LLMUsage {
@@ -40,13 +71,16 @@ export interface LLMUsage {
   totalTokens: number;
 }
 
-export type LLMModel =
-  | 'nova-micro'
-  | 'nova-lite'
-  | 'nova-pro'
-  | 'claude-3-haiku'
-  | 'claude-3-sonnet'
-  | 'claude-3-opus';
+export interface LLMStreamChunk {
+  messageId: string;
+  text: string;
+  index: number;
+}
+
+export type LLMStreamHandler = (chunk: LLMStreamChunk) => Promise<void>;
+
+// Models are defined once in the shared catalog
+export type { LLMModel };
 
 export interface LLMService {
   /**
@@ -71,3 +105,13 @@ export interface LLMService {
    */
   getSupportedModels(): LLMModel[];
 }
+
+export interface StreamingLLMService extends LLMService {
+  /**
+   * Generate response using LLM, emitting partial text as it is produced
+   */
+  generateResponseStream(
+    request: LLMRequest,
+    onChunk: LLMStreamHandler
+  ): Promise<LLMResponse>;
+}
@@ -0,0 +1,26 @@
+export interface McpServerSummary {
+  name: string;
+  connected: boolean;
+  toolCount: number;
+  resourceCount: number;
+  promptCount: number;
+  error?: string;
+}
+
+export interface McpService {
+  /**
+   * Connect to the configured MCP servers and register what they offer as
+   * tools; repeated calls reuse the first connection attempt
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Get the connection state and discovered capabilities of every server
+   */
+  getServers(): McpServerSummary[];
+
+  /**
+   * Disconnect from all servers and unregister their tools
+   */
+  close(): Promise<void>;
+}
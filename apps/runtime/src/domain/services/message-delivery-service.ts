@@ -12,11 +12,13 @@ export interface BroadcastMessageCommand {
   messageType?: 'text' | 'system' | 'error';
   targetUsers?: UserId[];
   excludeUsers?: UserId[];
+  excludeConnections?: ConnectionId[];
   metadata?: Record<string, unknown>;
 }
 
 export interface MessageDeliveryResult {
   success: boolean;
+  connectionId?: string; // Connection the result is for
   messageId?: string;
   error?: string;
   deliveredAt?: Date;
@@ -31,7 +33,8 @@ export interface MessageDeliveryService {
   ): Promise<MessageDeliveryResult>;
 
   /**
-   * Broadcasts a message to multiple connections
+   * Broadcasts a message to the authenticated connections of the target
+   * users, or of all users; one result per connection
    */
   broadcastMessage(
     command: BroadcastMessageCommand
@@ -0,0 +1,9 @@
+import { User } from '@domain/entities/user';
+
+export interface RateLimitService {
+  /**
+   * Count one message for the user, throwing
+   * MessageRateLimitExceededException when their group's limit is reached
+   */
+  consume(user: User): Promise<void>;
+}
@@ -0,0 +1,118 @@
+import { Message, MessageStatus } from '@domain/entities/message';
+import { Session } from '@domain/entities/session';
+import { ConversationSummary } from '@domain/services/conversation-context-service';
+import { MessageId, SessionId, UserId } from '@domain/value-objects';
+
+import {
+  CursorPaginationDto,
+  PaginationMetaDto,
+} from '@/shared/dto/base/pagination.dto';
+
+export interface PagedResult<TItem> {
+  items: TItem[];
+  pagination: PaginationMetaDto;
+}
+
+export interface SessionService {
+  /**
+   * Record the conversation on its first message and refresh its activity on
+   * later ones. Throws EntityNotFoundError when the session belongs to
+   * another user.
+   */
+  touchConversation(userId: UserId, sessionId: SessionId): Promise<void>;
+
+  /**
+   * The user's conversations, most recent first
+   */
+  listSessions(
+    userId: UserId,
+    pagination: CursorPaginationDto
+  ): Promise<PagedResult<Session>>;
+
+  /**
+   * Message history of one of the user's conversations
+   */
+  getMessages(
+    userId: UserId,
+    sessionId: SessionId,
+    pagination: CursorPaginationDto
+  ): Promise<PagedResult<Message>>;
+
+  /**
+   * Assistant responses the client missed while disconnected: those after
+   * lastMessageId and those stored as undelivered, oldest first
+   */
+  getMissedMessages(
+    userId: UserId,
+    sessionId: SessionId,
+    lastMessageId?: MessageId
+  ): Promise<Message[]>;
+
+  /**
+   * Follow-ups asked about one of the conversation's answers and their
+   * responses, oldest first
+   */
+  getThread(
+    userId: UserId,
+    sessionId: SessionId,
+    messageId: MessageId
+  ): Promise<Message[]>;
+
+  /**
+   * Summary of the older turns of one of the user's conversations, or null
+   * when it has not grown long enough to be summarized
+   */
+  getSummary(
+    userId: UserId,
+    sessionId: SessionId
+  ): Promise<ConversationSummary | null>;
+
+  /**
+   * Keep a response that could not be sent so it is replayed on resume
+   */
+  storeUndelivered(message: Message): Promise<void>;
+
+  /**
+   * Record that replayed responses reached the client
+   */
+  markDelivered(messages: Message[]): Promise<void>;
+
+  /**
+   * Record that responses reached the client or were shown to the user. The
+   * user messages they answer take the same status. Returns the messages
+   * whose status changed; a status never goes back.
+   */
+  recordReceipt(
+    userId: UserId,
+    sessionId: SessionId,
+    messageIds: MessageId[],
+    status: MessageStatus.DELIVERED | MessageStatus.READ
+  ): Promise<Message[]>;
+
+  /**
+   * Title an untitled conversation from its first exchange. Returns the
+   * updated session, or null when it already has a title or none could be
+   * generated.
+   */
+  generateTitle(
+    userId: UserId,
+    sessionId: SessionId,
+    prompt: string,
+    reply: string
+  ): Promise<Session | null>;
+
+  /**
+   * Set the title of one of the user's conversations; a title set by the
+   * user is never replaced by a generated one
+   */
+  renameSession(
+    userId: UserId,
+    sessionId: SessionId,
+    title: string
+  ): Promise<Session>;
+
+  /**
+   * Delete one of the user's conversations together with its messages
+   */
+  deleteSession(userId: UserId, sessionId: SessionId): Promise<void>;
+}
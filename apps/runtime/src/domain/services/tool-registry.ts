@@ -0,0 +1,65 @@
+/**
+ * JSON schema describing the input accepted by a tool
+ */
+export interface ToolInputSchema {
+  type: 'object';
+  properties?: Record<string, Record<string, unknown>>;
+  required?: string[];
+  [key: string]: unknown;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: ToolInputSchema;
+}
+
+export interface ToolExecutionContext {
+  userId: string;
+  sessionId: string;
+}
+
+export interface ToolResult {
+  content: string;
+  isError?: boolean;
+}
+
+export type ToolHandler = (
+  input: Record<string, unknown>,
+  context: ToolExecutionContext
+) => Promise<ToolResult>;
+
+export interface Tool extends ToolDefinition {
+  handler: ToolHandler;
+}
+
+export interface ToolRegistry {
+  /**
+   * Register a tool; names must be unique
+   */
+  register(tool: Tool): void;
+
+  /**
+   * Remove a tool by name
+   */
+  unregister(name: string): boolean;
+
+  /**
+   * Check whether a tool is registered
+   */
+  has(name: string): boolean;
+
+  /**
+   * Get the definitions of all registered tools
+   */
+  getDefinitions(): ToolDefinition[];
+
+  /**
+   * Validate the input and run a tool; failures are returned as error results
+   */
+  execute(
+    name: string,
+    input: Record<string, unknown>,
+    context: ToolExecutionContext
+  ): Promise<ToolResult>;
+}
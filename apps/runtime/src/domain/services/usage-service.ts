@@ -0,0 +1,42 @@
+import { UsageTotals } from '@domain/repositories/usage';
+import { LLMModel, LLMUsage } from '@domain/services/llm-service';
+import { SessionId, UserId } from '@domain/value-objects';
+
+export interface UsageReport {
+  userId?: string;
+  date?: string;
+  daily: UsageTotals[];
+  sessions?: UsageTotals[];
+}
+
+export interface UsageService {
+  /**
+   * Throw QuotaExceededException when the user has used up a quota of any
+   * of their groups
+   */
+  assertWithinQuota(userId: UserId, sessionId: SessionId): Promise<void>;
+
+  /**
+   * Add the tokens and estimated cost of a model call to the ledger
+   */
+  recordUsage(
+    userId: UserId,
+    sessionId: SessionId,
+    model: LLMModel,
+    usage: LLMUsage
+  ): Promise<void>;
+
+  /**
+   * Usage of every user on one day
+   */
+  getUsageByDate(date: string): Promise<UsageReport>;
+
+  /**
+   * Daily and per-session usage of one user
+   */
+  getUsageByUser(
+    userId: UserId,
+    fromDate: string,
+    toDate: string
+  ): Promise<UsageReport>;
+}
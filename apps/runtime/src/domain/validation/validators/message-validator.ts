@@ -1,4 +1,8 @@
-import { MessageStatus, MessageType } from '@domain/entities/message';
+import {
+  MessageRole,
+  MessageStatus,
+  MessageType,
+} from '@domain/entities/message';
 import { ValidationError } from '@domain/errors';
 import {
   EntityValidationResult,
@@ -15,6 +19,7 @@ export interface MessageData {
   createdAt?: Date;
   metadata?: Record<string, unknown>;
   replyToMessageId?: string;
+  role?: MessageRole;
 }
 
 export class MessageValidator {
@@ -37,6 +42,11 @@ export class MessageValidator {
     fieldResults.push(typeResult);
     errors.push(...typeResult.errors);
 
+    // Role validation
+    const roleResult = this.validateRole(messageData.role);
+    fieldResults.push(roleResult);
+    errors.push(...roleResult.errors);
+
     // User ID validation
     const userIdResult = this.validateUserId(messageData.userId);
     fieldResults.push(userIdResult);
@@ -117,6 +127,23 @@ export class MessageValidator {
     };
   }
 
+  private static validateRole(role?: MessageRole): FieldValidationResult {
+    const errors: string[] = [];
+    const validRoles = Object.values(MessageRole);
+
+    if (role !== undefined && !validRoles.includes(role)) {
+      errors.push(
+        `Invalid message role. Must be one of: ${validRoles.join(', ')}`
+      );
+    }
+
+    return {
+      field: 'role',
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
   private static validateUserId(userId: string): FieldValidationResult {
     const errors: string[] = [];
 
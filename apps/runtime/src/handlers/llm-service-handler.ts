@@ -1,3 +1,4 @@
+import { DEFAULT_MODEL } from '@awslambdahackathon/types';
 import { logger } from '@awslambdahackathon/utils/lambda';
 import { LLMRequest, LLMResponse } from '@domain/services/llm-service';
 import {
@@ -13,7 +14,7 @@ import {
 // Initialize Bedrock adapter
 const bedrockConfig: BedrockConfig = {
   region: process.env.AWS_REGION || 'us-east-2',
-  defaultModel: 'nova-micro',
+  defaultModel: DEFAULT_MODEL,
   timeout: 30000,
   maxRetries: 3,
 };
@@ -52,7 +53,7 @@ export const handler = async (
       messageId: llmRequest.messageId,
       userId: llmRequest.userId,
       sessionId: llmRequest.sessionId,
-      model: llmRequest.model || 'claude-3-haiku',
+      model: llmRequest.model || DEFAULT_MODEL,
       messageLength: llmRequest.message.length,
     });
 
@@ -92,6 +93,7 @@ export const handler = async (
       response: llmResult.response,
       error: llmResult.error,
       usage: llmResult.usage,
+      retryable: llmResult.retryable,
     };
 
     return {
@@ -1,3 +1,8 @@
 // Inbound Adapters - API Gateway WebSocket Handlers
 export { handler as connectionHandler } from './websockets/connection';
 export { handler as conversationHandler } from './websockets/conversation';
+
+// Inbound Adapters - API Gateway REST Handlers
+export { handler as knowledgeHandler } from './rest/knowledge';
+export { handler as sessionsHandler } from './rest/sessions';
+export { handler as usageHandler } from './rest/usage';
@@ -0,0 +1,17 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+
+// Cognito puts groups in the claims as a list or a comma separated string
+export const getCallerGroups = (event: APIGatewayProxyEvent): string[] => {
+  const groups = event.requestContext.authorizer?.claims?.['cognito:groups'];
+
+  if (Array.isArray(groups)) {
+    return groups.map(String);
+  }
+  if (typeof groups === 'string') {
+    return groups
+      .replace(/^\[|\]$/g, '')
+      .split(/[,\s]+/)
+      .filter(group => group.length > 0);
+  }
+  return [];
+};
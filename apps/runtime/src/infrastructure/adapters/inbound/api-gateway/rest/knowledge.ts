@@ -0,0 +1,131 @@
+import { KnowledgeDocumentDto } from '@awslambdahackathon/types';
+import {
+  createErrorResponse,
+  createHandler,
+  createSuccessResponse,
+  logger,
+} from '@awslambdahackathon/utils/lambda';
+import { container } from '@config/container';
+import { DomainError } from '@domain/errors/domain-errors';
+import { KnowledgeDocument } from '@domain/repositories/knowledge';
+import { UserId } from '@domain/value-objects';
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { z } from 'zod';
+
+import { getCallerGroups } from './caller-groups';
+
+const ERROR_STATUS_CODES: Record<string, number> = {
+  NOT_FOUND: 404,
+  VALIDATION_ERROR: 400,
+};
+
+const CONTENT_TYPES = ['text', 'markdown', 'pdf'] as const;
+
+const UploadDocumentBodySchema = z.object({
+  title: z
+    .string({
+      required_error: 'A title is required',
+      invalid_type_error: 'A title is required',
+    })
+    .trim()
+    .min(1, 'A title is required'),
+  contentType: z.enum(CONTENT_TYPES, {
+    errorMap: () => ({
+      message: `contentType must be one of: ${CONTENT_TYPES.join(', ')}`,
+    }),
+  }),
+  content: z.string({
+    required_error: 'Document content is required',
+    invalid_type_error: 'Document content is required',
+  }),
+});
+
+const toDto = (document: KnowledgeDocument): KnowledgeDocumentDto => ({
+  id: document.id,
+  title: document.title,
+  contentType: document.contentType,
+  uploadedBy: document.uploadedBy,
+  chunkCount: document.chunkCount,
+  createdAt: document.createdAt.toISOString(),
+});
+
+const listDocuments = async () => {
+  const documents = await container.getKnowledgeBaseService().listDocuments();
+
+  return createSuccessResponse({ items: documents.map(toDto) });
+};
+
+const uploadDocument = async (userId: UserId, event: APIGatewayProxyEvent) => {
+  // The JSON body parser middleware has already parsed the body
+  const parsed = UploadDocumentBodySchema.safeParse(event.body ?? {});
+  if (!parsed.success) {
+    return createErrorResponse(parsed.error.issues[0].message, 400);
+  }
+
+  const { title, contentType, content } = parsed.data;
+  const document = await container.getKnowledgeBaseService().ingestDocument({
+    title,
+    contentType,
+    // PDFs are binary and come base64 encoded
+    content: Buffer.from(content, contentType === 'pdf' ? 'base64' : 'utf8'),
+    uploadedBy: userId,
+  });
+
+  return createSuccessResponse(toDto(document), 201);
+};
+
+const deleteDocument = async (documentId: string) => {
+  await container.getKnowledgeBaseService().deleteDocument(documentId);
+
+  return createSuccessResponse({ documentId });
+};
+
+/**
+ * Admin management of the knowledge base chat answers are grounded in.
+ * GET /knowledge/documents - documents, most recent first
+ * POST /knowledge/documents - add a document
+ *   ({ "title": "...", "contentType": "text" | "markdown" | "pdf",
+ *      "content": "..." }, base64 for PDFs)
+ * DELETE /knowledge/documents/{documentId} - a document and its passages
+ */
+const knowledgeHandler = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  const sub = event.requestContext.authorizer?.claims?.sub;
+  if (typeof sub !== 'string' || sub.length === 0) {
+    return createErrorResponse('Authentication required', 401);
+  }
+  if (!getCallerGroups(event).includes('admin')) {
+    return createErrorResponse('Admin access required', 403);
+  }
+
+  const route = `${event.httpMethod} ${event.resource}`;
+  const documentId = event.pathParameters?.documentId;
+
+  try {
+    if (route === 'GET /knowledge/documents') {
+      return await listDocuments();
+    }
+    if (route === 'POST /knowledge/documents') {
+      return await uploadDocument(UserId.create(sub), event);
+    }
+    if (route === 'DELETE /knowledge/documents/{documentId}' && documentId) {
+      return await deleteDocument(documentId);
+    }
+
+    return createErrorResponse(`Unsupported route: ${route}`, 404);
+  } catch (error) {
+    if (error instanceof DomainError && ERROR_STATUS_CODES[error.code]) {
+      return createErrorResponse(error, ERROR_STATUS_CODES[error.code]);
+    }
+
+    logger.error('Failed to handle knowledge request', {
+      route,
+      documentId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return createErrorResponse('Failed to handle knowledge request', 500);
+  }
+};
+
+export const handler = createHandler(knowledgeHandler);
@@ -0,0 +1,175 @@
+import { EntityDtoMapper } from '@application/mappers/entity-dto.mapper';
+import {
+  createErrorResponse,
+  createHandler,
+  createSuccessResponse,
+  logger,
+} from '@awslambdahackathon/utils/lambda';
+import { container } from '@config/container';
+import { DomainError } from '@domain/errors/domain-errors';
+import { MessageId, SessionId, UserId } from '@domain/value-objects';
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { z } from 'zod';
+
+import {
+  CursorPaginationDto,
+  PaginationUtils,
+} from '@/shared/dto/base/pagination.dto';
+
+const ERROR_STATUS_CODES: Record<string, number> = {
+  NOT_FOUND: 404,
+  VALIDATION_ERROR: 400,
+};
+
+const RenameSessionBodySchema = z.object({
+  title: z.string(),
+});
+
+const getPagination = (event: APIGatewayProxyEvent): CursorPaginationDto => {
+  const params = event.queryStringParameters || {};
+
+  return PaginationUtils.normalizeCursorPagination({
+    limit: params.limit ? parseInt(params.limit, 10) : undefined,
+    cursor: params.cursor,
+    direction: params.direction === 'backward' ? 'backward' : 'forward',
+  });
+};
+
+const listSessions = async (userId: UserId, event: APIGatewayProxyEvent) => {
+  const result = await container
+    .getSessionService()
+    .listSessions(userId, getPagination(event));
+
+  return createSuccessResponse({
+    items: EntityDtoMapper.Session.toDtoArray(result.items),
+    pagination: result.pagination,
+  });
+};
+
+const getMessages = async (
+  userId: UserId,
+  sessionId: SessionId,
+  event: APIGatewayProxyEvent
+) => {
+  const result = await container
+    .getSessionService()
+    .getMessages(userId, sessionId, getPagination(event));
+
+  return createSuccessResponse({
+    items: EntityDtoMapper.Message.toDtoArray(result.items),
+    pagination: result.pagination,
+  });
+};
+
+const getThread = async (
+  userId: UserId,
+  sessionId: SessionId,
+  messageId: MessageId
+) => {
+  const messages = await container
+    .getSessionService()
+    .getThread(userId, sessionId, messageId);
+
+  return createSuccessResponse({
+    items: EntityDtoMapper.Message.toDtoArray(messages),
+  });
+};
+
+const getSummary = async (userId: UserId, sessionId: SessionId) => {
+  const summary = await container
+    .getSessionService()
+    .getSummary(userId, sessionId);
+
+  return createSuccessResponse({ summary });
+};
+
+const renameSession = async (
+  userId: UserId,
+  sessionId: SessionId,
+  event: APIGatewayProxyEvent
+) => {
+  // The JSON body parser middleware has already parsed the body
+  const body = RenameSessionBodySchema.safeParse(event.body);
+  if (!body.success) {
+    return createErrorResponse('A title is required', 400);
+  }
+
+  const session = await container
+    .getSessionService()
+    .renameSession(userId, sessionId, body.data.title);
+
+  return createSuccessResponse(EntityDtoMapper.Session.toDto(session));
+};
+
+const deleteSession = async (userId: UserId, sessionId: SessionId) => {
+  await container.getSessionService().deleteSession(userId, sessionId);
+
+  return createSuccessResponse({ sessionId: sessionId.getValue() });
+};
+
+/**
+ * Conversation history of the signed-in user.
+ * GET /sessions?limit=&cursor= - conversations, most recent first
+ * GET /sessions/{sessionId}/messages?limit=&cursor=&direction= - messages,
+ *   oldest first or newest first with direction=backward
+ * GET /sessions/{sessionId}/messages/{messageId}/replies - the thread of
+ *   follow-ups about an answer, oldest first
+ * GET /sessions/{sessionId}/summary - summary of the older turns, or null
+ * PATCH /sessions/{sessionId} - rename a conversation ({ "title": "..." })
+ * DELETE /sessions/{sessionId} - a conversation and its messages
+ */
+const sessionsHandler = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  const sub = event.requestContext.authorizer?.claims?.sub;
+  if (typeof sub !== 'string' || sub.length === 0) {
+    return createErrorResponse('Authentication required', 401);
+  }
+
+  const route = `${event.httpMethod} ${event.resource}`;
+  const rawSessionId = event.pathParameters?.sessionId;
+  const rawMessageId = event.pathParameters?.messageId;
+
+  try {
+    const userId = UserId.create(sub);
+    const sessionId = rawSessionId ? SessionId.create(rawSessionId) : null;
+
+    if (route === 'GET /sessions') {
+      return await listSessions(userId, event);
+    }
+    if (route === 'GET /sessions/{sessionId}/messages' && sessionId) {
+      return await getMessages(userId, sessionId, event);
+    }
+    if (
+      route === 'GET /sessions/{sessionId}/messages/{messageId}/replies' &&
+      sessionId &&
+      rawMessageId
+    ) {
+      return await getThread(userId, sessionId, MessageId.create(rawMessageId));
+    }
+    if (route === 'GET /sessions/{sessionId}/summary' && sessionId) {
+      return await getSummary(userId, sessionId);
+    }
+    if (route === 'PATCH /sessions/{sessionId}' && sessionId) {
+      return await renameSession(userId, sessionId, event);
+    }
+    if (route === 'DELETE /sessions/{sessionId}' && sessionId) {
+      return await deleteSession(userId, sessionId);
+    }
+
+    return createErrorResponse(`Unsupported route: ${route}`, 404);
+  } catch (error) {
+    if (error instanceof DomainError && ERROR_STATUS_CODES[error.code]) {
+      return createErrorResponse(error, ERROR_STATUS_CODES[error.code]);
+    }
+
+    logger.error('Failed to handle sessions request', {
+      route,
+      sessionId: rawSessionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return createErrorResponse('Failed to handle sessions request', 500);
+  }
+};
+
+export const handler = createHandler(sessionsHandler);
@@ -0,0 +1,66 @@
+import {
+  createErrorResponse,
+  createHandler,
+  createSuccessResponse,
+  logger,
+} from '@awslambdahackathon/utils/lambda';
+import { USAGE_CONFIG } from '@config/constants';
+import { container } from '@config/container';
+import { UserId } from '@domain/value-objects';
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+
+import { getCallerGroups } from './caller-groups';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const daysAgo = (days: number): string => {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() - days);
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Admin usage report.
+ * GET /admin/usage?date=YYYY-MM-DD - usage of every user on one day
+ * GET /admin/usage?userId=...&from=YYYY-MM-DD&to=YYYY-MM-DD - one user
+ */
+const usageHandler = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  if (!getCallerGroups(event).includes('admin')) {
+    return createErrorResponse('Admin access required', 403);
+  }
+
+  const params = event.queryStringParameters || {};
+  const dates = [params.date, params.from, params.to].filter(
+    (value): value is string => value !== undefined
+  );
+  if (dates.some(value => !DATE_PATTERN.test(value))) {
+    return createErrorResponse('Dates must use the YYYY-MM-DD format', 400);
+  }
+
+  try {
+    const usageService = container.getUsageService();
+
+    if (params.userId) {
+      const report = await usageService.getUsageByUser(
+        UserId.create(params.userId),
+        params.from || daysAgo(USAGE_CONFIG.REPORT_DEFAULT_DAYS),
+        params.to || daysAgo(0)
+      );
+      return createSuccessResponse(report);
+    }
+
+    const report = await usageService.getUsageByDate(params.date || daysAgo(0));
+    return createSuccessResponse(report);
+  } catch (error) {
+    logger.error('Failed to build usage report', {
+      error: error instanceof Error ? error.message : String(error),
+      userId: params.userId,
+      date: params.date,
+    });
+    return createErrorResponse('Failed to build usage report', 500);
+  }
+};
+
+export const handler = createHandler(usageHandler);
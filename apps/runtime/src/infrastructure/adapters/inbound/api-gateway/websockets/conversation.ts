@@ -1,3 +1,11 @@
+import {
+  AckMessageSchema,
+  CancelMessageSchema,
+  isSupportedModel,
+  QuotaExceeded,
+  ReadMessageSchema,
+  ResumeMessageSchema,
+} from '@awslambdahackathon/types';
 import {
   createSuccessResponse,
   createWebSocketHandler,
@@ -11,8 +19,21 @@ import {
   WEBSOCKET_CONSTANTS,
 } from '@config/constants';
 import { container } from '@config/container';
+import { Connection } from '@domain/entities/connection';
+import { Message, MessageStatus } from '@domain/entities/message';
+import { DomainError } from '@domain/errors/domain-errors';
 import { ConnectionRepository } from '@domain/repositories/connection';
-import { ConnectionId, SessionId } from '@domain/value-objects';
+import {
+  MessageChunkHandler,
+  ToolCallHandler,
+  ToolResultHandler,
+} from '@domain/services/chat-service';
+import {
+  ConnectionId,
+  MessageId,
+  SessionId,
+  UserId,
+} from '@domain/value-objects';
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 
 // Type guards for safe type checking
@@ -37,11 +58,25 @@ function hasUserMethods(obj: unknown): obj is {
 }
 
 interface WebSocketMessage {
-  type: 'auth' | 'message' | 'ping';
+  type:
+    | 'auth'
+    | 'message'
+    | 'regenerate'
+    | 'edit_message'
+    | 'resume'
+    | 'ack'
+    | 'read'
+    | 'cancel'
+    | 'ping';
+  id?: string;
   data: {
     action: string;
     message?: string;
     sessionId?: string;
+    messageId?: string;
+    parentMessageId?: string;
+    replyToMessageId?: string;
+    model?: string;
     token?: string;
   };
 }
@@ -141,6 +176,262 @@ async function associateConnectionWithSession(
   }
 }
 
+// Make room for a newly authenticated connection of the user, telling evicted
+// connections why they are closed. Returns false when the limit policy
+// rejects the new connection.
+async function applyConnectionLimit(
+  connectionId: string,
+  userId: string,
+  event: APIGatewayProxyEvent,
+  correlationId: string
+): Promise<boolean> {
+  let displaced: Connection[];
+  try {
+    displaced = await container
+      .getConnectionService()
+      .enforceConnectionLimit(
+        UserId.create(userId),
+        ConnectionId.create(connectionId)
+      );
+  } catch (error) {
+    if (
+      error instanceof DomainError &&
+      error.code === 'CONNECTION_LIMIT_EXCEEDED'
+    ) {
+      logger.warn('Connection limit reached, rejecting connection', {
+        connectionId,
+        userId,
+        details: error.details,
+        correlationId,
+      });
+      return false;
+    }
+
+    // Failing to count connections must not lock the user out
+    logger.error('Failed to apply connection limit', {
+      connectionId,
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+      correlationId,
+    });
+    return true;
+  }
+
+  const communicationService = createWebSocketService(event);
+  await Promise.all(
+    displaced.map(async connection => {
+      try {
+        await communicationService.sendMessage(connection.getId(), {
+          type: 'system',
+          timestamp: new Date(),
+          data: {
+            action: 'session_displaced',
+            data: { reason: 'Signed in from another window or device' },
+          },
+        });
+      } catch (error) {
+        logger.warn('Failed to notify displaced connection', {
+          connectionId: connection.getId().getValue(),
+          error: error instanceof Error ? error.message : String(error),
+          correlationId,
+        });
+      }
+      await communicationService.disconnect(connection.getId());
+    })
+  );
+
+  return true;
+}
+
+// Count a chat message against the user's rate limit. Returns a response when
+// the message was rejected and must not be dispatched.
+async function enforceRateLimit(
+  connectionId: string,
+  event: APIGatewayProxyEvent,
+  correlationId: string
+): Promise<APIGatewayProxyResult | null> {
+  const user = await container
+    .getAuthenticationService()
+    .getUserFromConnection(ConnectionId.create(connectionId));
+
+  if (!user) {
+    // The chat handler reports the missing user
+    return null;
+  }
+
+  try {
+    await container.getRateLimitService().consume(user);
+    return null;
+  } catch (error) {
+    if (
+      !(error instanceof DomainError) ||
+      error.code !== 'MESSAGE_RATE_LIMIT_EXCEEDED'
+    ) {
+      throw error;
+    }
+
+    const details = error.details || {};
+    logger.warn('Chat message rate limited', {
+      connectionId,
+      userId: user.getUserId(),
+      limit: details.limit,
+      retryAfter: details.retryAfter,
+      correlationId,
+    });
+
+    await container
+      .getWebSocketMessageService()
+      .sendRateLimited(connectionId, event, {
+        message: 'Too many messages, please slow down',
+        code: 'MESSAGE_RATE_LIMIT_EXCEEDED',
+        limit: Number(details.limit),
+        windowSeconds: Number(details.timeWindow),
+        retryAfter: Number(details.retryAfter),
+      });
+
+    await container
+      .getMetricsService()
+      .recordBusinessMetrics(METRIC_CONSTANTS.NAMES.RATE_LIMITED, 1, {
+        userGroup: user.getGroups().join(','),
+        limit: String(details.limit),
+      });
+
+    return createSuccessResponse({
+      statusCode: WEBSOCKET_CONSTANTS.STATUS_CODES.SUCCESS,
+      body: '',
+    });
+  }
+}
+
+// Send a completed response to this connection and to the user's other
+// devices. When none of them receives it, store it so it is replayed when the
+// client resumes.
+async function deliverResponse(
+  connectionId: string,
+  event: APIGatewayProxyEvent,
+  message: Message,
+  correlationId: string
+): Promise<void> {
+  const delivered = await container
+    .getWebSocketMessageService()
+    .sendMessageComplete(connectionId, event, message);
+
+  let deliveredElsewhere = false;
+  try {
+    const results = await container
+      .createMessageDeliveryService(event as never)
+      .broadcastMessage({
+        content: message.getContent(),
+        messageType: 'text',
+        targetUsers: [message.getUserId()],
+        excludeConnections: [ConnectionId.create(connectionId)],
+        metadata: {
+          sessionId: message.getSessionId().getValue(),
+          messageId: message.getId().getValue(),
+          timestamp: message.getCreatedAt().toISOString(),
+          role: message.getRole(),
+          replyToMessageId: message.getReplyToMessageId()?.getValue(),
+          threadId: message.getMetadata().threadId,
+          metadata: { citations: message.getMetadata().citations },
+        },
+      });
+    deliveredElsewhere = results.some(result => result.success);
+  } catch (error) {
+    logger.warn('Failed to deliver response to other devices', {
+      connectionId,
+      messageId: message.getId().getValue(),
+      error: error instanceof Error ? error.message : String(error),
+      correlationId,
+    });
+  }
+
+  if (delivered || deliveredElsewhere) {
+    return;
+  }
+
+  try {
+    await container.getSessionService().storeUndelivered(message);
+
+    logger.warn('Response could not be delivered, stored for replay', {
+      connectionId,
+      sessionId: message.getSessionId().getValue(),
+      messageId: message.getId().getValue(),
+      correlationId,
+    });
+  } catch (error) {
+    logger.error('Failed to store undelivered response', {
+      connectionId,
+      messageId: message.getId().getValue(),
+      error: error instanceof Error ? error.message : String(error),
+      correlationId,
+    });
+  }
+}
+
+// Stream a response to the connection that asked for it while it is generated
+function createGenerationHandlers(
+  connectionId: string,
+  event: APIGatewayProxyEvent
+): {
+  onChunk: MessageChunkHandler;
+  onToolCall: ToolCallHandler;
+  onToolResult: ToolResultHandler;
+} {
+  const webSocketMessageService = container.getWebSocketMessageService();
+
+  return {
+    onChunk: async chunk => {
+      // Chunk delivery failures are logged by the service; keep generating
+      await webSocketMessageService.sendMessageChunk(
+        connectionId,
+        event,
+        chunk
+      );
+    },
+    onToolCall: async toolCall => {
+      await webSocketMessageService.sendToolCall(connectionId, event, toolCall);
+    },
+    onToolResult: async toolResult => {
+      await webSocketMessageService.sendToolResult(
+        connectionId,
+        event,
+        toolResult
+      );
+    },
+  };
+}
+
+// A used-up quota is an expected outcome, not a failure of the handler; tell
+// the client and report whether the result was one
+async function sendQuotaExceeded(
+  connectionId: string,
+  event: APIGatewayProxyEvent,
+  result: {
+    error?: string;
+    errorCode?: string;
+    errorDetails?: Record<string, unknown>;
+  },
+  sessionId: string
+): Promise<boolean> {
+  if (result.errorCode !== 'QUOTA_EXCEEDED' || !result.errorDetails) {
+    return false;
+  }
+
+  const details = result.errorDetails;
+  await container
+    .getWebSocketMessageService()
+    .sendQuotaExceeded(connectionId, event, {
+      message: result.error || 'Usage quota exceeded',
+      code: 'QUOTA_EXCEEDED',
+      quota: details.quota as QuotaExceeded['quota'],
+      limit: Number(details.limit),
+      used: Number(details.used),
+      resetAt: details.resetAt as string | undefined,
+      sessionId,
+    });
+  return true;
+}
+
 // Handler for authentication messages
 const handleAuthMessage = async (
   message: WebSocketMessage,
@@ -189,6 +480,46 @@ const handleAuthMessage = async (
     ) {
       const safeUserId = authResult.user.getUserId();
 
+      const allowed = await applyConnectionLimit(
+        connectionId,
+        safeUserId,
+        event,
+        correlationId
+      );
+
+      if (!allowed) {
+        await createWebSocketService(event).sendMessage(
+          ConnectionId.create(connectionId),
+          {
+            type: 'auth_response',
+            timestamp: new Date(),
+            data: {
+              success: false,
+              error:
+                'Too many open connections. Close another window and try again.',
+            },
+          }
+        );
+        await createWebSocketService(event).disconnect(
+          ConnectionId.create(connectionId)
+        );
+
+        await container
+          .getMetricsService()
+          .recordBusinessMetrics(
+            METRIC_CONSTANTS.NAMES.AUTHENTICATION_FAILURE,
+            1,
+            {
+              errorType: 'CONNECTION_LIMIT_EXCEEDED',
+            }
+          );
+
+        return createSuccessResponse({
+          statusCode: WEBSOCKET_CONSTANTS.STATUS_CODES.SUCCESS,
+          body: '',
+        });
+      }
+
       logger.info('Authentication successful, storing connection', {
         connectionId,
         userId: safeUserId,
@@ -296,7 +627,8 @@ const handleAuthMessage = async (
   });
 };
 
-// Handler for chat messages
+// Handler for chat messages, and for edits which send a new version of one
+// of the user's messages
 const handleChatMessage = async (
   message: WebSocketMessage,
   connectionId: string,
@@ -304,16 +636,40 @@ const handleChatMessage = async (
   correlationId: string
 ): Promise<APIGatewayProxyResult> => {
   const { data } = message;
-  const { action, message: chatMessage, sessionId } = data;
+  const {
+    action,
+    message: chatMessage,
+    sessionId,
+    model,
+    parentMessageId,
+    replyToMessageId,
+  } = data;
+  const isEdit = message.type === 'edit_message';
+
+  if (
+    action !==
+    (isEdit
+      ? WEBSOCKET_CONSTANTS.ACTIONS.EDIT_MESSAGE
+      : WEBSOCKET_CONSTANTS.ACTIONS.SEND_MESSAGE)
+  ) {
+    throw new Error(`Invalid action for ${message.type}: ${action}`);
+  }
+
+  if (isEdit && (!sessionId || !data.messageId)) {
+    throw new Error('Edited message requires sessionId and messageId');
+  }
 
-  if (action !== WEBSOCKET_CONSTANTS.ACTIONS.SEND_MESSAGE) {
-    throw new Error(`Invalid action for message: ${action}`);
+  if (model !== undefined && !isSupportedModel(model)) {
+    throw new Error(`Unsupported model: ${model}`);
   }
 
   logger.info('Received chat message', {
     connectionId,
     sessionId,
+    model,
     messageLength: chatMessage?.length,
+    editMessageId: isEdit ? data.messageId : undefined,
+    replyToMessageId,
     correlationId,
   });
 
@@ -327,15 +683,6 @@ const handleChatMessage = async (
     throw new Error('User not found for connection');
   }
 
-  // Associate connection with session if sessionId is provided
-  if (sessionId) {
-    await associateConnectionWithSession(
-      connectionId,
-      sessionId,
-      correlationId
-    );
-  }
-
   // Generate sessionId if not provided
   const finalSessionId =
     sessionId && sessionId.trim() ? sessionId : SessionId.generate().getValue();
@@ -348,15 +695,31 @@ const handleChatMessage = async (
     correlationId,
   });
 
+  const webSocketMessageService = container.getWebSocketMessageService();
   const sendChatMessageUseCase = container.getSendChatMessageUseCase();
   const result = await sendChatMessageUseCase.execute({
     content: chatMessage ?? '',
     sessionId: finalSessionId,
     userId: user.getId().getValue(),
     connectionId,
+    model,
+    // The frame id is what the client sends to stop this generation
+    requestId: message.id,
+    parentMessageId,
+    editMessageId: isEdit ? data.messageId : undefined,
+    // Set when the message follows up on an earlier answer in its thread
+    replyToMessageId: isEdit ? undefined : replyToMessageId,
+    ...createGenerationHandlers(connectionId, event),
   });
 
-  if (!result.success) {
+  if (await sendQuotaExceeded(connectionId, event, result, finalSessionId)) {
+    return createSuccessResponse({
+      statusCode: WEBSOCKET_CONSTANTS.STATUS_CODES.SUCCESS,
+      body: '',
+    });
+  }
+
+  if (!result.success || !result.message) {
     logger.error('Failed to send chat message', {
       error: result.error,
       connectionId,
@@ -364,26 +727,305 @@ const handleChatMessage = async (
     throw new Error(result.error || 'Failed to send chat message');
   }
 
-  // Use the response content from the result
-  const responseContent =
-    result.message?.getContent() ?? 'Sorry, I could not process your message.';
-
-  // Send the response message using WebSocket
-  await createWebSocketService(event).sendMessage(
-    ConnectionId.create(connectionId),
-    {
-      type: 'message_response',
-      timestamp: new Date(),
-      data: {
-        messageId: crypto.randomUUID(),
-        message: responseContent,
-        userId: user.getId().getValue(),
-        username: user.getUsername(),
-        timestamp: new Date(),
-        sessionId: finalSessionId,
-      },
+  // Associate connection with session if sessionId is provided, now that the
+  // use case has checked the session belongs to the user
+  if (sessionId) {
+    await associateConnectionWithSession(
+      connectionId,
+      sessionId,
+      correlationId
+    );
+  }
+
+  // Send the final assembled message so the client can settle the stream
+  await deliverResponse(connectionId, event, result.message, correlationId);
+
+  // Title an untitled conversation once its first reply is out; never fatal
+  const titledSession = await container
+    .getSessionService()
+    .generateTitle(
+      user.getId(),
+      SessionId.create(finalSessionId),
+      chatMessage ?? '',
+      result.message.getContent()
+    );
+  const title = titledSession?.getMetadata().title;
+  if (typeof title === 'string') {
+    await webSocketMessageService.sendSessionUpdated(connectionId, event, {
+      sessionId: finalSessionId,
+      title,
+      titleSource: 'auto',
+    });
+  }
+
+  return createSuccessResponse({
+    statusCode: WEBSOCKET_CONSTANTS.STATUS_CODES.SUCCESS,
+    body: '',
+  });
+};
+
+// Handler for regenerate messages; the new response is streamed like the
+// answer to a chat message
+const handleRegenerateMessage = async (
+  message: WebSocketMessage,
+  connectionId: string,
+  event: APIGatewayProxyEvent,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  const { action, sessionId, messageId, model } = message.data;
+
+  if (
+    action !== WEBSOCKET_CONSTANTS.ACTIONS.REGENERATE ||
+    !sessionId ||
+    !messageId
+  ) {
+    throw new Error(`Invalid regenerate message: ${action}`);
+  }
+
+  if (model !== undefined && !isSupportedModel(model)) {
+    throw new Error(`Unsupported model: ${model}`);
+  }
+
+  const user = await container
+    .getAuthenticationService()
+    .getUserFromConnection(ConnectionId.create(connectionId));
+
+  if (!user) {
+    logger.error('User not found for connection', { connectionId });
+    throw new Error('User not found for connection');
+  }
+
+  logger.info('Received regenerate message', {
+    connectionId,
+    sessionId,
+    messageId,
+    model,
+    correlationId,
+  });
+
+  const result = await container.getRegenerateResponseUseCase().execute({
+    messageId,
+    sessionId,
+    userId: user.getId().getValue(),
+    connectionId,
+    model,
+    requestId: message.id,
+    ...createGenerationHandlers(connectionId, event),
+  });
+
+  if (await sendQuotaExceeded(connectionId, event, result, sessionId)) {
+    return createSuccessResponse({
+      statusCode: WEBSOCKET_CONSTANTS.STATUS_CODES.SUCCESS,
+      body: '',
+    });
+  }
+
+  if (!result.success || !result.message) {
+    logger.error('Failed to regenerate response', {
+      error: result.error,
+      connectionId,
+    });
+    throw new Error(result.error || 'Failed to regenerate response');
+  }
+
+  // The use case has checked the session belongs to the user
+  await associateConnectionWithSession(connectionId, sessionId, correlationId);
+
+  await deliverResponse(connectionId, event, result.message, correlationId);
+
+  return createSuccessResponse({
+    statusCode: WEBSOCKET_CONSTANTS.STATUS_CODES.SUCCESS,
+    body: '',
+  });
+};
+
+// Handler for resume messages, sent by a reconnected client after auth
+const handleResumeMessage = async (
+  message: WebSocketMessage,
+  connectionId: string,
+  event: APIGatewayProxyEvent,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  const parsed = ResumeMessageSchema.safeParse(message.data);
+
+  if (!parsed.success) {
+    throw new Error(`Invalid resume message: ${message.data.action}`);
+  }
+
+  const { sessionId, lastMessageId } = parsed.data;
+
+  const user = await container
+    .getAuthenticationService()
+    .getUserFromConnection(ConnectionId.create(connectionId));
+
+  if (!user) {
+    logger.error('User not found for connection', { connectionId });
+    throw new Error('User not found for connection');
+  }
+
+  const sessionService = container.getSessionService();
+  const webSocketMessageService = container.getWebSocketMessageService();
+  let missed: Message[] = [];
+  try {
+    missed = await sessionService.getMissedMessages(
+      user.getId(),
+      SessionId.create(sessionId),
+      lastMessageId ? MessageId.create(lastMessageId) : undefined
+    );
+
+    // The session belongs to the user, so responses finishing from now on
+    // can reach this connection directly
+    await associateConnectionWithSession(
+      connectionId,
+      sessionId,
+      correlationId
+    );
+  } catch (error) {
+    // A deleted or expired conversation has nothing to replay
+    if (!(error instanceof DomainError) || error.code !== 'NOT_FOUND') {
+      throw error;
     }
-  );
+  }
+
+  const delivered: Message[] = [];
+  for (const missedMessage of missed) {
+    if (
+      !(await webSocketMessageService.sendMessageComplete(
+        connectionId,
+        event,
+        missedMessage
+      ))
+    ) {
+      break;
+    }
+    delivered.push(missedMessage);
+  }
+
+  await sessionService.markDelivered(delivered);
+  await webSocketMessageService.sendResumeResponse(connectionId, event, {
+    sessionId,
+    replayed: delivered.length,
+  });
+
+  logger.info('Resumed conversation', {
+    connectionId,
+    sessionId,
+    lastMessageId,
+    missed: missed.length,
+    replayed: delivered.length,
+    correlationId,
+  });
+
+  return createSuccessResponse({
+    statusCode: WEBSOCKET_CONSTANTS.STATUS_CODES.SUCCESS,
+    body: '',
+  });
+};
+
+// Handler for ack and read receipts of delivered responses
+const handleReceiptMessage = async (
+  message: WebSocketMessage,
+  connectionId: string,
+  event: APIGatewayProxyEvent,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  const parsed = (
+    message.type === 'read' ? ReadMessageSchema : AckMessageSchema
+  ).safeParse(message.data);
+
+  if (!parsed.success) {
+    throw new Error(`Invalid receipt message: ${message.data.action}`);
+  }
+
+  const { sessionId, messageIds } = parsed.data;
+
+  const user = await container
+    .getAuthenticationService()
+    .getUserFromConnection(ConnectionId.create(connectionId));
+
+  if (!user) {
+    logger.error('User not found for connection', { connectionId });
+    throw new Error('User not found for connection');
+  }
+
+  const status =
+    message.type === 'read' ? MessageStatus.READ : MessageStatus.DELIVERED;
+  let updated: Message[] = [];
+  try {
+    updated = await container.getSessionService().recordReceipt(
+      user.getId(),
+      SessionId.create(sessionId),
+      messageIds.map(messageId => MessageId.create(messageId)),
+      status
+    );
+  } catch (error) {
+    // Receipts for a deleted or expired conversation are dropped
+    if (!(error instanceof DomainError) || error.code !== 'NOT_FOUND') {
+      throw error;
+    }
+  }
+
+  if (updated.length > 0) {
+    await container
+      .getWebSocketMessageService()
+      .sendMessageStatus(connectionId, event, {
+        sessionId,
+        messageIds: updated.map(updatedMessage =>
+          updatedMessage.getId().getValue()
+        ),
+        status: status === MessageStatus.READ ? 'read' : 'delivered',
+      });
+  }
+
+  logger.info('Recorded message receipt', {
+    connectionId,
+    sessionId,
+    status,
+    received: messageIds.length,
+    updated: updated.length,
+    correlationId,
+  });
+
+  return createSuccessResponse({
+    statusCode: WEBSOCKET_CONSTANTS.STATUS_CODES.SUCCESS,
+    body: '',
+  });
+};
+
+// Handler for cancel messages; the invocation generating the response picks
+// the request up and stops the model
+const handleCancelMessage = async (
+  message: WebSocketMessage,
+  connectionId: string,
+  correlationId: string
+): Promise<APIGatewayProxyResult> => {
+  const parsed = CancelMessageSchema.safeParse(message.data);
+
+  if (!parsed.success) {
+    throw new Error(`Invalid cancel message: ${message.data.action}`);
+  }
+
+  const { requestId, sessionId } = parsed.data;
+
+  const user = await container
+    .getAuthenticationService()
+    .getUserFromConnection(ConnectionId.create(connectionId));
+
+  if (!user) {
+    logger.error('User not found for connection', { connectionId });
+    throw new Error('User not found for connection');
+  }
+
+  await container
+    .getCancellationService()
+    .requestCancel(user.getId(), requestId);
+
+  logger.info('Cancel requested for generation', {
+    connectionId,
+    sessionId,
+    requestId,
+    correlationId,
+  });
 
   return createSuccessResponse({
     statusCode: WEBSOCKET_CONSTANTS.STATUS_CODES.SUCCESS,
@@ -472,6 +1114,23 @@ const conversationHandler = async (
       });
     }
 
+    // Throttle chat messages before they reach the model
+    if (
+      message.type === 'message' ||
+      message.type === 'regenerate' ||
+      message.type === 'edit_message'
+    ) {
+      const rateLimitedResponse = await enforceRateLimit(
+        connectionId,
+        event,
+        correlationId
+      );
+      if (rateLimitedResponse) {
+        performanceMonitor.complete(true);
+        return rateLimitedResponse;
+      }
+    }
+
     let response: APIGatewayProxyResult;
 
     switch (message.type) {
@@ -484,6 +1143,7 @@ const conversationHandler = async (
         );
         break;
       case 'message':
+      case 'edit_message':
         response = await handleChatMessage(
           message,
           connectionId,
@@ -491,6 +1151,38 @@ const conversationHandler = async (
           correlationId
         );
         break;
+      case 'regenerate':
+        response = await handleRegenerateMessage(
+          message,
+          connectionId,
+          event,
+          correlationId
+        );
+        break;
+      case 'resume':
+        response = await handleResumeMessage(
+          message,
+          connectionId,
+          event,
+          correlationId
+        );
+        break;
+      case 'ack':
+      case 'read':
+        response = await handleReceiptMessage(
+          message,
+          connectionId,
+          event,
+          correlationId
+        );
+        break;
+      case 'cancel':
+        response = await handleCancelMessage(
+          message,
+          connectionId,
+          correlationId
+        );
+        break;
       case 'ping':
         response = await handlePingMessageHandler(connectionId);
         break;
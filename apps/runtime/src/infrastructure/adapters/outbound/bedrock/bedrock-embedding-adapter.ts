@@ -0,0 +1,86 @@
+import {
+  BedrockRuntimeClient,
+  InvokeModelCommand,
+} from '@aws-sdk/client-bedrock-runtime';
+import { logger } from '@awslambdahackathon/utils/lambda';
+import { EmbeddingService } from '@domain/services/embedding-service';
+import { KnowledgeBaseConfig } from '@infrastructure/config/knowledge-config';
+
+import { BedrockConfig } from './bedrock-llm-adapter';
+
+/**
+ * Titan text embeddings request
+ * @see https://docs.aws.amazon.com/bedrock/latest/userguide/model-parameters-titan-embed-text.html
+ */
+interface TitanEmbeddingRequest {
+  inputText: string;
+  dimensions: number;
+  normalize: boolean;
+}
+
+interface TitanEmbeddingResponse {
+  embedding: number[];
+  inputTextTokenCount: number;
+}
+
+/**
+ * Embeds texts with Amazon Titan Text Embeddings. The model takes one text
+ * per request, so texts are sent a few at a time.
+ */
+export class BedrockEmbeddingAdapter implements EmbeddingService {
+  private readonly client: BedrockRuntimeClient;
+
+  constructor(
+    bedrockConfig: BedrockConfig,
+    private readonly config: KnowledgeBaseConfig
+  ) {
+    this.client = new BedrockRuntimeClient({
+      region: bedrockConfig.region,
+      maxAttempts: bedrockConfig.maxRetries,
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += this.config.embeddingConcurrency) {
+      const batch = texts.slice(i, i + this.config.embeddingConcurrency);
+      vectors.push(
+        ...(await Promise.all(batch.map(text => this.embedOne(text))))
+      );
+    }
+
+    return vectors;
+  }
+
+  private async embedOne(text: string): Promise<number[]> {
+    const request: TitanEmbeddingRequest = {
+      inputText: text,
+      dimensions: this.config.embeddingDimensions,
+      normalize: true,
+    };
+
+    try {
+      const response = await this.client.send(
+        new InvokeModelCommand({
+          modelId: this.config.embeddingModelId,
+          contentType: 'application/json',
+          accept: 'application/json',
+          body: JSON.stringify(request),
+        })
+      );
+      const body = JSON.parse(
+        new TextDecoder().decode(response.body)
+      ) as TitanEmbeddingResponse;
+
+      return body.embedding;
+    } catch (error) {
+      logger.error('Error embedding text with Bedrock', {
+        modelId: this.config.embeddingModelId,
+        textLength: text.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error('Failed to embed text');
+    }
+  }
+}
@@ -0,0 +1,360 @@
+import {
+  BedrockRuntimeClient,
+  InvokeModelCommand,
+  InvokeModelWithResponseStreamCommand,
+} from '@aws-sdk/client-bedrock-runtime';
+import { LLMRequest } from '@domain/services/llm-service';
+import { BedrockLLMAdapter } from '@infrastructure/adapters/outbound/bedrock/bedrock-llm-adapter';
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  MockInstance,
+  vi,
+} from 'vitest';
+
+// Client.send, resolving with the Bedrock response of each test
+type SendMock = MockInstance<
+  [InvokeModelCommand | InvokeModelWithResponseStreamCommand],
+  Promise<unknown>
+>;
+
+const encoder = new TextEncoder();
+
+// Response stream of InvokeModelWithResponseStream
+async function* stream(...events: unknown[]) {
+  for (const event of events) {
+    yield event && typeof event === 'object' && 'chunk' in event
+      ? event
+      : { chunk: { bytes: encoder.encode(JSON.stringify(event)) } };
+  }
+}
+
+const bedrockError = (name: string) =>
+  Object.assign(new Error(`${name} raised`), { name });
+
+const request = (overrides: Partial<LLMRequest> = {}): LLMRequest => ({
+  messageId: 'message-1',
+  userId: 'user-1',
+  sessionId: 'session-1',
+  message: 'What time is it?',
+  ...overrides,
+});
+
+describe('BedrockLLMAdapter', () => {
+  let send: SendMock;
+  let adapter: BedrockLLMAdapter;
+
+  // Request body sent to Bedrock by the n-th call
+  const sentBody = (call = 0) =>
+    JSON.parse(send.mock.calls[call][0].input.body as string);
+
+  beforeEach(() => {
+    send = vi.spyOn(
+      BedrockRuntimeClient.prototype,
+      'send'
+    ) as unknown as SendMock;
+    adapter = new BedrockLLMAdapter({
+      region: 'us-east-1',
+      defaultModel: 'nova-micro',
+      timeout: 30000,
+      maxRetries: 1,
+    });
+  });
+
+  afterEach(() => {
+    send.mockRestore();
+  });
+
+  describe('generateResponseStream', () => {
+    it('parses Claude text and tool use events', async () => {
+      send.mockResolvedValue({
+        body: stream(
+          { type: 'message_start', message: { usage: { input_tokens: 12 } } },
+          { type: 'content_block_start', content_block: { type: 'text' } },
+          {
+            type: 'content_block_delta',
+            delta: { type: 'text_delta', text: 'Let me ' },
+          },
+          {
+            type: 'content_block_delta',
+            delta: { type: 'text_delta', text: 'check.' },
+          },
+          { type: 'content_block_stop' },
+          {
+            type: 'content_block_start',
+            content_block: {
+              type: 'tool_use',
+              id: 'tool-1',
+              name: 'current_time',
+            },
+          },
+          {
+            type: 'content_block_delta',
+            delta: { type: 'input_json_delta', partial_json: '{"timezone":' },
+          },
+          {
+            type: 'content_block_delta',
+            delta: { type: 'input_json_delta', partial_json: '"UTC"}' },
+          },
+          { type: 'content_block_stop' },
+          {
+            type: 'message_delta',
+            delta: { stop_reason: 'tool_use' },
+            usage: { output_tokens: 30 },
+          },
+          { type: 'message_stop' }
+        ),
+      });
+      const onChunk = vi.fn();
+
+      const response = await adapter.generateResponseStream(
+        request({ model: 'claude-3-haiku' }),
+        onChunk
+      );
+
+      expect(onChunk.mock.calls.map(([chunk]) => chunk)).toEqual([
+        { messageId: 'message-1', text: 'Let me ', index: 0 },
+        { messageId: 'message-1', text: 'check.', index: 1 },
+      ]);
+      expect(response).toMatchObject({
+        success: true,
+        response: 'Let me check.',
+        toolCalls: [
+          { id: 'tool-1', name: 'current_time', input: { timezone: 'UTC' } },
+        ],
+        stopReason: 'tool_use',
+        usage: { inputTokens: 12, outputTokens: 30, totalTokens: 42 },
+        model: 'claude-3-haiku',
+      });
+    });
+
+    it('parses Nova text and tool use events', async () => {
+      send.mockResolvedValue({
+        body: stream(
+          { messageStart: { role: 'assistant' } },
+          {
+            contentBlockDelta: {
+              delta: { text: 'Checking' },
+              contentBlockIndex: 0,
+            },
+          },
+          { contentBlockStop: { contentBlockIndex: 0 } },
+          {
+            contentBlockStart: {
+              start: { toolUse: { toolUseId: 'tool-1', name: 'current_time' } },
+              contentBlockIndex: 1,
+            },
+          },
+          {
+            contentBlockDelta: {
+              delta: { toolUse: { input: '{"timezone":"UTC"}' } },
+              contentBlockIndex: 1,
+            },
+          },
+          { contentBlockStop: { contentBlockIndex: 1 } },
+          { messageStop: { stopReason: 'tool_use' } },
+          { metadata: { usage: { inputTokens: 8, outputTokens: 5 } } }
+        ),
+      });
+
+      const response = await adapter.generateResponseStream(
+        request({ model: 'nova-micro' }),
+        vi.fn()
+      );
+
+      expect(response).toMatchObject({
+        success: true,
+        response: 'Checking',
+        toolCalls: [
+          { id: 'tool-1', name: 'current_time', input: { timezone: 'UTC' } },
+        ],
+        stopReason: 'tool_use',
+        usage: { inputTokens: 8, outputTokens: 5, totalTokens: 13 },
+      });
+    });
+
+    it('keeps a tool call with malformed streamed input', async () => {
+      send.mockResolvedValue({
+        body: stream(
+          {
+            type: 'content_block_start',
+            content_block: { type: 'tool_use', id: 'tool-1', name: 'search' },
+          },
+          {
+            type: 'content_block_delta',
+            delta: { type: 'input_json_delta', partial_json: '{"query":' },
+          },
+          { type: 'content_block_stop' }
+        ),
+      });
+
+      const response = await adapter.generateResponseStream(
+        request({ model: 'claude-3-haiku' }),
+        vi.fn()
+      );
+
+      expect(response.toolCalls).toEqual([
+        { id: 'tool-1', name: 'search', input: {} },
+      ]);
+    });
+
+    it('fails retryably on a throttling event in the stream', async () => {
+      send.mockResolvedValue({
+        body: stream(
+          {
+            type: 'content_block_delta',
+            delta: { type: 'text_delta', text: 'Hi' },
+          },
+          {
+            chunk: undefined,
+            throttlingException: bedrockError('ThrottlingException'),
+          }
+        ),
+      });
+
+      const response = await adapter.generateResponseStream(
+        request({ model: 'claude-3-haiku' }),
+        vi.fn()
+      );
+
+      expect(response).toMatchObject({
+        success: false,
+        error: 'Bedrock error: ThrottlingException raised',
+        retryable: true,
+      });
+    });
+
+    it('does not retry a rejected request', async () => {
+      send.mockRejectedValue(bedrockError('ValidationException'));
+
+      const response = await adapter.generateResponseStream(request(), vi.fn());
+
+      expect(response).toMatchObject({ success: false, retryable: false });
+    });
+
+    it('returns the partial text when the request is cancelled', async () => {
+      const controller = new AbortController();
+      send.mockResolvedValue({
+        body: stream(
+          {
+            contentBlockDelta: {
+              delta: { text: 'Partial' },
+              contentBlockIndex: 0,
+            },
+          },
+          {
+            contentBlockDelta: {
+              delta: { text: ' answer' },
+              contentBlockIndex: 0,
+            },
+          }
+        ),
+      });
+
+      const response = await adapter.generateResponseStream(
+        request({ abortSignal: controller.signal }),
+        async () => controller.abort()
+      );
+
+      expect(response).toMatchObject({
+        success: true,
+        cancelled: true,
+        response: 'Partial',
+      });
+    });
+  });
+
+  describe('generateResponse', () => {
+    it('parses Claude tool use content', async () => {
+      send.mockResolvedValue({
+        body: encoder.encode(
+          JSON.stringify({
+            content: [
+              { type: 'text', text: 'Checking.' },
+              {
+                type: 'tool_use',
+                id: 'tool-1',
+                name: 'current_time',
+                input: { timezone: 'UTC' },
+              },
+            ],
+            stop_reason: 'tool_use',
+            usage: { input_tokens: 10, output_tokens: 4 },
+          })
+        ),
+      });
+
+      const response = await adapter.generateResponse(
+        request({ model: 'claude-3-haiku' })
+      );
+
+      expect(response).toMatchObject({
+        success: true,
+        response: 'Checking.',
+        toolCalls: [
+          { id: 'tool-1', name: 'current_time', input: { timezone: 'UTC' } },
+        ],
+        usage: { inputTokens: 10, outputTokens: 4, totalTokens: 14 },
+      });
+    });
+
+    it('sends tool exchanges as alternating turns, tool results first', async () => {
+      send.mockResolvedValue({
+        body: encoder.encode(
+          JSON.stringify({
+            content: [{ type: 'text', text: 'It is noon.' }],
+            stop_reason: 'end_turn',
+            usage: { input_tokens: 1, output_tokens: 1 },
+          })
+        ),
+      });
+
+      await adapter.generateResponse(
+        request({
+          model: 'claude-3-haiku',
+          history: [
+            {
+              role: 'assistant',
+              content: 'Dropped: history starts with the user',
+            },
+            { role: 'user', content: 'Hi' },
+          ],
+          continuation: [
+            {
+              role: 'assistant',
+              content: '',
+              toolCalls: [{ id: 'tool-1', name: 'current_time', input: {} }],
+            },
+            {
+              role: 'user',
+              content: '',
+              toolResults: [{ toolCallId: 'tool-1', content: '12:00' }],
+            },
+          ],
+        })
+      );
+
+      expect(sentBody().messages).toEqual([
+        {
+          role: 'user',
+          content: [{ type: 'text', text: 'Hi\n\nWhat time is it?' }],
+        },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'tool_use', id: 'tool-1', name: 'current_time', input: {} },
+          ],
+        },
+        {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'tool-1', content: '12:00' },
+          ],
+        },
+      ]);
+    });
+  });
+});
@@ -3,16 +3,38 @@ import {
   InvokeModelCommand,
   InvokeModelCommandInput,
   InvokeModelCommandOutput,
+  InvokeModelWithResponseStreamCommand,
+  InvokeModelWithResponseStreamCommandInput,
 } from '@aws-sdk/client-bedrock-runtime';
+import {
+  getInvocationModelId,
+  getModelDefinition,
+  isSupportedModel,
+  SUPPORTED_MODELS,
+} from '@awslambdahackathon/types';
 import { logger } from '@awslambdahackathon/utils/lambda';
 import {
+  LLMConversationTurn,
   LLMModel,
   LLMRequest,
   LLMResponse,
-  LLMService,
+  LLMStreamHandler,
+  LLMToolCall,
   LLMUsage,
+  StreamingLLMService,
 } from '@domain/services/llm-service';
 
+// Bedrock errors that are transient rather than caused by the request
+const RETRYABLE_ERROR_NAMES = [
+  'ThrottlingException',
+  'ServiceUnavailableException',
+  'InternalServerException',
+  'ModelTimeoutException',
+  'ModelNotReadyException',
+  'ModelStreamErrorException',
+  'TimeoutError',
+];
+
 export interface BedrockConfig {
   region: string;
   defaultModel: LLMModel;
@@ -33,16 +55,34 @@ export interface ClaudeRequest {
   system?: string; // Optional: system prompt
   messages: Array<{
     role: 'user' | 'assistant';
-    content:
-      | Array<{
-          type: 'text';
-          text: string;
-        }>
-      | string; // Support both array format and string format (shorthand)
+    content: ClaudeContentBlock[] | string; // Support both array format and string format (shorthand)
   }>;
   stop_sequences?: string[]; // Optional: custom stop sequences
+  tools?: Array<{
+    name: string;
+    description: string;
+    input_schema: Record<string, unknown>;
+  }>;
 }
 
+/**
+ * Claude request content block: text, a tool request or a tool answer
+ */
+export type ClaudeContentBlock =
+  | { type: 'text'; text: string }
+  | {
+      type: 'tool_use';
+      id: string;
+      name: string;
+      input: Record<string, unknown>;
+    }
+  | {
+      type: 'tool_result';
+      tool_use_id: string;
+      content: string;
+      is_error?: boolean;
+    };
+
 /**
  * Claude response interface according to official AWS Bedrock documentation
  * @see https://docs.aws.amazon.com/bedrock/latest/userguide/model-parameters-anthropic-claude-messages-request-response.html
@@ -57,7 +97,7 @@ export interface ClaudeResponse {
     // Additional fields for tool use and image responses
     id?: string;
     name?: string;
-    input?: any;
+    input?: Record<string, unknown>;
     image?: any;
   }>;
   model: string; // Model ID that processed the request
@@ -73,9 +113,7 @@ export interface NovaRequest {
   schemaVersion: string;
   messages: Array<{
     role: 'user' | 'assistant';
-    content: Array<{
-      text: string;
-    }>;
+    content: NovaContentBlock[];
   }>;
   inferenceConfig: {
     maxTokens: number;
@@ -86,14 +124,38 @@ export interface NovaRequest {
   system?: Array<{
     text: string;
   }>;
+  toolConfig?: {
+    tools: Array<{
+      toolSpec: {
+        name: string;
+        description: string;
+        inputSchema: { json: Record<string, unknown> };
+      };
+    }>;
+  };
+}
+
+/**
+ * Nova content block: exactly one of text, toolUse or toolResult is set
+ */
+export interface NovaContentBlock {
+  text?: string;
+  toolUse?: {
+    toolUseId: string;
+    name: string;
+    input: Record<string, unknown>;
+  };
+  toolResult?: {
+    toolUseId: string;
+    content: Array<{ text: string }>;
+    status?: 'success' | 'error';
+  };
 }
 
 export interface NovaResponse {
   output: {
     message: {
-      content: Array<{
-        text: string;
-      }>;
+      content: NovaContentBlock[];
     };
   };
   usage: {
@@ -103,20 +165,72 @@ export interface NovaResponse {
   stopReason: string;
 }
 
-export class BedrockLLMAdapter implements LLMService {
+/**
+ * Nova streaming event, one per chunk of InvokeModelWithResponseStream
+ * @see https://docs.aws.amazon.com/nova/latest/userguide/using-invoke-api.html
+ */
+export interface NovaStreamEvent {
+  messageStart?: { role: string };
+  contentBlockStart?: {
+    start: { toolUse?: { toolUseId: string; name: string } };
+    contentBlockIndex: number;
+  };
+  contentBlockDelta?: {
+    delta: { text?: string; toolUse?: { input: string } };
+    contentBlockIndex: number;
+  };
+  contentBlockStop?: { contentBlockIndex: number };
+  messageStop?: { stopReason: string };
+  metadata?: {
+    usage: {
+      inputTokens: number;
+      outputTokens: number;
+    };
+  };
+}
+
+/**
+ * Claude streaming event, one per chunk of InvokeModelWithResponseStream
+ * @see https://docs.aws.amazon.com/bedrock/latest/userguide/model-parameters-anthropic-claude-messages-request-response.html
+ */
+export interface ClaudeStreamEvent {
+  type: string; // "message_start", "content_block_delta", "message_delta", ...
+  message?: {
+    usage: {
+      input_tokens: number;
+      output_tokens: number;
+    };
+  };
+  content_block?: {
+    type: string; // "text" or "tool_use" for content_block_start events
+    id?: string;
+    name?: string;
+  };
+  delta?: {
+    type?: string; // "text_delta" or "input_json_delta" for content_block_delta events
+    text?: string;
+    partial_json?: string;
+    stop_reason?: string;
+  };
+  usage?: {
+    output_tokens: number;
+  };
+}
+
+/**
+ * State accumulated while consuming a response stream
+ */
+interface StreamAccumulator {
+  usage: LLMUsage;
+  toolCalls: LLMToolCall[];
+  pendingToolCall?: { id: string; name: string; json: string };
+  stopReason?: string;
+}
+
+export class BedrockLLMAdapter implements StreamingLLMService {
   private readonly client: BedrockRuntimeClient;
   private readonly config: BedrockConfig;
 
-  // Map our models to Bedrock model IDs and inference profiles
-  private readonly modelMap = {
-    'nova-micro': 'us.amazon.nova-micro-v1:0', // Use inference profile for Nova models
-    'nova-lite': 'us.amazon.nova-lite-v1:0', // Use inference profile for Nova models
-    'nova-pro': 'us.amazon.nova-pro-v1:0', // Use inference profile for Nova models
-    'claude-3-haiku': 'anthropic.claude-3-haiku-20240307-v1:0',
-    'claude-3-sonnet': 'anthropic.claude-3-sonnet-20240229-v1:0',
-    'claude-3-opus': 'anthropic.claude-3-opus-20240229-v1:0',
-  } as const;
-
   constructor(config: BedrockConfig) {
     this.config = config;
     this.client = new BedrockRuntimeClient({
@@ -136,77 +250,10 @@ export class BedrockLLMAdapter implements LLMService {
       });
 
       const model = request.model || this.config.defaultModel;
-      const modelId = this.modelMap[model];
+      const modelId = getInvocationModelId(model);
       const isNova = this.isNovaModel(model);
 
-      let requestBody: string;
-
-      if (isNova) {
-        // Prepare request for Nova models using the correct format from AWS documentation
-        const novaRequest: NovaRequest = {
-          schemaVersion: 'messages-v1',
-          messages: [
-            {
-              role: 'user',
-              content: [
-                {
-                  text: this.buildPrompt(request),
-                },
-              ],
-            },
-          ],
-          inferenceConfig: {
-            maxTokens: request.maxTokens || 1000,
-            temperature: request.temperature || 0.7,
-            topP: request.topP || 0.9,
-            topK: 20,
-          },
-        };
-
-        // Add system prompt if provided
-        if (request.systemPrompt) {
-          novaRequest.system = [
-            {
-              text: request.systemPrompt,
-            },
-          ];
-        }
-
-        requestBody = JSON.stringify(novaRequest);
-      } else {
-        // Prepare request for Claude models according to official AWS Bedrock documentation
-        const claudeRequest: ClaudeRequest = {
-          anthropic_version: 'bedrock-2023-05-31', // Official version for Bedrock
-          max_tokens: request.maxTokens || 1000,
-          messages: [
-            {
-              role: 'user',
-              content: [
-                {
-                  type: 'text',
-                  text: this.buildPrompt(request),
-                },
-              ],
-            },
-          ],
-        };
-
-        // Add optional parameters only if they are provided
-        if (request.temperature !== undefined) {
-          claudeRequest.temperature = request.temperature;
-        }
-        if (request.topP !== undefined) {
-          claudeRequest.top_p = request.topP;
-        }
-        if (request.topK !== undefined) {
-          claudeRequest.top_k = request.topK;
-        }
-        if (request.systemPrompt) {
-          claudeRequest.system = request.systemPrompt;
-        }
-
-        requestBody = JSON.stringify(claudeRequest);
-      }
+      const requestBody = this.buildRequestBody(request, model);
 
       const input: InvokeModelCommandInput = {
         modelId,
@@ -216,8 +263,10 @@ export class BedrockLLMAdapter implements LLMService {
       };
 
       const command = new InvokeModelCommand(input);
-      const response: InvokeModelCommandOutput =
-        await this.client.send(command);
+      const response: InvokeModelCommandOutput = await this.client.send(
+        command,
+        { abortSignal: request.abortSignal }
+      );
 
       if (!response.body) {
         logger.error('No response body from Bedrock', {
@@ -227,6 +276,7 @@ export class BedrockLLMAdapter implements LLMService {
           success: false,
           messageId: request.messageId,
           error: 'No response received from Bedrock',
+          retryable: true,
         };
       }
 
@@ -235,14 +285,27 @@ export class BedrockLLMAdapter implements LLMService {
 
       let generatedText: string;
       let usage: LLMUsage;
+      let toolCalls: LLMToolCall[];
+      let stopReason: string;
 
       if (isNova) {
         // Parse Nova response format
         const novaResponse = responseBody as NovaResponse;
+        const content = novaResponse.output.message.content;
 
-        generatedText = novaResponse.output.message.content
-          .map(item => item.text)
-          .join('');
+        generatedText = content.map(item => item.text || '').join('');
+        toolCalls = content.flatMap(item =>
+          item.toolUse
+            ? [
+                {
+                  id: item.toolUse.toolUseId,
+                  name: item.toolUse.name,
+                  input: item.toolUse.input || {},
+                },
+              ]
+            : []
+        );
+        stopReason = novaResponse.stopReason;
 
         usage = {
           inputTokens: novaResponse.usage.inputTokens,
@@ -258,6 +321,14 @@ export class BedrockLLMAdapter implements LLMService {
           .filter(item => item.type === 'text')
           .map(item => item.text)
           .join('');
+        toolCalls = claudeResponse.content
+          .filter(item => item.type === 'tool_use')
+          .map(item => ({
+            id: item.id || '',
+            name: item.name || '',
+            input: item.input || {},
+          }));
+        stopReason = claudeResponse.stop_reason;
 
         usage = {
           inputTokens: claudeResponse.usage.input_tokens,
@@ -272,6 +343,7 @@ export class BedrockLLMAdapter implements LLMService {
         messageId: request.messageId,
         model: request.model,
         responseLength: generatedText.length,
+        toolCallCount: toolCalls.length,
         inputTokens: usage.inputTokens,
         outputTokens: usage.outputTokens,
         totalTokens: usage.totalTokens,
@@ -282,8 +354,15 @@ export class BedrockLLMAdapter implements LLMService {
         messageId: request.messageId,
         response: generatedText,
         usage,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        stopReason,
+        model,
       };
     } catch (error) {
+      if (request.abortSignal?.aborted) {
+        return this.cancelledResponse(request, '', undefined);
+      }
+
       logger.error('Bedrock LLM request failed', {
         messageId: request.messageId,
         error: error instanceof Error ? error.message : String(error),
@@ -297,6 +376,141 @@ export class BedrockLLMAdapter implements LLMService {
           error instanceof Error
             ? `Bedrock error: ${error.message}`
             : 'Unknown Bedrock error',
+        retryable: this.isRetryableError(error),
+      };
+    }
+  }
+
+  async generateResponseStream(
+    request: LLMRequest,
+    onChunk: LLMStreamHandler
+  ): Promise<LLMResponse> {
+    let generatedText = '';
+    const state: StreamAccumulator = {
+      usage: { inputTokens: 0, outputTokens: 0, totalTokens: 0 },
+      toolCalls: [],
+    };
+
+    try {
+      logger.info('Starting Bedrock LLM streaming request', {
+        messageId: request.messageId,
+        model: request.model,
+        messageLength: request.message.length,
+        maxTokens: request.maxTokens,
+        temperature: request.temperature,
+      });
+
+      const model = request.model || this.config.defaultModel;
+      if (!getModelDefinition(model).capabilities.streaming) {
+        return this.generateResponseAsSingleChunk(
+          { ...request, model },
+          onChunk
+        );
+      }
+
+      const isNova = this.isNovaModel(model);
+
+      const input: InvokeModelWithResponseStreamCommandInput = {
+        modelId: getInvocationModelId(model),
+        contentType: 'application/json',
+        accept: 'application/json',
+        body: this.buildRequestBody(request, model),
+      };
+
+      const command = new InvokeModelWithResponseStreamCommand(input);
+      const response = await this.client.send(command, {
+        abortSignal: request.abortSignal,
+      });
+
+      if (!response.body) {
+        logger.error('No response stream from Bedrock', {
+          messageId: request.messageId,
+        });
+        return {
+          success: false,
+          messageId: request.messageId,
+          error: 'No response received from Bedrock',
+          retryable: true,
+        };
+      }
+
+      const decoder = new TextDecoder();
+      let index = 0;
+
+      for await (const event of response.body) {
+        if (request.abortSignal?.aborted) {
+          return this.cancelledResponse(request, generatedText, state.usage);
+        }
+        if (event.internalServerException) {
+          throw event.internalServerException;
+        }
+        if (event.modelStreamErrorException) {
+          throw event.modelStreamErrorException;
+        }
+        if (event.throttlingException) {
+          throw event.throttlingException;
+        }
+        if (event.validationException) {
+          throw event.validationException;
+        }
+        if (!event.chunk?.bytes) {
+          continue;
+        }
+
+        const payload = JSON.parse(decoder.decode(event.chunk.bytes));
+        const text = isNova
+          ? this.parseNovaStreamEvent(payload as NovaStreamEvent, state)
+          : this.parseClaudeStreamEvent(payload as ClaudeStreamEvent, state);
+
+        if (text) {
+          generatedText += text;
+          await onChunk({ messageId: request.messageId, text, index });
+          index++;
+        }
+      }
+
+      const { usage, toolCalls } = state;
+      usage.totalTokens = usage.inputTokens + usage.outputTokens;
+
+      logger.info('Bedrock LLM streaming request completed successfully', {
+        messageId: request.messageId,
+        model: request.model,
+        responseLength: generatedText.length,
+        chunkCount: index,
+        toolCallCount: toolCalls.length,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        totalTokens: usage.totalTokens,
+      });
+
+      return {
+        success: true,
+        messageId: request.messageId,
+        response: generatedText,
+        usage,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        stopReason: state.stopReason,
+        model,
+      };
+    } catch (error) {
+      if (request.abortSignal?.aborted) {
+        return this.cancelledResponse(request, generatedText, state.usage);
+      }
+
+      logger.error('Bedrock LLM streaming request failed', {
+        messageId: request.messageId,
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+
+      return {
+        success: false,
+        messageId: request.messageId,
+        error:
+          error instanceof Error
+            ? `Bedrock error: ${error.message}`
+            : 'Unknown Bedrock error',
+        retryable: this.isRetryableError(error),
       };
     }
   }
@@ -316,17 +530,49 @@ export class BedrockLLMAdapter implements LLMService {
       };
     }
 
-    if (request.model && !this.modelMap[request.model]) {
+    if (
+      request.history?.some(
+        turn =>
+          !['user', 'assistant'].includes(turn.role) ||
+          typeof turn.content !== 'string'
+      )
+    ) {
+      return {
+        success: false,
+        error: 'history turns must have a user or assistant role and content',
+      };
+    }
+
+    if (request.tools?.some(tool => !/^[a-zA-Z0-9_-]{1,64}$/.test(tool.name))) {
+      return {
+        success: false,
+        error:
+          'tool names must be 1-64 alphanumeric, underscore or dash characters',
+      };
+    }
+
+    if (request.model && !isSupportedModel(request.model)) {
       return { success: false, error: `Unsupported model: ${request.model}` };
     }
 
+    const definition = getModelDefinition(
+      request.model || this.config.defaultModel
+    );
+
     if (
       request.maxTokens &&
-      (request.maxTokens < 1 || request.maxTokens > 4096)
+      (request.maxTokens < 1 || request.maxTokens > definition.maxTokens)
     ) {
       return {
         success: false,
-        error: 'maxTokens must be between 1 and 4096',
+        error: `maxTokens must be between 1 and ${definition.maxTokens} for ${definition.name}`,
+      };
+    }
+
+    if (request.tools?.length && !definition.capabilities.tools) {
+      return {
+        success: false,
+        error: `${definition.name} does not support tool use`,
       };
     }
 
@@ -381,21 +627,350 @@ export class BedrockLLMAdapter implements LLMService {
   }
 
   getSupportedModels(): LLMModel[] {
-    return Object.keys(this.modelMap) as LLMModel[];
+    return [...SUPPORTED_MODELS];
   }
 
-  private buildPrompt(request: LLMRequest): string {
-    let prompt = request.message;
+  /**
+   * Throttling, timeouts and server errors may succeed on a later attempt or
+   * another model; validation and other client errors would not
+   */
+  private isRetryableError(error: unknown): boolean {
+    if (!(error instanceof Error)) {
+      return false;
+    }
 
-    // Add context if provided
-    if (request.context) {
-      prompt = `Context: ${request.context}\n\nUser: ${request.message}`;
+    const { $fault, $metadata } = error as Error & {
+      $fault?: string;
+      $metadata?: { httpStatusCode?: number };
+    };
+    const status = $metadata?.httpStatusCode;
+
+    return (
+      RETRYABLE_ERROR_NAMES.includes(error.name) ||
+      $fault === 'server' ||
+      status === 429 ||
+      (status !== undefined && status >= 500)
+    );
+  }
+
+  /**
+   * Partial result of a call stopped through the request's abort signal.
+   * Usage is only known for the events received before the stop.
+   */
+  private cancelledResponse(
+    request: LLMRequest,
+    generatedText: string,
+    usage: LLMUsage | undefined
+  ): LLMResponse {
+    logger.info('Bedrock LLM request cancelled', {
+      messageId: request.messageId,
+      model: request.model,
+      responseLength: generatedText.length,
+    });
+
+    return {
+      success: true,
+      cancelled: true,
+      messageId: request.messageId,
+      response: generatedText,
+      usage: usage && {
+        ...usage,
+        totalTokens: usage.inputTokens + usage.outputTokens,
+      },
+      model: request.model || this.config.defaultModel,
+    };
+  }
+
+  /**
+   * Serve a streaming request for a model without a streaming API by
+   * emitting the whole response as one chunk
+   */
+  private async generateResponseAsSingleChunk(
+    request: LLMRequest,
+    onChunk: LLMStreamHandler
+  ): Promise<LLMResponse> {
+    const response = await this.generateResponse(request);
+
+    if (response.success && response.response) {
+      await onChunk({
+        messageId: request.messageId,
+        text: response.response,
+        index: 0,
+      });
     }
 
-    return prompt;
+    return response;
+  }
+
+  private buildRequestBody(request: LLMRequest, model: LLMModel): string {
+    if (this.isNovaModel(model)) {
+      // Prepare request for Nova models using the correct format from AWS documentation
+      const novaRequest: NovaRequest = {
+        schemaVersion: 'messages-v1',
+        messages: this.buildMessages(request).map(turn => ({
+          role: turn.role,
+          content: this.toNovaContent(turn),
+        })),
+        inferenceConfig: {
+          maxTokens: request.maxTokens || 1000,
+          temperature: request.temperature || 0.7,
+          topP: request.topP || 0.9,
+          topK: 20,
+        },
+      };
+
+      // Add system prompt if provided
+      if (request.systemPrompt) {
+        novaRequest.system = [
+          {
+            text: request.systemPrompt,
+          },
+        ];
+      }
+
+      if (request.tools?.length) {
+        novaRequest.toolConfig = {
+          tools: request.tools.map(tool => ({
+            toolSpec: {
+              name: tool.name,
+              description: tool.description,
+              inputSchema: { json: tool.inputSchema },
+            },
+          })),
+        };
+      }
+
+      return JSON.stringify(novaRequest);
+    }
+
+    // Prepare request for Claude models according to official AWS Bedrock documentation
+    const claudeRequest: ClaudeRequest = {
+      anthropic_version: 'bedrock-2023-05-31', // Official version for Bedrock
+      max_tokens: request.maxTokens || 1000,
+      messages: this.buildMessages(request).map(turn => ({
+        role: turn.role,
+        content: this.toClaudeContent(turn),
+      })),
+    };
+
+    // Add optional parameters only if they are provided
+    if (request.temperature !== undefined) {
+      claudeRequest.temperature = request.temperature;
+    }
+    if (request.topP !== undefined) {
+      claudeRequest.top_p = request.topP;
+    }
+    if (request.topK !== undefined) {
+      claudeRequest.top_k = request.topK;
+    }
+    if (request.systemPrompt) {
+      claudeRequest.system = request.systemPrompt;
+    }
+    if (request.tools?.length) {
+      claudeRequest.tools = request.tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.inputSchema,
+      }));
+    }
+
+    return JSON.stringify(claudeRequest);
+  }
+
+  /**
+   * Convert a turn into Nova content blocks; tool results must come first
+   */
+  private toNovaContent(turn: LLMConversationTurn): NovaContentBlock[] {
+    const blocks: NovaContentBlock[] = (turn.toolResults || []).map(result => ({
+      toolResult: {
+        toolUseId: result.toolCallId,
+        content: [{ text: result.content }],
+        status: result.isError ? 'error' : 'success',
+      },
+    }));
+
+    if (turn.content) {
+      blocks.push({ text: turn.content });
+    }
+
+    for (const call of turn.toolCalls || []) {
+      blocks.push({
+        toolUse: { toolUseId: call.id, name: call.name, input: call.input },
+      });
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Convert a turn into Claude content blocks; tool results must come first
+   */
+  private toClaudeContent(turn: LLMConversationTurn): ClaudeContentBlock[] {
+    const blocks: ClaudeContentBlock[] = (turn.toolResults || []).map(
+      result => ({
+        type: 'tool_result',
+        tool_use_id: result.toolCallId,
+        content: result.content,
+        is_error: result.isError,
+      })
+    );
+
+    if (turn.content) {
+      blocks.push({ type: 'text', text: turn.content });
+    }
+
+    for (const call of turn.toolCalls || []) {
+      blocks.push({
+        type: 'tool_use',
+        id: call.id,
+        name: call.name,
+        input: call.input,
+      });
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Extract text delta from a Nova stream event, accumulating usage and tool calls
+   */
+  private parseNovaStreamEvent(
+    event: NovaStreamEvent,
+    state: StreamAccumulator
+  ): string | undefined {
+    if (event.metadata?.usage) {
+      state.usage.inputTokens = event.metadata.usage.inputTokens;
+      state.usage.outputTokens = event.metadata.usage.outputTokens;
+    }
+    if (event.messageStop) {
+      state.stopReason = event.messageStop.stopReason;
+    }
+
+    const toolUse = event.contentBlockStart?.start.toolUse;
+    if (toolUse) {
+      state.pendingToolCall = {
+        id: toolUse.toolUseId,
+        name: toolUse.name,
+        json: '',
+      };
+    }
+    if (event.contentBlockDelta?.delta.toolUse && state.pendingToolCall) {
+      state.pendingToolCall.json += event.contentBlockDelta.delta.toolUse.input;
+    }
+    if (event.contentBlockStop) {
+      this.completeToolCall(state);
+    }
+
+    return event.contentBlockDelta?.delta.text;
+  }
+
+  /**
+   * Extract text delta from a Claude stream event, accumulating usage and tool calls
+   */
+  private parseClaudeStreamEvent(
+    event: ClaudeStreamEvent,
+    state: StreamAccumulator
+  ): string | undefined {
+    switch (event.type) {
+      case 'message_start':
+        state.usage.inputTokens = event.message?.usage.input_tokens ?? 0;
+        state.usage.outputTokens = event.message?.usage.output_tokens ?? 0;
+        return undefined;
+      case 'message_delta':
+        state.usage.outputTokens =
+          event.usage?.output_tokens ?? state.usage.outputTokens;
+        state.stopReason = event.delta?.stop_reason ?? state.stopReason;
+        return undefined;
+      case 'content_block_start':
+        if (event.content_block?.type === 'tool_use') {
+          state.pendingToolCall = {
+            id: event.content_block.id || '',
+            name: event.content_block.name || '',
+            json: '',
+          };
+        }
+        return undefined;
+      case 'content_block_delta':
+        if (event.delta?.type === 'input_json_delta' && state.pendingToolCall) {
+          state.pendingToolCall.json += event.delta.partial_json || '';
+          return undefined;
+        }
+        return event.delta?.type === 'text_delta'
+          ? event.delta.text
+          : undefined;
+      case 'content_block_stop':
+        this.completeToolCall(state);
+        return undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Close the tool call being streamed, parsing its accumulated JSON input
+   */
+  private completeToolCall(state: StreamAccumulator): void {
+    const pending = state.pendingToolCall;
+    if (!pending) {
+      return;
+    }
+
+    let input: Record<string, unknown> = {};
+    try {
+      input = pending.json ? JSON.parse(pending.json) : {};
+    } catch {
+      logger.warn('Discarding malformed streamed tool input', {
+        toolName: pending.name,
+        toolCallId: pending.id,
+      });
+    }
+
+    state.toolCalls.push({ id: pending.id, name: pending.name, input });
+    state.pendingToolCall = undefined;
+  }
+
+  /**
+   * Append the current message and any tool exchanges to the history as
+   * alternating user/assistant turns
+   */
+  private buildMessages(request: LLMRequest): LLMConversationTurn[] {
+    const turns: LLMConversationTurn[] = [
+      ...(request.history || []),
+      { role: 'user', content: request.message },
+      ...(request.continuation || []),
+    ];
+    const messages: LLMConversationTurn[] = [];
+
+    for (const turn of turns) {
+      const previous = messages[messages.length - 1];
+      if (!previous && turn.role !== 'user') {
+        continue; // Conversations must start with a user turn
+      }
+      if (previous && previous.role === turn.role) {
+        previous.content = [previous.content, turn.content]
+          .filter(Boolean)
+          .join('\n\n');
+        previous.toolCalls = this.concatOptional(
+          previous.toolCalls,
+          turn.toolCalls
+        );
+        previous.toolResults = this.concatOptional(
+          previous.toolResults,
+          turn.toolResults
+        );
+        continue;
+      }
+      messages.push({ ...turn });
+    }
+
+    return messages;
+  }
+
+  private concatOptional<T>(first?: T[], second?: T[]): T[] | undefined {
+    return first || second ? [...(first || []), ...(second || [])] : undefined;
   }
 
   private isNovaModel(model: LLMModel): boolean {
-    return model.startsWith('nova-');
+    return getModelDefinition(model).format === 'nova';
   }
 }
@@ -1,6 +1,11 @@
+export { BedrockEmbeddingAdapter } from './bedrock-embedding-adapter';
 export { BedrockLLMAdapter } from './bedrock-llm-adapter';
 export type {
   BedrockConfig,
+  ClaudeContentBlock,
   ClaudeRequest,
   ClaudeResponse,
+  ClaudeStreamEvent,
+  NovaContentBlock,
+  NovaStreamEvent,
 } from './bedrock-llm-adapter';
@@ -0,0 +1,76 @@
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { logger } from '@awslambdahackathon/utils/lambda';
+import { CancellationRepository } from '@domain/repositories/cancellation';
+import { UserId } from '@domain/value-objects';
+import { DynamoDBConfig } from '@infrastructure/config/database-config';
+
+/**
+ * Cancellation requests, one item per chat request (REQUEST#<id>). Items
+ * expire through the table TTL once the generation can no longer be running.
+ */
+export class DynamoDBCancellationRepository implements CancellationRepository {
+  private readonly ddbClient: DynamoDBDocumentClient;
+  private readonly tableName: string;
+
+  constructor(ddbClient: DynamoDBDocumentClient, config: DynamoDBConfig) {
+    this.ddbClient = ddbClient;
+    this.tableName = config.tableName;
+  }
+
+  async save(
+    requestId: string,
+    userId: UserId,
+    expiresAt: number
+  ): Promise<void> {
+    try {
+      await this.ddbClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: {
+            pk: this.buildKey(requestId),
+            userId: userId.getValue(),
+            requestedAt: new Date().toISOString(),
+            ttl: expiresAt,
+          },
+        })
+      );
+    } catch (error) {
+      logger.error('Error saving cancellation request', {
+        requestId,
+        userId: userId.getValue(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error('Failed to save cancellation request');
+    }
+  }
+
+  async exists(requestId: string, userId: UserId): Promise<boolean> {
+    try {
+      // The request is written by another invocation moments earlier
+      const result = await this.ddbClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: { pk: this.buildKey(requestId) },
+          ConsistentRead: true,
+        })
+      );
+
+      return result.Item?.userId === userId.getValue();
+    } catch (error) {
+      logger.error('Error checking cancellation request', {
+        requestId,
+        userId: userId.getValue(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error('Failed to check cancellation request');
+    }
+  }
+
+  private buildKey(requestId: string): string {
+    return `REQUEST#${requestId}`;
+  }
+}
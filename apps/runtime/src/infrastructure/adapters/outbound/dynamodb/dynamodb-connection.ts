@@ -3,6 +3,8 @@ import {
   DynamoDBDocumentClient,
   GetCommand,
   PutCommand,
+  QueryCommand,
+  QueryCommandInput,
   ScanCommand,
   UpdateCommand,
 } from '@aws-sdk/lib-dynamodb';
@@ -61,21 +63,14 @@ export class DynamoDBConnectionRepository implements ConnectionRepository {
 
   async findByUserId(userId: UserId): Promise<Connection[]> {
     try {
-      const result = await this.ddbClient.send(
-        new ScanCommand({
-          TableName: this.tableName,
-          FilterExpression: 'userId = :userId',
-          ExpressionAttributeValues: {
-            ':userId': userId.getValue(),
-          },
-        })
-      );
-
-      if (!result.Items) {
-        return [];
-      }
-
-      return result.Items.map(item => this.mapToConnection(item));
+      return await this.queryAll({
+        TableName: this.tableName,
+        IndexName: 'userId-index',
+        KeyConditionExpression: 'userId = :userId',
+        ExpressionAttributeValues: {
+          ':userId': userId.getValue(),
+        },
+      });
     } catch (error) {
       logger.error('Error finding connections by user ID', {
         error: error instanceof Error ? error.message : String(error),
@@ -86,21 +81,14 @@ export class DynamoDBConnectionRepository implements ConnectionRepository {
 
   async findBySessionId(sessionId: SessionId): Promise<Connection[]> {
     try {
-      const result = await this.ddbClient.send(
-        new ScanCommand({
-          TableName: this.tableName,
-          FilterExpression: 'sessionId = :sessionId',
-          ExpressionAttributeValues: {
-            ':sessionId': sessionId.getValue(),
-          },
-        })
-      );
-
-      if (!result.Items) {
-        return [];
-      }
-
-      return result.Items.map(item => this.mapToConnection(item));
+      return await this.queryAll({
+        TableName: this.tableName,
+        IndexName: 'sessionId-index',
+        KeyConditionExpression: 'sessionId = :sessionId',
+        ExpressionAttributeValues: {
+          ':sessionId': sessionId.getValue(),
+        },
+      });
     } catch (error) {
       logger.error('Error finding connections by session ID', {
         error: error instanceof Error ? error.message : String(error),
@@ -111,24 +99,17 @@ export class DynamoDBConnectionRepository implements ConnectionRepository {
 
   async findByStatus(status: ConnectionStatus): Promise<Connection[]> {
     try {
-      const result = await this.ddbClient.send(
-        new ScanCommand({
-          TableName: this.tableName,
-          FilterExpression: '#status = :status',
-          ExpressionAttributeNames: {
-            '#status': 'status',
-          },
-          ExpressionAttributeValues: {
-            ':status': status,
-          },
-        })
-      );
-
-      if (!result.Items) {
-        return [];
-      }
-
-      return result.Items.map(item => this.mapToConnection(item));
+      return await this.queryAll({
+        TableName: this.tableName,
+        IndexName: 'status-lastActivityAt-index',
+        KeyConditionExpression: '#status = :status',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':status': status,
+        },
+      });
     } catch (error) {
       logger.error('Error finding connections by status', {
         error: error instanceof Error ? error.message : String(error),
@@ -226,21 +207,25 @@ export class DynamoDBConnectionRepository implements ConnectionRepository {
   async findExpiredConnections(): Promise<Connection[]> {
     try {
       const now = Math.floor(Date.now() / 1000);
-      const result = await this.ddbClient.send(
-        new ScanCommand({
-          TableName: this.tableName,
-          FilterExpression: 'expiresAt < :now',
-          ExpressionAttributeValues: {
-            ':now': now,
-          },
-        })
+      const expired = await Promise.all(
+        Object.values(ConnectionStatus).map(status =>
+          this.queryAll({
+            TableName: this.tableName,
+            IndexName: 'status-lastActivityAt-index',
+            KeyConditionExpression: '#status = :status',
+            FilterExpression: 'expiresAt < :now',
+            ExpressionAttributeNames: {
+              '#status': 'status',
+            },
+            ExpressionAttributeValues: {
+              ':status': status,
+              ':now': now,
+            },
+          })
+        )
       );
 
-      if (!result.Items) {
-        return [];
-      }
-
-      return result.Items.map(item => this.mapToConnection(item));
+      return expired.flat();
     } catch (error) {
       logger.error('Error finding expired connections', {
         error: error instanceof Error ? error.message : String(error),
@@ -266,8 +251,31 @@ export class DynamoDBConnectionRepository implements ConnectionRepository {
 
   async countByStatus(status: ConnectionStatus): Promise<number> {
     try {
-      const connections = await this.findByStatus(status);
-      return connections.length;
+      let count = 0;
+      let exclusiveStartKey: Record<string, unknown> | undefined;
+
+      do {
+        const result = await this.ddbClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            IndexName: 'status-lastActivityAt-index',
+            KeyConditionExpression: '#status = :status',
+            ExpressionAttributeNames: {
+              '#status': 'status',
+            },
+            ExpressionAttributeValues: {
+              ':status': status,
+            },
+            Select: 'COUNT',
+            ExclusiveStartKey: exclusiveStartKey,
+          })
+        );
+
+        count += result.Count || 0;
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return count;
     } catch (error) {
       logger.error('Error counting connections by status', {
         error: error instanceof Error ? error.message : String(error),
@@ -399,6 +407,27 @@ export class DynamoDBConnectionRepository implements ConnectionRepository {
     }
   }
 
+  /**
+   * Run a query to completion, following LastEvaluatedKey
+   */
+  private async queryAll(input: QueryCommandInput): Promise<Connection[]> {
+    const connections: Connection[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const result = await this.ddbClient.send(
+        new QueryCommand({ ...input, ExclusiveStartKey: exclusiveStartKey })
+      );
+
+      (result.Items || []).forEach(item =>
+        connections.push(this.mapToConnection(item))
+      );
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return connections;
+  }
+
   private mapToConnection(item: Record<string, unknown>): Connection {
     // Safe type conversion with validation
     const safeString = (value: unknown): string => {
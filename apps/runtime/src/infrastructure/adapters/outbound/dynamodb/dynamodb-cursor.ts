@@ -0,0 +1,89 @@
+import {
+  DynamoDBDocumentClient,
+  QueryCommand,
+  QueryCommandInput,
+} from '@aws-sdk/lib-dynamodb';
+import { ValidationError } from '@domain/errors/domain-errors';
+
+import {
+  CursorPageDto,
+  CursorPaginationDto,
+} from '@/shared/dto/base/pagination.dto';
+
+interface DynamoDBCursor {
+  key: Record<string, unknown>; // LastEvaluatedKey of the previous page
+  page: number; // Page the cursor leads to
+}
+
+export function encodeCursor(
+  key: Record<string, unknown>,
+  page: number
+): string {
+  return Buffer.from(JSON.stringify({ key, page })).toString('base64url');
+}
+
+/**
+ * Throws ValidationError for a cursor that was not produced by encodeCursor
+ */
+export function decodeCursor(cursor?: string): DynamoDBCursor | undefined {
+  if (!cursor) {
+    return undefined;
+  }
+
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8')
+    ) as Partial<DynamoDBCursor>;
+
+    if (
+      typeof decoded.key === 'object' &&
+      decoded.key !== null &&
+      Number.isInteger(decoded.page) &&
+      (decoded.page as number) > 1
+    ) {
+      return decoded as DynamoDBCursor;
+    }
+  } catch {
+    // Reported below
+  }
+
+  throw new ValidationError('Invalid pagination cursor', 'cursor');
+}
+
+/**
+ * Query one page of items. With a FilterExpression DynamoDB applies Limit
+ * before filtering, so the query continues until the page is full or the
+ * partition is exhausted.
+ */
+export async function queryPage(
+  ddbClient: DynamoDBDocumentClient,
+  input: QueryCommandInput,
+  pagination: CursorPaginationDto
+): Promise<CursorPageDto<Record<string, unknown>>> {
+  const cursor = decodeCursor(pagination.cursor);
+  const page = cursor?.page || 1;
+  const items: Record<string, unknown>[] = [];
+  let exclusiveStartKey = cursor?.key;
+
+  do {
+    const result = await ddbClient.send(
+      new QueryCommand({
+        ...input,
+        ScanIndexForward: pagination.direction !== 'backward',
+        Limit: pagination.limit - items.length,
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+
+    items.push(...(result.Items || []));
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey && items.length < pagination.limit);
+
+  return {
+    items,
+    page,
+    nextCursor: exclusiveStartKey
+      ? encodeCursor(exclusiveStartKey, page + 1)
+      : undefined,
+  };
+}
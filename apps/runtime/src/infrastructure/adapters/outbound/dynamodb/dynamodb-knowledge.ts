@@ -0,0 +1,239 @@
+import {
+  BatchWriteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  QueryCommand,
+  ScanCommand,
+  ScanCommandInput,
+} from '@aws-sdk/lib-dynamodb';
+import { logger } from '@awslambdahackathon/utils/lambda';
+import {
+  KnowledgeChunk,
+  KnowledgeContentType,
+  KnowledgeDocument,
+  KnowledgeRepository,
+} from '@domain/repositories/knowledge';
+import { DynamoDBConfig } from '@infrastructure/config/database-config';
+
+// Maximum number of requests in a single BatchWriteItem call
+const BATCH_WRITE_SIZE = 25;
+
+type WriteRequest =
+  | { PutRequest: { Item: Record<string, unknown> } }
+  | { DeleteRequest: { Key: Record<string, unknown> } };
+
+/**
+ * Knowledge base store. Each document partition (pk = documentId) holds the
+ * document item (sk = DOCUMENT) and one item per chunk (sk = CHUNK#<index>)
+ * with its text and embedding.
+ */
+export class DynamoDBKnowledgeRepository implements KnowledgeRepository {
+  private readonly ddbClient: DynamoDBDocumentClient;
+  private readonly tableName: string;
+
+  constructor(ddbClient: DynamoDBDocumentClient, config: DynamoDBConfig) {
+    this.ddbClient = ddbClient;
+    this.tableName = config.tableName;
+  }
+
+  async saveDocument(
+    document: KnowledgeDocument,
+    chunks: KnowledgeChunk[]
+  ): Promise<void> {
+    // The document item goes last so a document is only listed once all
+    // its chunks are stored
+    const requests: WriteRequest[] = [
+      ...chunks.map(chunk => ({
+        PutRequest: {
+          Item: {
+            pk: document.id,
+            sk: DynamoDBKnowledgeRepository.buildChunkKey(chunk.index),
+            chunkId: chunk.id,
+            documentId: chunk.documentId,
+            chunkIndex: chunk.index,
+            content: chunk.content,
+            embedding: chunk.embedding,
+          },
+        },
+      })),
+      {
+        PutRequest: {
+          Item: {
+            pk: document.id,
+            sk: 'DOCUMENT',
+            documentId: document.id,
+            title: document.title,
+            contentType: document.contentType,
+            uploadedBy: document.uploadedBy,
+            chunkCount: document.chunkCount,
+            createdAt: document.createdAt.toISOString(),
+          },
+        },
+      },
+    ];
+
+    try {
+      for (let i = 0; i < requests.length; i += BATCH_WRITE_SIZE) {
+        await this.batchWrite(requests.slice(i, i + BATCH_WRITE_SIZE));
+      }
+    } catch (error) {
+      logger.error('Error saving knowledge document', {
+        documentId: document.id,
+        chunkCount: chunks.length,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error('Failed to save knowledge document');
+    }
+  }
+
+  async findDocument(documentId: string): Promise<KnowledgeDocument | null> {
+    try {
+      const result = await this.ddbClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: { pk: documentId, sk: 'DOCUMENT' },
+        })
+      );
+
+      return result.Item ? this.mapToDocument(result.Item) : null;
+    } catch (error) {
+      logger.error('Error finding knowledge document', {
+        documentId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error('Failed to find knowledge document');
+    }
+  }
+
+  async findDocuments(): Promise<KnowledgeDocument[]> {
+    const items = await this.scanAll(
+      {
+        TableName: this.tableName,
+        FilterExpression: 'sk = :sk',
+        ExpressionAttributeValues: { ':sk': 'DOCUMENT' },
+      },
+      'Failed to find knowledge documents'
+    );
+
+    return items
+      .map(item => this.mapToDocument(item))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async findAllChunks(): Promise<KnowledgeChunk[]> {
+    const items = await this.scanAll(
+      {
+        TableName: this.tableName,
+        FilterExpression: 'begins_with(sk, :prefix)',
+        ExpressionAttributeValues: { ':prefix': 'CHUNK#' },
+      },
+      'Failed to find knowledge chunks'
+    );
+
+    return items.map(item => ({
+      id: String(item.chunkId),
+      documentId: String(item.documentId),
+      index: Number(item.chunkIndex),
+      content: String(item.content),
+      embedding: (item.embedding as number[]) || [],
+    }));
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    try {
+      let exclusiveStartKey: Record<string, unknown> | undefined;
+
+      do {
+        const result = await this.ddbClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            KeyConditionExpression: 'pk = :pk',
+            ExpressionAttributeValues: { ':pk': documentId },
+            ProjectionExpression: 'pk, sk',
+            ExclusiveStartKey: exclusiveStartKey,
+          })
+        );
+
+        const keys = result.Items || [];
+        for (let i = 0; i < keys.length; i += BATCH_WRITE_SIZE) {
+          await this.batchWrite(
+            keys
+              .slice(i, i + BATCH_WRITE_SIZE)
+              .map(key => ({ DeleteRequest: { Key: key } }))
+          );
+        }
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+    } catch (error) {
+      logger.error('Error deleting knowledge document', {
+        documentId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error('Failed to delete knowledge document');
+    }
+  }
+
+  /**
+   * Run a scan to completion, following LastEvaluatedKey
+   */
+  private async scanAll(
+    input: ScanCommandInput,
+    failureMessage: string
+  ): Promise<Record<string, unknown>[]> {
+    const items: Record<string, unknown>[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    try {
+      do {
+        const result = await this.ddbClient.send(
+          new ScanCommand({ ...input, ExclusiveStartKey: exclusiveStartKey })
+        );
+        items.push(...(result.Items || []));
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return items;
+    } catch (error) {
+      logger.error(failureMessage, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error(failureMessage);
+    }
+  }
+
+  private async batchWrite(requests: WriteRequest[]): Promise<void> {
+    let pending = requests;
+    let attempt = 0;
+
+    // Throttled writes come back unprocessed and are retried with backoff
+    while (pending.length > 0) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, 100 * 2 ** attempt));
+      }
+      attempt++;
+
+      const result = await this.ddbClient.send(
+        new BatchWriteCommand({
+          RequestItems: { [this.tableName]: pending },
+        })
+      );
+      pending = (result.UnprocessedItems?.[this.tableName] ||
+        []) as WriteRequest[];
+    }
+  }
+
+  private static buildChunkKey(index: number): string {
+    return `CHUNK#${String(index).padStart(4, '0')}`;
+  }
+
+  private mapToDocument(item: Record<string, unknown>): KnowledgeDocument {
+    return {
+      id: String(item.documentId),
+      title: String(item.title),
+      contentType: item.contentType as KnowledgeContentType,
+      uploadedBy: String(item.uploadedBy),
+      chunkCount: Number(item.chunkCount || 0),
+      createdAt: new Date(String(item.createdAt)),
+    };
+  }
+}
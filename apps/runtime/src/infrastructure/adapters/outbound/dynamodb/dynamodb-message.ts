@@ -1,16 +1,37 @@
 import {
+  BatchWriteCommand,
   DeleteCommand,
   DynamoDBDocumentClient,
   PutCommand,
   QueryCommand,
-  ScanCommand,
+  UpdateCommand,
 } from '@aws-sdk/lib-dynamodb';
 import { logger } from '@awslambdahackathon/utils/lambda';
 import { Message, MessageStatus, MessageType } from '@domain/entities/message';
+import { DomainError } from '@domain/errors/domain-errors';
 import { MessageRepository } from '@domain/repositories/message';
 import { MessageId, SessionId, UserId } from '@domain/value-objects';
 import { DynamoDBConfig } from '@infrastructure/config/database-config';
+import { DynamoDBMessageMapper } from '@infrastructure/mappers/database/dynamodb-message.mapper';
 
+import { queryPage } from './dynamodb-cursor';
+
+import {
+  CursorPageDto,
+  CursorPaginationDto,
+} from '@/shared/dto/base/pagination.dto';
+
+// Maximum number of requests in a single BatchWriteItem call
+const BATCH_WRITE_SIZE = 25;
+
+/**
+ * Messages are keyed by sessionId and a sort key of `<createdAt>#<messageId>`
+ * (stored in the `timestamp` attribute), so messages created in the same
+ * millisecond never overwrite each other and always sort the same way.
+ * Records written before this format use the bare ISO timestamp, which sorts
+ * consistently with it; status updates fall back to that key. Lookups by id
+ * and by type go through the messageId-index and type-index GSIs.
+ */
 export class DynamoDBMessageRepository implements MessageRepository {
   private readonly ddbClient: DynamoDBDocumentClient;
   private readonly tableName: string;
@@ -22,55 +43,183 @@ export class DynamoDBMessageRepository implements MessageRepository {
 
   async findById(id: MessageId): Promise<Message | null> {
     try {
-      const result = await this.ddbClient.send(
-        new ScanCommand({
+      const item = await this.findItemById(id);
+      return item ? this.mapToMessage(item) : null;
+    } catch (error) {
+      logger.error('Error finding message by ID', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error('Failed to find message');
+    }
+  }
+
+  async findBySession(sessionId: SessionId): Promise<Message[]> {
+    try {
+      const items: Record<string, unknown>[] = [];
+      let exclusiveStartKey: Record<string, unknown> | undefined;
+
+      do {
+        const result = await this.ddbClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            KeyConditionExpression: 'sessionId = :sessionId',
+            ExpressionAttributeValues: {
+              ':sessionId': sessionId.getValue(),
+            },
+            ScanIndexForward: false, // Most recent first
+            ExclusiveStartKey: exclusiveStartKey,
+          })
+        );
+
+        items.push(...(result.Items || []));
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return items.map(item => this.mapToMessage(item));
+    } catch (error) {
+      logger.error('Error finding messages by session', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error('Failed to find messages by session');
+    }
+  }
+
+  async findPageBySession(
+    sessionId: SessionId,
+    pagination: CursorPaginationDto
+  ): Promise<CursorPageDto<Message>> {
+    try {
+      const page = await queryPage(
+        this.ddbClient,
+        {
           TableName: this.tableName,
-          FilterExpression: 'messageId = :messageId',
+          KeyConditionExpression: 'sessionId = :sessionId',
           ExpressionAttributeValues: {
-            ':messageId': id.getValue(),
+            ':sessionId': sessionId.getValue(),
           },
-        })
+        },
+        pagination
       );
 
-      if (!result.Items || result.Items.length === 0) {
-        return null;
-      }
-
-      return this.mapToMessage(result.Items[0]);
+      return {
+        ...page,
+        items: page.items.map(item => this.mapToMessage(item)),
+      };
     } catch (error) {
-      logger.error('Error finding message by ID', {
+      if (error instanceof DomainError) {
+        throw error;
+      }
+      logger.error('Error finding message page by session', {
+        sessionId: sessionId.getValue(),
         error: error instanceof Error ? error.message : String(error),
       });
-      throw new Error('Failed to find message');
+      throw new Error('Failed to find messages by session');
     }
   }
 
-  async findBySession(sessionId: SessionId): Promise<Message[]> {
+  async findAfter(
+    sessionId: SessionId,
+    after: Message | null,
+    limit: number
+  ): Promise<Message[]> {
     try {
       const result = await this.ddbClient.send(
         new QueryCommand({
           TableName: this.tableName,
-          KeyConditionExpression: 'sessionId = :sessionId',
+          KeyConditionExpression: after
+            ? 'sessionId = :sessionId AND #timestamp > :after'
+            : 'sessionId = :sessionId',
+          ExpressionAttributeNames: after
+            ? { '#timestamp': 'timestamp' }
+            : undefined,
           ExpressionAttributeValues: {
             ':sessionId': sessionId.getValue(),
+            ...(after && {
+              ':after': DynamoDBMessageRepository.buildSortKey(after),
+            }),
           },
-          ScanIndexForward: false, // Most recent first
+          ScanIndexForward: true,
+          Limit: limit,
         })
       );
 
-      if (!result.Items) {
-        return [];
-      }
-
-      return result.Items.map(item => this.mapToMessage(item));
+      return (result.Items || []).map(item => this.mapToMessage(item));
     } catch (error) {
-      logger.error('Error finding messages by session', {
+      logger.error('Error finding messages after message', {
+        sessionId: sessionId.getValue(),
+        after: after?.getId().getValue(),
         error: error instanceof Error ? error.message : String(error),
       });
       throw new Error('Failed to find messages by session');
     }
   }
 
+  async findPendingBySession(sessionId: SessionId): Promise<Message[]> {
+    try {
+      const items: Record<string, unknown>[] = [];
+      let exclusiveStartKey: Record<string, unknown> | undefined;
+
+      do {
+        const result = await this.ddbClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            KeyConditionExpression: 'sessionId = :sessionId',
+            FilterExpression: '#status = :pending',
+            ExpressionAttributeNames: { '#status': 'status' },
+            ExpressionAttributeValues: {
+              ':sessionId': sessionId.getValue(),
+              ':pending': MessageStatus.PENDING,
+            },
+            ExclusiveStartKey: exclusiveStartKey,
+          })
+        );
+
+        items.push(...(result.Items || []));
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return items.map(item => this.mapToMessage(item));
+    } catch (error) {
+      logger.error('Error finding pending messages by session', {
+        sessionId: sessionId.getValue(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error('Failed to find pending messages');
+    }
+  }
+
+  async findReplies(messageId: MessageId): Promise<Message[]> {
+    try {
+      const items: Record<string, unknown>[] = [];
+      let exclusiveStartKey: Record<string, unknown> | undefined;
+
+      do {
+        const result = await this.ddbClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            IndexName: 'replyToMessageId-index',
+            KeyConditionExpression: 'replyToMessageId = :messageId',
+            ExpressionAttributeValues: {
+              ':messageId': messageId.getValue(),
+            },
+            ExclusiveStartKey: exclusiveStartKey,
+          })
+        );
+
+        items.push(...(result.Items || []));
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return items.map(item => this.mapToMessage(item));
+    } catch (error) {
+      logger.error('Error finding replies to message', {
+        messageId: messageId.getValue(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error('Failed to find replies to message');
+    }
+  }
+
   async findByUser(userId: UserId): Promise<Message[]> {
     try {
       const result = await this.ddbClient.send(
@@ -100,24 +249,32 @@ export class DynamoDBMessageRepository implements MessageRepository {
 
   async findByType(type: MessageType): Promise<Message[]> {
     try {
-      const result = await this.ddbClient.send(
-        new ScanCommand({
-          TableName: this.tableName,
-          FilterExpression: '#type = :type',
-          ExpressionAttributeNames: {
-            '#type': 'type',
-          },
-          ExpressionAttributeValues: {
-            ':type': type,
-          },
-        })
-      );
-
-      if (!result.Items) {
-        return [];
-      }
-
-      return result.Items.map(item => this.mapToMessage(item));
+      const messages: Message[] = [];
+      let exclusiveStartKey: Record<string, unknown> | undefined;
+
+      do {
+        const result = await this.ddbClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            IndexName: 'type-index',
+            KeyConditionExpression: '#type = :type',
+            ExpressionAttributeNames: {
+              '#type': 'type',
+            },
+            ExpressionAttributeValues: {
+              ':type': type,
+            },
+            ExclusiveStartKey: exclusiveStartKey,
+          })
+        );
+
+        (result.Items || []).forEach(item =>
+          messages.push(this.mapToMessage(item))
+        );
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return messages;
     } catch (error) {
       logger.error('Error finding messages by type', {
         error: error instanceof Error ? error.message : String(error),
@@ -128,19 +285,20 @@ export class DynamoDBMessageRepository implements MessageRepository {
 
   async save(message: Message): Promise<void> {
     try {
-      const timestamp = message.getCreatedAt().toISOString();
+      const createdAt = message.getCreatedAt().toISOString();
       await this.ddbClient.send(
         new PutCommand({
           TableName: this.tableName,
           Item: {
             sessionId: message.getSessionId().getValue(),
-            timestamp: timestamp,
+            timestamp: DynamoDBMessageRepository.buildSortKey(message),
             messageId: message.getId().getValue(),
             content: message.getContent(),
             type: message.getType(),
+            role: message.getRole(),
             userId: message.getUserId().getValue(),
             status: message.getStatus(),
-            createdAt: timestamp,
+            createdAt,
             metadata: message.getMetadata(),
             replyToMessageId: message.getReplyToMessageId()?.getValue(),
             ttl: Math.floor(Date.now() / 1000) + 24 * 60 * 60, // 24 hours
@@ -155,19 +313,66 @@ export class DynamoDBMessageRepository implements MessageRepository {
     }
   }
 
+  async updateStatus(message: Message): Promise<void> {
+    try {
+      // Try the current key format first, then the legacy bare timestamp;
+      // the condition keeps a miss from creating a partial record
+      for (const timestamp of [
+        DynamoDBMessageRepository.buildSortKey(message),
+        message.getCreatedAt().toISOString(),
+      ]) {
+        try {
+          await this.ddbClient.send(
+            new UpdateCommand({
+              TableName: this.tableName,
+              Key: {
+                sessionId: message.getSessionId().getValue(),
+                timestamp,
+              },
+              UpdateExpression: 'SET #status = :status',
+              ConditionExpression: 'messageId = :messageId',
+              ExpressionAttributeNames: { '#status': 'status' },
+              ExpressionAttributeValues: {
+                ':status': message.getStatus(),
+                ':messageId': message.getId().getValue(),
+              },
+            })
+          );
+          return;
+        } catch (error) {
+          if (
+            !(error instanceof Error) ||
+            error.name !== 'ConditionalCheckFailedException'
+          ) {
+            throw error;
+          }
+        }
+      }
+
+      throw new Error('Message not found');
+    } catch (error) {
+      logger.error('Error updating message status', {
+        messageId: message.getId().getValue(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error('Failed to update message status');
+    }
+  }
+
   async delete(id: MessageId): Promise<void> {
     try {
-      const message = await this.findById(id);
-      if (!message) {
+      const item = await this.findItemById(id);
+      if (!item) {
         throw new Error('Message not found');
       }
 
+      // Use the stored key, which may be in the legacy format
       await this.ddbClient.send(
         new DeleteCommand({
           TableName: this.tableName,
           Key: {
-            sessionId: message.getSessionId().getValue(),
-            timestamp: message.getCreatedAt().toISOString(),
+            sessionId: item.sessionId,
+            timestamp: item.timestamp,
           },
         })
       );
@@ -179,6 +384,41 @@ export class DynamoDBMessageRepository implements MessageRepository {
     }
   }
 
+  async deleteBySession(sessionId: SessionId): Promise<void> {
+    try {
+      let exclusiveStartKey: Record<string, unknown> | undefined;
+
+      do {
+        const result = await this.ddbClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            KeyConditionExpression: 'sessionId = :sessionId',
+            ExpressionAttributeNames: {
+              '#timestamp': 'timestamp',
+            },
+            ExpressionAttributeValues: {
+              ':sessionId': sessionId.getValue(),
+            },
+            ProjectionExpression: 'sessionId, #timestamp',
+            ExclusiveStartKey: exclusiveStartKey,
+          })
+        );
+
+        const keys = result.Items || [];
+        for (let i = 0; i < keys.length; i += BATCH_WRITE_SIZE) {
+          await this.batchDelete(keys.slice(i, i + BATCH_WRITE_SIZE));
+        }
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+    } catch (error) {
+      logger.error('Error deleting messages by session', {
+        sessionId: sessionId.getValue(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error('Failed to delete messages by session');
+    }
+  }
+
   async exists(id: MessageId): Promise<boolean> {
     try {
       const message = await this.findById(id);
@@ -237,7 +477,9 @@ export class DynamoDBMessageRepository implements MessageRepository {
           ExpressionAttributeValues: {
             ':userId': userId.getValue(),
             ':startDate': startDate.toISOString(),
-            ':endDate': endDate.toISOString(),
+            // Include messages created exactly at endDate, whose sort keys
+            // continue with #<messageId>
+            ':endDate': `${endDate.toISOString()}#\uffff`,
           },
           ScanIndexForward: false, // Most recent first
         })
@@ -301,6 +543,53 @@ export class DynamoDBMessageRepository implements MessageRepository {
     }
   }
 
+  private async batchDelete(keys: Record<string, unknown>[]): Promise<void> {
+    let requests = keys.map(key => ({ DeleteRequest: { Key: key } }));
+    let attempt = 0;
+
+    // Throttled deletes come back unprocessed and are retried with backoff
+    while (requests.length > 0) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, 100 * 2 ** attempt));
+      }
+      attempt++;
+
+      const result = await this.ddbClient.send(
+        new BatchWriteCommand({
+          RequestItems: { [this.tableName]: requests },
+        })
+      );
+      requests = (result.UnprocessedItems?.[this.tableName] || []).filter(
+        (
+          request
+        ): request is { DeleteRequest: { Key: Record<string, unknown> } } =>
+          request.DeleteRequest?.Key !== undefined
+      );
+    }
+  }
+
+  private static buildSortKey(message: Message): string {
+    return `${message.getCreatedAt().toISOString()}#${message.getId().getValue()}`;
+  }
+
+  private async findItemById(
+    id: MessageId
+  ): Promise<Record<string, unknown> | null> {
+    const result = await this.ddbClient.send(
+      new QueryCommand({
+        TableName: this.tableName,
+        IndexName: 'messageId-index',
+        KeyConditionExpression: 'messageId = :messageId',
+        ExpressionAttributeValues: {
+          ':messageId': id.getValue(),
+        },
+        Limit: 1,
+      })
+    );
+
+    return result.Items?.[0] || null;
+  }
+
   private mapToMessage(item: Record<string, unknown>): Message {
     // Safe type conversion with validation
     const safeString = (value: unknown): string => {
@@ -311,7 +600,9 @@ export class DynamoDBMessageRepository implements MessageRepository {
     const safeMessageType = (value: unknown): MessageType => {
       if (
         typeof value === 'string' &&
-        ['text', 'system', 'notification'].includes(value)
+        ['text', 'system', 'notification', 'tool_call', 'tool_result'].includes(
+          value
+        )
       ) {
         return value as MessageType;
       }
@@ -321,7 +612,7 @@ export class DynamoDBMessageRepository implements MessageRepository {
     const safeMessageStatus = (value: unknown): MessageStatus => {
       if (
         typeof value === 'string' &&
-        ['sent', 'delivered', 'read', 'failed'].includes(value)
+        ['sent', 'delivered', 'read', 'failed', 'pending'].includes(value)
       ) {
         return value as MessageStatus;
       }
@@ -332,6 +623,7 @@ export class DynamoDBMessageRepository implements MessageRepository {
       id: safeString(item.messageId),
       content: safeString(item.content),
       type: safeMessageType(item.type),
+      role: DynamoDBMessageMapper.resolveRole(item),
       userId: safeString(item.userId),
       sessionId: safeString(item.sessionId),
       status: safeMessageStatus(item.status),
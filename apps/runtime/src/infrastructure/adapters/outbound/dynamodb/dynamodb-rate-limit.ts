@@ -0,0 +1,89 @@
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { logger } from '@awslambdahackathon/utils/lambda';
+import { RateLimitRepository } from '@domain/repositories/rate-limit';
+import { UserId } from '@domain/value-objects';
+import { DynamoDBConfig } from '@infrastructure/config/database-config';
+
+/**
+ * Request counters, one item per user and window (USER#<id>#<windowStart>).
+ * Items expire through the table TTL shortly after their window closes.
+ */
+export class DynamoDBRateLimitRepository implements RateLimitRepository {
+  private readonly ddbClient: DynamoDBDocumentClient;
+  private readonly tableName: string;
+
+  constructor(ddbClient: DynamoDBDocumentClient, config: DynamoDBConfig) {
+    this.ddbClient = ddbClient;
+    this.tableName = config.tableName;
+  }
+
+  async getCount(userId: UserId, windowStart: number): Promise<number> {
+    try {
+      const result = await this.ddbClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: { pk: this.buildKey(userId, windowStart) },
+        })
+      );
+
+      return Number(result.Item?.requestCount || 0);
+    } catch (error) {
+      logger.error('Error getting rate limit count', {
+        userId: userId.getValue(),
+        windowStart,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error('Failed to get rate limit count');
+    }
+  }
+
+  async increment(
+    userId: UserId,
+    windowStart: number,
+    maxCount: number,
+    expiresAt: number
+  ): Promise<boolean> {
+    try {
+      // The condition makes concurrent Lambda instances share one counter
+      await this.ddbClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: { pk: this.buildKey(userId, windowStart) },
+          UpdateExpression: 'ADD requestCount :one SET #ttl = :ttl',
+          ConditionExpression:
+            'attribute_not_exists(requestCount) OR requestCount < :max',
+          ExpressionAttributeNames: { '#ttl': 'ttl' },
+          ExpressionAttributeValues: {
+            ':one': 1,
+            ':max': maxCount,
+            ':ttl': expiresAt,
+          },
+        })
+      );
+
+      return true;
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.name === 'ConditionalCheckFailedException'
+      ) {
+        return false;
+      }
+
+      logger.error('Error incrementing rate limit count', {
+        userId: userId.getValue(),
+        windowStart,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error('Failed to increment rate limit count');
+    }
+  }
+
+  private buildKey(userId: UserId, windowStart: number): string {
+    return `USER#${userId.getValue()}#${windowStart}`;
+  }
+}
@@ -8,11 +8,20 @@ import {
   UpdateCommand,
 } from '@aws-sdk/lib-dynamodb';
 import { logger } from '@awslambdahackathon/utils/lambda';
+import { SESSION_CONFIG } from '@config/constants';
 import { Session, SessionStatus } from '@domain/entities/session';
+import { DomainError } from '@domain/errors/domain-errors';
 import { SessionRepository } from '@domain/repositories/session';
 import { SessionId, UserId } from '@domain/value-objects';
 import { DynamoDBConfig } from '@infrastructure/config/database-config';
 
+import { queryPage } from './dynamodb-cursor';
+
+import {
+  CursorPageDto,
+  CursorPaginationDto,
+} from '@/shared/dto/base/pagination.dto';
+
 export class DynamoDBSessionRepository implements SessionRepository {
   private readonly ddbClient: DynamoDBDocumentClient;
   private readonly tableName: string;
@@ -413,6 +422,84 @@ export class DynamoDBSessionRepository implements SessionRepository {
     }
   }
 
+  async findConversationsByUser(
+    userId: UserId,
+    pagination: CursorPaginationDto
+  ): Promise<CursorPageDto<Session>> {
+    try {
+      const page = await queryPage(
+        this.ddbClient,
+        {
+          TableName: this.tableName,
+          IndexName: 'userId-index',
+          KeyConditionExpression: 'userId = :userId',
+          FilterExpression: 'metadata.#kind = :kind',
+          ExpressionAttributeNames: {
+            '#kind': 'kind',
+          },
+          ExpressionAttributeValues: {
+            ':userId': userId.getValue(),
+            ':kind': SESSION_CONFIG.CONVERSATION_KIND,
+          },
+        },
+        // Most recent first
+        { ...pagination, direction: 'backward' }
+      );
+
+      return {
+        ...page,
+        items: page.items.map(item => this.mapToSession(item)),
+      };
+    } catch (error) {
+      if (error instanceof DomainError) {
+        throw error;
+      }
+      logger.error('Error finding conversations by user', {
+        userId: userId.getValue(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error('Failed to find conversations by user');
+    }
+  }
+
+  async countConversationsByUser(userId: UserId): Promise<number> {
+    try {
+      let count = 0;
+      let exclusiveStartKey: Record<string, unknown> | undefined;
+
+      do {
+        const result = await this.ddbClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            IndexName: 'userId-index',
+            KeyConditionExpression: 'userId = :userId',
+            FilterExpression: 'metadata.#kind = :kind',
+            ExpressionAttributeNames: {
+              '#kind': 'kind',
+            },
+            ExpressionAttributeValues: {
+              ':userId': userId.getValue(),
+              ':kind': SESSION_CONFIG.CONVERSATION_KIND,
+            },
+            Select: 'COUNT',
+            ExclusiveStartKey: exclusiveStartKey,
+          })
+        );
+
+        count += result.Count || 0;
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return count;
+    } catch (error) {
+      logger.error('Error counting conversations by user', {
+        userId: userId.getValue(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error('Failed to count conversations by user');
+    }
+  }
+
   async countActiveByUser(userId: UserId): Promise<number> {
     try {
       const result = await this.ddbClient.send(
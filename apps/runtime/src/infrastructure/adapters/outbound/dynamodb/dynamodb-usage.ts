@@ -0,0 +1,211 @@
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  QueryCommand,
+  QueryCommandInput,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { logger } from '@awslambdahackathon/utils/lambda';
+import { USAGE_CONFIG } from '@config/constants';
+import {
+  UsageEntry,
+  UsageRepository,
+  UsageTotals,
+} from '@domain/repositories/usage';
+import { SessionId, UserId } from '@domain/value-objects';
+import { DynamoDBConfig } from '@infrastructure/config/database-config';
+
+/**
+ * Usage ledger. Each user partition holds one counter item per day
+ * (DAY#<date>) and one per session (SESSION#<sessionId>); day items are
+ * also indexed by date for admin reports.
+ */
+export class DynamoDBUsageRepository implements UsageRepository {
+  private readonly ddbClient: DynamoDBDocumentClient;
+  private readonly tableName: string;
+
+  constructor(ddbClient: DynamoDBDocumentClient, config: DynamoDBConfig) {
+    this.ddbClient = ddbClient;
+    this.tableName = config.tableName;
+  }
+
+  async record(entry: UsageEntry): Promise<void> {
+    const userId = entry.userId.getValue();
+    const sessionId = entry.sessionId.getValue();
+    const date = entry.timestamp.toISOString().slice(0, 10);
+    const values = {
+      ':input': entry.inputTokens,
+      ':output': entry.outputTokens,
+      ':total': entry.inputTokens + entry.outputTokens,
+      ':cost': entry.estimatedCost,
+      ':one': 1,
+      ':userId': userId,
+      ':updatedAt': entry.timestamp.toISOString(),
+      ':ttl':
+        Math.floor(entry.timestamp.getTime() / 1000) +
+        USAGE_CONFIG.LEDGER_TTL_DAYS * 24 * 60 * 60,
+    };
+    const counters =
+      'ADD inputTokens :input, outputTokens :output, totalTokens :total, estimatedCost :cost, requestCount :one';
+
+    try {
+      // Counters are incremented atomically so concurrent calls never lose usage
+      await Promise.all([
+        this.ddbClient.send(
+          new UpdateCommand({
+            TableName: this.tableName,
+            Key: { pk: `USER#${userId}`, sk: `DAY#${date}` },
+            UpdateExpression: `${counters} SET userId = :userId, #date = :date, updatedAt = :updatedAt, #ttl = :ttl`,
+            ExpressionAttributeNames: { '#date': 'date', '#ttl': 'ttl' },
+            ExpressionAttributeValues: { ...values, ':date': date },
+          })
+        ),
+        this.ddbClient.send(
+          new UpdateCommand({
+            TableName: this.tableName,
+            Key: { pk: `USER#${userId}`, sk: `SESSION#${sessionId}` },
+            UpdateExpression: `${counters} SET userId = :userId, sessionId = :sessionId, updatedAt = :updatedAt, #ttl = :ttl`,
+            ExpressionAttributeNames: { '#ttl': 'ttl' },
+            ExpressionAttributeValues: { ...values, ':sessionId': sessionId },
+          })
+        ),
+      ]);
+    } catch (error) {
+      logger.error('Error recording usage', {
+        userId,
+        sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error('Failed to record usage');
+    }
+  }
+
+  async getDailyUsage(
+    userId: UserId,
+    date: string
+  ): Promise<UsageTotals | null> {
+    return this.getTotals(userId, `DAY#${date}`);
+  }
+
+  async getSessionUsage(
+    userId: UserId,
+    sessionId: SessionId
+  ): Promise<UsageTotals | null> {
+    return this.getTotals(userId, `SESSION#${sessionId.getValue()}`);
+  }
+
+  async findDailyUsageByUser(
+    userId: UserId,
+    fromDate: string,
+    toDate: string
+  ): Promise<UsageTotals[]> {
+    return this.queryAll(
+      {
+        TableName: this.tableName,
+        KeyConditionExpression: 'pk = :pk AND sk BETWEEN :from AND :to',
+        ExpressionAttributeValues: {
+          ':pk': `USER#${userId.getValue()}`,
+          ':from': `DAY#${fromDate}`,
+          ':to': `DAY#${toDate}`,
+        },
+      },
+      'Failed to find daily usage by user'
+    );
+  }
+
+  async findDailyUsageByDate(date: string): Promise<UsageTotals[]> {
+    return this.queryAll(
+      {
+        TableName: this.tableName,
+        IndexName: 'date-index',
+        KeyConditionExpression: '#date = :date',
+        ExpressionAttributeNames: { '#date': 'date' },
+        ExpressionAttributeValues: { ':date': date },
+      },
+      'Failed to find daily usage by date'
+    );
+  }
+
+  async findSessionUsageByUser(userId: UserId): Promise<UsageTotals[]> {
+    return this.queryAll(
+      {
+        TableName: this.tableName,
+        KeyConditionExpression: 'pk = :pk AND begins_with(sk, :prefix)',
+        ExpressionAttributeValues: {
+          ':pk': `USER#${userId.getValue()}`,
+          ':prefix': 'SESSION#',
+        },
+      },
+      'Failed to find session usage by user'
+    );
+  }
+
+  private async getTotals(
+    userId: UserId,
+    sk: string
+  ): Promise<UsageTotals | null> {
+    try {
+      const result = await this.ddbClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: { pk: `USER#${userId.getValue()}`, sk },
+        })
+      );
+
+      return result.Item ? this.mapToTotals(result.Item) : null;
+    } catch (error) {
+      logger.error('Error getting usage totals', {
+        userId: userId.getValue(),
+        sk,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error('Failed to get usage totals');
+    }
+  }
+
+  /**
+   * Run a query to completion, following LastEvaluatedKey
+   */
+  private async queryAll(
+    input: QueryCommandInput,
+    failureMessage: string
+  ): Promise<UsageTotals[]> {
+    const totals: UsageTotals[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    try {
+      do {
+        const result = await this.ddbClient.send(
+          new QueryCommand({ ...input, ExclusiveStartKey: exclusiveStartKey })
+        );
+        (result.Items || []).forEach(item =>
+          totals.push(this.mapToTotals(item))
+        );
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return totals;
+    } catch (error) {
+      logger.error(failureMessage, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw new Error(failureMessage);
+    }
+  }
+
+  private mapToTotals(item: Record<string, unknown>): UsageTotals {
+    const sk = String(item.sk);
+
+    return {
+      userId: String(item.userId),
+      scope: sk.startsWith('DAY#') ? 'day' : 'session',
+      key: sk.slice(sk.indexOf('#') + 1),
+      inputTokens: Number(item.inputTokens || 0),
+      outputTokens: Number(item.outputTokens || 0),
+      totalTokens: Number(item.totalTokens || 0),
+      estimatedCost: Number(item.estimatedCost || 0),
+      requestCount: Number(item.requestCount || 0),
+      updatedAt: String(item.updatedAt),
+    };
+  }
+}
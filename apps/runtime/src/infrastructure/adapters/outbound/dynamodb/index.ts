@@ -1,5 +1,9 @@
 // Outbound Adapters - DynamoDB Repositories
+export { DynamoDBCancellationRepository } from './dynamodb-cancellation';
 export { DynamoDBConnectionRepository } from './dynamodb-connection';
+export { DynamoDBKnowledgeRepository } from './dynamodb-knowledge';
 export { DynamoDBMessageRepository } from './dynamodb-message';
+export { DynamoDBRateLimitRepository } from './dynamodb-rate-limit';
 export { DynamoDBSessionRepository } from './dynamodb-session';
 export { DynamoDBUserRepository } from './dynamodb-user';
+export { DynamoDBUsageRepository } from './dynamodb-usage';
@@ -3,6 +3,7 @@ import {
   InvokeCommandInput,
   LambdaClient,
 } from '@aws-sdk/client-lambda';
+import { DEFAULT_MODEL } from '@awslambdahackathon/types';
 import { logger } from '@awslambdahackathon/utils/lambda';
 import { LLMRequest, LLMResponse } from '@domain/services/llm-service';
 
@@ -64,6 +65,7 @@ export class LambdaInvokerAdapter {
           success: false,
           messageId: request.messageId,
           error: `Lambda function error: ${response.FunctionError}`,
+          retryable: true,
         };
       }
 
@@ -76,6 +78,7 @@ export class LambdaInvokerAdapter {
           success: false,
           messageId: request.messageId,
           error: 'No response payload from LLM service',
+          retryable: true,
         };
       }
 
@@ -96,6 +99,7 @@ export class LambdaInvokerAdapter {
           success: false,
           messageId: request.messageId,
           error: errorResponse.error || 'LLM service returned error status',
+          retryable: responsePayload.statusCode >= 500,
         };
       }
 
@@ -124,6 +128,7 @@ export class LambdaInvokerAdapter {
           error instanceof Error
             ? `Lambda invocation failed: ${error.message}`
             : 'Unknown Lambda invocation error',
+        retryable: true,
       };
     }
   }
@@ -135,7 +140,7 @@ export class LambdaInvokerAdapter {
         userId: 'system',
         sessionId: 'system',
         message: 'Health check',
-        model: 'nova-micro',
+        model: DEFAULT_MODEL,
         maxTokens: 10,
         temperature: 0,
       };
@@ -1,3 +1,8 @@
+import {
+  DEFAULT_MODEL,
+  getModelDefinition,
+  SUPPORTED_MODELS,
+} from '@awslambdahackathon/types';
 import { logger } from '@awslambdahackathon/utils/lambda';
 import {
   LLMModel,
@@ -72,11 +77,23 @@ export class LambdaLLMService implements LLMService {
       };
     }
 
+    const supportedModels = this.getSupportedModels();
+    if (request.model && !supportedModels.includes(request.model)) {
+      return {
+        success: false,
+        error: `unsupported model: ${request.model}. Supported models: ${supportedModels.join(', ')}`,
+      };
+    }
+
+    const { maxTokens } = getModelDefinition(request.model || DEFAULT_MODEL);
     if (
       request.maxTokens &&
-      (request.maxTokens < 1 || request.maxTokens > 4096)
+      (request.maxTokens < 1 || request.maxTokens > maxTokens)
     ) {
-      return { success: false, error: 'maxTokens must be between 1 and 4096' };
+      return {
+        success: false,
+        error: `maxTokens must be between 1 and ${maxTokens}`,
+      };
     }
 
     if (
@@ -86,14 +103,6 @@ export class LambdaLLMService implements LLMService {
       return { success: false, error: 'temperature must be between 0 and 1' };
     }
 
-    const supportedModels = this.getSupportedModels();
-    if (request.model && !supportedModels.includes(request.model)) {
-      return {
-        success: false,
-        error: `unsupported model: ${request.model}. Supported models: ${supportedModels.join(', ')}`,
-      };
-    }
-
     return { success: true };
   }
 
@@ -109,13 +118,6 @@ export class LambdaLLMService implements LLMService {
   }
 
   getSupportedModels(): LLMModel[] {
-    return [
-      'nova-micro',
-      'nova-lite',
-      'nova-pro',
-      'claude-3-haiku',
-      'claude-3-sonnet',
-      'claude-3-opus',
-    ];
+    return [...SUPPORTED_MODELS];
   }
 }
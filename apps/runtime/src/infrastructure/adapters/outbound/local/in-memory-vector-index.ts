@@ -0,0 +1,52 @@
+import {
+  VectorIndex,
+  VectorMatch,
+  VectorRecord,
+} from '@domain/repositories/vector-index';
+
+/**
+ * Vector index held in the memory of the Lambda container, searched by
+ * comparing the query with every record. Fine for the few thousand chunks of
+ * a small knowledge base.
+ */
+export class InMemoryVectorIndex implements VectorIndex {
+  private readonly records = new Map<string, VectorRecord>();
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    records.forEach(record => this.records.set(record.id, record));
+  }
+
+  async query(vector: number[], topK: number): Promise<VectorMatch[]> {
+    return Array.from(this.records.values())
+      .map(record => ({
+        id: record.id,
+        score: this.cosineSimilarity(vector, record.vector),
+        metadata: record.metadata,
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    ids.forEach(id => this.records.delete(id));
+  }
+
+  async size(): Promise<number> {
+    return this.records.size;
+  }
+
+  private cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    const length = Math.min(a.length, b.length);
+
+    for (let i = 0; i < length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+
+    return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+  }
+}
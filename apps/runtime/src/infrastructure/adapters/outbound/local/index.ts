@@ -0,0 +1,3 @@
+// Outbound Adapters - In-process implementations
+export { InMemoryVectorIndex } from './in-memory-vector-index';
+export { LocalEmbeddingAdapter } from './local-embedding-adapter';
@@ -0,0 +1,43 @@
+import { EmbeddingService } from '@domain/services/embedding-service';
+import { KnowledgeBaseConfig } from '@infrastructure/config/knowledge-config';
+
+/**
+ * Deterministic embeddings computed in-process by hashing the words of a text
+ * into a fixed number of buckets. Texts sharing words get similar vectors, so
+ * retrieval works offline and in local development without calling Bedrock.
+ */
+export class LocalEmbeddingAdapter implements EmbeddingService {
+  constructor(private readonly config: KnowledgeBaseConfig) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.config.embeddingDimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+    words.forEach(word => {
+      const hash = this.hash(word);
+      // The sign bit spreads collisions so they cancel out on average
+      vector[hash % vector.length] += hash & 0x80000000 ? -1 : 1;
+    });
+
+    const norm = Math.sqrt(
+      vector.reduce((sum, value) => sum + value * value, 0)
+    );
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  /**
+   * 32-bit FNV-1a hash of a word
+   */
+  private hash(word: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < word.length; i++) {
+      hash ^= word.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
@@ -0,0 +1,158 @@
+import { logger } from '@awslambdahackathon/utils/lambda';
+import { MCP_CONFIG } from '@config/constants';
+import { McpHttpServerConfig } from '@infrastructure/config/mcp-config';
+
+import {
+  isJsonRpcResponse,
+  JsonRpcMessage,
+  JsonRpcResponse,
+  McpProtocolError,
+  McpTransport,
+  unwrapResponse,
+} from './mcp-transport';
+
+/**
+ * Talks to a remote MCP server over the Streamable HTTP transport: every
+ * message is POSTed and the reply arrives either as JSON or as an SSE stream.
+ * @see https://modelcontextprotocol.io/specification/2025-03-26/basic/transports
+ */
+export class HttpMcpTransport implements McpTransport {
+  private nextId = 1;
+  private sessionId?: string;
+
+  constructor(
+    private readonly config: McpHttpServerConfig,
+    private readonly timeout: number
+  ) {}
+
+  async start(): Promise<void> {
+    // The session is established by the initialize request
+  }
+
+  async request(
+    method: string,
+    params?: Record<string, unknown>
+  ): Promise<Record<string, unknown>> {
+    const id = this.nextId++;
+    const response = await this.post({ jsonrpc: '2.0', id, method, params });
+
+    const contentType = response.headers.get('content-type') || '';
+    const message = contentType.includes('text/event-stream')
+      ? await this.readEventStream(response, id)
+      : ((await response.json()) as JsonRpcResponse);
+
+    return unwrapResponse(message);
+  }
+
+  async notify(
+    method: string,
+    params?: Record<string, unknown>
+  ): Promise<void> {
+    await this.post({ jsonrpc: '2.0', method, params });
+  }
+
+  async close(): Promise<void> {
+    if (!this.sessionId) {
+      return;
+    }
+
+    try {
+      await fetch(this.config.url, {
+        method: 'DELETE',
+        headers: this.buildHeaders(),
+        signal: AbortSignal.timeout(this.timeout),
+      });
+    } catch (error) {
+      logger.warn('Failed to close MCP session', {
+        server: this.config.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    this.sessionId = undefined;
+  }
+
+  private async post(message: JsonRpcMessage): Promise<Response> {
+    const response = await fetch(this.config.url, {
+      method: 'POST',
+      headers: {
+        ...this.buildHeaders(),
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify(message),
+      signal: AbortSignal.timeout(this.timeout),
+    });
+
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    if (!response.ok) {
+      throw new McpProtocolError(
+        `MCP server ${this.config.name} responded with HTTP ${response.status}`
+      );
+    }
+
+    return response;
+  }
+
+  private buildHeaders(): Record<string, string> {
+    return {
+      ...this.config.headers,
+      'MCP-Protocol-Version': MCP_CONFIG.PROTOCOL_VERSION,
+      ...(this.sessionId && { 'Mcp-Session-Id': this.sessionId }),
+    };
+  }
+
+  /**
+   * Read server-sent events until the response to the given request arrives
+   */
+  private async readEventStream(
+    response: Response,
+    id: number
+  ): Promise<JsonRpcResponse> {
+    if (!response.body) {
+      throw new McpProtocolError('Empty event stream from MCP server');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split(/\r?\n\r?\n/);
+        buffer = events.pop() || '';
+
+        for (const event of events) {
+          const data = event
+            .split(/\r?\n/)
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).trimStart())
+            .join('\n');
+          if (!data) {
+            continue;
+          }
+
+          const message = JSON.parse(data) as JsonRpcMessage;
+          if (isJsonRpcResponse(message) && message.id === id) {
+            return message;
+          }
+        }
+      }
+    } finally {
+      await reader.cancel().catch(() => undefined);
+    }
+
+    throw new McpProtocolError(
+      `MCP event stream ended before a response to request ${id}`
+    );
+  }
+}
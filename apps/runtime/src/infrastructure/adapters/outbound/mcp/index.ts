@@ -0,0 +1,15 @@
+export { HttpMcpTransport } from './http-mcp-transport';
+export { McpClient, mcpContentToText } from './mcp-client';
+export type {
+  McpContent,
+  McpPrompt,
+  McpPromptMessage,
+  McpResource,
+  McpResourceContents,
+  McpServerCapabilities,
+  McpTool,
+  McpToolCallResult,
+} from './mcp-client';
+export { McpProtocolError } from './mcp-transport';
+export type { McpTransport } from './mcp-transport';
+export { StdioMcpTransport } from './stdio-mcp-transport';
@@ -0,0 +1,203 @@
+import { logger } from '@awslambdahackathon/utils/lambda';
+import { MCP_CONFIG } from '@config/constants';
+import { McpServerConfig } from '@infrastructure/config/mcp-config';
+
+import { HttpMcpTransport } from './http-mcp-transport';
+import { McpTransport } from './mcp-transport';
+import { StdioMcpTransport } from './stdio-mcp-transport';
+
+export interface McpServerCapabilities {
+  tools?: Record<string, unknown>;
+  resources?: Record<string, unknown>;
+  prompts?: Record<string, unknown>;
+}
+
+export interface McpTool {
+  name: string;
+  description?: string;
+  inputSchema: Record<string, unknown>;
+}
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpPrompt {
+  name: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+export interface McpContent {
+  type: string; // "text", "image", "audio" or "resource"
+  text?: string;
+  mimeType?: string;
+  resource?: { uri: string; mimeType?: string; text?: string };
+}
+
+export interface McpToolCallResult {
+  content: McpContent[];
+  isError?: boolean;
+}
+
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+export interface McpPromptMessage {
+  role: 'user' | 'assistant';
+  content: McpContent;
+}
+
+/**
+ * Model Context Protocol client for a single configured server
+ */
+export class McpClient {
+  private readonly transport: McpTransport;
+  private capabilities: McpServerCapabilities = {};
+  private connected = false;
+
+  constructor(
+    private readonly config: McpServerConfig,
+    timeout: number = MCP_CONFIG.REQUEST_TIMEOUT
+  ) {
+    this.transport =
+      config.transport === 'stdio'
+        ? new StdioMcpTransport(config, timeout)
+        : new HttpMcpTransport(config, timeout);
+  }
+
+  get serverName(): string {
+    return this.config.name;
+  }
+
+  getCapabilities(): McpServerCapabilities {
+    return { ...this.capabilities };
+  }
+
+  /**
+   * Start the transport and perform the initialize handshake
+   */
+  async connect(): Promise<void> {
+    if (this.connected) {
+      return;
+    }
+
+    await this.transport.start();
+    const result = await this.transport.request('initialize', {
+      protocolVersion: MCP_CONFIG.PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: {
+        name: MCP_CONFIG.CLIENT_NAME,
+        version: MCP_CONFIG.CLIENT_VERSION,
+      },
+    });
+    await this.transport.notify('notifications/initialized');
+
+    this.capabilities = (result.capabilities as McpServerCapabilities) || {};
+    this.connected = true;
+
+    logger.info('Connected to MCP server', {
+      server: this.config.name,
+      transport: this.config.transport,
+      protocolVersion: result.protocolVersion,
+      serverInfo: result.serverInfo,
+    });
+  }
+
+  async listTools(): Promise<McpTool[]> {
+    return this.capabilities.tools
+      ? this.listAll<McpTool>('tools/list', 'tools')
+      : [];
+  }
+
+  async callTool(
+    name: string,
+    args: Record<string, unknown>
+  ): Promise<McpToolCallResult> {
+    const result = await this.transport.request('tools/call', {
+      name,
+      arguments: args,
+    });
+    return {
+      content: (result.content as McpContent[]) || [],
+      isError: result.isError === true,
+    };
+  }
+
+  async listResources(): Promise<McpResource[]> {
+    return this.capabilities.resources
+      ? this.listAll<McpResource>('resources/list', 'resources')
+      : [];
+  }
+
+  async readResource(uri: string): Promise<McpResourceContents[]> {
+    const result = await this.transport.request('resources/read', { uri });
+    return (result.contents as McpResourceContents[]) || [];
+  }
+
+  async listPrompts(): Promise<McpPrompt[]> {
+    return this.capabilities.prompts
+      ? this.listAll<McpPrompt>('prompts/list', 'prompts')
+      : [];
+  }
+
+  async getPrompt(
+    name: string,
+    args: Record<string, string> = {}
+  ): Promise<McpPromptMessage[]> {
+    const result = await this.transport.request('prompts/get', {
+      name,
+      arguments: args,
+    });
+    return (result.messages as McpPromptMessage[]) || [];
+  }
+
+  async close(): Promise<void> {
+    this.connected = false;
+    await this.transport.close();
+  }
+
+  /**
+   * Follow nextCursor until every page of a list method has been read
+   */
+  private async listAll<T>(method: string, key: string): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const result = await this.transport.request(
+        method,
+        cursor ? { cursor } : undefined
+      );
+      items.push(...((result[key] as T[]) || []));
+      cursor =
+        typeof result.nextCursor === 'string' ? result.nextCursor : undefined;
+    } while (cursor);
+
+    return items;
+  }
+}
+
+/**
+ * Flatten MCP content blocks into text the model can read
+ */
+export function mcpContentToText(content: McpContent[]): string {
+  return content
+    .map(block => {
+      if (block.type === 'text') {
+        return block.text || '';
+      }
+      if (block.type === 'resource' && block.resource) {
+        return block.resource.text ?? `[resource: ${block.resource.uri}]`;
+      }
+      return `[${block.type}${block.mimeType ? `: ${block.mimeType}` : ''}]`;
+    })
+    .join('\n');
+}
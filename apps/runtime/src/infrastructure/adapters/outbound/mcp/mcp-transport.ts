@@ -0,0 +1,72 @@
+/**
+ * JSON-RPC 2.0 message shapes used by the Model Context Protocol
+ * @see https://modelcontextprotocol.io/specification/2025-03-26/basic
+ */
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: number;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  result?: Record<string, unknown>;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export type JsonRpcMessage =
+  JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+/**
+ * Carries JSON-RPC messages to and from a single MCP server
+ */
+export interface McpTransport {
+  start(): Promise<void>;
+  request(
+    method: string,
+    params?: Record<string, unknown>
+  ): Promise<Record<string, unknown>>;
+  notify(method: string, params?: Record<string, unknown>): Promise<void>;
+  close(): Promise<void>;
+}
+
+export class McpProtocolError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: number,
+    public readonly data?: unknown
+  ) {
+    super(message);
+    this.name = 'McpProtocolError';
+  }
+}
+
+export function isJsonRpcResponse(
+  message: JsonRpcMessage
+): message is JsonRpcResponse {
+  return 'id' in message && !('method' in message);
+}
+
+/**
+ * Unwrap a JSON-RPC response, throwing on protocol errors
+ */
+export function unwrapResponse(
+  response: JsonRpcResponse
+): Record<string, unknown> {
+  if (response.error) {
+    throw new McpProtocolError(
+      response.error.message,
+      response.error.code,
+      response.error.data
+    );
+  }
+  return response.result || {};
+}
@@ -0,0 +1,182 @@
+import { ChildProcessWithoutNullStreams, spawn } from 'node:child_process';
+import { createInterface } from 'node:readline';
+
+import { logger } from '@awslambdahackathon/utils/lambda';
+import { McpStdioServerConfig } from '@infrastructure/config/mcp-config';
+
+import {
+  isJsonRpcResponse,
+  JsonRpcMessage,
+  JsonRpcResponse,
+  McpProtocolError,
+  McpTransport,
+  unwrapResponse,
+} from './mcp-transport';
+
+interface PendingRequest {
+  resolve: (response: JsonRpcResponse) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Runs an MCP server as a child process and exchanges newline-delimited
+ * JSON-RPC messages over its stdin/stdout. Intended for local development.
+ */
+export class StdioMcpTransport implements McpTransport {
+  private process?: ChildProcessWithoutNullStreams;
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingRequest>();
+
+  constructor(
+    private readonly config: McpStdioServerConfig,
+    private readonly timeout: number
+  ) {}
+
+  async start(): Promise<void> {
+    const child = spawn(this.config.command, this.config.args || [], {
+      env: { ...process.env, ...this.config.env },
+    });
+    this.process = child;
+
+    createInterface({ input: child.stdout }).on('line', line =>
+      this.handleLine(line)
+    );
+    createInterface({ input: child.stderr }).on('line', line =>
+      logger.debug('MCP server stderr', { server: this.config.name, line })
+    );
+
+    child.on('exit', code => {
+      this.failPending(
+        new McpProtocolError(
+          `MCP server ${this.config.name} exited with code ${code}`
+        )
+      );
+      this.process = undefined;
+    });
+
+    // Errors after spawn (a failed kill, a broken stdin pipe) would otherwise
+    // leave pending requests to time out, or crash the process unhandled
+    child.on('error', error => this.handleProcessError(error));
+    child.stdin.on('error', error => this.handleProcessError(error));
+
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', () => resolve());
+      child.once('error', reject);
+    });
+  }
+
+  async request(
+    method: string,
+    params?: Record<string, unknown>
+  ): Promise<Record<string, unknown>> {
+    const id = this.nextId++;
+
+    const response = await new Promise<JsonRpcResponse>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(
+          new McpProtocolError(
+            `MCP request ${method} to ${this.config.name} timed out`
+          )
+        );
+      }, this.timeout);
+
+      this.pending.set(id, { resolve, reject, timer });
+      try {
+        this.write({ jsonrpc: '2.0', id, method, params });
+      } catch (error) {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(error);
+      }
+    });
+
+    return unwrapResponse(response);
+  }
+
+  async notify(
+    method: string,
+    params?: Record<string, unknown>
+  ): Promise<void> {
+    this.write({ jsonrpc: '2.0', method, params });
+  }
+
+  async close(): Promise<void> {
+    this.failPending(new McpProtocolError('MCP transport closed'));
+    this.process?.stdin.end();
+    this.process?.kill();
+    this.process = undefined;
+  }
+
+  private write(message: JsonRpcMessage): void {
+    if (!this.process?.stdin.writable) {
+      throw new McpProtocolError(
+        `MCP server ${this.config.name} is not running`
+      );
+    }
+    this.process.stdin.write(`${JSON.stringify(message)}\n`);
+  }
+
+  private handleLine(line: string): void {
+    if (line.trim().length === 0) {
+      return;
+    }
+
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(line) as JsonRpcMessage;
+    } catch {
+      logger.warn('Ignoring non-JSON output from MCP server', {
+        server: this.config.name,
+      });
+      return;
+    }
+
+    if (isJsonRpcResponse(message)) {
+      const pending =
+        typeof message.id === 'number'
+          ? this.pending.get(message.id)
+          : undefined;
+      if (pending && typeof message.id === 'number') {
+        clearTimeout(pending.timer);
+        this.pending.delete(message.id);
+        pending.resolve(message);
+      }
+      return;
+    }
+
+    // Server-initiated requests: answer pings, decline everything else
+    if ('id' in message) {
+      this.write(
+        message.method === 'ping'
+          ? { jsonrpc: '2.0', id: message.id, result: {} }
+          : {
+              jsonrpc: '2.0',
+              id: message.id,
+              error: { code: -32601, message: 'Method not found' },
+            }
+      );
+    }
+  }
+
+  private handleProcessError(error: Error): void {
+    logger.warn('MCP server process error', {
+      server: this.config.name,
+      error: error.message,
+    });
+    this.failPending(
+      new McpProtocolError(
+        `MCP server ${this.config.name} failed: ${error.message}`
+      )
+    );
+  }
+
+  private failPending(error: Error): void {
+    for (const [id, pending] of this.pending) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+      this.pending.delete(id);
+    }
+  }
+}
@@ -2,10 +2,15 @@ import crypto from 'crypto';
 
 import {
   ApiGatewayManagementApiClient,
+  DeleteConnectionCommand,
   PostToConnectionCommand,
 } from '@aws-sdk/client-apigatewaymanagementapi';
 import { logger } from '@awslambdahackathon/utils/lambda';
 import { container } from '@config/container';
+import {
+  ConnectionGoneException,
+  DomainError,
+} from '@domain/errors/domain-errors';
 import {
   CommunicationService,
   WebSocketMessage,
@@ -13,6 +18,8 @@ import {
 import { ConnectionId } from '@domain/value-objects';
 import type { APIGatewayProxyEvent } from 'aws-lambda';
 
+import { isGoneConnectionError } from './gone-connection';
+
 export class AwsApiGatewayWebSocketAdapter implements CommunicationService {
   private readonly clients: Map<string, ApiGatewayManagementApiClient>;
   private readonly event: APIGatewayProxyEvent;
@@ -60,17 +67,26 @@ export class AwsApiGatewayWebSocketAdapter implements CommunicationService {
         data: message.data,
       };
 
-      // Use circuit breaker for API Gateway Management API calls
-      await container.getCircuitBreakerService().execute(
+      // Use circuit breaker for API Gateway Management API calls. A gone
+      // connection is the client's doing, not a failure of the API.
+      const delivered = await container.getCircuitBreakerService().execute(
         'apigateway-management',
         'postToConnection',
         async () => {
-          return await client.send(
-            new PostToConnectionCommand({
-              ConnectionId: connectionId.getValue(),
-              Data: Buffer.from(JSON.stringify(webSocketMessage)),
-            })
-          );
+          try {
+            await client.send(
+              new PostToConnectionCommand({
+                ConnectionId: connectionId.getValue(),
+                Data: Buffer.from(JSON.stringify(webSocketMessage)),
+              })
+            );
+            return true;
+          } catch (error) {
+            if (isGoneConnectionError(error)) {
+              return false;
+            }
+            throw error;
+          }
         },
         async () => {
           // Fallback behavior when API Gateway is unavailable
@@ -93,6 +109,15 @@ export class AwsApiGatewayWebSocketAdapter implements CommunicationService {
         }
       );
 
+      if (!delivered) {
+        errorType = 'CONNECTION_GONE';
+        const userId = await this.removeGoneConnection(connectionId);
+        throw new ConnectionGoneException(connectionId.getValue(), {
+          userId,
+          messageType: message.type,
+        });
+      }
+
       success = true;
       logger.info('Message sent successfully', {
         connectionId: connectionId.getValue(),
@@ -100,6 +125,15 @@ export class AwsApiGatewayWebSocketAdapter implements CommunicationService {
         correlationId: this.generateCorrelationId(),
       });
     } catch (error) {
+      if (error instanceof DomainError && error.code === 'CONNECTION_GONE') {
+        logger.warn('Connection is gone, message not sent', {
+          connectionId: connectionId.getValue(),
+          messageType: message.type,
+          correlationId: this.generateCorrelationId(),
+        });
+        throw error;
+      }
+
       errorType = 'WEBSOCKET_SEND_ERROR';
       logger.error('Failed to send message', {
         connectionId: connectionId.getValue(),
@@ -182,6 +216,20 @@ export class AwsApiGatewayWebSocketAdapter implements CommunicationService {
         );
       }
 
+      try {
+        await client.send(
+          new DeleteConnectionCommand({
+            ConnectionId: connectionId.getValue(),
+          })
+        );
+      } catch (error) {
+        // The client may have closed the connection in the meantime
+        logger.debug('Could not close connection, it may already be closed', {
+          connectionId: connectionId.getValue(),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
       logger.info('WebSocket connection disconnect completed', {
         connectionId: connectionId.getValue(),
         correlationId: this.generateCorrelationId(),
@@ -233,6 +281,25 @@ export class AwsApiGatewayWebSocketAdapter implements CommunicationService {
     await this.sendMessage(connectionId, message);
   }
 
+  // Cleanup is best effort; the record expires through its TTL otherwise.
+  // Resolves the user of the removed connection.
+  private async removeGoneConnection(
+    connectionId: ConnectionId
+  ): Promise<string | undefined> {
+    try {
+      const connection = await container
+        .getConnectionService()
+        .removeGoneConnection(connectionId);
+      return connection?.getUserId()?.getValue();
+    } catch (error) {
+      logger.error('Failed to remove gone connection', {
+        connectionId: connectionId.getValue(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
   private generateCorrelationId(): string {
     return `ws-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
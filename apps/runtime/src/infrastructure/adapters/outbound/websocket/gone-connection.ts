@@ -0,0 +1,16 @@
+import { GoneException } from '@aws-sdk/client-apigatewaymanagementapi';
+
+/**
+ * API Gateway answers HTTP 410 Gone when posting to a connection the client
+ * has already closed. The connection will never come back, so callers should
+ * remove it rather than retry or count it against the circuit breaker.
+ */
+export function isGoneConnectionError(error: unknown): boolean {
+  if (error instanceof GoneException) {
+    return true;
+  }
+
+  const metadata = (error as { $metadata?: { httpStatusCode?: number } })
+    ?.$metadata;
+  return metadata?.httpStatusCode === 410;
+}
@@ -1,4 +1,5 @@
 export { AwsApiGatewayWebSocketAdapter } from './aws-api-gateway-adapter';
+export { isGoneConnectionError } from './gone-connection';
 export {
   AwsWebSocketAdapterFactory,
   WebSocketAdapterFactory,
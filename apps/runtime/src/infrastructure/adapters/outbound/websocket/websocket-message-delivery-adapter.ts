@@ -1,76 +1,133 @@
+import { logger } from '@awslambdahackathon/utils/lambda';
+import { DELIVERY_CONFIG } from '@config/constants';
+import { container } from '@config/container';
+import { Connection, ConnectionStatus } from '@domain/entities/connection';
+import { DomainError } from '@domain/errors/domain-errors';
+import { ConnectionRepository } from '@domain/repositories/connection';
+import {
+  CommunicationService,
+  WebSocketMessage,
+} from '@domain/services/communication-service';
 import {
   BroadcastMessageCommand,
   MessageDeliveryCommand,
   MessageDeliveryResult,
   MessageDeliveryService,
 } from '@domain/services/message-delivery-service';
-import { ConnectionId } from '@domain/value-objects';
+import { ConnectionId, UserId } from '@domain/value-objects';
 
-// Simple WebSocket interface for the adapter
-interface WebSocketClient {
-  sendMessage(connectionId: string, message: string): Promise<void>;
-}
+// Outcomes of all deliveries made by this Lambda container
+const deliveryCounters = { totalDelivered: 0, totalFailed: 0 };
 
 /**
  * WebSocket implementation of MessageDeliveryService
  * This adapter translates domain commands to WebSocket-specific operations
  */
 export class WebSocketMessageDeliveryAdapter implements MessageDeliveryService {
-  constructor(private readonly webSocketClient: WebSocketClient) {}
+  private readonly connectionRepository: ConnectionRepository;
+
+  constructor(private readonly communicationService: CommunicationService) {
+    this.connectionRepository = container.get<ConnectionRepository>(
+      'ConnectionRepository'
+    );
+  }
 
   async deliverMessage(
     command: MessageDeliveryCommand
   ): Promise<MessageDeliveryResult> {
-    // TODO: Implement WebSocket message delivery
-    // Using command parameter to avoid unused variable warning
-    void command;
-    return {
-      success: false,
-      error: 'Not implemented',
-    };
+    const message = this.toWebSocketMessage(command);
+
+    try {
+      await this.communicationService.sendMessage(
+        command.connectionId,
+        message
+      );
+      deliveryCounters.totalDelivered++;
+      return {
+        success: true,
+        connectionId: command.connectionId.getValue(),
+        deliveredAt: new Date(),
+      };
+    } catch (error) {
+      deliveryCounters.totalFailed++;
+      if (!(error instanceof DomainError && error.code === 'CONNECTION_GONE')) {
+        return {
+          success: false,
+          connectionId: command.connectionId.getValue(),
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+
+      // The gone connection has been removed; reach the user elsewhere
+      const userId = error.details?.userId;
+      if (typeof userId !== 'string') {
+        return {
+          success: false,
+          connectionId: command.connectionId.getValue(),
+          error: error.message,
+        };
+      }
+      return this.deliverToOtherConnections(
+        UserId.create(userId),
+        command.connectionId,
+        message
+      );
+    }
   }
 
   async broadcastMessage(
     command: BroadcastMessageCommand
   ): Promise<MessageDeliveryResult[]> {
-    // TODO: Implement WebSocket message broadcasting
-    // Using command parameter to avoid unused variable warning
-    void command;
-    return [];
+    const recipients = await this.findRecipients(command);
+    const message = this.toWebSocketMessage(command);
+    const results: MessageDeliveryResult[] = [];
+
+    // Post in batches so a large audience does not exhaust sockets
+    for (let i = 0; i < recipients.length; i += DELIVERY_CONFIG.BATCH_SIZE) {
+      const batch = recipients.slice(i, i + DELIVERY_CONFIG.BATCH_SIZE);
+      results.push(
+        ...(await Promise.all(
+          batch.map(connection =>
+            this.sendToConnection(connection.getId(), message)
+          )
+        ))
+      );
+    }
+
+    logger.info('Broadcast message', {
+      messageType: message.type,
+      recipients: recipients.length,
+      delivered: results.filter(result => result.success).length,
+    });
+
+    return results;
   }
 
   async sendSystemNotification(
     connectionId: ConnectionId,
     content: string
   ): Promise<MessageDeliveryResult> {
-    // TODO: Implement system notification sending
-    // Using parameters to avoid unused variable warnings
-    void connectionId;
-    void content;
-    return {
-      success: false,
-      error: 'Not implemented',
-    };
+    return this.deliverMessage({
+      connectionId,
+      content,
+      messageType: 'system',
+    });
   }
 
   async sendErrorMessage(
     connectionId: ConnectionId,
     error: string
   ): Promise<MessageDeliveryResult> {
-    // TODO: Implement error message sending
-    // Using parameters to avoid unused variable warnings
-    void connectionId;
-    void error;
-    return {
-      success: false,
-      error: 'Not implemented',
-    };
+    return this.deliverMessage({
+      connectionId,
+      content: error,
+      messageType: 'error',
+    });
   }
 
   async canDeliverToConnection(connectionId: ConnectionId): Promise<boolean> {
-    // TODO: Implement connection validation
-    // For now, just check if connectionId is provided
-    return connectionId.getValue().length > 0;
+    const connection = await this.connectionRepository.findById(connectionId);
+    return connection !== null && connection.isConnected();
   }
 
   async getDeliveryStats(): Promise<{
@@ -78,11 +135,159 @@ export class WebSocketMessageDeliveryAdapter implements MessageDeliveryService {
     totalFailed: number;
     activeConnections: number;
   }> {
-    // TODO: Implement delivery statistics
+    const [connected, authenticated] = await Promise.all([
+      this.connectionRepository.countByStatus(ConnectionStatus.CONNECTED),
+      this.connectionRepository.countByStatus(ConnectionStatus.AUTHENTICATED),
+    ]);
+
+    return {
+      ...deliveryCounters,
+      activeConnections: connected + authenticated,
+    };
+  }
+
+  /**
+   * Authenticated connections of the targeted users, or of everyone when no
+   * users are targeted, without the excluded users and connections
+   */
+  private async findRecipients(
+    command: BroadcastMessageCommand
+  ): Promise<Connection[]> {
+    const connections = command.targetUsers
+      ? (
+          await Promise.all(
+            command.targetUsers.map(userId =>
+              this.connectionRepository.findByUserId(userId)
+            )
+          )
+        ).flat()
+      : await this.connectionRepository.findByStatus(
+          ConnectionStatus.AUTHENTICATED
+        );
+
+    const excludedUsers = new Set(
+      (command.excludeUsers || []).map(userId => userId.getValue())
+    );
+    const excludedConnections = new Set(
+      (command.excludeConnections || []).map(connectionId =>
+        connectionId.getValue()
+      )
+    );
+    const recipients = new Map<string, Connection>();
+
+    for (const connection of connections) {
+      const connectionId = connection.getId().getValue();
+      const userId = connection.getUserId()?.getValue();
+      if (
+        connection.isAuthenticated() &&
+        !excludedConnections.has(connectionId) &&
+        !(userId && excludedUsers.has(userId))
+      ) {
+        recipients.set(connectionId, connection);
+      }
+    }
+
+    return [...recipients.values()];
+  }
+
+  private async sendToConnection(
+    connectionId: ConnectionId,
+    message: WebSocketMessage
+  ): Promise<MessageDeliveryResult> {
+    try {
+      await this.communicationService.sendMessage(connectionId, message);
+      deliveryCounters.totalDelivered++;
+      return {
+        success: true,
+        connectionId: connectionId.getValue(),
+        deliveredAt: new Date(),
+      };
+    } catch (error) {
+      // Gone connections have already been removed by the communication service
+      deliveryCounters.totalFailed++;
+      return {
+        success: false,
+        connectionId: connectionId.getValue(),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Try the user's other authenticated connections in turn until one accepts
+   * the message. Gone ones are cleaned up by the communication service.
+   */
+  private async deliverToOtherConnections(
+    userId: UserId,
+    goneConnectionId: ConnectionId,
+    message: WebSocketMessage
+  ): Promise<MessageDeliveryResult> {
+    const connections = (
+      await this.connectionRepository.findByUserId(userId)
+    ).filter(
+      connection =>
+        connection.isAuthenticated() &&
+        !connection.getId().equals(goneConnectionId)
+    );
+
+    for (const connection of connections) {
+      const result = await this.sendToConnection(connection.getId(), message);
+      if (result.success) {
+        logger.info('Delivered message to another connection of the user', {
+          userId: userId.getValue(),
+          goneConnectionId: goneConnectionId.getValue(),
+          connectionId: result.connectionId,
+        });
+        return result;
+      }
+    }
+
     return {
-      totalDelivered: 0,
-      totalFailed: 0,
-      activeConnections: 0,
+      success: false,
+      connectionId: goneConnectionId.getValue(),
+      error: `Connection ${goneConnectionId.getValue()} is gone and the user has no other live connection`,
     };
   }
+
+  private toWebSocketMessage(
+    command: Pick<
+      MessageDeliveryCommand,
+      'content' | 'messageType' | 'metadata'
+    >
+  ): WebSocketMessage {
+    const timestamp = new Date();
+
+    switch (command.messageType) {
+      case 'error':
+        return {
+          type: 'error',
+          timestamp,
+          data: {
+            code: 'ERROR',
+            message: command.content,
+            timestamp: timestamp.toISOString(),
+            details: command.metadata,
+          },
+        };
+      case 'system':
+        return {
+          type: 'system',
+          timestamp,
+          data: {
+            action: 'maintenance',
+            data: { message: command.content, ...command.metadata },
+          },
+        };
+      default:
+        return {
+          type: 'message_response',
+          timestamp,
+          data: {
+            message: command.content,
+            timestamp: timestamp.toISOString(),
+            ...command.metadata,
+          },
+        };
+    }
+  }
 }
@@ -0,0 +1,7 @@
+// What happens when a user authenticates with all their connections in use
+export type ConnectionLimitPolicy = 'reject' | 'evict_oldest';
+
+export interface ConnectionLimitConfig {
+  maxConnectionsPerUser: number;
+  policy: ConnectionLimitPolicy;
+}
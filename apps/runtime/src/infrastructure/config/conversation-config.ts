@@ -0,0 +1,6 @@
+import { LLMModel } from '@domain/services/llm-service';
+
+export interface ConversationContextConfig {
+  maxHistoryMessages: number;
+  historyTokenBudgets: Record<LLMModel, number>;
+}
@@ -0,0 +1,40 @@
+import { logger } from '@awslambdahackathon/utils/lambda';
+
+export type EmbeddingProvider = 'bedrock' | 'local';
+
+export interface KnowledgeBaseConfig {
+  embeddingProvider: EmbeddingProvider;
+  embeddingModelId: string;
+  embeddingDimensions: number;
+  embeddingConcurrency: number;
+  chunkSize: number; // Characters
+  chunkOverlap: number; // Characters
+  maxDocumentBytes: number;
+  topK: number;
+  minScore: number;
+  indexRefreshInterval: number; // Milliseconds
+}
+
+/**
+ * Parse the EMBEDDING_PROVIDER environment variable. An unknown provider
+ * keeps the built-in one.
+ */
+export function parseEmbeddingProvider(
+  raw: string | undefined,
+  fallback: EmbeddingProvider
+): EmbeddingProvider {
+  if (!raw || raw.trim().length === 0) {
+    return fallback;
+  }
+
+  const provider = raw.trim();
+  if (provider === 'bedrock' || provider === 'local') {
+    return provider;
+  }
+
+  logger.error('Invalid EMBEDDING_PROVIDER configuration, using default', {
+    provider,
+    fallback,
+  });
+  return fallback;
+}
@@ -0,0 +1,50 @@
+import { logger } from '@awslambdahackathon/utils/lambda';
+import { z } from 'zod';
+
+const McpStdioServerConfigSchema = z.object({
+  name: z.string().regex(/^[a-zA-Z0-9_-]+$/),
+  transport: z.literal('stdio'),
+  command: z.string().min(1),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string()).optional(),
+});
+
+const McpHttpServerConfigSchema = z.object({
+  name: z.string().regex(/^[a-zA-Z0-9_-]+$/),
+  transport: z.literal('http'),
+  url: z.string().url(),
+  headers: z.record(z.string()).optional(),
+});
+
+const McpServerConfigSchema = z.discriminatedUnion('transport', [
+  McpStdioServerConfigSchema,
+  McpHttpServerConfigSchema,
+]);
+
+export type McpStdioServerConfig = z.infer<typeof McpStdioServerConfigSchema>;
+export type McpHttpServerConfig = z.infer<typeof McpHttpServerConfigSchema>;
+export type McpServerConfig = z.infer<typeof McpServerConfigSchema>;
+
+export interface McpConfig {
+  servers: McpServerConfig[];
+  requestTimeout: number;
+}
+
+/**
+ * Parse the MCP_SERVERS environment variable, a JSON array of server configs.
+ * Invalid configuration disables MCP rather than failing the Lambda.
+ */
+export function parseMcpServers(raw?: string): McpServerConfig[] {
+  if (!raw || raw.trim().length === 0) {
+    return [];
+  }
+
+  try {
+    return z.array(McpServerConfigSchema).parse(JSON.parse(raw));
+  } catch (error) {
+    logger.error('Invalid MCP_SERVERS configuration, MCP disabled', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+}
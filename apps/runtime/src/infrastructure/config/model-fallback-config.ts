@@ -0,0 +1,7 @@
+import { LLMModel } from '@domain/services/llm-service';
+import { CircuitBreakerConfig } from '@infrastructure/config/monitoring-config';
+
+export interface ModelFallbackConfig {
+  chain: LLMModel[]; // Models tried in order after the requested one
+  circuitBreaker: Partial<CircuitBreakerConfig>; // Applied to each model's breaker
+}
@@ -0,0 +1,37 @@
+import { logger } from '@awslambdahackathon/utils/lambda';
+import { UserGroup } from '@domain/entities/user';
+import { z } from 'zod';
+
+const GroupRateLimitsSchema = z.record(
+  z.enum(['admin', 'user', 'guest', 'moderator', 'banned']),
+  z.number().int().nonnegative()
+);
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  windowSeconds: number;
+  groupLimits: Partial<Record<UserGroup, number>>; // Messages per window
+  defaultLimit: number; // Applied when none of the user's groups has a limit
+}
+
+/**
+ * Parse the RATE_LIMITS environment variable, a JSON object of messages per
+ * window keyed by Cognito group. Invalid configuration keeps the built-in
+ * limits.
+ */
+export function parseGroupRateLimits(
+  raw?: string
+): Partial<Record<UserGroup, number>> {
+  if (!raw || raw.trim().length === 0) {
+    return {};
+  }
+
+  try {
+    return GroupRateLimitsSchema.parse(JSON.parse(raw));
+  } catch (error) {
+    logger.error('Invalid RATE_LIMITS configuration, using defaults', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {};
+  }
+}
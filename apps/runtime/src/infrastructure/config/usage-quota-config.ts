@@ -0,0 +1,42 @@
+import { logger } from '@awslambdahackathon/utils/lambda';
+import { UserGroup } from '@domain/entities/user';
+import { z } from 'zod';
+
+const UsageQuotaSchema = z.object({
+  dailyTokens: z.number().int().nonnegative().optional(),
+  dailyCost: z.number().nonnegative().optional(), // USD
+  sessionTokens: z.number().int().nonnegative().optional(),
+});
+
+const GroupQuotasSchema = z.record(
+  z.enum(['admin', 'user', 'guest', 'moderator', 'banned']),
+  UsageQuotaSchema
+);
+
+export type UsageQuota = z.infer<typeof UsageQuotaSchema>;
+
+export interface UsageQuotaConfig {
+  groupQuotas: Partial<Record<UserGroup, UsageQuota>>;
+  defaultQuota: UsageQuota; // Applied when none of the user's groups has a quota
+}
+
+/**
+ * Parse the USAGE_QUOTAS environment variable, a JSON object of quotas keyed
+ * by Cognito group. Invalid configuration keeps the built-in quotas.
+ */
+export function parseGroupQuotas(
+  raw?: string
+): Partial<Record<UserGroup, UsageQuota>> {
+  if (!raw || raw.trim().length === 0) {
+    return {};
+  }
+
+  try {
+    return GroupQuotasSchema.parse(JSON.parse(raw));
+  } catch (error) {
+    logger.error('Invalid USAGE_QUOTAS configuration, using defaults', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return {};
+  }
+}
@@ -11,6 +11,7 @@ export interface MessageRecordDto {
   sessionId: AttributeValue;
   content: AttributeValue;
   type: AttributeValue;
+  role?: AttributeValue; // Absent on records written before roles existed
   status: AttributeValue;
   createdAt: AttributeValue;
   updatedAt?: AttributeValue;
@@ -35,6 +36,7 @@ export interface MessageRecordPlainDto {
   sessionId: string;
   content: string;
   type: string;
+  role?: string; // Absent on records written before roles existed
   status: string;
   createdAt: string;
   updatedAt?: string;
@@ -60,6 +62,7 @@ export interface MessageQueryDto {
   userId?: string;
   sessionId?: string;
   type?: string;
+  role?: string;
   status?: string;
   dateFrom?: string;
   dateTo?: string;
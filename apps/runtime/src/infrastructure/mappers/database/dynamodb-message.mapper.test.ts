@@ -0,0 +1,107 @@
+import { MessageRole, MessageType } from '@domain/entities/message';
+import { DynamoDBMessageMapper } from '@infrastructure/mappers/database/dynamodb-message.mapper';
+import { describe, expect, it } from 'vitest';
+
+const record = (
+  messageId: string,
+  createdAt: string,
+  fields: { sessionId?: string; role?: string; type?: string } = {}
+) => ({
+  messageId,
+  sessionId: fields.sessionId ?? 'session-1',
+  createdAt,
+  type: fields.type ?? MessageType.TEXT,
+  role: fields.role,
+});
+
+describe('DynamoDBMessageMapper.inferLegacyRoles', () => {
+  it('alternates user and assistant by creation time, starting with the user', () => {
+    const roles = DynamoDBMessageMapper.inferLegacyRoles([
+      record('m3', '2024-01-01T12:03:00.000Z'),
+      record('m1', '2024-01-01T12:01:00.000Z'),
+      record('m2', '2024-01-01T12:02:00.000Z'),
+    ]);
+
+    expect(Object.fromEntries(roles)).toEqual({
+      m1: MessageRole.USER,
+      m2: MessageRole.ASSISTANT,
+      m3: MessageRole.USER,
+    });
+  });
+
+  it('continues the alternation from records with a stored role', () => {
+    const roles = DynamoDBMessageMapper.inferLegacyRoles([
+      record('m1', '2024-01-01T12:01:00.000Z', {
+        role: MessageRole.ASSISTANT,
+      }),
+      record('m2', '2024-01-01T12:02:00.000Z'),
+      record('m3', '2024-01-01T12:03:00.000Z'),
+    ]);
+
+    expect(roles.has('m1')).toBe(false);
+    expect(roles.get('m2')).toBe(MessageRole.USER);
+    expect(roles.get('m3')).toBe(MessageRole.ASSISTANT);
+  });
+
+  it('gives system messages the system role without breaking the alternation', () => {
+    const roles = DynamoDBMessageMapper.inferLegacyRoles([
+      record('m1', '2024-01-01T12:01:00.000Z'),
+      record('s1', '2024-01-01T12:01:30.000Z', { type: MessageType.SYSTEM }),
+      record('m2', '2024-01-01T12:02:00.000Z'),
+    ]);
+
+    expect(roles.get('s1')).toBe(MessageRole.SYSTEM);
+    expect(roles.get('m2')).toBe(MessageRole.ASSISTANT);
+  });
+
+  it('infers each session separately', () => {
+    const roles = DynamoDBMessageMapper.inferLegacyRoles([
+      record('a1', '2024-01-01T12:01:00.000Z', { sessionId: 'session-a' }),
+      record('b1', '2024-01-01T12:02:00.000Z', { sessionId: 'session-b' }),
+      record('a2', '2024-01-01T12:03:00.000Z', { sessionId: 'session-a' }),
+    ]);
+
+    expect(roles.get('a1')).toBe(MessageRole.USER);
+    expect(roles.get('b1')).toBe(MessageRole.USER);
+    expect(roles.get('a2')).toBe(MessageRole.ASSISTANT);
+  });
+
+  it('orders by the sort key when the records carry one', () => {
+    const roles = DynamoDBMessageMapper.inferLegacyRoles([
+      {
+        ...record('m2', '2024-01-01T12:00:00.000Z'),
+        timestamp: '2024-01-01T12:00:00.000Z#m2',
+      },
+      {
+        ...record('m1', '2024-01-01T12:00:00.000Z'),
+        timestamp: '2024-01-01T12:00:00.000Z#m1',
+      },
+    ]);
+
+    expect(roles.get('m1')).toBe(MessageRole.USER);
+    expect(roles.get('m2')).toBe(MessageRole.ASSISTANT);
+  });
+});
+
+describe('DynamoDBMessageMapper.resolveRole', () => {
+  it('prefers the stored role, then the inferred one, then the record type', () => {
+    expect(
+      DynamoDBMessageMapper.resolveRole(
+        { role: MessageRole.ASSISTANT, type: MessageType.TEXT },
+        MessageRole.USER
+      )
+    ).toBe(MessageRole.ASSISTANT);
+    expect(
+      DynamoDBMessageMapper.resolveRole(
+        { role: 'unknown', type: MessageType.TEXT },
+        MessageRole.ASSISTANT
+      )
+    ).toBe(MessageRole.ASSISTANT);
+    expect(DynamoDBMessageMapper.resolveRole({ type: MessageType.TEXT })).toBe(
+      MessageRole.USER
+    );
+    expect(
+      DynamoDBMessageMapper.resolveRole({ type: MessageType.SYSTEM })
+    ).toBe(MessageRole.SYSTEM);
+  });
+});
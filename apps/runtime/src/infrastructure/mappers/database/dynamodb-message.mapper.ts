@@ -1,6 +1,11 @@
 import { AttributeValue } from '@aws-sdk/client-dynamodb';
 import { marshall, unmarshall } from '@aws-sdk/util-dynamodb';
-import { Message, MessageStatus, MessageType } from '@domain/entities/message';
+import {
+  Message,
+  MessageRole,
+  MessageStatus,
+  MessageType,
+} from '@domain/entities/message';
 import {
   MessageQueryDto,
   MessageRecordPlainDto,
@@ -35,6 +40,7 @@ export class DynamoDBMessageMapper
       sessionId,
       content: message.getContent(),
       type: message.getType(),
+      role: message.getRole(),
       status: message.getStatus(),
       createdAt: createdAt.toISOString(),
       metadata: message.getMetadata(),
@@ -51,13 +57,17 @@ export class DynamoDBMessageMapper
   /**
    * Maps DynamoDB record (plain) to Message entity
    */
-  mapToDomain(record: MessageRecordPlainDto): Message {
+  mapToDomain(
+    record: MessageRecordPlainDto,
+    inferredRole?: MessageRole
+  ): Message {
     return Message.fromData({
       id: record.messageId,
       userId: record.userId,
       sessionId: record.sessionId,
       content: record.content,
       type: record.type as MessageType,
+      role: DynamoDBMessageMapper.resolveRole(record, inferredRole),
       status: record.status as MessageStatus,
       createdAt: new Date(record.createdAt),
       metadata: record.metadata,
@@ -65,11 +75,107 @@ export class DynamoDBMessageMapper
     });
   }
 
+  /**
+   * Resolves the author role of a record. Legacy records written before the
+   * role attribute existed use the role inferred from their session (see
+   * inferLegacyRoles), falling back to the record type when none is given
+   */
+  static resolveRole(
+    record: { role?: unknown; type?: unknown },
+    inferredRole?: MessageRole
+  ): MessageRole {
+    if (DynamoDBMessageMapper.hasStoredRole(record)) {
+      return record.role as MessageRole;
+    }
+
+    if (inferredRole) {
+      return inferredRole;
+    }
+
+    return record.type === MessageType.SYSTEM
+      ? MessageRole.SYSTEM
+      : MessageRole.USER;
+  }
+
+  /**
+   * Whether a record carries a valid role attribute
+   */
+  static hasStoredRole(record: { role?: unknown }): boolean {
+    return (
+      typeof record.role === 'string' &&
+      (Object.values(MessageRole) as string[]).includes(record.role)
+    );
+  }
+
+  /**
+   * Infers the roles of legacy records from conversation order. Before roles
+   * were stored, every exchange was saved as the user's message followed by
+   * the assistant's reply, so within a session the non-system records
+   * alternate user/assistant by createdAt, starting with the user. Records
+   * that do have a role anchor the alternation. The records must cover whole
+   * sessions for the result to be exact; scripts/backfill-message-roles.sh
+   * applies the same rule.
+   *
+   * Returns the inferred role of each legacy record, keyed by messageId
+   */
+  static inferLegacyRoles(
+    records: {
+      messageId?: unknown;
+      sessionId?: unknown;
+      role?: unknown;
+      type?: unknown;
+      createdAt?: unknown;
+      timestamp?: unknown;
+    }[]
+  ): Map<string, MessageRole> {
+    const orderKey = (record: (typeof records)[number]): string =>
+      String(record.timestamp ?? record.createdAt ?? '');
+
+    const sessions = new Map<string, typeof records>();
+    records.forEach(record => {
+      const sessionId = String(record.sessionId);
+      sessions.set(sessionId, [...(sessions.get(sessionId) || []), record]);
+    });
+
+    const roles = new Map<string, MessageRole>();
+    sessions.forEach(sessionRecords => {
+      let previous: MessageRole | undefined;
+
+      [...sessionRecords]
+        .sort((a, b) => orderKey(a).localeCompare(orderKey(b)))
+        .forEach(record => {
+          if (DynamoDBMessageMapper.hasStoredRole(record)) {
+            const role = record.role as MessageRole;
+            if (role === MessageRole.USER || role === MessageRole.ASSISTANT) {
+              previous = role;
+            }
+            return;
+          }
+
+          if (record.type === MessageType.SYSTEM) {
+            roles.set(String(record.messageId), MessageRole.SYSTEM);
+            return;
+          }
+
+          previous =
+            previous === MessageRole.USER
+              ? MessageRole.ASSISTANT
+              : MessageRole.USER;
+          roles.set(String(record.messageId), previous);
+        });
+    });
+
+    return roles;
+  }
+
   /**
    * Maps array of DTOs to domain entities
    */
   mapArrayToDomain(records: MessageRecordPlainDto[]): Message[] {
-    return records.map(record => this.mapToDomain(record));
+    const legacyRoles = DynamoDBMessageMapper.inferLegacyRoles(records);
+    return records.map(record =>
+      this.mapToDomain(record, legacyRoles.get(record.messageId))
+    );
   }
 
   /**
@@ -254,6 +360,12 @@ export class DynamoDBMessageMapper
       expressionAttributeValues[':messageId'] = { S: query.messageId };
     }
 
+    if (query.role) {
+      filterExpressions.push('#role = :role');
+      expressionAttributeNames['#role'] = 'role';
+      expressionAttributeValues[':role'] = { S: query.role };
+    }
+
     if (query.status) {
       filterExpressions.push('#status = :status');
       expressionAttributeNames['#status'] = 'status';
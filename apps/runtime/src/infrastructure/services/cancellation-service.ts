@@ -0,0 +1,74 @@
+import { logger } from '@awslambdahackathon/utils/lambda';
+import { CANCELLATION_CONFIG } from '@config/constants';
+import { container } from '@config/container';
+import { CancellationRepository } from '@domain/repositories/cancellation';
+import {
+  CancellationService as DomainCancellationService,
+  GenerationWatch,
+} from '@domain/services/cancellation-service';
+import { UserId } from '@domain/value-objects';
+
+/**
+ * A cancel frame is handled by a different Lambda invocation than the one
+ * generating the response, so the request is stored and the generating
+ * invocation polls for it.
+ */
+export class CancellationService implements DomainCancellationService {
+  private readonly cancellationRepository: CancellationRepository;
+
+  constructor() {
+    this.cancellationRepository = container.get<CancellationRepository>(
+      'CancellationRepository'
+    );
+  }
+
+  async requestCancel(userId: UserId, requestId: string): Promise<void> {
+    await this.cancellationRepository.save(
+      requestId,
+      userId,
+      Math.floor(Date.now() / 1000) + CANCELLATION_CONFIG.TTL_SECONDS
+    );
+
+    logger.info('Generation cancellation requested', {
+      userId: userId.getValue(),
+      requestId,
+    });
+  }
+
+  watch(userId: UserId, requestId: string): GenerationWatch {
+    const controller = new AbortController();
+    let checking = false;
+
+    const check = async () => {
+      if (checking || controller.signal.aborted) {
+        return;
+      }
+
+      checking = true;
+      try {
+        if (await this.cancellationRepository.exists(requestId, userId)) {
+          logger.info('Stopping generation at the user request', {
+            userId: userId.getValue(),
+            requestId,
+          });
+          controller.abort();
+        }
+      } catch (error) {
+        // A failed check must not stop the answer; try again on the next tick
+        logger.warn('Failed to check for generation cancellation', {
+          requestId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        checking = false;
+      }
+    };
+
+    const timer = setInterval(check, CANCELLATION_CONFIG.POLL_INTERVAL_MS);
+
+    return {
+      signal: controller.signal,
+      stop: () => clearInterval(timer),
+    };
+  }
+}
@@ -1,24 +1,77 @@
+import {
+  Citation,
+  DEFAULT_MODEL,
+  getModelDefinition,
+} from '@awslambdahackathon/types';
 import { logger } from '@awslambdahackathon/utils/lambda';
-import { MESSAGE_CONFIG } from '@config/constants';
+import {
+  CITATION_CONFIG,
+  KNOWLEDGE_CONFIG,
+  MESSAGE_CONFIG,
+  SUMMARY_CONFIG,
+  THREAD_CONFIG,
+  TOOL_CONFIG,
+} from '@config/constants';
 import { container } from '@config/container';
-import { Message, MessageType } from '@domain/entities/message';
+import { ConversationTree } from '@domain/entities';
+import { Message, MessageRole, MessageType } from '@domain/entities/message';
+import { EntityNotFoundError } from '@domain/errors/domain-errors';
 import { MessageRepository } from '@domain/repositories/message';
 import { SessionRepository } from '@domain/repositories/session';
 import { UserRepository } from '@domain/repositories/user';
+import { CancellationService } from '@domain/services/cancellation-service';
 import {
   ChatService as DomainChatService,
   MessageValidationResult,
   ProcessMessageCommand,
   ProcessMessageResult,
+  RegenerateResponseCommand,
 } from '@domain/services/chat-service';
-import { LLMRequest, LLMService } from '@domain/services/llm-service';
-import { UserId } from '@domain/value-objects';
+import {
+  ConversationContextService,
+  ConversationHistory,
+} from '@domain/services/conversation-context-service';
+import {
+  KnowledgeBaseService,
+  RetrievedPassage,
+} from '@domain/services/knowledge-base-service';
+import {
+  LLMConversationTurn,
+  LLMModel,
+  LLMRequest,
+  LLMResponse,
+  LLMToolResult,
+  LLMUsage,
+  StreamingLLMService,
+} from '@domain/services/llm-service';
+import { McpService } from '@domain/services/mcp-service';
+import { SessionService } from '@domain/services/session-service';
+import { ToolRegistry } from '@domain/services/tool-registry';
+import { UsageService } from '@domain/services/usage-service';
+import { MessageId, SessionId, UserId } from '@domain/value-objects';
+
+// Both new messages and regenerations stream the same way
+type GenerationCommand = ProcessMessageCommand | RegenerateResponseCommand;
+
+// Output of a tool the model used while answering, cited as a source
+interface ToolSource {
+  toolCallId: string;
+  name: string;
+  content: string;
+}
 
 export class ChatService implements DomainChatService {
   private readonly userRepository: UserRepository;
   private readonly messageRepository: MessageRepository;
   private readonly sessionRepository: SessionRepository;
-  private readonly llmService: LLMService;
+  private readonly llmService: StreamingLLMService;
+  private readonly conversationContextService: ConversationContextService;
+  private readonly toolRegistry: ToolRegistry;
+  private readonly mcpService: McpService;
+  private readonly usageService: UsageService;
+  private readonly sessionService: SessionService;
+  private readonly cancellationService: CancellationService;
+  private readonly knowledgeBaseService: KnowledgeBaseService;
 
   constructor() {
     this.userRepository = container.get<UserRepository>('UserRepository');
@@ -26,7 +79,23 @@ export class ChatService implements DomainChatService {
       container.get<MessageRepository>('MessageRepository');
     this.sessionRepository =
       container.get<SessionRepository>('SessionRepository');
-    this.llmService = container.get<LLMService>('LLMService');
+    // Falls back through the configured model chain when a model fails
+    this.llmService = container.get<StreamingLLMService>(
+      'ModelFallbackLLMService'
+    );
+    this.conversationContextService = container.get<ConversationContextService>(
+      'ConversationContextService'
+    );
+    this.toolRegistry = container.get<ToolRegistry>('ToolRegistry');
+    this.mcpService = container.get<McpService>('McpService');
+    this.usageService = container.get<UsageService>('UsageService');
+    this.sessionService = container.get<SessionService>('SessionService');
+    this.cancellationService = container.get<CancellationService>(
+      'CancellationService'
+    );
+    this.knowledgeBaseService = container.get<KnowledgeBaseService>(
+      'KnowledgeBaseService'
+    );
   }
 
   async processMessage(
@@ -60,11 +129,48 @@ export class ChatService implements DomainChatService {
         throw new Error(validationResult.error || 'Message validation failed');
       }
 
-      // Check if user can send message
-      const canSend = await this.canUserSendMessage(command.userId);
-      if (!canSend) {
-        throw new Error('User is not allowed to send messages');
-      }
+      await this.prepareGeneration(command.userId, command.sessionId);
+
+      // An edit is a new version of a prompt and shares its parent; a new
+      // message continues the selected branch, or the latest one. A follow-up
+      // about an earlier answer goes in that answer's thread instead.
+      const conversation =
+        await this.conversationContextService.loadConversation(
+          command.sessionId
+        );
+      const threadRoot = command.replyToMessageId
+        ? this.findMessage(
+            conversation,
+            command.replyToMessageId,
+            MessageRole.ASSISTANT
+          )
+        : undefined;
+      const edited = command.editMessageId
+        ? this.findMessage(
+            conversation,
+            command.editMessageId,
+            MessageRole.USER
+          )
+        : undefined;
+      const parentId = threadRoot
+        ? threadRoot.getId()
+        : edited
+          ? conversation.getParentId(edited.getId())
+          : command.parentMessageId
+            ? this.findMessage(conversation, command.parentMessageId).getId()
+            : conversation.getLatest()?.getId();
+
+      // Load prior turns before storing the new message so it is not duplicated
+      const model: LLMModel = command.model || DEFAULT_MODEL;
+      const history = await this.conversationContextService.buildHistory({
+        sessionId: command.sessionId,
+        userId: command.userId,
+        model,
+        pendingMessage: command.content,
+        parentMessageId: parentId,
+        threadMessageId: threadRoot?.getId(),
+        conversation,
+      });
 
       const now = new Date();
       const inputMessage = Message.fromData({
@@ -74,45 +180,95 @@ export class ChatService implements DomainChatService {
         userId: command.userId.getValue(),
         sessionId: command.sessionId.getValue(),
         createdAt: now,
+        metadata: threadRoot
+          ? { threadId: threadRoot.getId().getValue() }
+          : edited
+            ? { editedFrom: edited.getId().getValue() }
+            : {},
+        replyToMessageId: parentId?.getValue(),
+        role: MessageRole.USER,
       });
 
       // Store the input message
       await this.messageRepository.save(inputMessage);
 
-      // Invoke LLM for response
-      const llmRequest: LLMRequest = {
-        messageId: inputMessage.getId().getValue(),
-        userId: command.userId.getValue(),
-        sessionId: command.sessionId.getValue(),
-        message: command.content,
-        model: 'nova-micro',
-        maxTokens: 1000,
-        temperature: 0.7,
+      const outputMessage = await this.generateReply(
+        command,
+        inputMessage,
+        history,
+        model,
+        threadRoot
+      );
+
+      performanceMonitor.complete(true);
+
+      return {
+        inputMessage: inputMessage,
+        outputMessage: outputMessage,
+        sessionId: command.sessionId,
       };
-      const llmResult = await this.llmService.generateResponse(llmRequest);
+    } catch (error) {
+      performanceMonitor.complete(false);
 
-      if (!llmResult.success) {
-        throw new Error(llmResult.error || 'LLM generation failed');
-      }
+      throw error;
+    }
+  }
 
-      const outputMessage = Message.fromData({
-        id: `${MESSAGE_CONFIG.ID_PREFIX.MESSAGE}${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        content:
-          llmResult.response || 'Sorry, I could not generate a response.',
-        type: MessageType.TEXT,
+  async regenerateResponse(
+    command: RegenerateResponseCommand
+  ): Promise<ProcessMessageResult> {
+    const performanceMonitor = container
+      .getPerformanceMonitoringService()
+      .startMonitoring('chat_response_regeneration', {
         userId: command.userId.getValue(),
         sessionId: command.sessionId.getValue(),
-        createdAt: new Date(),
+        operation: 'chat_response_regeneration',
+        service: 'chat',
       });
 
-      // Store the output message
-      await this.messageRepository.save(outputMessage);
+    try {
+      await this.prepareGeneration(command.userId, command.sessionId);
+
+      const conversation =
+        await this.conversationContextService.loadConversation(
+          command.sessionId
+        );
+      const response = this.findMessage(
+        conversation,
+        command.messageId,
+        MessageRole.ASSISTANT
+      );
+      const promptId = conversation.getParentId(response.getId());
+      const prompt = promptId ? conversation.get(promptId) : undefined;
+      if (!prompt || !prompt.isFromUser()) {
+        throw new EntityNotFoundError('Message', command.messageId, {
+          reason: 'The response has no prompt to answer again',
+        });
+      }
+
+      // The prompt is answered with the context it had the first time
+      const model: LLMModel = command.model || DEFAULT_MODEL;
+      const history = await this.conversationContextService.buildHistory({
+        sessionId: command.sessionId,
+        userId: command.userId,
+        model,
+        pendingMessage: prompt.getContent(),
+        parentMessageId: conversation.getParentId(prompt.getId()),
+        conversation,
+      });
+
+      const outputMessage = await this.generateReply(
+        command,
+        prompt,
+        history,
+        model
+      );
 
       performanceMonitor.complete(true);
 
       return {
-        inputMessage: inputMessage,
-        outputMessage: outputMessage,
+        inputMessage: prompt,
+        outputMessage,
         sessionId: command.sessionId,
       };
     } catch (error) {
@@ -122,6 +278,407 @@ export class ChatService implements DomainChatService {
     }
   }
 
+  /**
+   * Checks shared by every request that calls the model
+   */
+  private async prepareGeneration(
+    userId: UserId,
+    sessionId: SessionId
+  ): Promise<void> {
+    // Check if user can send message
+    const canSend = await this.canUserSendMessage(userId);
+    if (!canSend) {
+      throw new Error('User is not allowed to send messages');
+    }
+
+    // Reject before calling the model once a token or cost quota is used up
+    await this.usageService.assertWithinQuota(userId, sessionId);
+
+    // List the conversation for the user and keep others out of it
+    await this.sessionService.touchConversation(userId, sessionId);
+  }
+
+  private findMessage(
+    conversation: ConversationTree,
+    messageId: string,
+    role?: MessageRole
+  ): Message {
+    const message = conversation.get(MessageId.create(messageId));
+    if (!message || (role && message.getRole() !== role)) {
+      throw new EntityNotFoundError('Message', messageId);
+    }
+    return message;
+  }
+
+  /**
+   * Context the history turns cannot carry: the summary of the turns before
+   * them, the answer a thread is about so the model stays on it, and the
+   * knowledge base passages found for the message, numbered for citing
+   */
+  private buildSystemPrompt(
+    history: ConversationHistory,
+    passages: RetrievedPassage[],
+    threadRoot?: Message
+  ): string | undefined {
+    const parts = [
+      history.summary &&
+        `${SUMMARY_CONFIG.CONTEXT_PROMPT}\n\n<summary>\n${history.summary}\n</summary>`,
+      threadRoot &&
+        `${THREAD_CONFIG.FOCUS_SYSTEM_PROMPT}\n\n<answer>\n${threadRoot.getContent()}\n</answer>`,
+      passages.length > 0 &&
+        `${KNOWLEDGE_CONFIG.CONTEXT_PROMPT}\n\n${passages
+          .map(
+            (passage, index) =>
+              `<passage number="${index + 1}" title="${passage.title}">\n${passage.content}\n</passage>`
+          )
+          .join('\n\n')}`,
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join('\n\n') : undefined;
+  }
+
+  /**
+   * Answer the input message and store the response as its child, in the
+   * same thread when the input message is part of one
+   */
+  private async generateReply(
+    command: GenerationCommand,
+    inputMessage: Message,
+    history: ConversationHistory,
+    model: LLMModel,
+    threadRoot?: Message
+  ): Promise<Message> {
+    // Make tools from configured MCP servers available to the model
+    await this.mcpService.initialize();
+
+    const outputMessageId = `${MESSAGE_CONFIG.ID_PREFIX.MESSAGE}${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    // Ground the answer in the knowledge base when it has relevant passages
+    const passages = await this.knowledgeBaseService.retrieve(
+      inputMessage.getContent()
+    );
+
+    // The cancel frame arrives in another invocation; watch for it
+    const generationWatch = command.requestId
+      ? this.cancellationService.watch(command.userId, command.requestId)
+      : undefined;
+
+    // Invoke LLM for response
+    const llmRequest: LLMRequest = {
+      messageId: inputMessage.getId().getValue(),
+      userId: command.userId.getValue(),
+      sessionId: command.sessionId.getValue(),
+      message: inputMessage.getContent(),
+      history: history.turns,
+      model,
+      systemPrompt: this.buildSystemPrompt(history, passages, threadRoot),
+      maxTokens: 1000,
+      temperature: 0.7,
+      tools: getModelDefinition(model).capabilities.tools
+        ? this.toolRegistry.getDefinitions()
+        : undefined,
+      abortSignal: generationWatch?.signal,
+    };
+
+    let llmResult: LLMResponse;
+    const toolSources: ToolSource[] = [];
+    try {
+      llmResult = await this.runAgentLoop(
+        command,
+        llmRequest,
+        outputMessageId,
+        toolSources
+      );
+    } finally {
+      generationWatch?.stop();
+    }
+
+    if (!llmResult.success) {
+      throw new Error(llmResult.error || 'LLM generation failed');
+    }
+
+    // A stopped answer keeps the text streamed so far
+    const threadId = inputMessage.getMetadata().threadId;
+    const content =
+      llmResult.response ||
+      (llmResult.cancelled
+        ? MESSAGE_CONFIG.CANCELLED_EMPTY_RESPONSE
+        : 'Sorry, I could not generate a response.');
+    const citations = this.buildCitations(content, passages, toolSources);
+    const outputMessage = Message.fromData({
+      id: outputMessageId,
+      content,
+      type: MessageType.TEXT,
+      userId: command.userId.getValue(),
+      sessionId: command.sessionId.getValue(),
+      createdAt: new Date(),
+      metadata: {
+        model: llmResult.model || model,
+        ...(llmResult.cancelled && { cancelled: true }),
+        ...(typeof threadId === 'string' && { threadId }),
+        ...(citations.length > 0 && { citations }),
+      },
+      replyToMessageId: inputMessage.getId().getValue(),
+      role: MessageRole.ASSISTANT,
+    });
+
+    // Store the output message
+    await this.messageRepository.save(outputMessage);
+
+    return outputMessage;
+  }
+
+  /**
+   * Sources of an answer as footnotes. Passages keep the numbers they had in
+   * the prompt, so the [n] markers the model wrote point at them; tool outputs
+   * follow in the order the tools ran.
+   */
+  private buildCitations(
+    answer: string,
+    passages: RetrievedPassage[],
+    toolSources: ToolSource[]
+  ): Citation[] {
+    const snippet = (text: string) =>
+      text.length > CITATION_CONFIG.SNIPPET_LENGTH
+        ? `${text.slice(0, CITATION_CONFIG.SNIPPET_LENGTH).trimEnd()}…`
+        : text;
+
+    const citations: Omit<Citation, 'index' | 'offsets'>[] = [
+      ...passages.map(passage => ({
+        sourceType: 'document' as const,
+        sourceId: passage.documentId,
+        title: passage.title,
+        snippet: snippet(passage.content),
+        url: `#chunk-${passage.chunkIndex}`,
+        score: passage.score,
+      })),
+      ...toolSources.map(source => {
+        // Tools that look things up usually return the address they read
+        const url = /https?:\/\/[^\s"'<>)\]]+/.exec(source.content)?.[0];
+        return {
+          sourceType: 'tool' as const,
+          sourceId: source.toolCallId,
+          title: source.name,
+          snippet: snippet(source.content),
+          ...(url && { url }),
+        };
+      }),
+    ];
+
+    const markers = Array.from(answer.matchAll(CITATION_CONFIG.MARKER_PATTERN));
+    return citations.map((citation, i) => ({
+      ...citation,
+      index: i + 1,
+      offsets: markers
+        .filter(marker => Number(marker[1]) === i + 1)
+        .map(marker => ({
+          start: marker.index ?? 0,
+          end: (marker.index ?? 0) + marker[0].length,
+        })),
+    }));
+  }
+
+  /**
+   * Call the model, executing requested tools and feeding their results back
+   * until it answers in text. The last call the iteration cap allows asks the
+   * model to answer without tools. Outputs of tools that succeeded are added
+   * to toolSources.
+   */
+  private async runAgentLoop(
+    command: GenerationCommand,
+    llmRequest: LLMRequest,
+    outputMessageId: string,
+    toolSources: ToolSource[]
+  ): Promise<LLMResponse> {
+    const sessionId = command.sessionId.getValue();
+    const userId = command.userId.getValue();
+    const continuation: LLMConversationTurn[] = [];
+    const textParts: string[] = [];
+    const usage: LLMUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+    let chunkIndex = 0;
+    let lastCreatedAt = 0;
+
+    // Tool messages are saved in quick succession; keep them in the order produced
+    const nextTimestamp = (): Date => {
+      lastCreatedAt = Math.max(Date.now(), lastCreatedAt + 1);
+      return new Date(lastCreatedAt);
+    };
+
+    for (let iteration = 1; ; iteration++) {
+      // Tools stay declared on the final call because the continuation holds
+      // tool turns, which the models reject without them
+      const isFinalCall = iteration >= TOOL_CONFIG.MAX_ITERATIONS;
+      if (isFinalCall && continuation.length > 0) {
+        logger.warn('Tool iteration limit reached, requesting a final answer', {
+          sessionId,
+          messageId: outputMessageId,
+          maxIterations: TOOL_CONFIG.MAX_ITERATIONS,
+        });
+      }
+
+      const request: LLMRequest = {
+        ...llmRequest,
+        continuation,
+        ...(isFinalCall && {
+          systemPrompt: [
+            llmRequest.systemPrompt,
+            TOOL_CONFIG.FINAL_ANSWER_INSTRUCTION,
+          ]
+            .filter(Boolean)
+            .join('\n\n'),
+        }),
+      };
+
+      // Stream partial output to the caller when a chunk handler is provided
+      const onChunk = command.onChunk;
+      const result = onChunk
+        ? await this.llmService.generateResponseStream(request, async chunk =>
+            onChunk({
+              messageId: outputMessageId,
+              sessionId,
+              content: chunk.text,
+              index: chunkIndex++,
+            })
+          )
+        : await this.llmService.generateResponse(request);
+
+      if (!result.success) {
+        return result;
+      }
+
+      if (result.response) {
+        textParts.push(result.response);
+      }
+      if (result.usage) {
+        await this.usageService.recordUsage(
+          command.userId,
+          command.sessionId,
+          result.model || llmRequest.model || DEFAULT_MODEL,
+          result.usage
+        );
+        usage.inputTokens += result.usage.inputTokens;
+        usage.outputTokens += result.usage.outputTokens;
+        usage.totalTokens += result.usage.totalTokens;
+      }
+
+      const toolCalls = result.toolCalls || [];
+      if (toolCalls.length === 0 || result.cancelled) {
+        return {
+          ...result,
+          response: textParts.join('\n\n'),
+          toolCalls: undefined,
+          usage,
+        };
+      }
+
+      if (isFinalCall) {
+        logger.warn('Ignoring tool calls requested after the iteration limit', {
+          sessionId,
+          messageId: outputMessageId,
+          toolNames: toolCalls.map(toolCall => toolCall.name),
+        });
+        return {
+          ...result,
+          response: textParts.join('\n\n'),
+          toolCalls: undefined,
+          usage,
+        };
+      }
+
+      continuation.push({
+        role: 'assistant',
+        content: result.response || '',
+        toolCalls,
+      });
+
+      const toolResults: LLMToolResult[] = [];
+      for (const toolCall of toolCalls) {
+        if (llmRequest.abortSignal?.aborted) {
+          return {
+            ...result,
+            response: textParts.join('\n\n'),
+            toolCalls: undefined,
+            usage,
+            cancelled: true,
+          };
+        }
+
+        const callMessage = Message.fromData({
+          id: `${MESSAGE_CONFIG.ID_PREFIX.MESSAGE}${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          content: `${toolCall.name}(${JSON.stringify(toolCall.input)})`.slice(
+            0,
+            TOOL_CONFIG.MAX_RESULT_LENGTH
+          ),
+          type: MessageType.TOOL_CALL,
+          userId,
+          sessionId,
+          createdAt: nextTimestamp(),
+          metadata: {
+            toolCallId: toolCall.id,
+            toolName: toolCall.name,
+            input: toolCall.input,
+            responseMessageId: outputMessageId,
+          },
+          role: MessageRole.ASSISTANT,
+        });
+        await this.messageRepository.save(callMessage);
+        await command.onToolCall?.({
+          messageId: callMessage.getId().getValue(),
+          sessionId,
+          toolCallId: toolCall.id,
+          name: toolCall.name,
+          input: toolCall.input,
+        });
+
+        const toolResult = await this.toolRegistry.execute(
+          toolCall.name,
+          toolCall.input,
+          { userId, sessionId }
+        );
+        const content = (toolResult.content || '(no output)').slice(
+          0,
+          TOOL_CONFIG.MAX_RESULT_LENGTH
+        );
+        const isError = toolResult.isError ?? false;
+
+        const resultMessage = Message.fromData({
+          id: `${MESSAGE_CONFIG.ID_PREFIX.MESSAGE}${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          content,
+          type: MessageType.TOOL_RESULT,
+          userId,
+          sessionId,
+          createdAt: nextTimestamp(),
+          metadata: {
+            toolCallId: toolCall.id,
+            toolName: toolCall.name,
+            isError,
+            responseMessageId: outputMessageId,
+          },
+          role: MessageRole.TOOL,
+        });
+        await this.messageRepository.save(resultMessage);
+        await command.onToolResult?.({
+          messageId: resultMessage.getId().getValue(),
+          sessionId,
+          toolCallId: toolCall.id,
+          name: toolCall.name,
+          content,
+          isError,
+        });
+
+        toolResults.push({ toolCallId: toolCall.id, content, isError });
+        if (!isError) {
+          toolSources.push({
+            toolCallId: toolCall.id,
+            name: toolCall.name,
+            content,
+          });
+        }
+      }
+
+      continuation.push({ role: 'user', content: '', toolResults });
+    }
+  }
+
   async validateMessage(message: Message): Promise<MessageValidationResult> {
     try {
       // Check if message content is not empty
@@ -179,8 +736,8 @@ export class ChatService implements DomainChatService {
         return false;
       }
 
-      // Add any additional business logic here
-      // For example, check if user is suspended, has exceeded rate limits, etc.
+      // Message rate limits are enforced on the conversation route before
+      // dispatch, and usage quotas in processMessage
 
       return true;
     } catch (error) {
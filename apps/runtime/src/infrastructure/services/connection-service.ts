@@ -1,22 +1,31 @@
 import { logger } from '@awslambdahackathon/utils/lambda';
-import { CIRCUIT_BREAKER_CONFIG } from '@config/constants';
+import { CIRCUIT_BREAKER_CONFIG, METRIC_CONSTANTS } from '@config/constants';
 import { container } from '@config/container';
 import { Connection, ConnectionStatus } from '@domain/entities';
+import { ConnectionLimitExceededException } from '@domain/errors/domain-errors';
 import { ConnectionRepository } from '@domain/repositories/connection';
+import { UserRepository } from '@domain/repositories/user';
 import {
   ConnectionService as DomainConnectionService,
   RemoveConnectionCommand,
   StoreConnectionCommand,
 } from '@domain/services/connection-service';
 import { ConnectionId, UserId } from '@domain/value-objects';
+import { ConnectionLimitConfig } from '@infrastructure/config/connection-limit-config';
 
 export class ConnectionService implements DomainConnectionService {
   private readonly connectionRepository: ConnectionRepository;
+  private readonly connectionLimitConfig: ConnectionLimitConfig;
+  private readonly userRepository: UserRepository;
 
   constructor() {
     this.connectionRepository = container.get<ConnectionRepository>(
       'ConnectionRepository'
     );
+    this.userRepository = container.get<UserRepository>('UserRepository');
+    this.connectionLimitConfig = container.get<ConnectionLimitConfig>(
+      'ConnectionLimitConfig'
+    );
   }
 
   async storeConnection(command: StoreConnectionCommand): Promise<void> {
@@ -108,6 +117,79 @@ export class ConnectionService implements DomainConnectionService {
     }
   }
 
+  async enforceConnectionLimit(
+    userId: UserId,
+    connectionId: ConnectionId
+  ): Promise<Connection[]> {
+    const { maxConnectionsPerUser, policy } = this.connectionLimitConfig;
+    const active = (await this.connectionRepository.findByUserId(userId))
+      .filter(
+        connection =>
+          connection.isAuthenticated() &&
+          !connection.getId().equals(connectionId)
+      )
+      .sort(
+        (a, b) => a.getConnectedAt().getTime() - b.getConnectedAt().getTime()
+      );
+
+    if (active.length < maxConnectionsPerUser) {
+      return [];
+    }
+
+    if (policy === 'reject') {
+      throw new ConnectionLimitExceededException(
+        userId.getValue(),
+        active.length,
+        maxConnectionsPerUser,
+        { connectionId: connectionId.getValue(), policy }
+      );
+    }
+
+    // Keep the newest connections, leaving one slot for the new one
+    const evicted = active.slice(0, active.length - maxConnectionsPerUser + 1);
+    await Promise.all(
+      evicted.map(connection =>
+        this.connectionRepository.delete(connection.getId())
+      )
+    );
+
+    logger.info('Evicted connections over the per-user limit', {
+      userId: userId.getValue(),
+      connectionId: connectionId.getValue(),
+      evictedConnectionIds: evicted.map(connection =>
+        connection.getId().getValue()
+      ),
+      maxConnectionsPerUser,
+    });
+
+    return evicted;
+  }
+
+  async removeGoneConnection(
+    connectionId: ConnectionId
+  ): Promise<Connection | null> {
+    const connection = await this.connectionRepository.findById(connectionId);
+    await this.connectionRepository.delete(connectionId);
+
+    const userId = connection?.getUserId();
+    if (userId) {
+      // The user was present until this connection dropped
+      await this.userRepository.updateLastActivity(userId);
+    }
+
+    await container
+      .getMetricsService()
+      .recordBusinessMetrics(METRIC_CONSTANTS.NAMES.CONNECTION_GONE, 1);
+
+    logger.info('Removed gone connection', {
+      connectionId: connectionId.getValue(),
+      userId: userId?.getValue(),
+      sessionId: connection?.getSessionId()?.getValue(),
+    });
+
+    return connection;
+  }
+
   async cleanupExpiredConnections(): Promise<void> {
     try {
       await this.connectionRepository.deleteExpiredConnections();
@@ -0,0 +1,257 @@
+import { logger } from '@awslambdahackathon/utils/lambda';
+import { CONVERSATION_CONFIG, SUMMARY_CONFIG } from '@config/constants';
+import { container } from '@config/container';
+import { ConversationTree } from '@domain/entities';
+import { Message, MessageRole } from '@domain/entities/message';
+import { Session } from '@domain/entities/session';
+import { MessageRepository } from '@domain/repositories/message';
+import { SessionRepository } from '@domain/repositories/session';
+import {
+  BuildHistoryCommand,
+  ConversationHistory,
+  ConversationSummary,
+  ConversationContextService as DomainConversationContextService,
+} from '@domain/services/conversation-context-service';
+import {
+  LLMConversationRole,
+  StreamingLLMService,
+} from '@domain/services/llm-service';
+import { UsageService } from '@domain/services/usage-service';
+import { SessionId } from '@domain/value-objects';
+import { ConversationContextConfig } from '@infrastructure/config/conversation-config';
+
+export class ConversationContextService implements DomainConversationContextService {
+  private readonly messageRepository: MessageRepository;
+  private readonly sessionRepository: SessionRepository;
+  private readonly llmService: StreamingLLMService;
+  private readonly usageService: UsageService;
+  private readonly config: ConversationContextConfig;
+
+  constructor() {
+    this.messageRepository =
+      container.get<MessageRepository>('MessageRepository');
+    this.sessionRepository =
+      container.get<SessionRepository>('SessionRepository');
+    // Summaries go straight to the cheap model; no fallback chain needed
+    this.llmService = container.get<StreamingLLMService>('StreamingLLMService');
+    this.usageService = container.get<UsageService>('UsageService');
+    this.config = container.get<ConversationContextConfig>(
+      'ConversationContextConfig'
+    );
+  }
+
+  async loadConversation(sessionId: SessionId): Promise<ConversationTree> {
+    return ConversationTree.fromMessages(
+      await this.messageRepository.findBySession(sessionId)
+    );
+  }
+
+  async buildHistory(
+    command: BuildHistoryCommand
+  ): Promise<ConversationHistory> {
+    const budget = this.config.historyTokenBudgets[command.model];
+    const available =
+      budget -
+      (command.pendingMessage
+        ? this.estimateTokens(command.pendingMessage)
+        : 0);
+
+    // Follow the selected branch only; other versions are not context
+    const conversation =
+      command.conversation ?? (await this.loadConversation(command.sessionId));
+    const branch = command.threadMessageId
+      ? [
+          ...conversation.getBranch(command.threadMessageId),
+          ...conversation.getThread(command.threadMessageId),
+        ]
+      : command.parentMessageId
+        ? conversation.getBranch(command.parentMessageId)
+        : [];
+
+    // The stored summary stands in for the turns it covers on this branch
+    let summary = await this.getSummary(command.sessionId);
+    const covered = summary
+      ? branch.findIndex(
+          message => message.getId().getValue() === summary?.throughMessageId
+        )
+      : -1;
+    if (covered === -1) {
+      summary = null;
+    }
+    let messages = branch.slice(covered + 1);
+
+    const turnBudget = (current: ConversationSummary | null) =>
+      available - (current ? this.estimateTokens(current.content) : 0);
+
+    // Fold the older turns into the summary once they no longer all fit,
+    // keeping room for the turns still to come
+    if (this.countRecent(messages, turnBudget(summary)) < messages.length) {
+      const keep = this.countRecent(
+        messages,
+        turnBudget(summary) * SUMMARY_CONFIG.RECENT_BUDGET_RATIO,
+        Math.floor(
+          this.config.maxHistoryMessages * SUMMARY_CONFIG.RECENT_BUDGET_RATIO
+        )
+      );
+      const updated = await this.summarize(
+        command,
+        summary,
+        messages.slice(0, messages.length - keep)
+      );
+      if (updated) {
+        summary = updated;
+        messages = messages.slice(messages.length - keep);
+      }
+    }
+
+    const count = this.countRecent(messages, turnBudget(summary));
+    const selected = messages.slice(messages.length - count).map(message => ({
+      role: this.getRole(message),
+      content: message.getContent(),
+    }));
+
+    logger.debug('Built conversation history', {
+      sessionId: command.sessionId.getValue(),
+      model: command.model,
+      availableMessages: messages.length,
+      turns: selected.length,
+      summarizedMessages: summary?.messageCount ?? 0,
+      tokenBudget: budget,
+    });
+
+    return { turns: selected, summary: summary?.content };
+  }
+
+  async getSummary(sessionId: SessionId): Promise<ConversationSummary | null> {
+    const session = await this.sessionRepository.findById(sessionId);
+    return session ? this.readSummary(session) : null;
+  }
+
+  estimateTokens(text: string): number {
+    return Math.ceil(text.length / CONVERSATION_CONFIG.CHARS_PER_TOKEN);
+  }
+
+  /**
+   * Number of newest messages that fit the token budget and message cap
+   */
+  private countRecent(
+    messages: Message[],
+    tokenBudget: number,
+    maxMessages: number = this.config.maxHistoryMessages
+  ): number {
+    let remaining = tokenBudget;
+    let count = 0;
+
+    for (let i = messages.length - 1; i >= 0 && count < maxMessages; i--) {
+      const tokens = this.estimateTokens(messages[i].getContent());
+      if (tokens > remaining) {
+        break;
+      }
+      remaining -= tokens;
+      count++;
+    }
+
+    return count;
+  }
+
+  /**
+   * Merge the older turns into the previous summary and store the result.
+   * Returns null when nothing was summarized; the turns are then trimmed.
+   */
+  private async summarize(
+    command: BuildHistoryCommand,
+    previous: ConversationSummary | null,
+    older: Message[]
+  ): Promise<ConversationSummary | null> {
+    if (older.length === 0) {
+      return null;
+    }
+
+    try {
+      const transcript = older
+        .map(
+          message =>
+            `${message.isFromUser() ? 'User' : 'Assistant'}: ${message.getContent()}`
+        )
+        .join('\n\n');
+      const result = await this.llmService.generateResponse({
+        messageId: `summary_${command.sessionId.getValue()}`,
+        userId: command.userId.getValue(),
+        sessionId: command.sessionId.getValue(),
+        message: previous
+          ? `Earlier summary:\n${previous.content}\n\nLater turns:\n${transcript}`
+          : transcript,
+        model: SUMMARY_CONFIG.MODEL,
+        maxTokens: SUMMARY_CONFIG.MAX_TOKENS,
+        temperature: 0.2,
+        systemPrompt: SUMMARY_CONFIG.SYSTEM_PROMPT,
+      });
+
+      if (result.usage) {
+        await this.usageService.recordUsage(
+          command.userId,
+          command.sessionId,
+          result.model || SUMMARY_CONFIG.MODEL,
+          result.usage
+        );
+      }
+
+      const content = result.response?.trim();
+      if (!result.success || !content) {
+        logger.warn('No conversation summary generated', {
+          sessionId: command.sessionId.getValue(),
+          error: result.error,
+        });
+        return null;
+      }
+
+      const summary: ConversationSummary = {
+        content,
+        throughMessageId: older[older.length - 1].getId().getValue(),
+        messageCount: (previous?.messageCount ?? 0) + older.length,
+        updatedAt: new Date().toISOString(),
+      };
+
+      // Save onto the latest session so a title set meanwhile is not lost
+      const session = await this.sessionRepository.findById(command.sessionId);
+      if (session) {
+        await this.sessionRepository.save(
+          session.addMetadata('summary', summary)
+        );
+      }
+
+      logger.info('Summarized conversation', {
+        sessionId: command.sessionId.getValue(),
+        summarizedMessages: summary.messageCount,
+        newlySummarized: older.length,
+      });
+
+      return summary;
+    } catch (error) {
+      logger.error('Failed to summarize conversation', {
+        sessionId: command.sessionId.getValue(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  private readSummary(session: Session): ConversationSummary | null {
+    const summary = session.getMetadata().summary as
+      Partial<ConversationSummary> | undefined;
+    return summary &&
+      typeof summary.content === 'string' &&
+      typeof summary.throughMessageId === 'string'
+      ? {
+          content: summary.content,
+          throughMessageId: summary.throughMessageId,
+          messageCount: summary.messageCount ?? 0,
+          updatedAt: summary.updatedAt ?? '',
+        }
+      : null;
+  }
+
+  private getRole(message: Message): LLMConversationRole {
+    return message.getRole() === MessageRole.ASSISTANT ? 'assistant' : 'user';
+  }
+}
@@ -0,0 +1,270 @@
+import { inflateSync } from 'node:zlib';
+
+import { KnowledgeContentType } from '@domain/repositories/knowledge';
+
+// Preferred places to end a chunk, best first
+const CHUNK_BREAKS = ['\n\n', '\n', '. ', ' '];
+
+/**
+ * Plain text of an uploaded document. Markdown loses its syntax; PDFs keep
+ * the text drawn by their content streams, in drawing order.
+ */
+export function extractText(
+  content: Buffer,
+  contentType: KnowledgeContentType
+): string {
+  switch (contentType) {
+    case 'pdf':
+      return normalizeWhitespace(extractPdfText(content));
+    case 'markdown':
+      return normalizeWhitespace(stripMarkdown(content.toString('utf8')));
+    default:
+      return normalizeWhitespace(content.toString('utf8'));
+  }
+}
+
+/**
+ * Split text into chunks of at most `size` characters, ending each at a
+ * paragraph, line, sentence or word where possible. Each chunk starts with
+ * the last `overlap` characters of the one before, so a passage cut in two
+ * is still found whole.
+ */
+export function splitIntoChunks(
+  text: string,
+  size: number,
+  overlap: number
+): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length);
+    if (end < text.length) {
+      const window = text.slice(start, end);
+      for (const separator of CHUNK_BREAKS) {
+        const index = window.lastIndexOf(separator);
+        if (index > size / 2) {
+          end = start + index + separator.length;
+          break;
+        }
+      }
+    }
+
+    const chunk = text.slice(start, end).trim();
+    if (chunk.length > 0) {
+      chunks.push(chunk);
+    }
+    if (end >= text.length) {
+      break;
+    }
+
+    // Step back for the overlap, to the start of a word
+    start = Math.max(end - overlap, start + 1);
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < end) {
+      start = space + 1;
+    }
+  }
+
+  return chunks;
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\f\v]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function stripMarkdown(markdown: string): string {
+  return (
+    markdown
+      // Code fences keep their code
+      .replace(/^(```|~~~).*$/gm, '')
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/<[^>\n]+>/g, '')
+      .replace(/^ {0,3}#{1,6}\s+/gm, '')
+      .replace(/^ {0,3}>\s?/gm, '')
+      .replace(/^[ \t]*([-*+]|\d+\.)\s+/gm, '')
+      .replace(/^\s*\|?(\s*:?-+:?\s*\|)+\s*:?-*:?\s*$/gm, '')
+      .replace(/\|/g, ' ')
+      .replace(/^ {0,3}([-*_])(\s*\1){2,}\s*$/gm, '')
+      .replace(/(\*\*|__)(.+?)\1/g, '$2')
+      .replace(/(\*|_)(\S.*?)\1/g, '$2')
+      .replace(/`([^`]+)`/g, '$1')
+  );
+}
+
+/**
+ * Text shown by the content streams of a PDF. Handles uncompressed and
+ * Flate-compressed streams and fonts with single-byte encodings; text in
+ * fonts that need a character map (most CJK PDFs) comes out garbled.
+ */
+function extractPdfText(pdf: Buffer): string {
+  const source = pdf.toString('latin1');
+  const streamPattern = /stream\r?\n/g;
+  const pages: string[] = [];
+  let match: RegExpExecArray | null;
+
+  while ((match = streamPattern.exec(source)) !== null) {
+    const start = match.index + match[0].length;
+    const end = source.indexOf('endstream', start);
+    if (end === -1) {
+      break;
+    }
+    streamPattern.lastIndex = end + 'endstream'.length;
+
+    // The stream dictionary comes right before the stream keyword
+    const dictionary = source.slice(
+      source.lastIndexOf('obj', match.index),
+      match.index
+    );
+    let data = pdf.subarray(start, end);
+    if (dictionary.includes('/FlateDecode')) {
+      try {
+        data = inflateSync(data);
+      } catch {
+        // Images and other streams that are not valid zlib data
+        continue;
+      }
+    } else if (dictionary.includes('/Filter')) {
+      continue;
+    }
+
+    const content = data.toString('latin1');
+    if (/\bBT\b/.test(content)) {
+      pages.push(readContentStream(content));
+    }
+  }
+
+  return pages.join('\n\n');
+}
+
+/**
+ * Collect the strings shown by the text operators of a content stream
+ */
+function readContentStream(content: string): string {
+  let text = '';
+  let operands: string[] = [];
+  let inArray = false;
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i];
+
+    if (char === '(') {
+      const [value, next] = readLiteralString(content, i + 1);
+      operands.push(value);
+      i = next;
+    } else if (char === '<' && content[i + 1] !== '<') {
+      const end = content.indexOf('>', i);
+      operands.push(decodeHexString(content.slice(i + 1, end)));
+      i = end === -1 ? content.length : end + 1;
+    } else if (char === '[') {
+      inArray = true;
+      i++;
+    } else if (char === ']') {
+      inArray = false;
+      i++;
+    } else if (char === '%') {
+      const end = content.indexOf('\n', i);
+      i = end === -1 ? content.length : end + 1;
+    } else if (/\s/.test(char) || '<>{}/'.includes(char)) {
+      i++;
+    } else {
+      let end = i;
+      while (end < content.length && !/[\s()<>[\]{}/%]/.test(content[end])) {
+        end++;
+      }
+      const token = content.slice(i, Math.max(end, i + 1));
+      i = Math.max(end, i + 1);
+
+      // A wide negative kerning inside a TJ array separates words
+      if (inArray && Number(token) < -200) {
+        operands.push(' ');
+      }
+      if (inArray) {
+        continue;
+      }
+
+      switch (token) {
+        case 'Tj':
+        case 'TJ':
+          text += operands.join('');
+          break;
+        case "'":
+        case '"':
+          text += '\n' + operands.join('');
+          break;
+        case 'Td':
+        case 'TD':
+        case 'T*':
+        case 'ET':
+          text += '\n';
+          break;
+      }
+      if (isNaN(Number(token))) {
+        operands = [];
+      }
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Read a literal string up to its closing parenthesis. Returns the string
+ * and the position after it.
+ */
+function readLiteralString(content: string, start: number): [string, number] {
+  let value = '';
+  let depth = 1;
+  let i = start;
+
+  while (i < content.length) {
+    const char = content[i];
+    if (char === '\\') {
+      const next = content[i + 1];
+      const octal = /^[0-7]{1,3}/.exec(content.slice(i + 1, i + 4));
+      if (octal) {
+        value += String.fromCharCode(parseInt(octal[0], 8));
+        i += 1 + octal[0].length;
+        continue;
+      }
+      const escapes: Record<string, string> = {
+        n: '\n',
+        r: '\r',
+        t: '\t',
+        b: '\b',
+        f: '\f',
+      };
+      // A backslash before a line break continues the string
+      value += next === '\n' || next === '\r' ? '' : (escapes[next] ?? next);
+      i += 2;
+      continue;
+    }
+    if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return [value, i + 1];
+    }
+    value += char;
+    i++;
+  }
+
+  return [value, i];
+}
+
+function decodeHexString(hex: string): string {
+  const digits = hex.replace(/\s/g, '');
+  let value = '';
+  for (let i = 0; i < digits.length; i += 2) {
+    value += String.fromCharCode(
+      parseInt(digits.slice(i, i + 2).padEnd(2, '0'), 16)
+    );
+  }
+  return value;
+}
@@ -1,11 +1,20 @@
 // Core infrastructure services
 export * from './app-error-handling-service';
 export * from './authentication-service';
+export * from './cancellation-service';
 export * from './chat-service';
 export * from './circuit-breaker-service';
 export * from './connection-service';
+export * from './conversation-context-service';
+export * from './knowledge-base-service';
+export * from './mcp-service';
 export * from './metrics-service';
+export * from './model-fallback-llm-service';
 export * from './performance-monitoring-service';
+export * from './rate-limit-service';
+export * from './session-service';
+export * from './tool-registry-service';
+export * from './usage-service';
 export * from './websocket-message-service';
 
 // New focused services
@@ -0,0 +1,193 @@
+import crypto from 'crypto';
+
+import { logger } from '@awslambdahackathon/utils/lambda';
+import { container } from '@config/container';
+import {
+  EntityNotFoundError,
+  ValidationError,
+} from '@domain/errors/domain-errors';
+import {
+  KnowledgeChunk,
+  KnowledgeDocument,
+  KnowledgeRepository,
+} from '@domain/repositories/knowledge';
+import { VectorIndex } from '@domain/repositories/vector-index';
+import { EmbeddingService } from '@domain/services/embedding-service';
+import {
+  KnowledgeBaseService as DomainKnowledgeBaseService,
+  IngestDocumentCommand,
+  RetrievedPassage,
+} from '@domain/services/knowledge-base-service';
+import { KnowledgeBaseConfig } from '@infrastructure/config/knowledge-config';
+
+import { extractText, splitIntoChunks } from './document-text';
+
+export class KnowledgeBaseService implements DomainKnowledgeBaseService {
+  private readonly knowledgeRepository: KnowledgeRepository;
+  private readonly vectorIndex: VectorIndex;
+  private readonly embeddingService: EmbeddingService;
+  private readonly config: KnowledgeBaseConfig;
+  // When this container last loaded the chunks stored by any Lambda
+  private indexLoadedAt = 0;
+  private indexedIds = new Set<string>();
+
+  constructor() {
+    this.knowledgeRepository = container.get<KnowledgeRepository>(
+      'KnowledgeRepository'
+    );
+    this.vectorIndex = container.get<VectorIndex>('VectorIndex');
+    this.embeddingService = container.get<EmbeddingService>('EmbeddingService');
+    this.config = container.get<KnowledgeBaseConfig>('KnowledgeBaseConfig');
+  }
+
+  async ingestDocument(
+    command: IngestDocumentCommand
+  ): Promise<KnowledgeDocument> {
+    if (command.content.length > this.config.maxDocumentBytes) {
+      throw new ValidationError(
+        `Document exceeds the maximum size of ${this.config.maxDocumentBytes} bytes`,
+        'content'
+      );
+    }
+
+    const text = extractText(command.content, command.contentType);
+    if (text.length === 0) {
+      throw new ValidationError('Document contains no text', 'content');
+    }
+
+    const documentId = crypto.randomUUID();
+    const contents = splitIntoChunks(
+      text,
+      this.config.chunkSize,
+      this.config.chunkOverlap
+    );
+    const embeddings = await this.embeddingService.embed(contents);
+    const chunks: KnowledgeChunk[] = contents.map((content, index) => ({
+      id: `${documentId}#${index}`,
+      documentId,
+      index,
+      content,
+      embedding: embeddings[index],
+    }));
+    const document: KnowledgeDocument = {
+      id: documentId,
+      title: command.title,
+      contentType: command.contentType,
+      uploadedBy: command.uploadedBy.getValue(),
+      chunkCount: chunks.length,
+      createdAt: new Date(),
+    };
+
+    await this.knowledgeRepository.saveDocument(document, chunks);
+    await this.indexChunks(chunks, new Map([[documentId, document.title]]));
+
+    logger.info('Ingested knowledge document', {
+      documentId,
+      contentType: command.contentType,
+      textLength: text.length,
+      chunkCount: chunks.length,
+    });
+
+    return document;
+  }
+
+  async listDocuments(): Promise<KnowledgeDocument[]> {
+    return this.knowledgeRepository.findDocuments();
+  }
+
+  async deleteDocument(documentId: string): Promise<void> {
+    const document = await this.knowledgeRepository.findDocument(documentId);
+    if (!document) {
+      throw new EntityNotFoundError('KnowledgeDocument', documentId);
+    }
+
+    await this.knowledgeRepository.deleteDocument(documentId);
+    const ids = Array.from({ length: document.chunkCount }).map(
+      (_, index) => `${documentId}#${index}`
+    );
+    await this.vectorIndex.delete(ids);
+    ids.forEach(id => this.indexedIds.delete(id));
+
+    logger.info('Deleted knowledge document', { documentId });
+  }
+
+  async retrieve(question: string): Promise<RetrievedPassage[]> {
+    try {
+      await this.refreshIndex();
+      if ((await this.vectorIndex.size()) === 0) {
+        return [];
+      }
+
+      const [vector] = await this.embeddingService.embed([question]);
+      const matches = await this.vectorIndex.query(vector, this.config.topK);
+
+      return matches
+        .filter(match => match.score >= this.config.minScore)
+        .map(match => ({
+          documentId: String(match.metadata.documentId),
+          title: String(match.metadata.title),
+          chunkIndex: Number(match.metadata.chunkIndex),
+          content: String(match.metadata.content),
+          score: match.score,
+        }));
+    } catch (error) {
+      // Answer without the knowledge base rather than fail the message
+      logger.warn('Failed to retrieve knowledge passages', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Reload the index from the stored chunks once it is older than the refresh
+   * interval, so documents ingested or deleted by other Lambdas are seen
+   */
+  private async refreshIndex(): Promise<void> {
+    if (Date.now() - this.indexLoadedAt < this.config.indexRefreshInterval) {
+      return;
+    }
+
+    const [documents, chunks] = await Promise.all([
+      this.knowledgeRepository.findDocuments(),
+      this.knowledgeRepository.findAllChunks(),
+    ]);
+    const titles = new Map(
+      documents.map(document => [document.id, document.title])
+    );
+    // Chunks of a document still being saved or deleted have no document item
+    const current = chunks.filter(chunk => titles.has(chunk.documentId));
+
+    const currentIds = new Set(current.map(chunk => chunk.id));
+    await this.vectorIndex.delete(
+      Array.from(this.indexedIds).filter(id => !currentIds.has(id))
+    );
+    this.indexedIds = new Set();
+    await this.indexChunks(current, titles);
+    this.indexLoadedAt = Date.now();
+
+    logger.debug('Refreshed knowledge index', {
+      documents: documents.length,
+      chunks: current.length,
+    });
+  }
+
+  private async indexChunks(
+    chunks: KnowledgeChunk[],
+    titles: Map<string, string>
+  ): Promise<void> {
+    await this.vectorIndex.upsert(
+      chunks.map(chunk => ({
+        id: chunk.id,
+        vector: chunk.embedding,
+        metadata: {
+          documentId: chunk.documentId,
+          title: titles.get(chunk.documentId) || '',
+          chunkIndex: chunk.index,
+          content: chunk.content,
+        },
+      }))
+    );
+    chunks.forEach(chunk => this.indexedIds.add(chunk.id));
+  }
+}
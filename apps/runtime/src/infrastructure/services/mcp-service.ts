@@ -0,0 +1,245 @@
+import { logger } from '@awslambdahackathon/utils/lambda';
+import { MCP_CONFIG } from '@config/constants';
+import { container } from '@config/container';
+import {
+  McpService as DomainMcpService,
+  McpServerSummary,
+} from '@domain/services/mcp-service';
+import {
+  Tool,
+  ToolInputSchema,
+  ToolRegistry,
+} from '@domain/services/tool-registry';
+import {
+  McpClient,
+  mcpContentToText,
+  McpPrompt,
+  McpResource,
+  McpTool,
+} from '@infrastructure/adapters/outbound/mcp';
+import { McpConfig, McpServerConfig } from '@infrastructure/config/mcp-config';
+
+const MAX_LISTED_ITEMS = 25; // Resources or prompts named in a tool description
+
+export class McpService implements DomainMcpService {
+  private readonly config: McpConfig;
+  private readonly toolRegistry: ToolRegistry;
+  private readonly clients = new Map<string, McpClient>();
+  private readonly summaries = new Map<string, McpServerSummary>();
+  private readonly registeredTools: string[] = [];
+  private initialization?: Promise<void>;
+
+  constructor() {
+    this.config = container.get<McpConfig>('McpConfig');
+    this.toolRegistry = container.get<ToolRegistry>('ToolRegistry');
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.initialization) {
+      this.initialization = Promise.all(
+        this.config.servers.map(server => this.connectServer(server))
+      ).then(() => undefined);
+    }
+    return this.initialization;
+  }
+
+  getServers(): McpServerSummary[] {
+    return Array.from(this.summaries.values()).map(summary => ({
+      ...summary,
+    }));
+  }
+
+  async close(): Promise<void> {
+    for (const name of this.registeredTools.splice(0)) {
+      this.toolRegistry.unregister(name);
+    }
+    await Promise.all(
+      Array.from(this.clients.values()).map(client => client.close())
+    );
+    this.clients.clear();
+    this.summaries.clear();
+    this.initialization = undefined;
+  }
+
+  /**
+   * Connect to one server and register its tools, resources and prompts.
+   * A failing server is logged and skipped so the others stay usable.
+   */
+  private async connectServer(server: McpServerConfig): Promise<void> {
+    const client = new McpClient(server, this.config.requestTimeout);
+
+    try {
+      await client.connect();
+      const [tools, resources, prompts] = await Promise.all([
+        client.listTools(),
+        client.listResources(),
+        client.listPrompts(),
+      ]);
+
+      tools.forEach(tool =>
+        this.registerTool(this.createToolProxy(client, tool))
+      );
+      if (resources.length > 0) {
+        this.registerTool(this.createResourceReader(client, resources));
+      }
+      if (prompts.length > 0) {
+        this.registerTool(this.createPromptLoader(client, prompts));
+      }
+
+      this.clients.set(server.name, client);
+      this.summaries.set(server.name, {
+        name: server.name,
+        connected: true,
+        toolCount: tools.length,
+        resourceCount: resources.length,
+        promptCount: prompts.length,
+      });
+
+      logger.info('MCP server capabilities registered', {
+        server: server.name,
+        toolCount: tools.length,
+        resourceCount: resources.length,
+        promptCount: prompts.length,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('Failed to connect to MCP server', {
+        server: server.name,
+        transport: server.transport,
+        error: message,
+      });
+      this.summaries.set(server.name, {
+        name: server.name,
+        connected: false,
+        toolCount: 0,
+        resourceCount: 0,
+        promptCount: 0,
+        error: message,
+      });
+      await client.close().catch(() => undefined);
+    }
+  }
+
+  private registerTool(tool: Tool): void {
+    try {
+      this.toolRegistry.register(tool);
+      this.registeredTools.push(tool.name);
+    } catch (error) {
+      logger.warn('Skipping MCP tool', {
+        toolName: tool.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Expose a server tool to the model under a server-qualified name
+   */
+  private createToolProxy(client: McpClient, tool: McpTool): Tool {
+    return {
+      name: this.qualifiedName(client.serverName, tool.name),
+      description:
+        tool.description || `${tool.name} tool from ${client.serverName}`,
+      inputSchema: { ...tool.inputSchema, type: 'object' } as ToolInputSchema,
+      handler: async input => {
+        const result = await client.callTool(tool.name, input);
+        return {
+          content: mcpContentToText(result.content),
+          isError: result.isError,
+        };
+      },
+    };
+  }
+
+  /**
+   * Let the model read any resource the server advertises
+   */
+  private createResourceReader(
+    client: McpClient,
+    resources: McpResource[]
+  ): Tool {
+    const listed = resources
+      .slice(0, MAX_LISTED_ITEMS)
+      .map(
+        resource =>
+          `- ${resource.uri} (${resource.name}${resource.description ? `: ${resource.description}` : ''})`
+      )
+      .join('\n');
+
+    return {
+      name: this.qualifiedName(client.serverName, 'read_resource'),
+      description: `Read a resource from ${client.serverName}. Available resources:\n${listed}`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          uri: { type: 'string', description: 'URI of the resource to read' },
+        },
+        required: ['uri'],
+      },
+      handler: async input => {
+        const contents = await client.readResource(String(input.uri));
+        return {
+          content: contents
+            .map(item => item.text ?? `[binary ${item.mimeType || 'data'}]`)
+            .join('\n'),
+        };
+      },
+    };
+  }
+
+  /**
+   * Let the model load a prompt template the server advertises
+   */
+  private createPromptLoader(client: McpClient, prompts: McpPrompt[]): Tool {
+    const listed = prompts
+      .slice(0, MAX_LISTED_ITEMS)
+      .map(prompt => {
+        const args = (prompt.arguments || [])
+          .map(arg => `${arg.name}${arg.required ? '' : '?'}`)
+          .join(', ');
+        return `- ${prompt.name}(${args})${prompt.description ? `: ${prompt.description}` : ''}`;
+      })
+      .join('\n');
+
+    return {
+      name: this.qualifiedName(client.serverName, 'get_prompt'),
+      description: `Load a prompt template from ${client.serverName}. Available prompts:\n${listed}`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Name of the prompt' },
+          arguments: {
+            type: 'object',
+            description: 'String values for the prompt arguments',
+          },
+        },
+        required: ['name'],
+      },
+      handler: async input => {
+        const args = Object.fromEntries(
+          Object.entries(
+            (input.arguments as Record<string, unknown>) || {}
+          ).map(([key, value]) => [key, String(value)])
+        );
+        const messages = await client.getPrompt(String(input.name), args);
+        return {
+          content: messages
+            .map(
+              message =>
+                `${message.role}: ${mcpContentToText([message.content])}`
+            )
+            .join('\n\n'),
+        };
+      },
+    };
+  }
+
+  /**
+   * Build a model-safe tool name: <server>__<name>, at most 64 characters
+   */
+  private qualifiedName(server: string, name: string): string {
+    return `${server}${MCP_CONFIG.TOOL_NAME_SEPARATOR}${name}`
+      .replace(/[^a-zA-Z0-9_-]/g, '_')
+      .slice(0, 64);
+  }
+}
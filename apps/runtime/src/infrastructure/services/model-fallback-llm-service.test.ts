@@ -0,0 +1,229 @@
+import { container } from '@config/container';
+import {
+  LLMModel,
+  LLMRequest,
+  LLMResponse,
+} from '@domain/services/llm-service';
+import { ToolDefinition } from '@domain/services/tool-registry';
+import { ModelFallbackConfig } from '@infrastructure/config/model-fallback-config';
+import { CircuitBreakerService } from '@infrastructure/services/circuit-breaker-service';
+import { ModelFallbackLLMService } from '@infrastructure/services/model-fallback-llm-service';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@config/container', () => ({ container: { get: vi.fn() } }));
+
+// Claude 3 Opus stands in for a model without tool use
+vi.mock('@awslambdahackathon/types', async importOriginal => {
+  const actual =
+    await importOriginal<typeof import('@awslambdahackathon/types')>();
+  return {
+    ...actual,
+    getModelDefinition: (model: LLMModel) => {
+      const definition = actual.getModelDefinition(model);
+      return model === 'claude-3-opus'
+        ? {
+            ...definition,
+            capabilities: { ...definition.capabilities, tools: false },
+          }
+        : definition;
+    },
+  };
+});
+
+const request: LLMRequest = {
+  messageId: 'message-1',
+  userId: 'user-1',
+  sessionId: 'session-1',
+  message: 'Hello',
+  model: 'nova-micro',
+};
+
+const succeeded = (model: LLMModel): LLMResponse => ({
+  success: true,
+  messageId: request.messageId,
+  response: `answer from ${model}`,
+  model,
+});
+
+const failed = (retryable: boolean): LLMResponse => ({
+  success: false,
+  messageId: request.messageId,
+  error: retryable ? 'ThrottlingException' : 'ValidationException',
+  retryable,
+});
+
+describe('ModelFallbackLLMService', () => {
+  let llmService: {
+    generateResponse: ReturnType<typeof vi.fn>;
+    generateResponseStream: ReturnType<typeof vi.fn>;
+    getSupportedModels: ReturnType<typeof vi.fn>;
+  };
+  let performanceMonitoringService: {
+    recordBusinessMetric: ReturnType<typeof vi.fn>;
+  };
+  let config: ModelFallbackConfig;
+
+  const createService = () => {
+    const instances: Record<string, unknown> = {
+      LLMService: llmService,
+      StreamingLLMService: llmService,
+      CircuitBreakerService: new CircuitBreakerService(),
+      PerformanceMonitoringService: performanceMonitoringService,
+      ModelFallbackConfig: config,
+    };
+    vi.mocked(container.get).mockImplementation(
+      token => instances[token as string]
+    );
+    return new ModelFallbackLLMService();
+  };
+
+  // Models the generate mock was called with, in order
+  const attempted = (mock: ReturnType<typeof vi.fn>) =>
+    mock.mock.calls.map(([sent]) => (sent as LLMRequest).model);
+
+  beforeEach(() => {
+    llmService = {
+      generateResponse: vi.fn(),
+      generateResponseStream: vi.fn(),
+      getSupportedModels: vi
+        .fn()
+        .mockReturnValue([
+          'nova-micro',
+          'nova-lite',
+          'claude-3-haiku',
+          'claude-3-opus',
+        ]),
+    };
+    performanceMonitoringService = { recordBusinessMetric: vi.fn() };
+    config = {
+      chain: ['nova-lite', 'claude-3-haiku'],
+      circuitBreaker: { failureThreshold: 2, minimumRequestCount: 1 },
+    };
+  });
+
+  it('builds a de-duplicated chain of supported models', () => {
+    config.chain = ['nova-lite', 'nova-micro', 'claude-3-sonnet'];
+
+    expect(createService().getChain('nova-micro')).toEqual([
+      'nova-micro',
+      'nova-lite',
+    ]);
+    expect(createService().getChain(undefined)).toEqual([
+      'nova-lite',
+      'nova-micro',
+    ]);
+  });
+
+  it('serves the requested model when it succeeds', async () => {
+    llmService.generateResponse.mockResolvedValue(succeeded('nova-micro'));
+
+    const response = await createService().generateResponse(request);
+
+    expect(response).toMatchObject({ success: true, model: 'nova-micro' });
+    expect(attempted(llmService.generateResponse)).toEqual(['nova-micro']);
+  });
+
+  it('falls back to the next model after a transient failure', async () => {
+    llmService.generateResponse
+      .mockResolvedValueOnce(failed(true))
+      .mockResolvedValueOnce(succeeded('nova-lite'));
+
+    const response = await createService().generateResponse(request);
+
+    expect(response).toMatchObject({ success: true, model: 'nova-lite' });
+    expect(attempted(llmService.generateResponse)).toEqual([
+      'nova-micro',
+      'nova-lite',
+    ]);
+    expect(
+      performanceMonitoringService.recordBusinessMetric
+    ).toHaveBeenCalledWith(
+      'llm_response_generation_duration',
+      expect.any(Number),
+      'Milliseconds',
+      expect.anything(),
+      expect.arrayContaining([{ Name: 'Fallback', Value: 'true' }])
+    );
+  });
+
+  it('returns a rejected request without trying other models', async () => {
+    llmService.generateResponse.mockResolvedValue(failed(false));
+
+    const response = await createService().generateResponse(request);
+
+    expect(response).toMatchObject({
+      success: false,
+      error: 'ValidationException',
+      model: 'nova-micro',
+    });
+    expect(attempted(llmService.generateResponse)).toEqual(['nova-micro']);
+  });
+
+  it('reports every attempt when the whole chain fails', async () => {
+    llmService.generateResponse.mockResolvedValue(failed(true));
+
+    const response = await createService().generateResponse(request);
+
+    expect(response.success).toBe(false);
+    expect(response.error).toBe(
+      'All models failed: nova-micro: ThrottlingException; ' +
+        'nova-lite: ThrottlingException; claude-3-haiku: ThrottlingException'
+    );
+  });
+
+  it('skips models whose circuit is open', async () => {
+    const service = createService();
+    llmService.generateResponse.mockImplementation(async (sent: LLMRequest) =>
+      sent.model === 'nova-micro' ? failed(true) : succeeded(sent.model!)
+    );
+
+    await service.generateResponse(request);
+    await service.generateResponse(request);
+    llmService.generateResponse.mockClear();
+    await service.generateResponse(request);
+
+    expect(attempted(llmService.generateResponse)).toEqual(['nova-lite']);
+    await expect(service.isAvailable()).resolves.toBe(true);
+  });
+
+  it('does not fall back once text has been streamed', async () => {
+    llmService.generateResponseStream.mockImplementation(
+      async (sent: LLMRequest, onChunk) => {
+        await onChunk({ messageId: sent.messageId, text: 'Hel', index: 0 });
+        return failed(true);
+      }
+    );
+    const onChunk = vi.fn();
+
+    const response = await createService().generateResponseStream(
+      request,
+      onChunk
+    );
+
+    expect(response.success).toBe(false);
+    expect(onChunk).toHaveBeenCalledTimes(1);
+    expect(attempted(llmService.generateResponseStream)).toEqual([
+      'nova-micro',
+    ]);
+  });
+
+  it('drops the tools for fallback models without tool use', async () => {
+    config.chain = ['claude-3-opus'];
+    llmService.generateResponse
+      .mockResolvedValueOnce(failed(true))
+      .mockResolvedValueOnce(succeeded('claude-3-opus'));
+    const tools: ToolDefinition[] = [
+      {
+        name: 'current_time',
+        description: 'Current time',
+        inputSchema: { type: 'object' },
+      },
+    ];
+
+    await createService().generateResponse({ ...request, tools });
+
+    const [[first], [second]] = llmService.generateResponse.mock.calls;
+    expect(first.tools).toEqual(tools);
+    expect(second.tools).toBeUndefined();
+  });
+});
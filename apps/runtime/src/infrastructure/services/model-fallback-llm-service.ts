@@ -0,0 +1,228 @@
+import { getModelDefinition } from '@awslambdahackathon/types';
+import { logger } from '@awslambdahackathon/utils/lambda';
+import { container } from '@config/container';
+import { CircuitBreakerService } from '@domain/services/circuit-breaker-service';
+import {
+  LLMModel,
+  LLMRequest,
+  LLMResponse,
+  LLMService,
+  LLMStreamHandler,
+  StreamingLLMService,
+} from '@domain/services/llm-service';
+import { PerformanceMonitoringService } from '@domain/services/performance-monitoring-service';
+import { ModelFallbackConfig } from '@infrastructure/config/model-fallback-config';
+import { CircuitState } from '@infrastructure/services/circuit-breaker-service';
+
+/**
+ * Tries the requested model and then each model of the fallback chain, each
+ * behind its own circuit breaker, returning the first successful response.
+ * Only transient failures (throttling, timeouts, server errors) count against
+ * a model and move on to the next one.
+ */
+export class ModelFallbackLLMService implements StreamingLLMService {
+  private readonly llmService: LLMService;
+  private readonly streamingLLMService: StreamingLLMService;
+  private readonly circuitBreakerService: CircuitBreakerService;
+  private readonly performanceMonitoringService: PerformanceMonitoringService;
+  private readonly config: ModelFallbackConfig;
+
+  constructor() {
+    this.llmService = container.get<LLMService>('LLMService');
+    this.streamingLLMService = container.get<StreamingLLMService>(
+      'StreamingLLMService'
+    );
+    this.circuitBreakerService = container.get<CircuitBreakerService>(
+      'CircuitBreakerService'
+    );
+    this.performanceMonitoringService =
+      container.get<PerformanceMonitoringService>(
+        'PerformanceMonitoringService'
+      );
+    this.config = container.get<ModelFallbackConfig>('ModelFallbackConfig');
+  }
+
+  async generateResponse(request: LLMRequest): Promise<LLMResponse> {
+    return this.generateWithFallback(request, model =>
+      this.llmService.generateResponse(this.forModel(request, model))
+    );
+  }
+
+  async generateResponseStream(
+    request: LLMRequest,
+    onChunk: LLMStreamHandler
+  ): Promise<LLMResponse> {
+    let streamed = false;
+
+    return this.generateWithFallback(
+      request,
+      model =>
+        this.streamingLLMService.generateResponseStream(
+          this.forModel(request, model),
+          async chunk => {
+            streamed = true;
+            await onChunk(chunk);
+          }
+        ),
+      // Once text has reached the client a retry would duplicate it
+      () => !streamed
+    );
+  }
+
+  async validateRequest(
+    request: LLMRequest
+  ): Promise<{ success: boolean; error?: string }> {
+    return this.streamingLLMService.validateRequest(request);
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return this.getChain(undefined).some(
+      model => this.getCircuitState(model) !== CircuitState.OPEN
+    );
+  }
+
+  getSupportedModels(): LLMModel[] {
+    return this.streamingLLMService.getSupportedModels();
+  }
+
+  /**
+   * Ordered, de-duplicated list of models to try for a request
+   */
+  getChain(requested: LLMModel | undefined): LLMModel[] {
+    const supported = this.getSupportedModels();
+    const chain = requested
+      ? [requested, ...this.config.chain]
+      : this.config.chain;
+
+    return chain.filter(
+      (model, index) =>
+        supported.includes(model) && chain.indexOf(model) === index
+    );
+  }
+
+  /**
+   * The request as sent to one model of the chain. Tools were chosen for the
+   * requested model, so models without tool use get none.
+   */
+  private forModel(request: LLMRequest, model: LLMModel): LLMRequest {
+    return {
+      ...request,
+      model,
+      tools: getModelDefinition(model).capabilities.tools
+        ? request.tools
+        : undefined,
+    };
+  }
+
+  private async generateWithFallback(
+    request: LLMRequest,
+    generate: (model: LLMModel) => Promise<LLMResponse>,
+    canFallBack: () => boolean = () => true
+  ): Promise<LLMResponse> {
+    const chain = this.getChain(request.model);
+    const errors: string[] = [];
+
+    for (const model of chain) {
+      const startTime = Date.now();
+
+      try {
+        const response = await this.circuitBreakerService.execute(
+          `llm:${model}`,
+          'generate_response',
+          async () => {
+            const result = await generate(model);
+            if (!result.success && result.retryable) {
+              // Throw so the breaker counts the failure
+              throw new Error(result.error || 'LLM generation failed');
+            }
+            return result;
+          },
+          undefined,
+          this.config.circuitBreaker
+        );
+
+        // A rejected request would fail on every model; a cancelled one is done
+        if (!response.success) {
+          logger.warn('LLM request rejected by model', {
+            messageId: request.messageId,
+            model,
+            error: response.error,
+          });
+          return { ...response, model: response.model || model };
+        }
+
+        this.recordDuration(request, model, Date.now() - startTime);
+
+        if (model !== chain[0]) {
+          logger.warn('LLM response served by fallback model', {
+            messageId: request.messageId,
+            requestedModel: chain[0],
+            model,
+            failedAttempts: errors.length,
+          });
+        }
+
+        return { ...response, model: response.model || model };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        errors.push(`${model}: ${message}`);
+
+        logger.warn('LLM model attempt failed', {
+          messageId: request.messageId,
+          model,
+          error: message,
+        });
+
+        if (!canFallBack() || request.abortSignal?.aborted) {
+          break;
+        }
+      }
+    }
+
+    logger.error('All models in the fallback chain failed', {
+      messageId: request.messageId,
+      chain,
+      errors,
+    });
+
+    return {
+      success: false,
+      messageId: request.messageId,
+      error: errors.length
+        ? `All models failed: ${errors.join('; ')}`
+        : 'No supported model available',
+    };
+  }
+
+  private recordDuration(
+    request: LLMRequest,
+    model: LLMModel,
+    duration: number
+  ): void {
+    const requestedModel = request.model || this.config.chain[0];
+
+    this.performanceMonitoringService.recordBusinessMetric(
+      'llm_response_generation_duration',
+      duration,
+      'Milliseconds',
+      {
+        messageId: request.messageId,
+        userId: request.userId,
+        sessionId: request.sessionId,
+        model,
+      },
+      [
+        { Name: 'Model', Value: model },
+        { Name: 'RequestedModel', Value: requestedModel },
+        { Name: 'Fallback', Value: String(model !== requestedModel) },
+      ]
+    );
+  }
+
+  private getCircuitState(model: LLMModel): CircuitState | undefined {
+    return this.circuitBreakerService.getCircuitBreakerStats(
+      `llm:${model}`,
+      'generate_response'
+    )?.state;
+  }
+}
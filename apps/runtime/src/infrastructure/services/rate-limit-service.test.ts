@@ -0,0 +1,122 @@
+import { container } from '@config/container';
+import { User, UserGroup } from '@domain/entities/user';
+import { RateLimitConfig } from '@infrastructure/config/rate-limit-config';
+import { RateLimitService } from '@infrastructure/services/rate-limit-service';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@config/container', () => ({ container: { get: vi.fn() } }));
+
+// 15 seconds into the one-minute window starting at 1704110400
+const NOW = new Date('2024-01-01T12:00:15.000Z');
+const WINDOW_START = 1704110400;
+
+describe('RateLimitService', () => {
+  let repository: {
+    getCount: ReturnType<typeof vi.fn>;
+    increment: ReturnType<typeof vi.fn>;
+  };
+  let config: RateLimitConfig;
+
+  const createService = () => {
+    const instances: Record<string, unknown> = {
+      RateLimitRepository: repository,
+      RateLimitConfig: config,
+    };
+    vi.mocked(container.get).mockImplementation(
+      token => instances[token as string]
+    );
+    return new RateLimitService();
+  };
+
+  const user = (groups: UserGroup[] = ['user']) =>
+    User.create('user-1', 'user1', groups);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    repository = {
+      getCount: vi.fn().mockResolvedValue(0),
+      increment: vi.fn().mockResolvedValue(true),
+    };
+    config = {
+      enabled: true,
+      windowSeconds: 60,
+      groupLimits: { guest: 20, moderator: 200 },
+      defaultLimit: 100,
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts the request in the current window', async () => {
+    await createService().consume(user());
+
+    expect(repository.getCount).toHaveBeenCalledWith(
+      expect.anything(),
+      WINDOW_START - 60
+    );
+    expect(repository.increment).toHaveBeenCalledWith(
+      expect.anything(),
+      WINDOW_START,
+      100,
+      WINDOW_START + 120
+    );
+  });
+
+  it('carries over the part of the previous window still in the sliding window', async () => {
+    repository.getCount.mockResolvedValue(40);
+
+    await createService().consume(user());
+
+    // 45 of the previous window's 60 seconds overlap: 40 * 45 / 60 = 30
+    expect(repository.increment).toHaveBeenCalledWith(
+      expect.anything(),
+      WINDOW_START,
+      70,
+      WINDOW_START + 120
+    );
+  });
+
+  it('rejects a request the window has no room for', async () => {
+    repository.increment.mockResolvedValue(false);
+
+    await expect(createService().consume(user())).rejects.toMatchObject({
+      code: 'MESSAGE_RATE_LIMIT_EXCEEDED',
+      details: { limit: 100, timeWindow: 60, retryAfter: 45 },
+    });
+  });
+
+  it('rejects without counting when the carried over requests fill the window', async () => {
+    repository.getCount.mockResolvedValue(200);
+
+    await expect(createService().consume(user())).rejects.toMatchObject({
+      code: 'MESSAGE_RATE_LIMIT_EXCEEDED',
+    });
+    expect(repository.increment).not.toHaveBeenCalled();
+  });
+
+  it('applies the most generous limit of the user groups', async () => {
+    await createService().consume(user(['guest', 'moderator']));
+    expect(repository.increment.mock.calls[0][2]).toBe(200);
+
+    await createService().consume(user(['guest', 'user']));
+    expect(repository.increment.mock.calls[1][2]).toBe(100);
+  });
+
+  it('allows the request when the counter cannot be read', async () => {
+    repository.getCount.mockRejectedValue(new Error('unavailable'));
+
+    await expect(createService().consume(user())).resolves.toBeUndefined();
+  });
+
+  it('does nothing when disabled', async () => {
+    config.enabled = false;
+
+    await createService().consume(user());
+
+    expect(repository.getCount).not.toHaveBeenCalled();
+    expect(repository.increment).not.toHaveBeenCalled();
+  });
+});
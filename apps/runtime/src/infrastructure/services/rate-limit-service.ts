@@ -0,0 +1,88 @@
+import { logger } from '@awslambdahackathon/utils/lambda';
+import { container } from '@config/container';
+import { User } from '@domain/entities/user';
+import { MessageRateLimitExceededException } from '@domain/errors/domain-errors';
+import { RateLimitRepository } from '@domain/repositories/rate-limit';
+import { RateLimitService as DomainRateLimitService } from '@domain/services/rate-limit-service';
+import { RateLimitConfig } from '@infrastructure/config/rate-limit-config';
+
+/**
+ * Sliding window limiter. The previous window's count is weighted by how much
+ * of it still overlaps the sliding window, and the current window is counted
+ * with a conditional write so the limit holds across Lambda instances.
+ */
+export class RateLimitService implements DomainRateLimitService {
+  private readonly rateLimitRepository: RateLimitRepository;
+  private readonly config: RateLimitConfig;
+
+  constructor() {
+    this.rateLimitRepository = container.get<RateLimitRepository>(
+      'RateLimitRepository'
+    );
+    this.config = container.get<RateLimitConfig>('RateLimitConfig');
+  }
+
+  async consume(user: User): Promise<void> {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    const userId = user.getId();
+    const limit = this.resolveLimit(user);
+    const windowSeconds = this.config.windowSeconds;
+    const now = Date.now() / 1000;
+    const windowStart = Math.floor(now / windowSeconds) * windowSeconds;
+    const elapsed = now - windowStart;
+
+    let allowed: boolean;
+    try {
+      const previousCount = await this.rateLimitRepository.getCount(
+        userId,
+        windowStart - windowSeconds
+      );
+      const carriedOver = Math.floor(
+        previousCount * ((windowSeconds - elapsed) / windowSeconds)
+      );
+      const maxCount = limit - carriedOver;
+
+      allowed =
+        maxCount > 0 &&
+        (await this.rateLimitRepository.increment(
+          userId,
+          windowStart,
+          maxCount,
+          windowStart + windowSeconds * 2
+        ));
+    } catch (error) {
+      // An unavailable counter must not take the chat down; allow the request
+      logger.error('Failed to apply rate limit', {
+        userId: userId.getValue(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    if (!allowed) {
+      throw new MessageRateLimitExceededException(
+        userId.getValue(),
+        windowSeconds,
+        {
+          limit,
+          retryAfter: Math.max(1, Math.ceil(windowSeconds - elapsed)),
+        }
+      );
+    }
+  }
+
+  /**
+   * Most generous limit among the user's groups; groups without a configured
+   * limit use the default
+   */
+  private resolveLimit(user: User): number {
+    const limits = user
+      .getGroups()
+      .map(group => this.config.groupLimits[group] ?? this.config.defaultLimit);
+
+    return limits.length > 0 ? Math.max(...limits) : this.config.defaultLimit;
+  }
+}
@@ -0,0 +1,380 @@
+import { logger } from '@awslambdahackathon/utils/lambda';
+import { SESSION_CONFIG } from '@config/constants';
+import { container } from '@config/container';
+import {
+  Message,
+  MessageRole,
+  MessageStatus,
+  MessageType,
+} from '@domain/entities/message';
+import { Session, SessionStatus } from '@domain/entities/session';
+import {
+  EntityNotFoundError,
+  ValidationError,
+} from '@domain/errors/domain-errors';
+import { MessageRepository } from '@domain/repositories/message';
+import { SessionRepository } from '@domain/repositories/session';
+import {
+  ConversationContextService,
+  ConversationSummary,
+} from '@domain/services/conversation-context-service';
+import { StreamingLLMService } from '@domain/services/llm-service';
+import {
+  SessionService as DomainSessionService,
+  PagedResult,
+} from '@domain/services/session-service';
+import { UsageService } from '@domain/services/usage-service';
+import { MessageId, SessionId, UserId } from '@domain/value-objects';
+
+import {
+  CursorPaginationDto,
+  PaginationUtils,
+} from '@/shared/dto/base/pagination.dto';
+
+export class SessionService implements DomainSessionService {
+  private readonly sessionRepository: SessionRepository;
+  private readonly messageRepository: MessageRepository;
+  private readonly llmService: StreamingLLMService;
+  private readonly usageService: UsageService;
+  private readonly conversationContextService: ConversationContextService;
+
+  constructor() {
+    this.sessionRepository =
+      container.get<SessionRepository>('SessionRepository');
+    this.messageRepository =
+      container.get<MessageRepository>('MessageRepository');
+    // Titles go straight to the cheap model; no fallback chain needed
+    this.llmService = container.get<StreamingLLMService>('StreamingLLMService');
+    this.usageService = container.get<UsageService>('UsageService');
+    this.conversationContextService = container.get<ConversationContextService>(
+      'ConversationContextService'
+    );
+  }
+
+  async touchConversation(userId: UserId, sessionId: SessionId): Promise<void> {
+    const session = await this.sessionRepository.findById(sessionId);
+
+    if (!session) {
+      const now = new Date();
+      await this.sessionRepository.save(
+        Session.fromData({
+          id: sessionId.getValue(),
+          userId: userId.getValue(),
+          status: SessionStatus.ACTIVE,
+          createdAt: now,
+          lastActivityAt: now,
+          expiresAt: new Date(
+            now.getTime() + SESSION_CONFIG.CONVERSATION_DURATION_MINUTES * 60000
+          ),
+          metadata: { kind: SESSION_CONFIG.CONVERSATION_KIND },
+          maxDurationInMinutes: SESSION_CONFIG.CONVERSATION_DURATION_MINUTES,
+          username: '',
+        })
+      );
+      return;
+    }
+
+    this.assertOwner(session, userId);
+    await this.sessionRepository.updateActivity(sessionId);
+  }
+
+  async listSessions(
+    userId: UserId,
+    pagination: CursorPaginationDto
+  ): Promise<PagedResult<Session>> {
+    const [page, total] = await Promise.all([
+      this.sessionRepository.findConversationsByUser(userId, pagination),
+      this.sessionRepository.countConversationsByUser(userId),
+    ]);
+
+    return {
+      items: page.items,
+      pagination: PaginationUtils.calculateCursorMeta(total, pagination, page),
+    };
+  }
+
+  async getMessages(
+    userId: UserId,
+    sessionId: SessionId,
+    pagination: CursorPaginationDto
+  ): Promise<PagedResult<Message>> {
+    await this.findOwnedSession(userId, sessionId);
+
+    const [page, total] = await Promise.all([
+      this.messageRepository.findPageBySession(sessionId, pagination),
+      this.messageRepository.countBySession(sessionId),
+    ]);
+
+    return {
+      items: page.items,
+      pagination: PaginationUtils.calculateCursorMeta(total, pagination, page),
+    };
+  }
+
+  async getMissedMessages(
+    userId: UserId,
+    sessionId: SessionId,
+    lastMessageId?: MessageId
+  ): Promise<Message[]> {
+    await this.findOwnedSession(userId, sessionId);
+
+    const lastMessage = lastMessageId
+      ? await this.messageRepository.findById(lastMessageId)
+      : null;
+
+    // Without a known last message only stored undelivered responses are sent;
+    // the client loads the rest of the history itself
+    const [after, pending] = await Promise.all([
+      lastMessage && lastMessage.getSessionId().equals(sessionId)
+        ? this.messageRepository.findAfter(
+            sessionId,
+            lastMessage,
+            SESSION_CONFIG.REPLAY_LIMIT
+          )
+        : Promise.resolve([]),
+      this.messageRepository.findPendingBySession(sessionId),
+    ]);
+
+    const missed = new Map<string, Message>();
+    for (const message of [...after, ...pending]) {
+      if (
+        message.getRole() === MessageRole.ASSISTANT &&
+        message.getType() === MessageType.TEXT
+      ) {
+        missed.set(message.getId().getValue(), message);
+      }
+    }
+
+    return [...missed.values()].sort(
+      (a, b) => a.getCreatedAt().getTime() - b.getCreatedAt().getTime()
+    );
+  }
+
+  async getThread(
+    userId: UserId,
+    sessionId: SessionId,
+    messageId: MessageId
+  ): Promise<Message[]> {
+    await this.findOwnedSession(userId, sessionId);
+
+    // Follow-ups reply to the answer and each response replies to its
+    // follow-up; both carry the answer as their thread
+    const inThread = (message: Message) =>
+      message.getSessionId().equals(sessionId) &&
+      message.getMetadata().threadId === messageId.getValue();
+    const prompts = (
+      await this.messageRepository.findReplies(messageId)
+    ).filter(inThread);
+    const responses = await Promise.all(
+      prompts.map(prompt => this.messageRepository.findReplies(prompt.getId()))
+    );
+
+    return [...prompts, ...responses.flat().filter(inThread)].sort(
+      (a, b) => a.getCreatedAt().getTime() - b.getCreatedAt().getTime()
+    );
+  }
+
+  async getSummary(
+    userId: UserId,
+    sessionId: SessionId
+  ): Promise<ConversationSummary | null> {
+    await this.findOwnedSession(userId, sessionId);
+
+    return this.conversationContextService.getSummary(sessionId);
+  }
+
+  async storeUndelivered(message: Message): Promise<void> {
+    await this.messageRepository.updateStatus(message.markAsPending());
+  }
+
+  async markDelivered(messages: Message[]): Promise<void> {
+    await Promise.all(
+      messages
+        .filter(message => message.getStatus() === MessageStatus.PENDING)
+        .map(message =>
+          this.messageRepository.updateStatus(message.markAsDelivered())
+        )
+    );
+  }
+
+  async recordReceipt(
+    userId: UserId,
+    sessionId: SessionId,
+    messageIds: MessageId[],
+    status: MessageStatus.DELIVERED | MessageStatus.READ
+  ): Promise<Message[]> {
+    await this.findOwnedSession(userId, sessionId);
+
+    const messages = new Map<string, Message>();
+    const load = async (ids: MessageId[]) => {
+      const found = await Promise.all(
+        ids.map(id => this.messageRepository.findById(id))
+      );
+      for (const message of found) {
+        if (message && message.getSessionId().equals(sessionId)) {
+          messages.set(message.getId().getValue(), message);
+        }
+      }
+    };
+
+    await load(messageIds);
+    // A response reaching the user also settles the message it answers
+    await load(
+      [...messages.values()]
+        .map(message => message.getReplyToMessageId())
+        .filter((id): id is MessageId => !!id && !messages.has(id.getValue()))
+    );
+
+    const updated = [...messages.values()]
+      .filter(
+        message =>
+          !message.isFailed() &&
+          (status === MessageStatus.READ
+            ? !message.isRead()
+            : !message.isDelivered())
+      )
+      .map(message =>
+        status === MessageStatus.READ
+          ? message.markAsRead()
+          : message.markAsDelivered()
+      );
+
+    await Promise.all(
+      updated.map(message => this.messageRepository.updateStatus(message))
+    );
+    return updated;
+  }
+
+  async generateTitle(
+    userId: UserId,
+    sessionId: SessionId,
+    prompt: string,
+    reply: string
+  ): Promise<Session | null> {
+    try {
+      const session = await this.sessionRepository.findById(sessionId);
+      if (
+        !session ||
+        !session.getUserId().equals(userId) ||
+        session.getMetadata().title
+      ) {
+        return null;
+      }
+
+      const excerpt = (text: string) =>
+        text.trim().slice(0, SESSION_CONFIG.TITLE_EXCERPT_LENGTH);
+      const result = await this.llmService.generateResponse({
+        messageId: `title_${sessionId.getValue()}`,
+        userId: userId.getValue(),
+        sessionId: sessionId.getValue(),
+        message: `User: ${excerpt(prompt)}\n\nAssistant: ${excerpt(reply)}`,
+        model: SESSION_CONFIG.TITLE_MODEL,
+        maxTokens: SESSION_CONFIG.TITLE_MAX_TOKENS,
+        temperature: 0.2,
+        systemPrompt: SESSION_CONFIG.TITLE_SYSTEM_PROMPT,
+      });
+
+      if (result.usage) {
+        await this.usageService.recordUsage(
+          userId,
+          sessionId,
+          result.model || SESSION_CONFIG.TITLE_MODEL,
+          result.usage
+        );
+      }
+
+      const title = this.cleanTitle(result.response || '');
+      if (!result.success || !title) {
+        logger.warn('No conversation title generated', {
+          sessionId: sessionId.getValue(),
+          error: result.error,
+        });
+        return null;
+      }
+
+      // Re-read so a rename made while the model was running is kept
+      const latest = await this.sessionRepository.findById(sessionId);
+      if (!latest || latest.getMetadata().title) {
+        return null;
+      }
+
+      const titled = latest
+        .addMetadata('title', title)
+        .addMetadata('titleSource', 'auto');
+      await this.sessionRepository.save(titled);
+
+      return titled;
+    } catch (error) {
+      logger.error('Failed to generate conversation title', {
+        sessionId: sessionId.getValue(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  async renameSession(
+    userId: UserId,
+    sessionId: SessionId,
+    title: string
+  ): Promise<Session> {
+    const trimmed = title.trim();
+    if (
+      trimmed.length === 0 ||
+      trimmed.length > SESSION_CONFIG.MAX_TITLE_LENGTH
+    ) {
+      throw new ValidationError(
+        `Title must be between 1 and ${SESSION_CONFIG.MAX_TITLE_LENGTH} characters`,
+        'title'
+      );
+    }
+
+    const session = await this.findOwnedSession(userId, sessionId);
+    const renamed = session
+      .addMetadata('title', trimmed)
+      .addMetadata('titleSource', 'user');
+    await this.sessionRepository.save(renamed);
+
+    return renamed;
+  }
+
+  async deleteSession(userId: UserId, sessionId: SessionId): Promise<void> {
+    await this.findOwnedSession(userId, sessionId);
+
+    // Messages first, so a failure leaves the session listed for a retry
+    await this.messageRepository.deleteBySession(sessionId);
+    await this.sessionRepository.delete(sessionId);
+  }
+
+  // Models sometimes wrap the title in quotes or end it with a full stop
+  private cleanTitle(raw: string): string {
+    const firstLine = raw.trim().split('\n')[0] || '';
+    return firstLine
+      .replace(/^(title:\s*)/i, '')
+      .replace(/^["'`*]+|["'`*]+$/g, '')
+      .replace(/[.!?:;,]+$/, '')
+      .trim()
+      .slice(0, SESSION_CONFIG.MAX_TITLE_LENGTH)
+      .trim();
+  }
+
+  private async findOwnedSession(
+    userId: UserId,
+    sessionId: SessionId
+  ): Promise<Session> {
+    const session = await this.sessionRepository.findById(sessionId);
+    if (!session) {
+      throw new EntityNotFoundError('Session', sessionId.getValue());
+    }
+
+    this.assertOwner(session, userId);
+    return session;
+  }
+
+  // Other users' sessions are reported as missing so their ids do not leak
+  private assertOwner(session: Session, userId: UserId): void {
+    if (!session.getUserId().equals(userId)) {
+      throw new EntityNotFoundError('Session', session.getId().getValue());
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { logger } from '@awslambdahackathon/utils/lambda';
+import { container } from '@config/container';
+import { MessageRepository } from '@domain/repositories/message';
+import {
+  Tool,
+  ToolDefinition,
+  ToolExecutionContext,
+  ToolInputSchema,
+  ToolRegistry,
+  ToolResult,
+} from '@domain/services/tool-registry';
+import { createSessionStatsTool, currentTimeTool } from '@infrastructure/tools';
+
+export class ToolRegistryService implements ToolRegistry {
+  private readonly tools = new Map<string, Tool>();
+
+  constructor() {
+    // Built-in tools available to every conversation
+    this.register(currentTimeTool);
+    this.register(
+      createSessionStatsTool(
+        container.get<MessageRepository>('MessageRepository')
+      )
+    );
+  }
+
+  register(tool: Tool): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  getDefinitions(): ToolDefinition[] {
+    return Array.from(this.tools.values()).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+    }));
+  }
+
+  async execute(
+    name: string,
+    input: Record<string, unknown>,
+    context: ToolExecutionContext
+  ): Promise<ToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      logger.warn('Model requested an unknown tool', {
+        toolName: name,
+        sessionId: context.sessionId,
+      });
+      return { content: `Unknown tool: ${name}`, isError: true };
+    }
+
+    const validationErrors = this.validateInput(tool.inputSchema, input);
+    if (validationErrors.length > 0) {
+      return {
+        content: `Invalid input for ${name}: ${validationErrors.join(', ')}`,
+        isError: true,
+      };
+    }
+
+    try {
+      const result = await tool.handler(input, context);
+
+      logger.info('Tool executed', {
+        toolName: name,
+        sessionId: context.sessionId,
+        isError: result.isError ?? false,
+      });
+
+      return result;
+    } catch (error) {
+      logger.error('Tool execution failed', {
+        toolName: name,
+        sessionId: context.sessionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return {
+        content: `Tool ${name} failed: ${error instanceof Error ? error.message : String(error)}`,
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * Check required properties and primitive types against the tool's schema
+   */
+  private validateInput(
+    schema: ToolInputSchema,
+    input: Record<string, unknown>
+  ): string[] {
+    const errors: string[] = [];
+
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      return ['input must be an object'];
+    }
+
+    for (const field of schema.required || []) {
+      if (input[field] === undefined) {
+        errors.push(`${field} is required`);
+      }
+    }
+
+    for (const [field, value] of Object.entries(input)) {
+      const expectedType = schema.properties?.[field]?.type;
+      if (
+        typeof expectedType === 'string' &&
+        !this.matchesType(value, expectedType)
+      ) {
+        errors.push(`${field} must be of type ${expectedType}`);
+      }
+    }
+
+    return errors;
+  }
+
+  private matchesType(value: unknown, type: string): boolean {
+    switch (type) {
+      case 'string':
+      case 'boolean':
+        return typeof value === type;
+      case 'number':
+        return typeof value === 'number' && !Number.isNaN(value);
+      case 'integer':
+        return Number.isInteger(value);
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return (
+          typeof value === 'object' && value !== null && !Array.isArray(value)
+        );
+      default:
+        return true;
+    }
+  }
+}
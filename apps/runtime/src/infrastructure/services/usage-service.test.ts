@@ -0,0 +1,202 @@
+import { container } from '@config/container';
+import { User, UserGroup } from '@domain/entities/user';
+import { UsageTotals } from '@domain/repositories/usage';
+import { SessionId, UserId } from '@domain/value-objects';
+import { UsageQuotaConfig } from '@infrastructure/config/usage-quota-config';
+import { UsageService } from '@infrastructure/services/usage-service';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@config/container', () => ({ container: { get: vi.fn() } }));
+
+const userId = UserId.create('user-1');
+const sessionId = SessionId.create('session-1');
+
+const totals = (
+  scope: UsageTotals['scope'],
+  totalTokens: number,
+  estimatedCost = 0
+): UsageTotals => ({
+  userId: 'user-1',
+  scope,
+  key: scope === 'day' ? '2024-03-10' : 'session-1',
+  inputTokens: totalTokens,
+  outputTokens: 0,
+  totalTokens,
+  estimatedCost,
+  requestCount: 1,
+  updatedAt: '2024-03-10T23:00:00.000Z',
+});
+
+describe('UsageService', () => {
+  let usageRepository: {
+    record: ReturnType<typeof vi.fn>;
+    getDailyUsage: ReturnType<typeof vi.fn>;
+    getSessionUsage: ReturnType<typeof vi.fn>;
+  };
+  let userRepository: { findById: ReturnType<typeof vi.fn> };
+  let config: UsageQuotaConfig;
+
+  const createService = (groups?: UserGroup[]) => {
+    userRepository.findById.mockResolvedValue(
+      groups ? User.create('user-1', 'user1', groups) : null
+    );
+    const instances: Record<string, unknown> = {
+      UsageRepository: usageRepository,
+      UserRepository: userRepository,
+      UsageQuotaConfig: config,
+    };
+    vi.mocked(container.get).mockImplementation(
+      token => instances[token as string]
+    );
+    return new UsageService();
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-03-10T23:30:00.000Z'));
+    usageRepository = {
+      record: vi.fn().mockResolvedValue(undefined),
+      getDailyUsage: vi.fn().mockResolvedValue(null),
+      getSessionUsage: vi.fn().mockResolvedValue(null),
+    };
+    userRepository = { findById: vi.fn() };
+    config = {
+      groupQuotas: {
+        admin: {},
+        user: { dailyTokens: 200000, dailyCost: 1 },
+        guest: { dailyTokens: 20000, sessionTokens: 10000 },
+      },
+      defaultQuota: { dailyTokens: 100000 },
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('assertWithinQuota', () => {
+    it('reads the usage of the current UTC day', async () => {
+      await createService(['user']).assertWithinQuota(userId, sessionId);
+
+      expect(usageRepository.getDailyUsage).toHaveBeenCalledWith(
+        userId,
+        '2024-03-10'
+      );
+      expect(usageRepository.getSessionUsage).not.toHaveBeenCalled();
+    });
+
+    it('rejects once the daily tokens are used, until the next UTC day', async () => {
+      usageRepository.getDailyUsage.mockResolvedValue(totals('day', 200000));
+
+      await expect(
+        createService(['user']).assertWithinQuota(userId, sessionId)
+      ).rejects.toMatchObject({
+        code: 'QUOTA_EXCEEDED',
+        details: {
+          quota: 'daily_tokens',
+          limit: 200000,
+          used: 200000,
+          resetAt: '2024-03-11T00:00:00.000Z',
+        },
+      });
+    });
+
+    it('rejects once the daily cost is spent', async () => {
+      usageRepository.getDailyUsage.mockResolvedValue(totals('day', 1000, 1.5));
+
+      await expect(
+        createService(['user']).assertWithinQuota(userId, sessionId)
+      ).rejects.toMatchObject({
+        details: { quota: 'daily_cost', limit: 1, used: 1.5 },
+      });
+    });
+
+    it('rejects once the session tokens are used, without a reset time', async () => {
+      usageRepository.getSessionUsage.mockResolvedValue(
+        totals('session', 10000)
+      );
+
+      const error = await createService(['guest'])
+        .assertWithinQuota(userId, sessionId)
+        .catch(caught => caught);
+
+      expect(usageRepository.getSessionUsage).toHaveBeenCalledWith(
+        userId,
+        sessionId
+      );
+      expect(error.details).toMatchObject({
+        quota: 'session_tokens',
+        sessionId: 'session-1',
+      });
+      expect(error.details.resetAt).toBeUndefined();
+    });
+
+    it('keeps the most generous quota of the user groups', async () => {
+      usageRepository.getDailyUsage.mockResolvedValue(totals('day', 150000));
+
+      await expect(
+        createService(['guest', 'user']).assertWithinQuota(userId, sessionId)
+      ).resolves.toBeUndefined();
+      // Users have no session quota, so the guest one does not apply
+      expect(usageRepository.getSessionUsage).not.toHaveBeenCalled();
+    });
+
+    it('reads nothing for groups without limits', async () => {
+      await createService(['admin']).assertWithinQuota(userId, sessionId);
+
+      expect(usageRepository.getDailyUsage).not.toHaveBeenCalled();
+      expect(usageRepository.getSessionUsage).not.toHaveBeenCalled();
+    });
+
+    it('applies the default quota to unknown users', async () => {
+      usageRepository.getDailyUsage.mockResolvedValue(totals('day', 100000));
+
+      await expect(
+        createService().assertWithinQuota(userId, sessionId)
+      ).rejects.toMatchObject({
+        details: { quota: 'daily_tokens', limit: 100000 },
+      });
+    });
+
+    it('allows the request when usage cannot be read', async () => {
+      usageRepository.getDailyUsage.mockRejectedValue(new Error('unavailable'));
+
+      await expect(
+        createService(['user']).assertWithinQuota(userId, sessionId)
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('recordUsage', () => {
+    it('records the tokens with their estimated cost', async () => {
+      await createService(['user']).recordUsage(
+        userId,
+        sessionId,
+        'claude-3-haiku',
+        { inputTokens: 2000, outputTokens: 1000, totalTokens: 3000 }
+      );
+
+      expect(usageRepository.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          model: 'claude-3-haiku',
+          inputTokens: 2000,
+          outputTokens: 1000,
+          estimatedCost: expect.closeTo(0.00175, 8),
+          timestamp: new Date('2024-03-10T23:30:00.000Z'),
+        })
+      );
+    });
+
+    it('does not fail the response when the entry cannot be stored', async () => {
+      usageRepository.record.mockRejectedValue(new Error('unavailable'));
+
+      await expect(
+        createService(['user']).recordUsage(userId, sessionId, 'nova-micro', {
+          inputTokens: 1,
+          outputTokens: 1,
+          totalTokens: 2,
+        })
+      ).resolves.toBeUndefined();
+    });
+  });
+});
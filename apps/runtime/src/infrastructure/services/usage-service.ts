@@ -0,0 +1,182 @@
+import { estimateModelCost } from '@awslambdahackathon/types';
+import { logger } from '@awslambdahackathon/utils/lambda';
+import { container } from '@config/container';
+import { UserGroup } from '@domain/entities/user';
+import { QuotaExceededException } from '@domain/errors/domain-errors';
+import { UsageRepository, UsageTotals } from '@domain/repositories/usage';
+import { UserRepository } from '@domain/repositories/user';
+import { LLMModel, LLMUsage } from '@domain/services/llm-service';
+import {
+  UsageService as DomainUsageService,
+  UsageReport,
+} from '@domain/services/usage-service';
+import { SessionId, UserId } from '@domain/value-objects';
+import {
+  UsageQuota,
+  UsageQuotaConfig,
+} from '@infrastructure/config/usage-quota-config';
+
+export class UsageService implements DomainUsageService {
+  private readonly usageRepository: UsageRepository;
+  private readonly userRepository: UserRepository;
+  private readonly config: UsageQuotaConfig;
+
+  constructor() {
+    this.usageRepository = container.get<UsageRepository>('UsageRepository');
+    this.userRepository = container.get<UserRepository>('UserRepository');
+    this.config = container.get<UsageQuotaConfig>('UsageQuotaConfig');
+  }
+
+  async assertWithinQuota(userId: UserId, sessionId: SessionId): Promise<void> {
+    let quota: UsageQuota;
+    let daily: UsageTotals | null;
+    let session: UsageTotals | null;
+    try {
+      const user = await this.userRepository.findById(userId);
+      quota = this.resolveQuota(user?.getGroups() || []);
+      [daily, session] = await Promise.all([
+        quota.dailyTokens !== undefined || quota.dailyCost !== undefined
+          ? this.usageRepository.getDailyUsage(userId, this.today())
+          : null,
+        quota.sessionTokens !== undefined
+          ? this.usageRepository.getSessionUsage(userId, sessionId)
+          : null,
+      ]);
+    } catch (error) {
+      // An unreadable ledger must not take the chat down; allow the request
+      logger.error('Failed to read usage for quota check', {
+        userId: userId.getValue(),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    const details = {
+      sessionId: sessionId.getValue(),
+      resetAt: this.nextDayStart().toISOString(),
+    };
+    const dailyTokens = daily?.totalTokens || 0;
+    const dailyCost = daily?.estimatedCost || 0;
+    const sessionTokens = session?.totalTokens || 0;
+
+    if (quota.dailyTokens !== undefined && dailyTokens >= quota.dailyTokens) {
+      throw new QuotaExceededException(
+        userId.getValue(),
+        'daily_tokens',
+        quota.dailyTokens,
+        dailyTokens,
+        details
+      );
+    }
+
+    if (quota.dailyCost !== undefined && dailyCost >= quota.dailyCost) {
+      throw new QuotaExceededException(
+        userId.getValue(),
+        'daily_cost',
+        quota.dailyCost,
+        dailyCost,
+        details
+      );
+    }
+
+    if (
+      quota.sessionTokens !== undefined &&
+      sessionTokens >= quota.sessionTokens
+    ) {
+      // A session quota only renews with a new session
+      throw new QuotaExceededException(
+        userId.getValue(),
+        'session_tokens',
+        quota.sessionTokens,
+        sessionTokens,
+        { sessionId: sessionId.getValue() }
+      );
+    }
+  }
+
+  async recordUsage(
+    userId: UserId,
+    sessionId: SessionId,
+    model: LLMModel,
+    usage: LLMUsage
+  ): Promise<void> {
+    try {
+      await this.usageRepository.record({
+        userId,
+        sessionId,
+        model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        estimatedCost: estimateModelCost(
+          model,
+          usage.inputTokens,
+          usage.outputTokens
+        ),
+        timestamp: new Date(),
+      });
+    } catch (error) {
+      // The response has already been generated; losing one entry is preferable
+      logger.error('Failed to record usage', {
+        userId: userId.getValue(),
+        sessionId: sessionId.getValue(),
+        model,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  async getUsageByDate(date: string): Promise<UsageReport> {
+    return {
+      date,
+      daily: await this.usageRepository.findDailyUsageByDate(date),
+    };
+  }
+
+  async getUsageByUser(
+    userId: UserId,
+    fromDate: string,
+    toDate: string
+  ): Promise<UsageReport> {
+    const [daily, sessions] = await Promise.all([
+      this.usageRepository.findDailyUsageByUser(userId, fromDate, toDate),
+      this.usageRepository.findSessionUsageByUser(userId),
+    ]);
+
+    return { userId: userId.getValue(), daily, sessions };
+  }
+
+  /**
+   * Combine the quotas of all the user's groups, keeping the most generous
+   * limit of each kind; a group without a limit makes it unlimited
+   */
+  private resolveQuota(groups: UserGroup[]): UsageQuota {
+    const quotas = groups
+      .map(group => this.config.groupQuotas[group])
+      .filter((quota): quota is UsageQuota => quota !== undefined);
+
+    if (quotas.length === 0) {
+      return this.config.defaultQuota;
+    }
+
+    const combine = (key: keyof UsageQuota): number | undefined =>
+      quotas.some(quota => quota[key] === undefined)
+        ? undefined
+        : Math.max(...quotas.map(quota => quota[key] as number));
+
+    return {
+      dailyTokens: combine('dailyTokens'),
+      dailyCost: combine('dailyCost'),
+      sessionTokens: combine('sessionTokens'),
+    };
+  }
+
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  private nextDayStart(): Date {
+    const date = new Date();
+    date.setUTCHours(24, 0, 0, 0);
+    return date;
+  }
+}
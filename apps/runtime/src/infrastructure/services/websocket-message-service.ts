@@ -2,9 +2,23 @@ import {
   ApiGatewayManagementApiClient,
   PostToConnectionCommand,
 } from '@aws-sdk/client-apigatewaymanagementapi';
+import {
+  MessageStatusUpdate,
+  QuotaExceeded,
+  RateLimited,
+  ResumeResponse,
+  SessionUpdated,
+} from '@awslambdahackathon/types';
 import { logger } from '@awslambdahackathon/utils/lambda';
 import { container } from '@config/container';
 import { Message } from '@domain/entities';
+import {
+  MessageChunk,
+  ToolCallEvent,
+  ToolResultEvent,
+} from '@domain/services/chat-service';
+import { ConnectionId } from '@domain/value-objects';
+import { isGoneConnectionError } from '@infrastructure/adapters/outbound/websocket/gone-connection';
 import type { APIGatewayProxyEvent } from 'aws-lambda';
 
 export interface WebSocketMessage {
@@ -68,17 +82,26 @@ export class WebSocketMessageService {
 
       const client = this.getClient(event);
 
-      // Use circuit breaker for API Gateway Management API calls
-      await container.getCircuitBreakerService().execute(
+      // Use circuit breaker for API Gateway Management API calls. A gone
+      // connection is the client's doing, not a failure of the API.
+      const delivered = await container.getCircuitBreakerService().execute(
         'apigateway-management',
         'postToConnection',
         async () => {
-          return await client.send(
-            new PostToConnectionCommand({
-              ConnectionId: connectionId,
-              Data: new TextEncoder().encode(JSON.stringify(message)),
-            })
-          );
+          try {
+            await client.send(
+              new PostToConnectionCommand({
+                ConnectionId: connectionId,
+                Data: new TextEncoder().encode(JSON.stringify(message)),
+              })
+            );
+            return true;
+          } catch (error) {
+            if (isGoneConnectionError(error)) {
+              return false;
+            }
+            throw error;
+          }
         },
         async () => {
           // Fallback behavior when API Gateway is unavailable
@@ -101,6 +124,17 @@ export class WebSocketMessageService {
         }
       );
 
+      if (!delivered) {
+        errorType = 'CONNECTION_GONE';
+        logger.warn('Connection is gone, message not sent', {
+          connectionId,
+          messageType: message.type,
+          correlationId: this.generateCorrelationId(),
+        });
+        await this.removeGoneConnection(connectionId);
+        return false;
+      }
+
       success = true;
       logger.info('Message sent successfully', {
         connectionId,
@@ -169,6 +203,7 @@ export class WebSocketMessageService {
         sessionId: outputMessage.getSessionId().getValue(),
         messageId: outputMessage.getId().getValue(),
         timestamp: outputMessage.getCreatedAt().toISOString(),
+        role: outputMessage.getRole(),
       },
     };
 
@@ -181,6 +216,97 @@ export class WebSocketMessageService {
     return this.sendMessage(connectionId, event, outputMessageResponse);
   }
 
+  /**
+   * Send a partial chunk of a streamed chat response
+   */
+  async sendMessageChunk(
+    connectionId: string,
+    event: APIGatewayProxyEvent,
+    chunk: MessageChunk
+  ): Promise<boolean> {
+    const message: WebSocketMessage = {
+      type: 'message_chunk',
+      data: {
+        messageId: chunk.messageId,
+        sessionId: chunk.sessionId,
+        chunk: chunk.content,
+        index: chunk.index,
+      },
+    };
+
+    return this.sendMessage(connectionId, event, message);
+  }
+
+  /**
+   * Notify the client that the model requested a tool
+   */
+  async sendToolCall(
+    connectionId: string,
+    event: APIGatewayProxyEvent,
+    toolCall: ToolCallEvent
+  ): Promise<boolean> {
+    const message: WebSocketMessage = {
+      type: 'tool_call',
+      data: { ...toolCall },
+    };
+
+    return this.sendMessage(connectionId, event, message);
+  }
+
+  /**
+   * Send the outcome of a tool execution
+   */
+  async sendToolResult(
+    connectionId: string,
+    event: APIGatewayProxyEvent,
+    toolResult: ToolResultEvent
+  ): Promise<boolean> {
+    const message: WebSocketMessage = {
+      type: 'tool_result',
+      data: { ...toolResult },
+    };
+
+    return this.sendMessage(connectionId, event, message);
+  }
+
+  /**
+   * Send the final assembled message of a streamed chat response
+   */
+  async sendMessageComplete(
+    connectionId: string,
+    event: APIGatewayProxyEvent,
+    outputMessage: Message
+  ): Promise<boolean> {
+    const message: WebSocketMessage = {
+      type: 'message_complete',
+      data: {
+        message: outputMessage.getContent(),
+        sessionId: outputMessage.getSessionId().getValue(),
+        messageId: outputMessage.getId().getValue(),
+        timestamp: outputMessage.getCreatedAt().toISOString(),
+        role: outputMessage.getRole(),
+        replyToMessageId: outputMessage.getReplyToMessageId()?.getValue(),
+        ...(outputMessage.getMetadata().cancelled === true && {
+          cancelled: true,
+        }),
+        ...(typeof outputMessage.getMetadata().threadId === 'string' && {
+          threadId: outputMessage.getMetadata().threadId,
+        }),
+        ...(Array.isArray(outputMessage.getMetadata().citations) && {
+          metadata: { citations: outputMessage.getMetadata().citations },
+        }),
+      },
+    };
+
+    logger.info('Sending message complete', {
+      connectionId,
+      outputMessageId: outputMessage.getId().getValue(),
+      correlationId: this.generateCorrelationId(),
+    });
+
+    return this.sendMessage(connectionId, event, message);
+  }
+
   /**
    * Send error message
    */
@@ -207,6 +333,122 @@ export class WebSocketMessageService {
     return this.sendMessage(connectionId, event, message);
   }
 
+  /**
+   * Tell the client which quota rejected its message and when it renews
+   */
+  async sendQuotaExceeded(
+    connectionId: string,
+    event: APIGatewayProxyEvent,
+    quotaExceeded: QuotaExceeded
+  ): Promise<boolean> {
+    const message: WebSocketMessage = {
+      type: 'quota_exceeded',
+      data: { ...quotaExceeded },
+    };
+
+    logger.warn('Sending quota exceeded to client', {
+      connectionId,
+      quota: quotaExceeded.quota,
+      limit: quotaExceeded.limit,
+      used: quotaExceeded.used,
+      correlationId: this.generateCorrelationId(),
+    });
+
+    return this.sendMessage(connectionId, event, message);
+  }
+
+  /**
+   * Tell the client its message was rejected and when it may send again
+   */
+  async sendRateLimited(
+    connectionId: string,
+    event: APIGatewayProxyEvent,
+    rateLimited: RateLimited
+  ): Promise<boolean> {
+    const message: WebSocketMessage = {
+      type: 'rate_limited',
+      data: { ...rateLimited },
+    };
+
+    logger.warn('Sending rate limited to client', {
+      connectionId,
+      limit: rateLimited.limit,
+      retryAfter: rateLimited.retryAfter,
+      correlationId: this.generateCorrelationId(),
+    });
+
+    return this.sendMessage(connectionId, event, message);
+  }
+
+  /**
+   * Tell the client a conversation changed, e.g. when it was given a title
+   */
+  async sendSessionUpdated(
+    connectionId: string,
+    event: APIGatewayProxyEvent,
+    sessionUpdated: SessionUpdated
+  ): Promise<boolean> {
+    const message: WebSocketMessage = {
+      type: 'session_updated',
+      data: { ...sessionUpdated },
+    };
+
+    logger.info('Sending session update to client', {
+      connectionId,
+      sessionId: sessionUpdated.sessionId,
+      correlationId: this.generateCorrelationId(),
+    });
+
+    return this.sendMessage(connectionId, event, message);
+  }
+
+  /**
+   * Tell a resuming client that the missed responses have been replayed
+   */
+  async sendResumeResponse(
+    connectionId: string,
+    event: APIGatewayProxyEvent,
+    resumeResponse: ResumeResponse
+  ): Promise<boolean> {
+    const message: WebSocketMessage = {
+      type: 'resume_response',
+      data: { ...resumeResponse },
+    };
+
+    logger.info('Sending resume response', {
+      connectionId,
+      sessionId: resumeResponse.sessionId,
+      replayed: resumeResponse.replayed,
+      correlationId: this.generateCorrelationId(),
+    });
+
+    return this.sendMessage(connectionId, event, message);
+  }
+
+  /**
+   * Tell the client that stored messages changed delivery state
+   */
+  async sendMessageStatus(
+    connectionId: string,
+    event: APIGatewayProxyEvent,
+    statusUpdate: MessageStatusUpdate
+  ): Promise<boolean> {
+    const message: WebSocketMessage = {
+      type: 'message_status',
+      data: { ...statusUpdate },
+    };
+
+    logger.info('Sending message status', {
+      connectionId,
+      sessionId: statusUpdate.sessionId,
+      status: statusUpdate.status,
+      messages: statusUpdate.messageIds.length,
+      correlationId: this.generateCorrelationId(),
+    });
+
+    return this.sendMessage(connectionId, event, message);
+  }
+
   /**
    * Send system message
    */
@@ -243,6 +485,23 @@ export class WebSocketMessageService {
     });
   }
 
+  /**
+   * Drop the record of a gone connection; it expires through its TTL if this
+   * fails
+   */
+  private async removeGoneConnection(connectionId: string): Promise<void> {
+    try {
+      await container
+        .getConnectionService()
+        .removeGoneConnection(ConnectionId.create(connectionId));
+    } catch (error) {
+      logger.error('Failed to remove gone connection', {
+        connectionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   /**
    * Generate a correlation ID for request tracking
    */
@@ -0,0 +1,43 @@
+import { Tool } from '@domain/services/tool-registry';
+
+/**
+ * Returns the current date and time, optionally in a given IANA time zone
+ */
+export const currentTimeTool: Tool = {
+  name: 'get_current_time',
+  description:
+    "Get the current date and time. Use this whenever the answer depends on today's date or the current time.",
+  inputSchema: {
+    type: 'object',
+    properties: {
+      timeZone: {
+        type: 'string',
+        description:
+          'IANA time zone name, e.g. "Europe/Madrid". Defaults to UTC.',
+      },
+    },
+  },
+  handler: async input => {
+    const timeZone =
+      typeof input.timeZone === 'string' ? input.timeZone : 'UTC';
+
+    try {
+      const now = new Date();
+      const formatted = new Intl.DateTimeFormat('en-GB', {
+        dateStyle: 'full',
+        timeStyle: 'long',
+        timeZone,
+      }).format(now);
+
+      return {
+        content: JSON.stringify({
+          iso: now.toISOString(),
+          timeZone,
+          formatted,
+        }),
+      };
+    } catch {
+      return { content: `Unknown time zone: ${timeZone}`, isError: true };
+    }
+  },
+};
@@ -0,0 +1,2 @@
+export * from './current-time-tool';
+export * from './session-stats-tool';
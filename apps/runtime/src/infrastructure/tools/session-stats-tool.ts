@@ -0,0 +1,27 @@
+import { MessageRepository } from '@domain/repositories/message';
+import { Tool } from '@domain/services/tool-registry';
+import { SessionId } from '@domain/value-objects';
+
+/**
+ * Reports how many messages the current conversation holds
+ */
+export const createSessionStatsTool = (
+  messageRepository: MessageRepository
+): Tool => ({
+  name: 'get_session_stats',
+  description:
+    'Get statistics about the current conversation, such as the number of stored messages.',
+  inputSchema: {
+    type: 'object',
+    properties: {},
+  },
+  handler: async (_input, context) => {
+    const messageCount = await messageRepository.countBySession(
+      SessionId.create(context.sessionId)
+    );
+
+    return {
+      content: JSON.stringify({ sessionId: context.sessionId, messageCount }),
+    };
+  },
+});
@@ -23,6 +23,20 @@ export interface CursorPaginationDto {
   direction?: 'forward' | 'backward';
 }
 
+/**
+ * One page of a cursor-paginated query
+ */
+export interface CursorPageDto<TItem> {
+  /** Items in the page */
+  items: TItem[];
+
+  /** Current page number (1-based) */
+  page: number;
+
+  /** Cursor for the next page, absent on the last page */
+  nextCursor?: string;
+}
+
 /**
  * Pagination metadata for responses
  */
@@ -121,6 +135,47 @@ export class PaginationUtils {
     };
   }
 
+  /**
+   * Validates and normalizes cursor pagination parameters
+   */
+  static normalizeCursorPagination(
+    params: Partial<CursorPaginationDto>
+  ): CursorPaginationDto {
+    const limit = Math.min(
+      Math.max(params.limit || this.DEFAULT_LIMIT, 1),
+      this.MAX_LIMIT
+    );
+
+    return {
+      limit,
+      cursor: params.cursor || undefined,
+      direction: params.direction === 'backward' ? 'backward' : 'forward',
+    };
+  }
+
+  /**
+   * Calculates pagination metadata for a cursor page. Cursors only move
+   * forward, so there is no cursor for the previous page.
+   */
+  static calculateCursorMeta(
+    totalItems: number,
+    pagination: CursorPaginationDto,
+    page: CursorPageDto<unknown>
+  ): PaginationMetaDto {
+    const totalPages = Math.ceil(totalItems / pagination.limit);
+
+    return {
+      currentPage: page.page,
+      totalPages,
+      totalItems,
+      itemsPerPage: pagination.limit,
+      itemsInCurrentPage: page.items.length,
+      hasNextPage: page.nextCursor !== undefined,
+      hasPreviousPage: page.page > 1,
+      nextPage: page.nextCursor,
+    };
+  }
+
   /**
    * Creates a cursor from an offset
    */
@@ -0,0 +1,2 @@
+// Keep the structured logs of the code under test out of the test output
+process.env.POWERTOOLS_LOG_LEVEL = 'SILENT';
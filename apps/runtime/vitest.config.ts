@@ -11,6 +11,7 @@ export default defineConfig({
   },
   resolve: {
     alias: {
+      '@': resolve(__dirname, './src'),
       '@domain': resolve(__dirname, './src/domain'),
       '@application': resolve(__dirname, './src/application'),
       '@infrastructure': resolve(__dirname, './src/infrastructure'),
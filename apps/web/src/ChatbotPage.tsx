@@ -1,3 +1,9 @@
+import {
+  ConversationSummaryDto,
+  LLMModel,
+  MODEL_CATALOG,
+  SUPPORTED_MODELS,
+} from '@awslambdahackathon/types';
 import { logger } from '@awslambdahackathon/utils/frontend';
 import React, {
   useCallback,
@@ -7,38 +13,171 @@ import React, {
   useState,
 } from 'react';
 
-import { useWebSocket } from './contexts/WebSocketContext';
+import {
+  CitationFootnotes,
+  CitedText,
+  useExpandedCitations,
+} from './components/MessageCitations';
+import { SessionSidebar } from './components/SessionSidebar';
+import {
+  DeliveryStatus,
+  Message,
+  useWebSocket,
+} from './contexts/WebSocketContext';
 import { useCurrentUser } from './hooks/useCurrentUser';
 import { usePerformance } from './hooks/usePerformance';
 import { useRumTracking } from './hooks/useRumTracking';
+import { sessionService } from './services/session-service';
 
 import './App.css';
 import './index.css';
 
-// Memoized Message Component
-const MessageItem = React.memo<{
-  message: {
-    id: string;
-    text: string;
-    isUser: boolean;
-    timestamp: Date;
-    sessionId?: string;
+const DELIVERY_LABELS: Record<DeliveryStatus, { icon: string; title: string }> =
+  {
+    sending: { icon: '○', title: 'Sending' },
+    sent: { icon: '✓', title: 'Sent' },
+    delivered: { icon: '✓✓', title: 'Delivered' },
+    read: { icon: '✓✓', title: 'Read' },
   };
-}>(({ message }) => {
-  const messageTime = useMemo(
-    () => message.timestamp.toLocaleTimeString(),
-    [message.timestamp]
-  );
 
-  return (
-    <div
-      className={`chatbot-message-bubble ${message.isUser ? 'user' : 'bot'}`}
-    >
-      <span className="chatbot-message-text">{message.text}</span>
-      <span className="chatbot-message-time">{messageTime}</span>
-    </div>
-  );
-});
+interface MessageItemProps {
+  message: Message;
+  // Regenerating and editing are off while a response is being generated
+  canBranch: boolean;
+  onSelectVersion: (messageId: string) => void;
+  onRegenerate: (messageId: string) => void;
+  onEdit: (message: Message) => void;
+  onReply: (message: Message) => void;
+}
+
+// Memoized Message Component
+const MessageItem = React.memo<MessageItemProps>(
+  ({ message, canBranch, onSelectVersion, onRegenerate, onEdit, onReply }) => {
+    const messageTime = useMemo(
+      () => message.timestamp.toLocaleTimeString(),
+      [message.timestamp]
+    );
+
+    // Stored prompts and responses can be replaced by a new version
+    const isBranchable =
+      message.parentId !== undefined &&
+      !message.isStreaming &&
+      message.status !== 'sending';
+    const versionIndex = message.versionIds?.indexOf(message.id) ?? -1;
+    const citations = useExpandedCitations();
+
+    if (message.tool) {
+      return (
+        <div className={`chatbot-tool-activity ${message.tool.status}`}>
+          {message.text}
+        </div>
+      );
+    }
+
+    return (
+      <div
+        className={`chatbot-message-bubble ${message.isUser ? 'user' : 'bot'}`}
+        data-message-id={message.id}
+      >
+        <span
+          className={`chatbot-message-text ${message.isStreaming ? 'streaming' : ''}`}
+        >
+          {message.citations ? (
+            <CitedText
+              text={message.text}
+              citations={message.citations}
+              onSelect={citations.open}
+            />
+          ) : (
+            message.text
+          )}
+        </span>
+        {message.citations && (
+          <CitationFootnotes
+            citations={message.citations}
+            expanded={citations.expanded}
+            onToggle={citations.toggle}
+          />
+        )}
+        <span className="chatbot-message-time">
+          {messageTime}
+          {message.cancelled && (
+            <span className="chatbot-message-cancelled">Stopped</span>
+          )}
+          {message.isUser && message.status && (
+            <span
+              className={`chatbot-message-status ${message.status}`}
+              title={DELIVERY_LABELS[message.status].title}
+            >
+              {DELIVERY_LABELS[message.status].icon}
+            </span>
+          )}
+        </span>
+        {(message.versionIds || isBranchable) && (
+          <span className="chatbot-message-actions">
+            {message.versionIds && (
+              <span className="chatbot-message-versions">
+                <button
+                  type="button"
+                  disabled={versionIndex <= 0}
+                  onClick={() =>
+                    message.versionIds &&
+                    onSelectVersion(message.versionIds[versionIndex - 1])
+                  }
+                  title="Previous version"
+                >
+                  ‹
+                </button>
+                {versionIndex + 1}/{message.versionIds.length}
+                <button
+                  type="button"
+                  disabled={versionIndex >= message.versionIds.length - 1}
+                  onClick={() =>
+                    message.versionIds &&
+                    onSelectVersion(message.versionIds[versionIndex + 1])
+                  }
+                  title="Next version"
+                >
+                  ›
+                </button>
+              </span>
+            )}
+            {isBranchable && message.isUser && (
+              <button
+                type="button"
+                disabled={!canBranch}
+                onClick={() => onEdit(message)}
+                title="Edit and resend"
+              >
+                ✎
+              </button>
+            )}
+            {isBranchable && !message.isUser && (
+              <button
+                type="button"
+                disabled={!canBranch}
+                onClick={() => onRegenerate(message.id)}
+                title="Regenerate response"
+              >
+                ↻
+              </button>
+            )}
+            {isBranchable && !message.isUser && (
+              <button
+                type="button"
+                disabled={!canBranch}
+                onClick={() => onReply(message)}
+                title="Ask a follow-up about this answer"
+              >
+                💬
+              </button>
+            )}
+          </span>
+        )}
+      </div>
+    );
+  }
+);
 
 MessageItem.displayName = 'MessageItem';
 
@@ -152,20 +291,126 @@ const ConnectionStatus = React.memo<{
 
 ConnectionStatus.displayName = 'ConnectionStatus';
 
+// Memoized Summary Panel; the summary is fetched each time it is opened
+const SummaryPanel = React.memo<{
+  sessionId: string;
+  onClose: () => void;
+}>(({ sessionId, onClose }) => {
+  const [summary, setSummary] = useState<ConversationSummaryDto | null>();
+  const [error, setError] = useState<string>();
+
+  useEffect(() => {
+    let stale = false;
+    sessionService.loadSummary(sessionId).then(
+      result => {
+        if (!stale) setSummary(result);
+      },
+      (loadError: unknown) => {
+        if (!stale) {
+          setError(
+            loadError instanceof Error
+              ? loadError.message
+              : 'Failed to load summary'
+          );
+        }
+      }
+    );
+    return () => {
+      stale = true;
+    };
+  }, [sessionId]);
+
+  return (
+    <div className="chatbot-summary-panel">
+      <div className="chatbot-summary-header">
+        <strong>Conversation summary</strong>
+        <button type="button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+      {error ? (
+        <p>{error}</p>
+      ) : summary === undefined ? (
+        <p>Loading summary...</p>
+      ) : summary ? (
+        <>
+          <p className="chatbot-summary-text">{summary.content}</p>
+          <p className="chatbot-summary-meta">
+            Stands in for {summary.messageCount} earlier messages · updated{' '}
+            {new Date(summary.updatedAt).toLocaleString()}
+          </p>
+        </>
+      ) : (
+        <p>
+          This conversation is still short enough to be sent in full; it has no
+          summary yet.
+        </p>
+      )}
+    </div>
+  );
+});
+
+SummaryPanel.displayName = 'SummaryPanel';
+
+// Memoized Model Picker, listing the models of the shared catalog
+const ModelPicker = React.memo<{
+  model: LLMModel;
+  disabled: boolean;
+  onChange: (model: LLMModel) => void;
+}>(({ model, disabled, onChange }) => (
+  <select
+    value={model}
+    onChange={e => onChange(e.target.value as LLMModel)}
+    disabled={disabled}
+    className="chatbot-model-select"
+    aria-label="Model"
+  >
+    {SUPPORTED_MODELS.map(id => {
+      const definition = MODEL_CATALOG[id];
+      return (
+        <option
+          key={id}
+          value={id}
+          title={`${(definition.contextWindow / 1000).toFixed(0)}K context, $${definition.pricing.outputPer1kTokens}/1K output tokens`}
+        >
+          {definition.name}
+        </option>
+      );
+    })}
+  </select>
+));
+
+ModelPicker.displayName = 'ModelPicker';
+
 const ChatbotPage = React.memo(() => {
   const { user } = useCurrentUser();
   const {
     messages,
     isConnected,
     isLoading,
+    isLoadingHistory,
     sendMessage,
     error,
     isReconnecting,
     sessionId,
+    model,
+    setModel,
+    markAsRead,
+    activeRequestId,
+    cancelGeneration,
+    regenerate,
+    editMessage,
+    selectVersion,
+    openThread,
   } = useWebSocket();
   const { recordAction } = useRumTracking();
   const [inputValue, setInputValue] = useState('');
   const [isSending, setIsSending] = useState(false);
+  // User message being replaced by the text in the input
+  const [editingMessageId, setEditingMessageId] = useState<string>();
+  // Answer the text in the input follows up on, in its thread
+  const [replyingToId, setReplyingToId] = useState<string>();
+  const [showSummary, setShowSummary] = useState(false);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -190,8 +435,8 @@ const ChatbotPage = React.memo(() => {
 
   // Memoized should show welcome
   const shouldShowWelcome = useMemo(
-    () => messages.length === 0 && !error,
-    [messages.length, error]
+    () => messages.length === 0 && !error && !isLoadingHistory,
+    [messages.length, error, isLoadingHistory]
   );
 
   // Memoized is form disabled
@@ -232,7 +477,10 @@ const ChatbotPage = React.memo(() => {
     }
   }, [isConnected, sessionId]);
 
-  // Auto-scroll to bottom when new messages are added
+  // Follow the text of the message currently being streamed
+  const lastMessageText = messages[messages.length - 1]?.text;
+
+  // Auto-scroll to bottom when new messages are added or streamed
   useEffect(() => {
     if (messagesContainerRef.current && messages.length > 0) {
       const scrollElement = messagesContainerRef.current;
@@ -242,7 +490,57 @@ const ChatbotPage = React.memo(() => {
 
       return () => clearTimeout(scrollTimeout);
     }
-  }, [messages.length]);
+  }, [messages.length, lastMessageText]);
+
+  const [isPageVisible, setIsPageVisible] = useState(
+    () => document.visibilityState === 'visible'
+  );
+
+  useEffect(() => {
+    const handleVisibilityChange = () =>
+      setIsPageVisible(document.visibilityState === 'visible');
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () =>
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  // Report responses as read once they are on screen in a visible tab
+  useEffect(() => {
+    const container = messagesContainerRef.current;
+    const unread = new Set(
+      messages
+        .filter(
+          m => !m.isUser && (m.status === 'sent' || m.status === 'delivered')
+        )
+        .map(m => m.id)
+    );
+    if (!container || !isPageVisible || unread.size === 0) {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      entries => {
+        const visibleIds = entries
+          .filter(entry => entry.isIntersecting)
+          .map(entry => (entry.target as HTMLElement).dataset.messageId)
+          .filter((id): id is string => !!id);
+        if (visibleIds.length > 0) {
+          markAsRead(visibleIds);
+        }
+      },
+      { root: container }
+    );
+
+    container
+      .querySelectorAll<HTMLElement>('[data-message-id]')
+      .forEach(element => {
+        if (unread.has(element.dataset.messageId || '')) {
+          observer.observe(element);
+        }
+      });
+
+    return () => observer.disconnect();
+  }, [messages, isPageVisible, markAsRead]);
 
   // Focus input on component mount and when connection is established
   useEffect(() => {
@@ -264,7 +562,15 @@ const ChatbotPage = React.memo(() => {
       setIsSending(true);
 
       try {
-        await sendMessage(messageText);
+        if (editingMessageId) {
+          editMessage(editingMessageId, messageText);
+          setEditingMessageId(undefined);
+        } else if (replyingToId) {
+          await sendMessage(messageText, replyingToId);
+          setReplyingToId(undefined);
+        } else {
+          await sendMessage(messageText);
+        }
 
         recordAction('message_sent', {
           userId: userInfo.userId,
@@ -305,9 +611,70 @@ const ChatbotPage = React.memo(() => {
         setIsSending(false);
       }
     },
-    [inputValue, isSending, isConnected, sendMessage, recordAction, userInfo]
+    [
+      inputValue,
+      isSending,
+      isConnected,
+      editingMessageId,
+      replyingToId,
+      sendMessage,
+      editMessage,
+      recordAction,
+      userInfo,
+    ]
+  );
+
+  // An edit or reply belongs to the conversation it was started in
+  useEffect(() => {
+    setEditingMessageId(undefined);
+    setReplyingToId(undefined);
+    setShowSummary(false);
+  }, [sessionId]);
+
+  const handleEdit = useCallback((message: Message) => {
+    setReplyingToId(undefined);
+    setEditingMessageId(message.id);
+    setInputValue(message.text);
+    inputRef.current?.focus();
+  }, []);
+
+  const handleCancelEdit = useCallback(() => {
+    setEditingMessageId(undefined);
+    setInputValue('');
+  }, []);
+
+  const handleReply = useCallback(
+    (message: Message) => {
+      setEditingMessageId(undefined);
+      setReplyingToId(message.id);
+      inputRef.current?.focus();
+      // Show the whole thread, not only the part loaded with the history
+      openThread(message.id);
+    },
+    [openThread]
   );
 
+  // Thread messages, and the tool activity of thread responses, are shown
+  // under the answer they are about
+  const { mainMessages, threads } = useMemo(() => {
+    const threadOf = new Map(
+      messages.filter(m => m.threadId).map(m => [m.id, m.threadId])
+    );
+    const grouped = new Map<string, Message[]>();
+    const main: Message[] = [];
+    messages.forEach(message => {
+      const threadId =
+        message.threadId ??
+        (message.responseId ? threadOf.get(message.responseId) : undefined);
+      if (threadId) {
+        grouped.set(threadId, [...(grouped.get(threadId) || []), message]);
+      } else {
+        main.push(message);
+      }
+    });
+    return { mainMessages: main, threads: grouped };
+  }, [messages]);
+
   const handleRetry = useCallback(async () => {
     if (error && !isReconnecting) {
       recordAction('connection_retry', {
@@ -334,6 +701,7 @@ const ChatbotPage = React.memo(() => {
 
   return (
     <div className="chatbot-bg">
+      <SessionSidebar />
       <div className="chatbot-container">
         {/* Header */}
         <div className="chatbot-header">
@@ -343,12 +711,33 @@ const ChatbotPage = React.memo(() => {
             </div>
             <h1 className="chatbot-title">AI Chatbot</h1>
           </div>
-          <ConnectionStatus
-            isConnected={isConnected}
-            isReconnecting={isReconnecting}
-          />
+          <div className="chatbot-header-right">
+            {sessionId && (
+              <button
+                type="button"
+                className="chatbot-summary-btn"
+                onClick={() => setShowSummary(shown => !shown)}
+                title="Conversation summary"
+              >
+                <span role="img" aria-label="Conversation summary">
+                  📝
+                </span>
+              </button>
+            )}
+            <ConnectionStatus
+              isConnected={isConnected}
+              isReconnecting={isReconnecting}
+            />
+          </div>
         </div>
 
+        {showSummary && sessionId && (
+          <SummaryPanel
+            sessionId={sessionId}
+            onClose={() => setShowSummary(false)}
+          />
+        )}
+
         {/* Error Banner */}
         {error && (
           <ErrorBanner
@@ -362,18 +751,66 @@ const ChatbotPage = React.memo(() => {
         <div ref={messagesContainerRef} className="chatbot-messages">
           {shouldShowWelcome && <WelcomeMessage />}
 
+          {isLoadingHistory && (
+            <div className="chatbot-history-loading">
+              Loading conversation...
+            </div>
+          )}
+
           {/* Render messages directly to avoid virtualization overlap issues */}
-          {messages.length > 0 &&
-            messages.map(message => (
-              <MessageItem key={message.id} message={message} />
-            ))}
+          {mainMessages.map(message => (
+            <React.Fragment key={message.id}>
+              <MessageItem
+                message={message}
+                canBranch={isConnected && !activeRequestId}
+                onSelectVersion={selectVersion}
+                onRegenerate={regenerate}
+                onEdit={handleEdit}
+                onReply={handleReply}
+              />
+              {threads.has(message.id) && (
+                <div className="chatbot-thread">
+                  {threads.get(message.id)?.map(reply => (
+                    <MessageItem
+                      key={reply.id}
+                      message={reply}
+                      canBranch={isConnected && !activeRequestId}
+                      onSelectVersion={selectVersion}
+                      onRegenerate={regenerate}
+                      onEdit={handleEdit}
+                      onReply={handleReply}
+                    />
+                  ))}
+                </div>
+              )}
+            </React.Fragment>
+          ))}
 
           {/* Loading indicator */}
           {isLoading && <LoadingIndicator />}
         </div>
 
+        {editingMessageId && (
+          <div className="chatbot-editing-banner">
+            Editing message; sending starts a new branch.
+            <button type="button" onClick={handleCancelEdit}>
+              Cancel
+            </button>
+          </div>
+        )}
+
+        {replyingToId && (
+          <div className="chatbot-editing-banner">
+            Asking a follow-up; the reply goes in the answer&apos;s thread.
+            <button type="button" onClick={() => setReplyingToId(undefined)}>
+              Cancel
+            </button>
+          </div>
+        )}
+
         {/* Input Form */}
         <form onSubmit={handleSubmit} className="chatbot-input-row">
+          <ModelPicker model={model} disabled={isSending} onChange={setModel} />
           <input
             ref={inputRef}
             type="text"
@@ -383,15 +820,28 @@ const ChatbotPage = React.memo(() => {
             disabled={!isConnected || isSending}
             className="chatbot-input"
           />
-          <button
-            type="submit"
-            disabled={isFormDisabled}
-            className="chatbot-send-btn"
-          >
-            <span role="img" aria-label="Send">
-              📤
-            </span>
-          </button>
+          {activeRequestId ? (
+            <button
+              type="button"
+              onClick={cancelGeneration}
+              className="chatbot-send-btn chatbot-stop-btn"
+              title="Stop generating"
+            >
+              <span role="img" aria-label="Stop generating">
+                ⏹️
+              </span>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={isFormDisabled}
+              className="chatbot-send-btn"
+            >
+              <span role="img" aria-label="Send">
+                📤
+              </span>
+            </button>
+          )}
         </form>
       </div>
     </div>
@@ -0,0 +1,126 @@
+import type { Citation } from '@awslambdahackathon/types';
+import React, { ReactNode, useCallback, useMemo, useState } from 'react';
+
+// Only links to web pages open; document anchors have no page to open
+const isWebUrl = (url?: string): url is string =>
+  !!url && /^https?:\/\//.test(url);
+
+/**
+ * Answer text with its [n] markers as footnote references. Markers are taken
+ * from the citation offsets; one that does not match the text is left as is.
+ */
+export const CitedText = React.memo<{
+  text: string;
+  citations: Citation[];
+  onSelect: (index: number) => void;
+}>(({ text, citations, onSelect }) => {
+  const parts = useMemo(() => {
+    const markers = citations
+      .flatMap(citation =>
+        citation.offsets.map(offset => ({ ...offset, index: citation.index }))
+      )
+      .filter(
+        marker =>
+          marker.end <= text.length &&
+          text.slice(marker.start, marker.end) === `[${marker.index}]`
+      )
+      .sort((a, b) => a.start - b.start);
+
+    const nodes: ReactNode[] = [];
+    let position = 0;
+    markers.forEach(marker => {
+      if (marker.start < position) {
+        return;
+      }
+      nodes.push(text.slice(position, marker.start));
+      nodes.push(
+        <sup key={marker.start} className="chatbot-citation-ref">
+          <button
+            type="button"
+            onClick={() => onSelect(marker.index)}
+            title={citations.find(c => c.index === marker.index)?.title}
+          >
+            {marker.index}
+          </button>
+        </sup>
+      );
+      position = marker.end;
+    });
+    nodes.push(text.slice(position));
+    return nodes;
+  }, [text, citations, onSelect]);
+
+  return <>{parts}</>;
+});
+
+CitedText.displayName = 'CitedText';
+
+/**
+ * Sources of an answer, numbered like its markers. Each footnote expands to
+ * the snippet the answer draws on.
+ */
+export const CitationFootnotes = React.memo<{
+  citations: Citation[];
+  expanded: number[];
+  onToggle: (index: number) => void;
+}>(({ citations, expanded, onToggle }) => (
+  <ol className="chatbot-citations">
+    {citations.map(citation => {
+      const isExpanded = expanded.includes(citation.index);
+      return (
+        <li key={citation.index} className="chatbot-citation">
+          <button
+            type="button"
+            className="chatbot-citation-title"
+            aria-expanded={isExpanded}
+            onClick={() => onToggle(citation.index)}
+          >
+            <span className="chatbot-citation-index">{citation.index}</span>
+            {citation.sourceType === 'tool' ? '🔧 ' : '📄 '}
+            {citation.title || citation.sourceId}
+          </button>
+          {isWebUrl(citation.url) && (
+            <a
+              className="chatbot-citation-link"
+              href={citation.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={citation.url}
+            >
+              ↗
+            </a>
+          )}
+          {isExpanded && (
+            <blockquote className="chatbot-citation-snippet">
+              {citation.snippet}
+            </blockquote>
+          )}
+        </li>
+      );
+    })}
+  </ol>
+));
+
+CitationFootnotes.displayName = 'CitationFootnotes';
+
+/**
+ * Expanded footnotes of one answer; a marker opens its footnote
+ */
+export const useExpandedCitations = () => {
+  const [expanded, setExpanded] = useState<number[]>([]);
+
+  const toggle = useCallback(
+    (index: number) =>
+      setExpanded(prev =>
+        prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]
+      ),
+    []
+  );
+  const open = useCallback(
+    (index: number) =>
+      setExpanded(prev => (prev.includes(index) ? prev : [...prev, index])),
+    []
+  );
+
+  return { expanded, toggle, open };
+};
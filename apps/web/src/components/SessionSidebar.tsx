@@ -0,0 +1,221 @@
+import type { SessionDto } from '@awslambdahackathon/types';
+import { logger } from '@awslambdahackathon/utils/frontend';
+import React, { useCallback, useEffect, useState } from 'react';
+
+import { useWebSocket } from '../contexts/WebSocketContext';
+import { getSessionTitle, sessionService } from '../services/session-service';
+
+const formatLastActivity = (session: SessionDto): string => {
+  const date = new Date(session.lastActivityAt || session.createdAt);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString();
+};
+
+// Memoized Session Row with inline rename
+const SessionRow = React.memo<{
+  session: SessionDto;
+  isActive: boolean;
+  onSelect: (sessionId: string) => void;
+  onRename: (sessionId: string, title: string) => Promise<void>;
+  onDelete: (sessionId: string) => Promise<void>;
+}>(({ session, isActive, onSelect, onRename, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const title = getSessionTitle(session);
+
+  const startEditing = useCallback(() => {
+    setDraft(title);
+    setIsEditing(true);
+  }, [title]);
+
+  const submitRename = useCallback(
+    async (e: React.FormEvent) => {
+      e.preventDefault();
+      setIsEditing(false);
+      if (draft.trim() && draft.trim() !== title) {
+        await onRename(session.id, draft.trim());
+      }
+    },
+    [draft, title, onRename, session.id]
+  );
+
+  const confirmDelete = useCallback(async () => {
+    if (window.confirm(`Delete "${title}"? This cannot be undone.`)) {
+      await onDelete(session.id);
+    }
+  }, [title, onDelete, session.id]);
+
+  if (isEditing) {
+    return (
+      <li className="session-row active">
+        <form onSubmit={submitRename} className="session-rename-form">
+          <input
+            autoFocus
+            value={draft}
+            maxLength={100}
+            onChange={e => setDraft(e.target.value)}
+            onBlur={() => setIsEditing(false)}
+            onKeyDown={e => e.key === 'Escape' && setIsEditing(false)}
+            className="session-rename-input"
+            aria-label="Conversation title"
+          />
+        </form>
+      </li>
+    );
+  }
+
+  return (
+    <li className={`session-row ${isActive ? 'active' : ''}`}>
+      <button
+        type="button"
+        onClick={() => onSelect(session.id)}
+        className="session-select-btn"
+        title={title}
+      >
+        <span className="session-title">{title}</span>
+        <span className="session-time">{formatLastActivity(session)}</span>
+      </button>
+      <div className="session-actions">
+        <button
+          type="button"
+          onClick={startEditing}
+          className="session-action-btn"
+          aria-label="Rename conversation"
+        >
+          ✏️
+        </button>
+        <button
+          type="button"
+          onClick={confirmDelete}
+          className="session-action-btn"
+          aria-label="Delete conversation"
+        >
+          🗑️
+        </button>
+      </div>
+    </li>
+  );
+});
+
+SessionRow.displayName = 'SessionRow';
+
+export const SessionSidebar = React.memo(() => {
+  const {
+    sessionId,
+    isLoading,
+    lastSessionUpdate,
+    switchSession,
+    startNewSession,
+  } = useWebSocket();
+  const [sessions, setSessions] = useState<SessionDto[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [error, setError] = useState<string | undefined>();
+
+  const loadSessions = useCallback(async (cursor?: string) => {
+    try {
+      const page = await sessionService.listSessions(cursor);
+      setSessions(prev =>
+        cursor ? [...prev, ...page.sessions] : page.sessions
+      );
+      setNextCursor(page.nextCursor);
+      setError(undefined);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : 'Failed to load conversations';
+      logger.error('Failed to load conversations', { error: errorMessage });
+      setError(errorMessage);
+    }
+  }, []);
+
+  // Refresh when a new conversation starts and after each response
+  useEffect(() => {
+    if (!isLoading) {
+      loadSessions();
+    }
+  }, [sessionId, isLoading, loadSessions]);
+
+  // Titles generated after a reply arrive over the WebSocket
+  useEffect(() => {
+    if (!lastSessionUpdate) return;
+    const { sessionId: id, title, titleSource } = lastSessionUpdate;
+    setSessions(prev =>
+      prev.map(s =>
+        s.id === id
+          ? { ...s, metadata: { ...s.metadata, title, titleSource } }
+          : s
+      )
+    );
+  }, [lastSessionUpdate]);
+
+  const handleRename = useCallback(async (id: string, title: string) => {
+    try {
+      const updated = await sessionService.renameSession(id, title);
+      setSessions(prev => prev.map(s => (s.id === id ? updated : s)));
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to rename conversation'
+      );
+    }
+  }, []);
+
+  const handleDelete = useCallback(
+    async (id: string) => {
+      try {
+        await sessionService.deleteSession(id);
+        setSessions(prev => prev.filter(s => s.id !== id));
+        if (id === sessionId) {
+          startNewSession();
+        }
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : 'Failed to delete conversation'
+        );
+      }
+    },
+    [sessionId, startNewSession]
+  );
+
+  return (
+    <aside className="session-sidebar">
+      <button
+        type="button"
+        onClick={startNewSession}
+        className="session-new-btn"
+      >
+        + New chat
+      </button>
+
+      {error && <div className="session-error">{error}</div>}
+
+      <ul className="session-list">
+        {sessions.map(session => (
+          <SessionRow
+            key={session.id}
+            session={session}
+            isActive={session.id === sessionId}
+            onSelect={switchSession}
+            onRename={handleRename}
+            onDelete={handleDelete}
+          />
+        ))}
+      </ul>
+
+      {sessions.length === 0 && !error && (
+        <p className="session-empty">No conversations yet</p>
+      )}
+
+      {nextCursor && (
+        <button
+          type="button"
+          onClick={() => loadSessions(nextCursor)}
+          className="session-more-btn"
+        >
+          Load more
+        </button>
+      )}
+    </aside>
+  );
+});
+
+SessionSidebar.displayName = 'SessionSidebar';
@@ -7,6 +7,7 @@ export const API_CONFIG = {
   baseUrl: import.meta.env.VITE_API_URL || 'http://localhost:3000',
   endpoints: {
     health: '/health',
+    sessions: '/sessions',
   },
 } as const;
 
@@ -36,6 +37,26 @@ const getAuthHeaders = async (): Promise<Record<string, string>> => {
   };
 };
 
+// Error responses carry the error in the body when it is JSON
+const parseResponse = async <T>(
+  response: Response
+): Promise<ApiResponse<T>> => {
+  if (!response.ok) {
+    try {
+      const errorBody = await response.json();
+      return (
+        errorBody || {
+          success: false,
+          error: `API Error: ${response.status}`,
+        }
+      );
+    } catch (e: unknown) {
+      return { success: false, error: `API Error: ${response.status}` };
+    }
+  }
+  return response.json();
+};
+
 // API client functions
 export const apiClient = {
   async get<T>(endpoint: string): Promise<ApiResponse<T>> {
@@ -46,21 +67,7 @@ export const apiClient = {
       headers,
     });
 
-    if (!response.ok) {
-      // Try to parse error from body
-      try {
-        const errorBody = await response.json();
-        return (
-          errorBody || {
-            success: false,
-            error: `API Error: ${response.status}`,
-          }
-        );
-      } catch (e: unknown) {
-        return { success: false, error: `API Error: ${response.status}` };
-      }
-    }
-    return response.json();
+    return parseResponse<T>(response);
   },
 
   async post<T>(endpoint: string, data: unknown): Promise<ApiResponse<T>> {
@@ -72,19 +79,29 @@ export const apiClient = {
       body: JSON.stringify(data),
     });
 
-    if (!response.ok) {
-      try {
-        const errorBody = await response.json();
-        return (
-          errorBody || {
-            success: false,
-            error: `API Error: ${response.status}`,
-          }
-        );
-      } catch (e: unknown) {
-        return { success: false, error: `API Error: ${response.status}` };
-      }
-    }
-    return response.json();
+    return parseResponse<T>(response);
+  },
+
+  async patch<T>(endpoint: string, data: unknown): Promise<ApiResponse<T>> {
+    const headers = await getAuthHeaders();
+
+    const response = await fetch(buildApiUrl(endpoint), {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify(data),
+    });
+
+    return parseResponse<T>(response);
+  },
+
+  async delete<T>(endpoint: string): Promise<ApiResponse<T>> {
+    const headers = await getAuthHeaders();
+
+    const response = await fetch(buildApiUrl(endpoint), {
+      method: 'DELETE',
+      headers,
+    });
+
+    return parseResponse<T>(response);
   },
 };
@@ -1,4 +1,16 @@
 import { fetchAuthSession } from '@aws-amplify/auth';
+import {
+  Citation,
+  createAckMessage,
+  createCancelMessage,
+  createEditMessage,
+  createReadMessage,
+  createRegenerateMessage,
+  DEFAULT_MODEL,
+  LLMModel,
+  QuotaExceeded,
+  SessionUpdated,
+} from '@awslambdahackathon/types';
 import { logger } from '@awslambdahackathon/utils/frontend';
 import React, {
   createContext,
@@ -12,6 +24,7 @@ import React, {
 } from 'react';
 
 import { getWebSocketConfig } from '../config/app-config';
+import { sessionService } from '../services/session-service';
 import { webSocketValidation } from '../services/validation-service';
 
 export interface Message {
@@ -20,14 +33,168 @@ export interface Message {
   isUser: boolean;
   timestamp: Date;
   sessionId?: string;
+  isStreaming?: boolean;
+  tool?: ToolActivity;
+  status?: DeliveryStatus;
+  cancelled?: boolean; // Generation was stopped; the text is partial
+  // Message this one follows in the conversation tree, null for a first
+  // message; unset for notices
+  parentId?: string | null;
+  responseId?: string; // Response a tool activity belongs to
+  versionIds?: string[]; // All versions of a shown message, oldest first
+  // Answer whose thread of follow-ups this message belongs to; thread
+  // messages stay outside the branches
+  threadId?: string;
+  citations?: Citation[]; // Sources of an answer, shown as footnotes
 }
 
+// Delivery state of a stored message; shown on the user's own messages
+export type DeliveryStatus = 'sending' | 'sent' | 'delivered' | 'read';
+
+const DELIVERY_ORDER: DeliveryStatus[] = [
+  'sending',
+  'sent',
+  'delivered',
+  'read',
+];
+
+// Receipts can arrive out of order; a status never goes back
+const advanceStatus = (
+  current: DeliveryStatus | undefined,
+  next: DeliveryStatus
+): DeliveryStatus =>
+  current && DELIVERY_ORDER.indexOf(current) > DELIVERY_ORDER.indexOf(next)
+    ? current
+    : next;
+
+export interface ToolActivity {
+  name: string;
+  status: 'running' | 'done' | 'error';
+}
+
+// Replies come in order, so the oldest message still sending is the one just
+// answered; it takes the id the server stored it under
+const settleSentMessage = (
+  messages: Message[],
+  messageId: string
+): Message[] => {
+  const index = messages.findIndex(m => m.status === 'sending');
+  if (index === -1) {
+    return messages;
+  }
+  const localId = messages[index].id;
+  return messages.map((m, i) =>
+    i === index
+      ? { ...m, id: messageId, status: 'sent' }
+      : m.parentId === localId
+        ? { ...m, parentId: messageId }
+        : m
+  );
+};
+
+// Versions chosen by the user, keyed by the parent they share ('' for first
+// messages); the newest version is shown where nothing was chosen
+type BranchSelection = Record<string, string>;
+
+// Messages on the selected branch, in the order received, with the versions
+// of each; other versions and the messages after them are left out
+const selectBranch = (
+  messages: Message[],
+  selection: BranchSelection
+): Message[] => {
+  const ids = new Set(
+    messages.filter(m => m.parentId !== undefined).map(m => m.id)
+  );
+  const children = new Map<string, Message[]>();
+  messages.forEach(m => {
+    if (m.parentId === undefined) return;
+    // A parent outside the loaded history makes the message a first one
+    const key = m.parentId && ids.has(m.parentId) ? m.parentId : '';
+    children.set(key, [...(children.get(key) || []), m]);
+  });
+
+  const shown = new Map<string, string[]>();
+  let key = '';
+  let versions = children.get(key);
+  while (versions) {
+    const chosen =
+      versions.find(m => m.id === selection[key]) ||
+      versions[versions.length - 1];
+    shown.set(
+      chosen.id,
+      versions.map(m => m.id)
+    );
+    key = chosen.id;
+    versions = children.get(key);
+  }
+
+  // Threads are shown with the answer they are about
+  const threaded = new Set(
+    messages.filter(m => m.threadId && shown.has(m.threadId)).map(m => m.id)
+  );
+
+  return messages
+    .filter(m =>
+      m.threadId
+        ? shown.has(m.threadId)
+        : m.parentId === undefined
+          ? !m.responseId ||
+            shown.has(m.responseId) ||
+            threaded.has(m.responseId)
+          : shown.has(m.id)
+    )
+    .map(m => {
+      const versionIds = shown.get(m.id);
+      return versionIds && versionIds.length > 1 ? { ...m, versionIds } : m;
+    });
+};
+
+// Show the newest version under a parent again, e.g. one just created
+const selectNewest = (
+  selection: BranchSelection,
+  parentId: string | null | undefined
+): BranchSelection => {
+  const next = { ...selection };
+  delete next[parentId || ''];
+  return next;
+};
+
+const QUOTA_LABELS: Record<QuotaExceeded['quota'], string> = {
+  daily_tokens: 'daily token limit',
+  daily_cost: 'daily usage budget',
+  session_tokens: 'token limit for this conversation',
+};
+
+const describeQuotaExceeded = (
+  quota: QuotaExceeded['quota'],
+  resetAt?: string
+): string => {
+  const reached = `You have reached your ${QUOTA_LABELS[quota]}.`;
+  return resetAt
+    ? `${reached} You can send messages again after ${new Date(resetAt).toLocaleString()}.`
+    : `${reached} Start a new conversation to continue.`;
+};
+
 interface WebSocketState {
   messages: Message[];
   isConnected: boolean;
   isLoading: boolean;
+  isLoadingHistory: boolean;
   sessionId?: string;
-  sendMessage: (text: string) => Promise<void>;
+  lastSessionUpdate?: SessionUpdated;
+  // Id of the message frame whose response is being generated
+  activeRequestId?: string;
+  model: LLMModel;
+  setModel: (model: LLMModel) => void;
+  sendMessage: (text: string, threadId?: string) => Promise<void>;
+  switchSession: (sessionId: string) => Promise<void>;
+  startNewSession: () => void;
+  markAsRead: (messageIds: string[]) => void;
+  cancelGeneration: () => void;
+  regenerate: (messageId: string) => void;
+  editMessage: (messageId: string, text: string) => void;
+  selectVersion: (messageId: string) => void;
+  openThread: (messageId: string) => Promise<void>;
   error?: string;
   isReconnecting: boolean;
   reconnectFailed: boolean;
@@ -38,8 +205,21 @@ const initialState: WebSocketState = {
   messages: [],
   isConnected: false,
   isLoading: false,
+  isLoadingHistory: false,
   sessionId: undefined,
+  lastSessionUpdate: undefined,
+  activeRequestId: undefined,
+  model: DEFAULT_MODEL,
+  setModel: () => {},
   sendMessage: async () => {},
+  switchSession: async () => {},
+  startNewSession: () => {},
+  markAsRead: () => {},
+  cancelGeneration: () => {},
+  regenerate: () => {},
+  editMessage: () => {},
+  selectVersion: () => {},
+  openThread: async () => {},
   error: undefined,
   isReconnecting: false,
   reconnectFailed: false,
@@ -63,8 +243,23 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
   const reconnectAttemptsRef = useRef(0);
   const isConnectingRef = useRef(false);
   const tokenRef = useRef<string | null>(null);
+  const sessionIdRef = useRef<string | undefined>(undefined);
+  // Last message received from the server, sent on resume to replay the rest
+  const lastMessageIdRef = useRef<string | undefined>(undefined);
+  // Messages already reported as read, so each is sent once
+  const readReportedRef = useRef<Set<string>>(new Set());
+  // Parent of the response being generated, so it streams into its branch
+  const pendingParentRef = useRef<string | null | undefined>(undefined);
+  // Answer whose thread the response being generated belongs to
+  const pendingThreadRef = useRef<string | undefined>(undefined);
+  const [branchSelection, setBranchSelection] = useState<BranchSelection>({});
   const [reconnectFailed, setReconnectFailed] = useState(false);
 
+  const branch = useMemo(
+    () => selectBranch(state.messages, branchSelection),
+    [state.messages, branchSelection]
+  );
+
   const websocketConfig = getWebSocketConfig();
 
   const handleError = useCallback(
@@ -74,6 +269,7 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
         error,
         isReconnecting,
         isConnected: false,
+        activeRequestId: undefined,
       }));
       logger.error('WebSocketProvider error', { error, isReconnecting });
     },
@@ -84,8 +280,10 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
     setState(prev => ({ ...prev, error: undefined }));
   }, []);
 
+  // A message with a threadId is a follow-up about that answer; it goes in
+  // the answer's thread and leaves the branches as they are
   const sendMessage = useCallback(
-    async (text: string) => {
+    async (text: string, threadId?: string) => {
       const ws = wsRef.current;
       if (!ws || ws.readyState !== WebSocket.OPEN) {
         const error = 'WebSocket is not connected';
@@ -104,30 +302,54 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
       }
 
       try {
-        // Use new standardized message format
+        // Continue the branch on screen; the server falls back to the
+        // latest message while the last one shown has no stored id yet
+        const leaf = threadId
+          ? undefined
+          : [...branch].reverse().find(m => m.parentId !== undefined);
+        const parentMessageId =
+          leaf && leaf.status !== 'sending' && !leaf.isStreaming
+            ? leaf.id
+            : undefined;
+
+        // The frame id identifies the request when stopping its generation
+        const requestId = crypto.randomUUID();
         const message = {
           type: 'message' as const,
+          id: requestId,
           data: {
             action: 'sendMessage',
             message: text,
             sessionId: state.sessionId,
+            model: state.model,
+            parentMessageId,
+            replyToMessageId: threadId,
           },
         };
 
         ws.send(JSON.stringify(message));
+        const localId = Date.now().toString();
+        pendingParentRef.current = threadId ? undefined : localId;
+        pendingThreadRef.current = threadId;
+        if (!threadId) {
+          setBranchSelection(prev => selectNewest(prev, leaf?.id));
+        }
         setState(prev => ({
           ...prev,
           messages: [
             ...prev.messages,
             {
-              id: Date.now().toString(),
+              id: localId,
               text,
               isUser: true,
               timestamp: new Date(),
               sessionId: state.sessionId,
+              status: 'sending',
+              ...(threadId ? { threadId } : { parentId: leaf?.id ?? null }),
             },
           ],
           isLoading: true,
+          activeRequestId: requestId,
           error: undefined,
         }));
       } catch (error) {
@@ -136,9 +358,228 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
         throw new Error(errorMessage);
       }
     },
-    [state.sessionId]
+    [state.sessionId, state.model, branch]
+  );
+
+  const setModel = useCallback((model: LLMModel) => {
+    setState(prev => ({ ...prev, model }));
+  }, []);
+
+  const switchSession = useCallback(async (sessionId: string) => {
+    lastMessageIdRef.current = undefined;
+    pendingParentRef.current = undefined;
+    pendingThreadRef.current = undefined;
+    setBranchSelection({});
+    setState(prev => ({
+      ...prev,
+      sessionId,
+      messages: [],
+      isLoading: false,
+      activeRequestId: undefined,
+      isLoadingHistory: true,
+      error: undefined,
+    }));
+
+    try {
+      const history = await sessionService.loadMessages(sessionId);
+      if (sessionIdRef.current === sessionId) {
+        lastMessageIdRef.current = history.filter(m => !m.tool).pop()?.id;
+      }
+      // Ignore the result if another conversation was opened meanwhile
+      setState(prev =>
+        prev.sessionId === sessionId
+          ? { ...prev, messages: history, isLoadingHistory: false }
+          : prev
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to load conversation';
+      logger.error('Failed to load conversation history', {
+        sessionId,
+        error: errorMessage,
+      });
+      setState(prev =>
+        prev.sessionId === sessionId
+          ? { ...prev, isLoadingHistory: false, error: errorMessage }
+          : prev
+      );
+    }
+  }, []);
+
+  const markAsRead = useCallback((messageIds: string[]) => {
+    const ws = wsRef.current;
+    const sessionId = sessionIdRef.current;
+    const unreported = messageIds.filter(
+      id => !readReportedRef.current.has(id)
+    );
+    if (
+      !ws ||
+      ws.readyState !== WebSocket.OPEN ||
+      !sessionId ||
+      unreported.length === 0
+    ) {
+      return;
+    }
+
+    unreported.forEach(id => readReportedRef.current.add(id));
+    ws.send(JSON.stringify(createReadMessage(sessionId, unreported)));
+  }, []);
+
+  // The response stops where it is and arrives as a cancelled message_complete
+  const cancelGeneration = useCallback(() => {
+    const ws = wsRef.current;
+    const requestId = state.activeRequestId;
+    if (!ws || ws.readyState !== WebSocket.OPEN || !requestId) {
+      return;
+    }
+
+    ws.send(
+      JSON.stringify(createCancelMessage(requestId, sessionIdRef.current))
+    );
+    setState(prev => ({
+      ...prev,
+      isLoading: false,
+      activeRequestId: undefined,
+    }));
+  }, [state.activeRequestId]);
+
+  // Answer the prompt of a response again; the new response streams in as
+  // another version of the old one
+  const regenerate = useCallback(
+    (messageId: string) => {
+      const ws = wsRef.current;
+      const sessionId = sessionIdRef.current;
+      const response = state.messages.find(m => m.id === messageId);
+      if (!ws || ws.readyState !== WebSocket.OPEN || !sessionId || !response) {
+        return;
+      }
+
+      const frame = createRegenerateMessage(sessionId, messageId, state.model);
+      ws.send(JSON.stringify(frame));
+      pendingParentRef.current = response.parentId;
+      pendingThreadRef.current = undefined;
+      setState(prev => ({
+        ...prev,
+        isLoading: true,
+        activeRequestId: frame.id,
+        error: undefined,
+      }));
+    },
+    [state.messages, state.model]
+  );
+
+  // Send a new version of one of the user's messages; it starts a branch
+  // next to the original
+  const editMessage = useCallback(
+    (messageId: string, text: string) => {
+      const ws = wsRef.current;
+      const sessionId = sessionIdRef.current;
+      const original = state.messages.find(m => m.id === messageId);
+      if (!ws || ws.readyState !== WebSocket.OPEN || !sessionId || !original) {
+        return;
+      }
+
+      const frame = createEditMessage(sessionId, messageId, text, state.model);
+      ws.send(JSON.stringify(frame));
+      const localId = Date.now().toString();
+      pendingParentRef.current = localId;
+      pendingThreadRef.current = undefined;
+      setBranchSelection(prev => selectNewest(prev, original.parentId));
+      setState(prev => ({
+        ...prev,
+        messages: [
+          ...prev.messages,
+          {
+            id: localId,
+            text,
+            isUser: true,
+            timestamp: new Date(),
+            sessionId,
+            status: 'sending',
+            parentId: original.parentId ?? null,
+          },
+        ],
+        isLoading: true,
+        activeRequestId: frame.id,
+        error: undefined,
+      }));
+    },
+    [state.messages, state.model]
+  );
+
+  // Show another version of a message together with the branch below it
+  const selectVersion = useCallback(
+    (messageId: string) => {
+      const message = state.messages.find(m => m.id === messageId);
+      if (!message || message.parentId === undefined) {
+        return;
+      }
+      setBranchSelection(prev => ({
+        ...prev,
+        [message.parentId || '']: messageId,
+      }));
+    },
+    [state.messages]
   );
 
+  // Load the whole thread of an answer; only its recent part may have come
+  // with the history
+  const openThread = useCallback(async (messageId: string) => {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId) {
+      return;
+    }
+
+    try {
+      const thread = await sessionService.loadThread(sessionId, messageId);
+      setState(prev => {
+        if (prev.sessionId !== sessionId) {
+          return prev;
+        }
+        const known = new Set(prev.messages.map(m => m.id));
+        const missing = thread.filter(m => !known.has(m.id));
+        return missing.length > 0
+          ? {
+              ...prev,
+              messages: [...prev.messages, ...missing].sort(
+                (a, b) => a.timestamp.getTime() - b.timestamp.getTime()
+              ),
+            }
+          : prev;
+      });
+    } catch (error) {
+      logger.error('Failed to load thread', {
+        sessionId,
+        messageId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }, []);
+
+  // Tell the server a response reached this client
+  const acknowledge = useCallback((sessionId: string, messageId: string) => {
+    wsRef.current?.send(
+      JSON.stringify(createAckMessage(sessionId, [messageId]))
+    );
+  }, []);
+
+  // The server assigns the id of the new session with its first response
+  const startNewSession = useCallback(() => {
+    lastMessageIdRef.current = undefined;
+    pendingParentRef.current = undefined;
+    pendingThreadRef.current = undefined;
+    setBranchSelection({});
+    setState(prev => ({
+      ...prev,
+      sessionId: undefined,
+      messages: [],
+      isLoading: false,
+      activeRequestId: undefined,
+      isLoadingHistory: false,
+      error: undefined,
+    }));
+  }, []);
+
   const handleOpen = useCallback((event?: Event) => {
     const ws = (event?.target as WebSocket) || wsRef.current;
     const tokenToUse = tokenRef.current;
@@ -192,6 +633,7 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
       setState(prev => ({
         ...prev,
         isConnected: false,
+        activeRequestId: undefined,
         messages: [
           ...prev.messages,
           {
@@ -290,6 +732,21 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
               ],
             }));
             logger.info('WebSocket authentication successful');
+
+            // Ask for the responses missed while the socket was down
+            const sessionId = sessionIdRef.current;
+            if (sessionId) {
+              wsRef.current?.send(
+                JSON.stringify({
+                  type: 'resume',
+                  data: {
+                    action: 'resume',
+                    sessionId,
+                    lastMessageId: lastMessageIdRef.current,
+                  },
+                })
+              );
+            }
           } else {
             const errorMessage =
               data.data.error || 'Authentication failed. Please log in again.';
@@ -300,28 +757,264 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
           return;
         }
 
+        if (
+          data.type === 'system' &&
+          data.data.action === 'session_displaced'
+        ) {
+          // Another window took this connection's slot; don't fight it for it
+          reconnectAttemptsRef.current = websocketConfig.reconnectAttempts;
+          setState(prev => ({
+            ...prev,
+            isLoading: false,
+            messages: [
+              ...prev.messages,
+              {
+                id: `displaced-${Date.now()}`,
+                text: 'This chat was opened in another window or device. Click retry to continue here.',
+                isUser: false,
+                timestamp: new Date(),
+              },
+            ],
+          }));
+          return;
+        }
+
         if (data.type === 'error') {
           handleError(`Server error: ${data.data.message}`);
           return;
         }
 
-        if (data.type === 'message_response') {
+        if (data.type === 'quota_exceeded') {
+          // The connection stays usable; only this message was rejected
+          const { quota, resetAt, sessionId } = data.data;
           setState(prev => ({
             ...prev,
             isLoading: false,
+            activeRequestId: undefined,
+            messages: [
+              ...prev.messages,
+              {
+                id: `quota-${Date.now()}`,
+                text: describeQuotaExceeded(quota, resetAt),
+                isUser: false,
+                timestamp: new Date(),
+                sessionId,
+              },
+            ],
+          }));
+          return;
+        }
+
+        if (data.type === 'resume_response') {
+          logger.info('Conversation resumed', {
+            sessionId: data.data.sessionId,
+            replayed: data.data.replayed,
+          });
+          return;
+        }
+
+        if (data.type === 'session_updated') {
+          // A generated title; the sidebar merges it into its list
+          setState(prev => ({ ...prev, lastSessionUpdate: data.data }));
+          return;
+        }
+
+        if (data.type === 'rate_limited') {
+          const { retryAfter } = data.data;
+          setState(prev => ({
+            ...prev,
+            isLoading: false,
+            activeRequestId: undefined,
+            messages: [
+              ...prev.messages,
+              {
+                id: `rate-limited-${Date.now()}`,
+                text: `You are sending messages too quickly. Please try again in ${retryAfter} second${retryAfter === 1 ? '' : 's'}.`,
+                isUser: false,
+                timestamp: new Date(),
+              },
+            ],
+          }));
+          return;
+        }
+
+        // Drop output of a conversation that is no longer open
+        if (
+          (data.type === 'message_response' ||
+            data.type === 'message_chunk' ||
+            data.type === 'message_complete' ||
+            data.type === 'tool_call' ||
+            data.type === 'tool_result') &&
+          sessionIdRef.current &&
+          data.data.sessionId !== sessionIdRef.current
+        ) {
+          return;
+        }
+
+        if (data.type === 'message_response') {
+          // Replies to messages sent from another device; only shown when
+          // this window has the same conversation open
+          if (data.data.sessionId !== sessionIdRef.current) {
+            return;
+          }
+          lastMessageIdRef.current = data.data.messageId;
+          const received: Message = {
+            id: data.data.messageId,
+            text: data.data.message,
+            isUser: false,
+            timestamp: new Date(data.data.timestamp),
+            sessionId: data.data.sessionId,
+            status: 'sent',
+            threadId: data.data.threadId,
+            citations: data.data.metadata?.citations,
+          };
+          acknowledge(data.data.sessionId, data.data.messageId);
+          setState(prev => ({
+            ...prev,
             error: undefined,
-            sessionId: data.data.sessionId || prev.sessionId,
+            messages: prev.messages.some(m => m.id === received.id)
+              ? prev.messages
+              : [...prev.messages, received],
+          }));
+          return;
+        }
+
+        if (data.type === 'message_chunk') {
+          const { messageId, chunk, sessionId } = data.data;
+          const parentId = pendingParentRef.current;
+          const threadId = pendingThreadRef.current;
+          if (parentId !== undefined) {
+            setBranchSelection(prev => selectNewest(prev, parentId));
+          }
+          setState(prev => {
+            const exists = prev.messages.some(m => m.id === messageId);
+            return {
+              ...prev,
+              isLoading: false,
+              error: undefined,
+              sessionId: sessionId || prev.sessionId,
+              messages: exists
+                ? prev.messages.map(m =>
+                    m.id === messageId ? { ...m, text: m.text + chunk } : m
+                  )
+                : [
+                    ...prev.messages,
+                    {
+                      id: messageId,
+                      text: chunk,
+                      isUser: false,
+                      timestamp: new Date(),
+                      sessionId,
+                      isStreaming: true,
+                      parentId,
+                      threadId,
+                    },
+                  ],
+            };
+          });
+          return;
+        }
+
+        if (data.type === 'tool_call') {
+          // Tool activity is keyed by the model's tool call id
+          const { toolCallId, name, sessionId } = data.data;
+          setState(prev => ({
+            ...prev,
+            sessionId: sessionId || prev.sessionId,
             messages: [
               ...prev.messages,
               {
-                id: data.data.messageId,
-                text: data.data.message,
+                id: toolCallId,
+                text: `Using ${name}…`,
                 isUser: false,
-                timestamp: new Date(data.data.timestamp),
-                sessionId: data.data.sessionId,
+                timestamp: new Date(),
+                sessionId,
+                tool: { name, status: 'running' },
               },
             ],
           }));
+          return;
+        }
+
+        if (data.type === 'tool_result') {
+          const { toolCallId, name, isError } = data.data;
+          setState(prev => ({
+            ...prev,
+            messages: prev.messages.map(m =>
+              m.id === toolCallId
+                ? {
+                    ...m,
+                    text: isError ? `${name} failed` : `Used ${name}`,
+                    tool: { name, status: isError ? 'error' : 'done' },
+                  }
+                : m
+            ),
+          }));
+          return;
+        }
+
+        if (data.type === 'message_complete') {
+          // Replace the streamed text with the final assembled message; a
+          // replayed response arrives the same way
+          lastMessageIdRef.current = data.data.messageId;
+          const completed: Message = {
+            id: data.data.messageId,
+            text: data.data.message,
+            isUser: false,
+            timestamp: new Date(data.data.timestamp),
+            sessionId: data.data.sessionId,
+            isStreaming: false,
+            status: 'sent',
+            cancelled: data.data.cancelled,
+            threadId: data.data.threadId,
+            citations: data.data.metadata?.citations,
+          };
+          const { replyToMessageId } = data.data;
+          pendingParentRef.current = undefined;
+          pendingThreadRef.current = undefined;
+          setState(prev => {
+            const messages =
+              replyToMessageId &&
+              !prev.messages.some(m => m.id === replyToMessageId)
+                ? settleSentMessage(prev.messages, replyToMessageId)
+                : prev.messages;
+            // Only a reply to a message on screen joins the branches; thread
+            // responses stay in their thread
+            const placed: Message =
+              !completed.threadId &&
+              messages.some(m => m.id === replyToMessageId)
+                ? { ...completed, parentId: replyToMessageId }
+                : completed;
+            return {
+              ...prev,
+              isLoading: false,
+              activeRequestId: undefined,
+              error: undefined,
+              sessionId: data.data.sessionId || prev.sessionId,
+              messages: messages.some(m => m.id === placed.id)
+                ? messages.map(m => (m.id === placed.id ? placed : m))
+                : [...messages, placed],
+            };
+          });
+          acknowledge(data.data.sessionId, data.data.messageId);
+          return;
+        }
+
+        if (data.type === 'message_status') {
+          // Receipts stored by the server, for responses and the messages
+          // they answer
+          if (data.data.sessionId !== sessionIdRef.current) {
+            return;
+          }
+          const { messageIds, status } = data.data;
+          setState(prev => ({
+            ...prev,
+            messages: prev.messages.map(m =>
+              messageIds.includes(m.id)
+                ? { ...m, status: advanceStatus(m.status, status) }
+                : m
+            ),
+          }));
         }
       } catch (error) {
         logger.error('Error parsing WebSocket message', {
@@ -336,7 +1029,7 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
         );
       }
     },
-    [handleError, websocketConfig.reconnectAttempts]
+    [acknowledge, handleError, websocketConfig.reconnectAttempts]
   );
 
   const connect = useCallback(async () => {
@@ -419,6 +1112,10 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
     };
   }, []);
 
+  useEffect(() => {
+    sessionIdRef.current = state.sessionId;
+  }, [state.sessionId]);
+
   const retryConnect = useCallback(() => {
     setReconnectFailed(false);
     reconnectAttemptsRef.current = 0;
@@ -432,11 +1129,36 @@ export const WebSocketProvider: React.FC<WebSocketProviderProps> = ({
   const contextValue = useMemo(
     () => ({
       ...state,
+      messages: branch,
+      setModel,
       sendMessage,
+      switchSession,
+      startNewSession,
+      markAsRead,
+      cancelGeneration,
+      regenerate,
+      editMessage,
+      selectVersion,
+      openThread,
       reconnectFailed,
       retryConnect,
     }),
-    [state, sendMessage, reconnectFailed, retryConnect]
+    [
+      state,
+      branch,
+      setModel,
+      sendMessage,
+      switchSession,
+      startNewSession,
+      markAsRead,
+      cancelGeneration,
+      regenerate,
+      editMessage,
+      selectVersion,
+      openThread,
+      reconnectFailed,
+      retryConnect,
+    ]
   );
 
   return (
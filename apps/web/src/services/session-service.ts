@@ -0,0 +1,235 @@
+import {
+  type Citation,
+  CitationSchema,
+  type ConversationSummaryDto,
+  type MessageDto,
+  type SessionDto,
+} from '@awslambdahackathon/types';
+
+import { API_CONFIG, apiClient } from '../config/api';
+import type { DeliveryStatus, Message } from '../contexts/WebSocketContext';
+
+// Most recent messages loaded when a conversation is opened (API maximum)
+const HISTORY_PAGE_SIZE = 100;
+const SESSIONS_PAGE_SIZE = 50;
+
+interface CursorPage<T> {
+  items: T[];
+  pagination: {
+    totalItems: number;
+    hasNextPage: boolean;
+    nextPage?: string;
+  };
+}
+
+export interface SessionList {
+  sessions: SessionDto[];
+  nextCursor?: string;
+}
+
+// Domain errors come back as { code, message } objects, others as strings
+const describeError = (error: unknown, fallback: string): string => {
+  if (typeof error === 'string') return error;
+  if (error && typeof error === 'object' && 'message' in error) {
+    return String((error as { message: unknown }).message);
+  }
+  return fallback;
+};
+
+// A pending response is on screen once history loads, so it counts as sent
+const toDeliveryStatus = (
+  status: MessageDto['status']
+): DeliveryStatus | undefined =>
+  status === 'pending' ? 'sent' : status === 'failed' ? undefined : status;
+
+// Stored metadata is not validated by the server on the way out; citations
+// that do not match the shared schema are not shown
+const toCitations = (value: unknown): Citation[] | undefined => {
+  const parsed = CitationSchema.array().safeParse(value);
+  return parsed.success && parsed.data.length > 0 ? parsed.data : undefined;
+};
+
+export const getSessionTitle = (session: SessionDto): string => {
+  const title = session.metadata?.title;
+  return typeof title === 'string' && title.trim()
+    ? title
+    : `Chat from ${new Date(session.createdAt).toLocaleString()}`;
+};
+
+// Parent of each prompt and response, as the server resolves it: the message
+// replied to, or for messages stored before branching the one before them.
+// An edit of such a message shares the parent of the original. Thread
+// messages are outside the branches and have none.
+const resolveParents = (messages: MessageDto[]): Map<string, string | null> => {
+  const parents = new Map<string, string | null>();
+  let previousId: string | null = null;
+
+  messages.forEach(message => {
+    if (
+      (message.role !== 'user' && message.role !== 'assistant') ||
+      message.metadata?.toolCallId !== undefined ||
+      message.metadata?.threadId !== undefined
+    ) {
+      return;
+    }
+    const editedFrom = message.metadata?.editedFrom;
+    parents.set(
+      message.id,
+      message.replyToMessageId ??
+        (typeof editedFrom === 'string'
+          ? (parents.get(editedFrom) ?? null)
+          : previousId)
+    );
+    previousId = message.id;
+  });
+
+  return parents;
+};
+
+// Rebuild the chat view from stored messages; tool calls become activity rows
+export const toChatMessages = (messages: MessageDto[]): Message[] => {
+  const failedToolCalls = new Set(
+    messages
+      .filter(m => m.role === 'tool' && m.metadata?.isError === true)
+      .map(m => m.metadata?.toolCallId)
+  );
+  const parents = resolveParents(messages);
+
+  return messages.flatMap((message): Message[] => {
+    const toolCallId = message.metadata?.toolCallId;
+    const toolName = message.metadata?.toolName;
+    const responseId = message.metadata?.responseMessageId;
+
+    if (message.role === 'tool') {
+      return [];
+    }
+
+    if (typeof toolCallId === 'string' && typeof toolName === 'string') {
+      const failed = failedToolCalls.has(toolCallId);
+      return [
+        {
+          id: toolCallId,
+          text: failed ? `${toolName} failed` : `Used ${toolName}`,
+          isUser: false,
+          timestamp: new Date(message.timestamp),
+          sessionId: message.sessionId,
+          tool: { name: toolName, status: failed ? 'error' : 'done' },
+          responseId: typeof responseId === 'string' ? responseId : undefined,
+        },
+      ];
+    }
+
+    if (!message.content) {
+      return [];
+    }
+
+    const threadId = message.metadata?.threadId;
+
+    return [
+      {
+        id: message.id,
+        text: message.content,
+        isUser: message.role === 'user',
+        timestamp: new Date(message.timestamp),
+        sessionId: message.sessionId,
+        status: toDeliveryStatus(message.status),
+        cancelled: message.metadata?.cancelled === true || undefined,
+        citations: toCitations(message.metadata?.citations),
+        ...(typeof threadId === 'string'
+          ? { threadId }
+          : { parentId: parents.get(message.id) ?? null }),
+      },
+    ];
+  });
+};
+
+export const sessionService = {
+  async listSessions(cursor?: string): Promise<SessionList> {
+    const params = new URLSearchParams({ limit: String(SESSIONS_PAGE_SIZE) });
+    if (cursor) params.set('cursor', cursor);
+
+    const response = await apiClient.get<CursorPage<SessionDto>>(
+      `${API_CONFIG.endpoints.sessions}?${params}`
+    );
+    if (!response.success || !response.data) {
+      throw new Error(
+        describeError(response.error, 'Failed to load conversations')
+      );
+    }
+
+    return {
+      sessions: response.data.items,
+      nextCursor: response.data.pagination.nextPage,
+    };
+  },
+
+  async loadMessages(sessionId: string): Promise<Message[]> {
+    const params = new URLSearchParams({
+      limit: String(HISTORY_PAGE_SIZE),
+      direction: 'backward',
+    });
+
+    const response = await apiClient.get<CursorPage<MessageDto>>(
+      `${API_CONFIG.endpoints.sessions}/${encodeURIComponent(sessionId)}/messages?${params}`
+    );
+    if (!response.success || !response.data) {
+      throw new Error(
+        describeError(response.error, 'Failed to load conversation')
+      );
+    }
+
+    // Pages run newest first; the chat shows oldest first
+    return toChatMessages([...response.data.items].reverse());
+  },
+
+  // Follow-ups about an answer and their responses, oldest first
+  async loadThread(sessionId: string, messageId: string): Promise<Message[]> {
+    const response = await apiClient.get<{ items: MessageDto[] }>(
+      `${API_CONFIG.endpoints.sessions}/${encodeURIComponent(sessionId)}/messages/${encodeURIComponent(messageId)}/replies`
+    );
+    if (!response.success || !response.data) {
+      throw new Error(describeError(response.error, 'Failed to load thread'));
+    }
+
+    return toChatMessages(response.data.items);
+  },
+
+  // Null until the conversation grew long enough to be summarized
+  async loadSummary(sessionId: string): Promise<ConversationSummaryDto | null> {
+    const response = await apiClient.get<{
+      summary: ConversationSummaryDto | null;
+    }>(
+      `${API_CONFIG.endpoints.sessions}/${encodeURIComponent(sessionId)}/summary`
+    );
+    if (!response.success || !response.data) {
+      throw new Error(describeError(response.error, 'Failed to load summary'));
+    }
+
+    return response.data.summary;
+  },
+
+  async renameSession(sessionId: string, title: string): Promise<SessionDto> {
+    const response = await apiClient.patch<SessionDto>(
+      `${API_CONFIG.endpoints.sessions}/${encodeURIComponent(sessionId)}`,
+      { title }
+    );
+    if (!response.success || !response.data) {
+      throw new Error(
+        describeError(response.error, 'Failed to rename conversation')
+      );
+    }
+
+    return response.data;
+  },
+
+  async deleteSession(sessionId: string): Promise<void> {
+    const response = await apiClient.delete<{ sessionId: string }>(
+      `${API_CONFIG.endpoints.sessions}/${encodeURIComponent(sessionId)}`
+    );
+    if (!response.success) {
+      throw new Error(
+        describeError(response.error, 'Failed to delete conversation')
+      );
+    }
+  },
+};
@@ -37,6 +37,9 @@ export interface MessageDto {
   sessionId?: string;
   timestamp: string; // ISO string
   type: 'text' | 'system' | 'notification';
+  role?: 'user' | 'assistant' | 'system' | 'tool';
+  status?: 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
+  replyToMessageId?: string; // The user message an assistant message answers
   metadata?: Record<string, unknown>;
 }
 
@@ -47,11 +50,34 @@ export interface SessionDto {
   id: string;
   userId: string;
   createdAt: string; // ISO string
+  lastActivityAt?: string; // ISO string
   expiresAt: string; // ISO string
   isActive: boolean;
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Rolling summary of the older turns of a long conversation
+ */
+export interface ConversationSummaryDto {
+  content: string;
+  throughMessageId: string; // Last message the summary covers
+  messageCount: number; // Messages the summary stands in for
+  updatedAt: string; // ISO string
+}
+
+/**
+ * Document of the knowledge base that chat answers are grounded in
+ */
+export interface KnowledgeDocumentDto {
+  id: string;
+  title: string;
+  contentType: 'text' | 'markdown' | 'pdf';
+  uploadedBy: string;
+  chunkCount: number; // Passages the document was split into
+  createdAt: string; // ISO string
+}
+
 /**
  * Error DTO for consistent error responses
  */
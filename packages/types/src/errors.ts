@@ -19,10 +19,12 @@ export type ErrorCode =
   | 'SESSION_EXPIRED'
   | 'USER_AUTHORIZATION_FAILED'
   | 'CONNECTION_LIMIT_EXCEEDED'
+  | 'CONNECTION_GONE'
   | 'MESSAGE_RATE_LIMIT_EXCEEDED'
   | 'INVALID_TOKEN'
   | 'SERVICE_UNAVAILABLE'
-  | 'CIRCUIT_BREAKER_OPEN';
+  | 'CIRCUIT_BREAKER_OPEN'
+  | 'QUOTA_EXCEEDED';
 
 /**
  * Base domain error class - used across all modules
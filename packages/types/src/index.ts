@@ -3,6 +3,7 @@ export * from './auth';
 export * from './config';
 export * from './logging';
 export * from './messages';
+export * from './models';
 export * from './schemas';
 export * from './websocket';
 
@@ -23,6 +23,14 @@ export const MessageStatusSchema = z.enum([
   'deleted',
 ]);
 
+// Message author role schema
+export const MessageRoleSchema = z.enum([
+  'user',
+  'assistant',
+  'system',
+  'tool',
+]);
+
 // Message with status schema
 export const MessageWithStatusSchema = ChatMessageDataSchema.extend({
   status: MessageStatusSchema,
@@ -98,6 +106,7 @@ export const MessageTemplateSchema = z.object({
 // Type exports
 export type ChatMessageData = z.infer<typeof ChatMessageDataSchema>;
 export type MessageStatus = z.infer<typeof MessageStatusSchema>;
+export type MessageRole = z.infer<typeof MessageRoleSchema>;
 export type MessageWithStatus = z.infer<typeof MessageWithStatusSchema>;
 export type ChatSession = z.infer<typeof ChatSessionSchema>;
 export type MessageThread = z.infer<typeof MessageThreadSchema>;
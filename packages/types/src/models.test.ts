@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  estimateModelCost,
+  getInvocationModelId,
+  isSupportedModel,
+  MODEL_CATALOG,
+  SUPPORTED_MODELS,
+} from './models';
+
+describe('estimateModelCost', () => {
+  it('prices input and output tokens per 1,000', () => {
+    // 0.00025 per 1k input and 0.00125 per 1k output tokens
+    expect(estimateModelCost('claude-3-haiku', 2000, 1000)).toBeCloseTo(
+      0.00175,
+      10
+    );
+  });
+
+  it('prices partial thousands proportionally', () => {
+    expect(estimateModelCost('nova-micro', 500, 250)).toBeCloseTo(
+      0.0000175 + 0.000035,
+      12
+    );
+  });
+
+  it('is free without tokens', () => {
+    expect(estimateModelCost('claude-3-opus', 0, 0)).toBe(0);
+  });
+
+  it('charges more for output than input on every model', () => {
+    SUPPORTED_MODELS.forEach(model => {
+      expect(estimateModelCost(model, 0, 1000)).toBeGreaterThan(
+        estimateModelCost(model, 1000, 0)
+      );
+    });
+  });
+});
+
+describe('model catalog', () => {
+  it('recognizes only catalog models', () => {
+    expect(isSupportedModel('nova-lite')).toBe(true);
+    expect(isSupportedModel('toString')).toBe(false);
+    expect(isSupportedModel(undefined)).toBe(false);
+  });
+
+  it('invokes the inference profile when the model has one', () => {
+    expect(getInvocationModelId('nova-pro')).toBe(
+      MODEL_CATALOG['nova-pro'].inferenceProfile.id
+    );
+    expect(getInvocationModelId('claude-3-sonnet')).toBe(
+      MODEL_CATALOG['claude-3-sonnet'].bedrockModelId
+    );
+  });
+});
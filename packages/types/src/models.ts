@@ -0,0 +1,146 @@
+// Catalog of the LLM models the platform can serve. This module is
+// dependency-free so the CDK app can load it when generating IAM policies.
+
+export type ModelRequestFormat = 'nova' | 'claude';
+
+export interface ModelCapabilities {
+  streaming: boolean;
+  tools: boolean;
+  images: boolean;
+}
+
+// On-demand prices in USD per 1,000 tokens
+export interface ModelPricing {
+  inputPer1kTokens: number;
+  outputPer1kTokens: number;
+}
+
+export interface ModelInferenceProfile {
+  id: string;
+  regions: string[]; // Regions the profile may route requests to
+}
+
+export interface ModelDefinition {
+  name: string;
+  provider: 'amazon' | 'anthropic';
+  bedrockModelId: string; // Foundation model id
+  inferenceProfile?: ModelInferenceProfile; // Invoked instead of the model id when set
+  format: ModelRequestFormat;
+  maxTokens: number; // Maximum output tokens per request
+  contextWindow: number;
+  pricing: ModelPricing;
+  capabilities: ModelCapabilities;
+}
+
+const US_CROSS_REGION = ['us-east-1', 'us-east-2', 'us-west-2'];
+
+export const MODEL_CATALOG = {
+  'nova-micro': {
+    name: 'Amazon Nova Micro',
+    provider: 'amazon',
+    bedrockModelId: 'amazon.nova-micro-v1:0',
+    inferenceProfile: {
+      id: 'us.amazon.nova-micro-v1:0',
+      regions: US_CROSS_REGION,
+    },
+    format: 'nova',
+    maxTokens: 5000,
+    contextWindow: 128000,
+    pricing: { inputPer1kTokens: 0.000035, outputPer1kTokens: 0.00014 },
+    capabilities: { streaming: true, tools: true, images: false },
+  },
+  'nova-lite': {
+    name: 'Amazon Nova Lite',
+    provider: 'amazon',
+    bedrockModelId: 'amazon.nova-lite-v1:0',
+    inferenceProfile: {
+      id: 'us.amazon.nova-lite-v1:0',
+      regions: US_CROSS_REGION,
+    },
+    format: 'nova',
+    maxTokens: 5000,
+    contextWindow: 300000,
+    pricing: { inputPer1kTokens: 0.00006, outputPer1kTokens: 0.00024 },
+    capabilities: { streaming: true, tools: true, images: true },
+  },
+  'nova-pro': {
+    name: 'Amazon Nova Pro',
+    provider: 'amazon',
+    bedrockModelId: 'amazon.nova-pro-v1:0',
+    inferenceProfile: {
+      id: 'us.amazon.nova-pro-v1:0',
+      regions: US_CROSS_REGION,
+    },
+    format: 'nova',
+    maxTokens: 5000,
+    contextWindow: 300000,
+    pricing: { inputPer1kTokens: 0.0008, outputPer1kTokens: 0.0032 },
+    capabilities: { streaming: true, tools: true, images: true },
+  },
+  'claude-3-haiku': {
+    name: 'Claude 3 Haiku',
+    provider: 'anthropic',
+    bedrockModelId: 'anthropic.claude-3-haiku-20240307-v1:0',
+    format: 'claude',
+    maxTokens: 4096,
+    contextWindow: 200000,
+    pricing: { inputPer1kTokens: 0.00025, outputPer1kTokens: 0.00125 },
+    capabilities: { streaming: true, tools: true, images: true },
+  },
+  'claude-3-sonnet': {
+    name: 'Claude 3 Sonnet',
+    provider: 'anthropic',
+    bedrockModelId: 'anthropic.claude-3-sonnet-20240229-v1:0',
+    format: 'claude',
+    maxTokens: 4096,
+    contextWindow: 200000,
+    pricing: { inputPer1kTokens: 0.003, outputPer1kTokens: 0.015 },
+    capabilities: { streaming: true, tools: true, images: true },
+  },
+  'claude-3-opus': {
+    name: 'Claude 3 Opus',
+    provider: 'anthropic',
+    bedrockModelId: 'anthropic.claude-3-opus-20240229-v1:0',
+    format: 'claude',
+    maxTokens: 4096,
+    contextWindow: 200000,
+    pricing: { inputPer1kTokens: 0.015, outputPer1kTokens: 0.075 },
+    capabilities: { streaming: true, tools: true, images: true },
+  },
+} as const satisfies Record<string, ModelDefinition>;
+
+export type LLMModel = keyof typeof MODEL_CATALOG;
+
+export const DEFAULT_MODEL: LLMModel = 'nova-micro';
+
+export const SUPPORTED_MODELS = Object.keys(MODEL_CATALOG) as LLMModel[];
+
+export function isSupportedModel(model: unknown): model is LLMModel {
+  return (
+    typeof model === 'string' &&
+    Object.prototype.hasOwnProperty.call(MODEL_CATALOG, model)
+  );
+}
+
+export function getModelDefinition(model: LLMModel): ModelDefinition {
+  return MODEL_CATALOG[model];
+}
+
+// Id passed to Bedrock when invoking a model
+export function getInvocationModelId(model: LLMModel): string {
+  const definition = getModelDefinition(model);
+  return definition.inferenceProfile?.id ?? definition.bedrockModelId;
+}
+
+// Estimated cost in USD of a request
+export function estimateModelCost(
+  model: LLMModel,
+  inputTokens: number,
+  outputTokens: number
+): number {
+  const { pricing } = getModelDefinition(model);
+  return (
+    (inputTokens / 1000) * pricing.inputPer1kTokens +
+    (outputTokens / 1000) * pricing.outputPer1kTokens
+  );
+}
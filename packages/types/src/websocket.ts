@@ -1,12 +1,29 @@
 import { z } from 'zod';
 
+import { MessageRoleSchema } from './messages';
+import { LLMModel, SUPPORTED_MODELS } from './models';
 import { ErrorSchema, IdSchema, TimestampSchema } from './schemas';
 // WebSocket message types
 export const WebSocketMessageTypeSchema = z.enum([
   'auth',
   'auth_response',
+  'resume',
+  'resume_response',
+  'ack',
+  'read',
+  'message_status',
+  'cancel',
   'message',
+  'regenerate',
+  'edit_message',
   'message_response',
+  'message_chunk',
+  'message_complete',
+  'tool_call',
+  'tool_result',
+  'quota_exceeded',
+  'rate_limited',
+  'session_updated',
   'error',
   'system',
   'ping',
@@ -42,20 +59,173 @@ export const AuthResponseSchema = z.object({
     .optional(),
 });
 
+// Resume schemas, sent by a reconnected client after authenticating so the
+// server replays the responses it missed
+export const ResumeMessageSchema = z.object({
+  action: z.literal('resume'),
+  sessionId: IdSchema,
+  lastMessageId: IdSchema.optional(), // Last server message the client received
+});
+
+export const ResumeResponseSchema = z.object({
+  sessionId: IdSchema,
+  replayed: z.number().int().nonnegative(), // message_complete frames sent before this one
+});
+
+// Receipt schemas, sent by the client when responses reach it (ack) and when
+// they are shown on screen (read)
+const ReceiptMessageIdsSchema = z.array(IdSchema).min(1).max(50);
+
+export const AckMessageSchema = z.object({
+  action: z.literal('ack'),
+  sessionId: IdSchema,
+  messageIds: ReceiptMessageIdsSchema,
+});
+
+export const ReadMessageSchema = z.object({
+  action: z.literal('read'),
+  sessionId: IdSchema,
+  messageIds: ReceiptMessageIdsSchema,
+});
+
+// Message status schema, sent when stored messages change delivery state
+export const MessageStatusUpdateSchema = z.object({
+  sessionId: IdSchema,
+  messageIds: z.array(IdSchema),
+  status: z.enum(['delivered', 'read']),
+});
+
+// Cancel schema, sent by the client to stop the response to one of its
+// messages; requestId is the id of the message frame
+export const CancelMessageSchema = z.object({
+  action: z.literal('cancel'),
+  requestId: IdSchema,
+  sessionId: IdSchema.optional(),
+});
+
+// Models a client may request, from the shared model catalog
+export const LLMModelSchema = z.enum(
+  SUPPORTED_MODELS as [LLMModel, ...LLMModel[]]
+);
+
 // Chat message schemas
 export const ChatMessageSchema = z.object({
   action: z.literal('sendMessage'),
   message: z.string().min(1).max(10000), // Max 10KB message
   sessionId: IdSchema.optional(),
+  model: LLMModelSchema.optional(),
+  parentMessageId: IdSchema.optional(), // Last message of the branch shown; the latest by default
+  replyToMessageId: IdSchema.optional(), // Answer to follow up on in its thread, outside the branches
   metadata: z.record(z.unknown()).optional(),
 });
 
+// Branching schemas: regenerate answers the prompt of a response again and
+// edit_message sends a new version of a user message. The new message is a
+// sibling of the old one; both frames stream their reply like a chat message.
+export const RegenerateMessageSchema = z.object({
+  action: z.literal('regenerate'),
+  sessionId: IdSchema,
+  messageId: IdSchema, // Assistant response to replace
+  model: LLMModelSchema.optional(),
+});
+
+export const EditMessageSchema = z.object({
+  action: z.literal('edit_message'),
+  sessionId: IdSchema,
+  messageId: IdSchema, // User message to replace
+  message: z.string().min(1).max(10000),
+  model: LLMModelSchema.optional(),
+});
+
+// Source an answer is grounded in: a knowledge base passage or the output of
+// a tool. The answer refers to it with [index] markers.
+export const CitationSchema = z.object({
+  index: z.number().int().positive(), // Footnote number
+  sourceType: z.enum(['document', 'tool']),
+  sourceId: z.string().min(1), // Knowledge document id or tool call id
+  title: z.string(),
+  snippet: z.string(), // Text of the source the answer draws on
+  url: z.string().optional(), // Link to the source, or an anchor in it
+  // Character ranges of the [index] markers in the answer
+  offsets: z.array(
+    z.object({
+      start: z.number().int().nonnegative(),
+      end: z.number().int().nonnegative(),
+    })
+  ),
+  score: z.number().optional(), // Similarity of a passage to the question
+});
+
+export const ChatMessageMetadataSchema = z
+  .object({
+    citations: z.array(CitationSchema).optional(),
+  })
+  .passthrough();
+
 export const ChatMessageResponseSchema = z.object({
   message: z.string().min(1),
   sessionId: IdSchema,
   messageId: IdSchema,
   timestamp: TimestampSchema,
-  metadata: z.record(z.unknown()).optional(),
+  role: MessageRoleSchema.optional(),
+  replyToMessageId: IdSchema.optional(), // The user message being answered
+  cancelled: z.boolean().optional(), // Generation was stopped by the user
+  threadId: IdSchema.optional(), // Answer whose thread the response belongs to
+  metadata: ChatMessageMetadataSchema.optional(),
+});
+
+// Streamed chat response schemas
+export const MessageChunkSchema = z.object({
+  messageId: IdSchema,
+  sessionId: IdSchema,
+  chunk: z.string(),
+  index: z.number().int().nonnegative(),
+});
+
+// Tool call schema, sent when the model asks to run a tool
+export const ToolCallSchema = z.object({
+  messageId: IdSchema,
+  sessionId: IdSchema,
+  toolCallId: z.string().min(1),
+  name: z.string().min(1),
+  input: z.record(z.unknown()),
+});
+
+// Tool result schema, sent once the requested tool has run
+export const ToolResultSchema = z.object({
+  messageId: IdSchema,
+  sessionId: IdSchema,
+  toolCallId: z.string().min(1),
+  name: z.string().min(1),
+  content: z.string(),
+  isError: z.boolean(),
+});
+
+// Quota exceeded schema, sent instead of a response when a usage quota is hit
+export const QuotaExceededSchema = z.object({
+  message: z.string(),
+  code: z.literal('QUOTA_EXCEEDED'),
+  quota: z.enum(['daily_tokens', 'daily_cost', 'session_tokens']),
+  limit: z.number().nonnegative(),
+  used: z.number().nonnegative(),
+  resetAt: TimestampSchema.optional(), // When the exhausted quota renews
+  sessionId: IdSchema.optional(),
+});
+
+// Rate limited schema, sent instead of a response when messages arrive too fast
+export const RateLimitedSchema = z.object({
+  message: z.string(),
+  code: z.literal('MESSAGE_RATE_LIMIT_EXCEEDED'),
+  limit: z.number().int().nonnegative(), // Messages per window
+  windowSeconds: z.number().int().positive(),
+  retryAfter: z.number().int().positive(), // Seconds until a message can be sent
+});
+
+// Session updated schema (sent when the server changes a conversation)
+export const SessionUpdatedSchema = z.object({
+  sessionId: IdSchema,
+  title: z.string(),
+  titleSource: z.enum(['auto', 'user']),
 });
 
 // System message schema
@@ -65,6 +235,7 @@ export const SystemMessageSchema = z.object({
     'user_joined',
     'user_left',
     'maintenance',
+    'session_displaced', // A newer connection of the same user replaced this one
   ]),
   data: z.record(z.unknown()).optional(),
 });
@@ -100,17 +271,78 @@ export const WebSocketMessageSchema = z.discriminatedUnion('type', [
     data: AuthResponseSchema,
   }),
 
+  BaseWebSocketMessageSchema.extend({
+    type: z.literal('resume'),
+    data: ResumeMessageSchema,
+  }),
+
+  BaseWebSocketMessageSchema.extend({
+    type: z.literal('resume_response'),
+    data: ResumeResponseSchema,
+  }),
+
+  // Delivery receipts
+  BaseWebSocketMessageSchema.extend({
+    type: z.literal('ack'),
+    data: AckMessageSchema,
+  }),
+
+  BaseWebSocketMessageSchema.extend({
+    type: z.literal('read'),
+    data: ReadMessageSchema,
+  }),
+
+  BaseWebSocketMessageSchema.extend({
+    type: z.literal('message_status'),
+    data: MessageStatusUpdateSchema,
+  }),
+
   // Chat messages
   BaseWebSocketMessageSchema.extend({
     type: z.literal('message'),
     data: ChatMessageSchema,
   }),
 
+  BaseWebSocketMessageSchema.extend({
+    type: z.literal('regenerate'),
+    data: RegenerateMessageSchema,
+  }),
+
+  BaseWebSocketMessageSchema.extend({
+    type: z.literal('edit_message'),
+    data: EditMessageSchema,
+  }),
+
+  BaseWebSocketMessageSchema.extend({
+    type: z.literal('cancel'),
+    data: CancelMessageSchema,
+  }),
+
   BaseWebSocketMessageSchema.extend({
     type: z.literal('message_response'),
     data: ChatMessageResponseSchema,
   }),
 
+  BaseWebSocketMessageSchema.extend({
+    type: z.literal('message_chunk'),
+    data: MessageChunkSchema,
+  }),
+
+  BaseWebSocketMessageSchema.extend({
+    type: z.literal('message_complete'),
+    data: ChatMessageResponseSchema,
+  }),
+
+  BaseWebSocketMessageSchema.extend({
+    type: z.literal('tool_call'),
+    data: ToolCallSchema,
+  }),
+
+  BaseWebSocketMessageSchema.extend({
+    type: z.literal('tool_result'),
+    data: ToolResultSchema,
+  }),
+
   // System messages
   BaseWebSocketMessageSchema.extend({
     type: z.literal('system'),
@@ -122,6 +354,21 @@ export const WebSocketMessageSchema = z.discriminatedUnion('type', [
     data: ConnectionStatusSchema,
   }),
 
+  BaseWebSocketMessageSchema.extend({
+    type: z.literal('quota_exceeded'),
+    data: QuotaExceededSchema,
+  }),
+
+  BaseWebSocketMessageSchema.extend({
+    type: z.literal('rate_limited'),
+    data: RateLimitedSchema,
+  }),
+
+  BaseWebSocketMessageSchema.extend({
+    type: z.literal('session_updated'),
+    data: SessionUpdatedSchema,
+  }),
+
   // Error messages
   BaseWebSocketMessageSchema.extend({
     type: z.literal('error'),
@@ -412,8 +659,24 @@ export type WebSocketMessageType = z.infer<typeof WebSocketMessageTypeSchema>;
 export type WebSocketMessage = z.infer<typeof WebSocketMessageSchema>;
 export type AuthMessage = z.infer<typeof AuthMessageSchema>;
 export type AuthResponse = z.infer<typeof AuthResponseSchema>;
+export type ResumeMessage = z.infer<typeof ResumeMessageSchema>;
+export type ResumeResponse = z.infer<typeof ResumeResponseSchema>;
+export type AckMessage = z.infer<typeof AckMessageSchema>;
+export type ReadMessage = z.infer<typeof ReadMessageSchema>;
+export type MessageStatusUpdate = z.infer<typeof MessageStatusUpdateSchema>;
 export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+export type RegenerateMessage = z.infer<typeof RegenerateMessageSchema>;
+export type EditMessage = z.infer<typeof EditMessageSchema>;
+export type CancelMessage = z.infer<typeof CancelMessageSchema>;
+export type Citation = z.infer<typeof CitationSchema>;
+export type ChatMessageMetadata = z.infer<typeof ChatMessageMetadataSchema>;
 export type ChatMessageResponse = z.infer<typeof ChatMessageResponseSchema>;
+export type MessageChunk = z.infer<typeof MessageChunkSchema>;
+export type ToolCall = z.infer<typeof ToolCallSchema>;
+export type ToolResult = z.infer<typeof ToolResultSchema>;
+export type QuotaExceeded = z.infer<typeof QuotaExceededSchema>;
+export type RateLimited = z.infer<typeof RateLimitedSchema>;
+export type SessionUpdated = z.infer<typeof SessionUpdatedSchema>;
 export type SystemMessage = z.infer<typeof SystemMessageSchema>;
 export type ConnectionStatus = z.infer<typeof ConnectionStatusSchema>;
 export type PingMessage = z.infer<typeof PingMessageSchema>;
@@ -501,6 +764,51 @@ export const createAuthMessage = (token: string): WebSocketMessage => ({
   },
 });
 
+export const createResumeMessage = (
+  sessionId: string,
+  lastMessageId?: string
+): WebSocketMessage => ({
+  type: 'resume',
+  id: crypto.randomUUID(),
+  timestamp: new Date().toISOString(),
+  sessionId,
+  data: {
+    action: 'resume',
+    sessionId,
+    lastMessageId,
+  },
+});
+
+export const createAckMessage = (
+  sessionId: string,
+  messageIds: string[]
+): WebSocketMessage => ({
+  type: 'ack',
+  id: crypto.randomUUID(),
+  timestamp: new Date().toISOString(),
+  sessionId,
+  data: {
+    action: 'ack',
+    sessionId,
+    messageIds,
+  },
+});
+
+export const createReadMessage = (
+  sessionId: string,
+  messageIds: string[]
+): WebSocketMessage => ({
+  type: 'read',
+  id: crypto.randomUUID(),
+  timestamp: new Date().toISOString(),
+  sessionId,
+  data: {
+    action: 'read',
+    sessionId,
+    messageIds,
+  },
+});
+
 export const createChatMessage = (
   message: string,
   sessionId?: string
@@ -516,6 +824,57 @@ export const createChatMessage = (
   },
 });
 
+export const createRegenerateMessage = (
+  sessionId: string,
+  messageId: string,
+  model?: LLMModel
+): WebSocketMessage => ({
+  type: 'regenerate',
+  id: crypto.randomUUID(),
+  timestamp: new Date().toISOString(),
+  sessionId,
+  data: {
+    action: 'regenerate',
+    sessionId,
+    messageId,
+    model,
+  },
+});
+
+export const createEditMessage = (
+  sessionId: string,
+  messageId: string,
+  message: string,
+  model?: LLMModel
+): WebSocketMessage => ({
+  type: 'edit_message',
+  id: crypto.randomUUID(),
+  timestamp: new Date().toISOString(),
+  sessionId,
+  data: {
+    action: 'edit_message',
+    sessionId,
+    messageId,
+    message,
+    model,
+  },
+});
+
+export const createCancelMessage = (
+  requestId: string,
+  sessionId?: string
+): WebSocketMessage => ({
+  type: 'cancel',
+  id: crypto.randomUUID(),
+  timestamp: new Date().toISOString(),
+  sessionId,
+  data: {
+    action: 'cancel',
+    requestId,
+    sessionId,
+  },
+});
+
 export const createPingMessage = (): WebSocketMessage => ({
   type: 'ping',
   id: crypto.randomUUID(),
@@ -0,0 +1,93 @@
+#!/bin/bash
+
+# Rewrites message sort keys from the bare ISO timestamp to "<timestamp>#<messageId>".
+# Messages created in the same millisecond then keep a stable, unique order.
+# The runtime reads both formats; this only makes ordering of old records stable.
+# Usage: MESSAGES_TABLE=<table> AWS_REGION=<region> bash scripts/backfill-message-keys.sh
+
+if [ -z "$MESSAGES_TABLE" ] || [ -z "$AWS_REGION" ]; then
+  echo "❌ Error: MESSAGES_TABLE and AWS_REGION must be set."
+  exit 1
+fi
+
+if ! command -v jq >/dev/null 2>&1; then
+  echo "❌ Error: jq is required."
+  exit 1
+fi
+
+echo "🚀 Backfilling message keys in table: $MESSAGES_TABLE"
+
+MIGRATED=0
+NEXT_TOKEN=""
+
+while : ; do
+  # 1. Scan a page of messages whose sort key has no message id suffix
+  if [ -n "$NEXT_TOKEN" ]; then
+    PAGE=$(aws dynamodb scan \
+      --table-name "$MESSAGES_TABLE" \
+      --filter-expression "NOT contains(#timestamp, :hash) AND attribute_exists(messageId)" \
+      --expression-attribute-names '{"#timestamp":"timestamp"}' \
+      --expression-attribute-values '{":hash":{"S":"#"}}' \
+      --starting-token "$NEXT_TOKEN" \
+      --max-items 100 \
+      --region "$AWS_REGION" \
+      --output json)
+  else
+    PAGE=$(aws dynamodb scan \
+      --table-name "$MESSAGES_TABLE" \
+      --filter-expression "NOT contains(#timestamp, :hash) AND attribute_exists(messageId)" \
+      --expression-attribute-names '{"#timestamp":"timestamp"}' \
+      --expression-attribute-values '{":hash":{"S":"#"}}' \
+      --max-items 100 \
+      --region "$AWS_REGION" \
+      --output json)
+  fi
+
+  if [ $? -ne 0 ]; then
+    echo "❌ Error scanning table \"$MESSAGES_TABLE\"."
+    exit 1
+  fi
+
+  # 2. Copy each message under the new key, keeping the original time as createdAt
+  ITEMS=$(echo "$PAGE" | jq -c '.Items[] | {
+    oldKey: { sessionId: .sessionId, timestamp: .timestamp },
+    item: (. + {
+      timestamp: { S: (.timestamp.S + "#" + .messageId.S) },
+      createdAt: (.createdAt // .timestamp)
+    })
+  }')
+
+  while IFS= read -r ITEM; do
+    [ -z "$ITEM" ] && continue
+    OLD_KEY=$(echo "$ITEM" | jq -c '.oldKey')
+    NEW_ITEM=$(echo "$ITEM" | jq -c '.item')
+
+    aws dynamodb put-item \
+      --table-name "$MESSAGES_TABLE" \
+      --item "$NEW_ITEM" \
+      --condition-expression "attribute_not_exists(sessionId)" \
+      --region "$AWS_REGION" 2>/dev/null
+
+    if [ $? -ne 0 ]; then
+      echo "⚠️  Skipping message with key $OLD_KEY (copy failed or already exists)"
+      continue
+    fi
+
+    # 3. Remove the record stored under the legacy key
+    aws dynamodb delete-item \
+      --table-name "$MESSAGES_TABLE" \
+      --key "$OLD_KEY" \
+      --region "$AWS_REGION" 2>/dev/null
+
+    if [ $? -eq 0 ]; then
+      MIGRATED=$((MIGRATED + 1))
+    else
+      echo "⚠️  Copied but could not delete legacy record $OLD_KEY"
+    fi
+  done <<< "$ITEMS"
+
+  NEXT_TOKEN=$(echo "$PAGE" | jq -r '.NextToken // empty')
+  [ -z "$NEXT_TOKEN" ] && break
+done
+
+echo -e "\n🎉 Backfill complete. Migrated $MIGRATED message(s)."
@@ -0,0 +1,114 @@
+#!/bin/bash
+
+# Backfills the author "role" attribute on messages stored before roles existed.
+# Roles are inferred from conversation order, the same rule as DynamoDBMessageMapper.inferLegacyRoles.
+# Usage: MESSAGES_TABLE=<table> AWS_REGION=<region> bash scripts/backfill-message-roles.sh
+
+if [ -z "$MESSAGES_TABLE" ] || [ -z "$AWS_REGION" ]; then
+  echo "❌ Error: MESSAGES_TABLE and AWS_REGION must be set."
+  exit 1
+fi
+
+if ! command -v jq >/dev/null 2>&1; then
+  echo "❌ Error: jq is required."
+  exit 1
+fi
+
+echo "🚀 Backfilling message roles in table: $MESSAGES_TABLE"
+
+UPDATED=0
+NEXT_TOKEN=""
+SESSION_IDS=""
+
+# 1. Collect the sessions that contain messages without a role
+while : ; do
+  if [ -n "$NEXT_TOKEN" ]; then
+    PAGE=$(aws dynamodb scan \
+      --table-name "$MESSAGES_TABLE" \
+      --filter-expression "attribute_not_exists(#role)" \
+      --expression-attribute-names '{"#role":"role"}' \
+      --projection-expression "sessionId" \
+      --starting-token "$NEXT_TOKEN" \
+      --max-items 100 \
+      --region "$AWS_REGION" \
+      --output json)
+  else
+    PAGE=$(aws dynamodb scan \
+      --table-name "$MESSAGES_TABLE" \
+      --filter-expression "attribute_not_exists(#role)" \
+      --expression-attribute-names '{"#role":"role"}' \
+      --projection-expression "sessionId" \
+      --max-items 100 \
+      --region "$AWS_REGION" \
+      --output json)
+  fi
+
+  if [ $? -ne 0 ]; then
+    echo "❌ Error scanning table \"$MESSAGES_TABLE\"."
+    exit 1
+  fi
+
+  SESSION_IDS=$(printf '%s\n%s' "$SESSION_IDS" "$(echo "$PAGE" | jq -r '.Items[].sessionId.S')")
+
+  NEXT_TOKEN=$(echo "$PAGE" | jq -r '.NextToken // empty')
+  [ -z "$NEXT_TOKEN" ] && break
+done
+
+SESSION_IDS=$(echo "$SESSION_IDS" | sed '/^$/d' | sort -u)
+
+while IFS= read -r SESSION_ID; do
+  [ -z "$SESSION_ID" ] && continue
+
+  # 2. Load the whole session; the CLI follows pagination itself
+  SESSION=$(aws dynamodb query \
+    --table-name "$MESSAGES_TABLE" \
+    --key-condition-expression "sessionId = :sessionId" \
+    --expression-attribute-names '{"#role":"role","#type":"type","#timestamp":"timestamp"}' \
+    --expression-attribute-values "$(jq -nc --arg id "$SESSION_ID" '{":sessionId":{"S":$id}}')" \
+    --projection-expression "sessionId, #timestamp, #role, #type" \
+    --region "$AWS_REGION" \
+    --output json)
+
+  if [ $? -ne 0 ]; then
+    echo "❌ Error querying session \"$SESSION_ID\"."
+    exit 1
+  fi
+
+  # 3. Infer the role from conversation order:
+  #    non-system messages alternate user/assistant in timestamp order,
+  #    starting with the user, anchored by messages that have a role
+  ITEMS=$(echo "$SESSION" | jq -c '
+    .Items | sort_by(.timestamp.S) | reduce .[] as $m ({ previous: null, out: [] };
+      ($m.role.S // "") as $stored
+      | if ["user", "assistant", "system", "tool"] | index($stored) then
+          if $stored == "user" or $stored == "assistant" then .previous = $stored else . end
+        elif $m.type.S == "system" then
+          .out += [{ key: { sessionId: $m.sessionId, timestamp: $m.timestamp }, role: "system" }]
+        else
+          (if .previous == "user" then "assistant" else "user" end) as $role
+          | .previous = $role
+          | .out += [{ key: { sessionId: $m.sessionId, timestamp: $m.timestamp }, role: $role }]
+        end)
+    | .out[]')
+
+  while IFS= read -r ITEM; do
+    [ -z "$ITEM" ] && continue
+    KEY=$(echo "$ITEM" | jq -c '.key')
+    ROLE=$(echo "$ITEM" | jq -r '.role')
+
+    aws dynamodb update-item \
+      --table-name "$MESSAGES_TABLE" \
+      --key "$KEY" \
+      --update-expression "SET #role = :role" \
+      --condition-expression "attribute_not_exists(#role)" \
+      --expression-attribute-names '{"#role":"role"}' \
+      --expression-attribute-values "{\":role\":{\"S\":\"$ROLE\"}}" \
+      --region "$AWS_REGION" 2>/dev/null
+
+    if [ $? -eq 0 ]; then
+      UPDATED=$((UPDATED + 1))
+    fi
+  done <<< "$ITEMS"
+done <<< "$SESSION_IDS"
+
+echo -e "\n🎉 Backfill complete. Updated $UPDATED message(s)."
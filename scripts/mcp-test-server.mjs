@@ -0,0 +1,198 @@
+#!/usr/bin/env node
+// Minimal Model Context Protocol server for exercising the runtime MCP client
+// locally, with no dependencies beyond Node.js.
+//
+// Usage:
+//   node scripts/mcp-test-server.mjs                 # stdio transport
+//   node scripts/mcp-test-server.mjs --http 3333     # Streamable HTTP, JSON replies
+//   node scripts/mcp-test-server.mjs --http 3333 --sse  # Streamable HTTP, SSE replies
+
+import { randomUUID } from 'node:crypto';
+import { createServer } from 'node:http';
+import { createInterface } from 'node:readline';
+
+const PROTOCOL_VERSION = '2025-03-26';
+
+const tools = [
+  {
+    name: 'echo',
+    description: 'Echo the given text back unchanged.',
+    inputSchema: {
+      type: 'object',
+      properties: { text: { type: 'string' } },
+      required: ['text'],
+    },
+  },
+  {
+    name: 'add',
+    description: 'Add two numbers.',
+    inputSchema: {
+      type: 'object',
+      properties: { a: { type: 'number' }, b: { type: 'number' } },
+      required: ['a', 'b'],
+    },
+  },
+];
+
+const resources = [
+  {
+    uri: 'test://greeting',
+    name: 'Greeting',
+    description: 'A fixed greeting used to verify resource reads',
+    mimeType: 'text/plain',
+  },
+];
+
+const prompts = [
+  {
+    name: 'summarize',
+    description: 'Ask for a short summary of a topic',
+    arguments: [{ name: 'topic', required: true }],
+  },
+];
+
+const log = message => process.stderr.write(`[mcp-test-server] ${message}\n`);
+
+function handle(method, params = {}) {
+  switch (method) {
+    case 'initialize':
+      return {
+        protocolVersion: PROTOCOL_VERSION,
+        capabilities: { tools: {}, resources: {}, prompts: {} },
+        serverInfo: { name: 'mcp-test-server', version: '0.0.0' },
+      };
+    case 'ping':
+      return {};
+    case 'tools/list':
+      return { tools };
+    case 'tools/call': {
+      const args = params.arguments || {};
+      if (params.name === 'echo') {
+        return { content: [{ type: 'text', text: String(args.text) }] };
+      }
+      if (params.name === 'add') {
+        return {
+          content: [{ type: 'text', text: String(args.a + args.b) }],
+        };
+      }
+      return {
+        content: [{ type: 'text', text: `Unknown tool: ${params.name}` }],
+        isError: true,
+      };
+    }
+    case 'resources/list':
+      return { resources };
+    case 'resources/read':
+      if (params.uri !== 'test://greeting') {
+        throw { code: -32002, message: `Resource not found: ${params.uri}` };
+      }
+      return {
+        contents: [
+          {
+            uri: params.uri,
+            mimeType: 'text/plain',
+            text: 'Hello from the MCP test server!',
+          },
+        ],
+      };
+    case 'prompts/list':
+      return { prompts };
+    case 'prompts/get':
+      if (params.name !== 'summarize') {
+        throw { code: -32602, message: `Unknown prompt: ${params.name}` };
+      }
+      return {
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: `Summarize ${params.arguments?.topic} in two sentences.`,
+            },
+          },
+        ],
+      };
+    default:
+      throw { code: -32601, message: `Method not found: ${method}` };
+  }
+}
+
+// Returns the JSON-RPC reply for a message, or undefined for notifications
+function dispatch(message) {
+  if (message.id === undefined) {
+    log(`notification ${message.method}`);
+    return undefined;
+  }
+  try {
+    return {
+      jsonrpc: '2.0',
+      id: message.id,
+      result: handle(message.method, message.params),
+    };
+  } catch (error) {
+    return {
+      jsonrpc: '2.0',
+      id: message.id,
+      error: { code: error.code ?? -32603, message: error.message },
+    };
+  }
+}
+
+function serveStdio() {
+  createInterface({ input: process.stdin }).on('line', line => {
+    if (!line.trim()) return;
+    const reply = dispatch(JSON.parse(line));
+    if (reply) process.stdout.write(`${JSON.stringify(reply)}\n`);
+  });
+  log('listening on stdio');
+}
+
+function serveHttp(port, useSse) {
+  const sessionId = randomUUID();
+
+  createServer((req, res) => {
+    if (req.method === 'DELETE') {
+      res.writeHead(200).end();
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.writeHead(405).end();
+      return;
+    }
+
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const reply = dispatch(JSON.parse(body));
+      if (!reply) {
+        res.writeHead(202, { 'Mcp-Session-Id': sessionId }).end();
+        return;
+      }
+      if (useSse) {
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream',
+          'Mcp-Session-Id': sessionId,
+        });
+        res.end(`event: message\ndata: ${JSON.stringify(reply)}\n\n`);
+        return;
+      }
+      res.writeHead(200, {
+        'Content-Type': 'application/json',
+        'Mcp-Session-Id': sessionId,
+      });
+      res.end(JSON.stringify(reply));
+    });
+  }).listen(port, () =>
+    log(`listening on http://localhost:${port}/mcp${useSse ? ' (SSE)' : ''}`)
+  );
+}
+
+const httpIndex = process.argv.indexOf('--http');
+if (httpIndex === -1) {
+  serveStdio();
+} else {
+  serveHttp(
+    Number(process.argv[httpIndex + 1] || 3333),
+    process.argv.includes('--sse')
+  );
+}